@@ -6,13 +6,14 @@
  */
 
 import { execFile as nodeExecFile, spawn as nodeSpawn } from 'node:child_process';
+import { createHash } from 'node:crypto';
 import { once } from 'node:events';
 import { accessSync, constants as fsConstants } from 'node:fs';
 import { access, mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
 import type { IncomingMessage, ServerResponse } from 'node:http';
-import { createServer } from 'node:http';
+import { createServer, STATUS_CODES } from 'node:http';
 import { dirname, join, relative } from 'node:path';
-import { Readable } from 'node:stream';
+import { type Duplex, Readable } from 'node:stream';
 import { promisify } from 'node:util';
 
 const execFile = promisify(nodeExecFile);
@@ -125,8 +126,11 @@ function spawn(args: string[], opts?: SpawnOptions) {
 // ─── Bun.serve() ───────────────────────────────────────────
 // Bridges Bun.serve's route-based API to Node's http.createServer.
 // Handlers already use standard Request/Response (global in Node 18+).
+// Parameterized routes (`/jobs/:id`) set `req.params`, like BunRequest.
+// Handlers receive the server as their second argument; `server.upgrade()`
+// hands a request to the `websocket` handlers (see below).
 
-type RouteHandler = (req: Request) => Response | Promise<Response>;
+type RouteHandler = (req: Request, server: ServeServer) => Response | undefined | Promise<Response | undefined>;
 type RouteEntry = Response | RouteHandler | Record<string, RouteHandler>;
 
 interface ServeConfig {
@@ -134,54 +138,130 @@ interface ServeConfig {
 	routes?: Record<string, RouteEntry>;
 	fetch?: (req: Request) => Response | Promise<Response>;
 	error?: (error: Error) => Response;
+	websocket?: WebSocketConfig;
+}
+
+/** Options of `server.upgrade()`: `ws.data`, and extra handshake response headers. */
+interface UpgradeOptions {
+	data?: unknown;
+	headers?: ConstructorParameters<typeof Headers>[0];
+}
+
+/** The subset of Bun's `Server` passed to handlers and returned by `serve()`. */
+interface ServeServer {
+	url: URL;
+	upgrade(req: Request, options?: UpgradeOptions): boolean;
+}
+
+/**
+ * Find the route for a path: an exact match first, then a `:param` pattern
+ * with the same number of segments.
+ */
+function matchRoute(
+	routes: Record<string, RouteEntry>,
+	pathname: string,
+): { route: RouteEntry; params: Record<string, string> } | undefined {
+	const exact = routes[pathname];
+	if (exact) return { route: exact, params: {} };
+
+	const segments = pathname.split('/');
+	for (const [pattern, route] of Object.entries(routes)) {
+		const parts = pattern.split('/');
+		if (!pattern.includes(':') || parts.length !== segments.length) continue;
+		const params: Record<string, string> = {};
+		const matches = parts.every((part, i) => {
+			const segment = segments[i] ?? '';
+			if (!part.startsWith(':')) return part === segment;
+			if (!segment) return false;
+			params[part.slice(1)] = decodeURIComponent(segment);
+			return true;
+		});
+		if (matches) return { route, params };
+	}
+	return undefined;
+}
+
+/** Build a Web Request from a Node request (`body` is omitted for upgrade requests). */
+function toRequest(nodeReq: IncomingMessage, port: number, signal: AbortSignal, withBody: boolean): Request {
+	const url = new URL(nodeReq.url ?? '/', `http://${nodeReq.headers.host ?? `localhost:${port}`}`);
+	const method = nodeReq.method ?? 'GET';
+
+	const headers = new Headers();
+	for (const [key, val] of Object.entries(nodeReq.headers)) {
+		if (val != null) headers.set(key, Array.isArray(val) ? val.join(', ') : val);
+	}
+
+	const hasBody = withBody && method !== 'GET' && method !== 'HEAD';
+	return new Request(url.toString(), {
+		method,
+		headers,
+		signal,
+		body: hasBody ? (Readable.toWeb(nodeReq) as ReadableStream) : null,
+		duplex: hasBody ? 'half' : undefined,
+	});
 }
 
 function serve(config: ServeConfig) {
 	const port = config.port ?? 3000;
 
-	const server = createServer(async (nodeReq: IncomingMessage, nodeRes: ServerResponse) => {
-		try {
-			const url = new URL(nodeReq.url ?? '/', `http://${nodeReq.headers.host ?? `localhost:${port}`}`);
-			const method = nodeReq.method ?? 'GET';
+	// Requests arriving as HTTP upgrades, and the `upgrade()` options of those a handler accepted
+	const upgradable = new WeakSet<Request>();
+	const upgrades = new WeakMap<Request, UpgradeOptions>();
+	const bunServer: ServeServer = {
+		url: new URL(`http://localhost:${port}/`),
+		upgrade(req, options = {}) {
+			if (!config.websocket || !upgradable.has(req) || !req.headers.get('sec-websocket-key')) return false;
+			upgrades.set(req, options);
+			return true;
+		},
+	};
 
-			const headers = new Headers();
-			for (const [key, val] of Object.entries(nodeReq.headers)) {
-				if (val != null) headers.set(key, Array.isArray(val) ? val.join(', ') : val);
+	// Route a request; `undefined` when nothing responded (or the handler upgraded it)
+	const handle = async (request: Request): Promise<Response | undefined> => {
+		const matched = config.routes ? matchRoute(config.routes, new URL(request.url).pathname) : undefined;
+		if (matched) {
+			const { route, params } = matched;
+			Object.assign(request, { params });
+			if (route instanceof Response) {
+				// Static responses must be cloned (body is consumed on read)
+				return route.clone() as Response;
 			}
-
-			const hasBody = method !== 'GET' && method !== 'HEAD';
-			const request = new Request(url.toString(), {
-				method,
-				headers,
-				body: hasBody ? (Readable.toWeb(nodeReq) as ReadableStream) : null,
-				duplex: hasBody ? 'half' : undefined,
-			});
-
-			let response: Response | undefined;
-
-			// Match route
-			if (config.routes) {
-				const route = config.routes[url.pathname];
-				if (route instanceof Response) {
-					// Static responses must be cloned (body is consumed on read)
-					response = route.clone() as Response;
-				} else if (typeof route === 'function') {
-					response = await (route as RouteHandler)(request);
-				} else if (route && typeof route === 'object') {
-					const handler = (route as Record<string, RouteHandler>)[method];
-					if (typeof handler === 'function') {
-						response = await handler(request);
-					}
+			if (typeof route === 'function') {
+				return (route as RouteHandler)(request, bunServer);
+			}
+			if (route && typeof route === 'object') {
+				const handler = (route as Record<string, RouteHandler>)[request.method];
+				if (typeof handler === 'function') {
+					const response = await handler(request, bunServer);
+					if (response || upgrades.has(request)) return response;
 				}
 			}
+		}
+		// Fallback handler
+		return config.fetch ? config.fetch(request) : undefined;
+	};
 
-			// Fallback handler
-			if (!response && config.fetch) {
-				response = await config.fetch(request);
-			}
-			if (!response) {
-				response = new Response('Not Found', { status: 404 });
+	const errorResponse = (err: unknown): Response => {
+		if (config.error) {
+			try {
+				return config.error(err instanceof Error ? err : new Error(String(err)));
+			} catch {
+				/* fall through to generic 500 */
 			}
+		}
+		return new Response('Internal Server Error', { status: 500 });
+	};
+
+	const server = createServer(async (nodeReq: IncomingMessage, nodeRes: ServerResponse) => {
+		try {
+			// Abort request.signal when the client disconnects before the response is sent, like Bun
+			const abort = new AbortController();
+			nodeRes.on('close', () => {
+				if (!nodeRes.writableFinished) abort.abort();
+			});
+
+			const request = toRequest(nodeReq, port, abort.signal, true);
+			const response: Response = (await handle(request)) ?? new Response('Not Found', { status: 404 });
 
 			// Write Web Response → Node ServerResponse
 			nodeRes.writeHead(response.status, Object.fromEntries(response.headers.entries()));
@@ -206,19 +286,40 @@ function serve(config: ServeConfig) {
 				nodeRes.end();
 			}
 		} catch (err) {
-			if (config.error) {
-				try {
-					const errResponse = config.error(err instanceof Error ? err : new Error(String(err)));
-					nodeRes.writeHead(errResponse.status, Object.fromEntries(errResponse.headers.entries()));
-					nodeRes.end(await errResponse.text());
-					return;
-				} catch {
-					/* fall through to generic 500 */
-				}
+			if (nodeRes.headersSent) {
+				nodeRes.end();
+				return;
+			}
+			const errResponse = errorResponse(err);
+			nodeRes.writeHead(errResponse.status, Object.fromEntries(errResponse.headers.entries()));
+			nodeRes.end(await errResponse.text());
+		}
+	});
+
+	// Requests with an `Upgrade` header bypass the request listener
+	server.on('upgrade', async (nodeReq: IncomingMessage, socket: Duplex, head: Buffer) => {
+		const abort = new AbortController();
+		socket.on('close', () => abort.abort());
+		let response: Response | undefined;
+		try {
+			const request = toRequest(nodeReq, port, abort.signal, false);
+			upgradable.add(request);
+			response = await handle(request);
+			const upgrade = upgrades.get(request);
+			if (upgrade && config.websocket) {
+				acceptWebSocket(nodeReq, socket, head, upgrade, config.websocket);
+				return;
 			}
-			nodeRes.writeHead(500);
-			nodeRes.end('Internal Server Error');
+		} catch (err) {
+			response = errorResponse(err);
 		}
+		// Not upgraded: answer over the raw socket
+		response ??= new Response('Not Found', { status: 404 });
+		const body = Buffer.from(await response.arrayBuffer());
+		const lines = [`HTTP/1.1 ${response.status} ${STATUS_CODES[response.status] ?? ''}`];
+		for (const [key, value] of response.headers) lines.push(`${key}: ${value}`);
+		lines.push(`content-length: ${body.length}`, 'connection: close', '', '');
+		socket.end(Buffer.concat([Buffer.from(lines.join('\r\n')), body]));
 	});
 
 	server.on('error', (err) => {
@@ -231,8 +332,213 @@ function serve(config: ServeConfig) {
 	});
 
 	server.listen(port);
-	const url = new URL(`http://localhost:${port}/`);
-	return { url };
+	return bunServer;
+}
+
+// ─── WebSockets (Bun.serve `websocket`) ────────────────────
+// Minimal RFC 6455 server: handshake, text/binary messages (fragmented or
+// not), ping/pong, and close. No extensions (permessage-deflate) and no
+// idle timeout. Covers the ServerWebSocket subset the server uses.
+
+interface WebSocketConfig {
+	/** Largest message accepted, in bytes; larger ones close the connection with 1009. @default 16 MB */
+	maxPayloadLength?: number;
+	open?(ws: PolyfillWebSocket): void | Promise<void>;
+	message(ws: PolyfillWebSocket, message: string | Buffer): void | Promise<void>;
+	close?(ws: PolyfillWebSocket, code: number, reason: string): void | Promise<void>;
+}
+
+interface PolyfillWebSocket {
+	data: unknown;
+	/** 1 = open, 2 = closing, 3 = closed. */
+	readonly readyState: number;
+	/** Send a text (string) or binary message; returns the bytes sent, or 0 once closed. */
+	send(message: string | ArrayBuffer | ArrayBufferView): number;
+	close(code?: number, reason?: string): void;
+	terminate(): void;
+}
+
+/** Key suffix for `Sec-WebSocket-Accept` (RFC 6455 §1.3). */
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const WS_OPCODE = { continuation: 0x0, text: 0x1, binary: 0x2, close: 0x8, ping: 0x9, pong: 0xa } as const;
+
+/** Complete the handshake on an upgraded socket and drive the `websocket` handlers. */
+function acceptWebSocket(
+	nodeReq: IncomingMessage,
+	socket: Duplex,
+	head: Buffer,
+	upgrade: UpgradeOptions,
+	config: WebSocketConfig,
+): void {
+	const maxPayload = config.maxPayloadLength ?? 16 * 1024 * 1024;
+	const key = String(nodeReq.headers['sec-websocket-key']);
+	const accept = createHash('sha1')
+		.update(key + WS_GUID)
+		.digest('base64');
+	const lines = ['HTTP/1.1 101 Switching Protocols', 'Upgrade: websocket', 'Connection: Upgrade'];
+	lines.push(`Sec-WebSocket-Accept: ${accept}`);
+	for (const [name, value] of new Headers(upgrade.headers)) lines.push(`${name}: ${value}`);
+	socket.write(`${lines.join('\r\n')}\r\n\r\n`);
+
+	let readyState = 1;
+	let closeCode = 1006;
+	let closeReason = '';
+
+	const writeFrame = (opcode: number, payload: Buffer): void => {
+		const length = payload.byteLength;
+		const header = Buffer.alloc(length < 126 ? 2 : length < 65536 ? 4 : 10);
+		header[0] = 0x80 | opcode;
+		if (length < 126) {
+			header[1] = length;
+		} else if (length < 65536) {
+			header[1] = 126;
+			header.writeUInt16BE(length, 2);
+		} else {
+			header[1] = 127;
+			header.writeBigUInt64BE(BigInt(length), 2);
+		}
+		socket.write(header);
+		if (length > 0) socket.write(payload);
+	};
+
+	const ws: PolyfillWebSocket = {
+		data: upgrade.data,
+		get readyState() {
+			return readyState;
+		},
+		send(message) {
+			if (readyState !== 1) return 0;
+			const isText = typeof message === 'string';
+			const payload = isText
+				? Buffer.from(message)
+				: message instanceof ArrayBuffer
+					? Buffer.from(message)
+					: Buffer.from(message.buffer, message.byteOffset, message.byteLength);
+			writeFrame(isText ? WS_OPCODE.text : WS_OPCODE.binary, payload);
+			return payload.byteLength;
+		},
+		close(code = 1000, reason = '') {
+			if (readyState !== 1) return;
+			readyState = 2;
+			closeCode = code;
+			closeReason = reason;
+			const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+			payload.writeUInt16BE(code, 0);
+			payload.write(reason, 2);
+			writeFrame(WS_OPCODE.close, payload);
+			socket.end();
+		},
+		terminate() {
+			socket.destroy();
+		},
+	};
+
+	// Incoming bytes are kept as a chunk list and joined once per frame, so
+	// large (multi-chunk) messages are not re-copied on every chunk
+	let chunks: Buffer[] = [];
+	let buffered = 0;
+	let fragments: Buffer[] = [];
+	let fragmentsLength = 0;
+	let fragmentOpcode: number = WS_OPCODE.binary;
+
+	const peek = (length: number): Buffer => {
+		const first = chunks[0];
+		if (first && first.length >= length) return first;
+		const all = Buffer.concat(chunks);
+		chunks = [all];
+		return all;
+	};
+	const take = (length: number): Buffer => {
+		const first = chunks[0];
+		const all = first && chunks.length === 1 ? first : Buffer.concat(chunks);
+		chunks = all.length > length ? [all.subarray(length)] : [];
+		buffered -= length;
+		return all.subarray(0, length);
+	};
+
+	const onMessage = (opcode: number, payload: Buffer): void => {
+		const message = opcode === WS_OPCODE.text ? payload.toString('utf8') : payload;
+		Promise.resolve(config.message(ws, message)).catch((err) => console.error('WebSocket handler error:', err));
+	};
+
+	const onFrame = (fin: boolean, opcode: number, payload: Buffer): void => {
+		switch (opcode) {
+			case WS_OPCODE.ping:
+				if (readyState === 1) writeFrame(WS_OPCODE.pong, payload);
+				return;
+			case WS_OPCODE.pong:
+				return;
+			case WS_OPCODE.close:
+				if (readyState === 1) {
+					const code = payload.length >= 2 ? payload.readUInt16BE(0) : 1005;
+					ws.close(code === 1005 ? 1000 : code, payload.subarray(2).toString('utf8'));
+					closeCode = code;
+				}
+				return;
+			case WS_OPCODE.continuation:
+				fragments.push(payload);
+				break;
+			default:
+				fragmentOpcode = opcode;
+				fragments = [payload];
+		}
+		if (!fin) return;
+		const first = fragments[0];
+		const message = first && fragments.length === 1 ? first : Buffer.concat(fragments);
+		fragments = [];
+		fragmentsLength = 0;
+		onMessage(fragmentOpcode, message);
+	};
+
+	const onData = (chunk: Buffer): void => {
+		chunks.push(chunk);
+		buffered += chunk.length;
+		while (readyState === 1 && buffered >= 2) {
+			const header = peek(Math.min(buffered, 14));
+			const fin = ((header[0] ?? 0) & 0x80) !== 0;
+			const opcode = (header[0] ?? 0) & 0x0f;
+			let length = (header[1] ?? 0) & 0x7f;
+			let offset = 2;
+			if (length === 126) {
+				if (buffered < 4) return;
+				length = header.readUInt16BE(2);
+				offset = 4;
+			} else if (length === 127) {
+				if (buffered < 10) return;
+				length = Number(header.readBigUInt64BE(2));
+				offset = 10;
+			}
+			if (((header[1] ?? 0) & 0x80) === 0) {
+				// Client frames must be masked
+				ws.close(1002, 'Unmasked frame');
+				return;
+			}
+			if (opcode < WS_OPCODE.close && fragmentsLength + length > maxPayload) {
+				ws.close(1009, 'Message too big');
+				return;
+			}
+			if (buffered < offset + 4 + length) return;
+
+			const frame = take(offset + 4 + length);
+			const mask = frame.subarray(offset, offset + 4);
+			const payload = Buffer.from(frame.subarray(offset + 4));
+			for (let i = 0; i < payload.length; i++) payload[i] = (payload[i] ?? 0) ^ (mask[i & 3] ?? 0);
+			if (opcode < WS_OPCODE.close) fragmentsLength += length;
+			onFrame(fin, opcode, payload);
+		}
+	};
+
+	socket.on('close', () => {
+		readyState = 3;
+		Promise.resolve(config.close?.(ws, closeCode, closeReason)).catch((err) =>
+			console.error('WebSocket handler error:', err),
+		);
+	});
+	socket.on('error', () => socket.destroy());
+	socket.on('data', onData);
+	Promise.resolve(config.open?.(ws)).catch((err) => console.error('WebSocket handler error:', err));
+	if (head.length > 0) onData(head);
 }
 
 // ─── Bun.which() ───────────────────────────────────────────
@@ -2,36 +2,78 @@
 /**
  * CLI entry point for `glb-compress`.
  *
- * Compresses one or more GLB files using the core library pipeline.
+ * Compresses one or more GLB or glTF files using the core library pipeline, or
+ * reports their contents without compressing (`glb-compress inspect`).
+ * `.gltf` inputs have their external buffers and textures resolved from the
+ * file's directory and are written out as a single compressed GLB.
  * Supports glob patterns, configurable presets, optional mesh simplification,
- * quiet mode for scripting, and custom output directories.
+ * quiet mode for scripting, and custom output directories. Several files are
+ * compressed in parallel on a pool of worker threads (`-j`). Ctrl-C stops the
+ * running compressions and skips the remaining files. With `--cache-dir`,
+ * results are reused for unchanged inputs and options.
  *
  * @example
  * ```sh
  * glb-compress model.glb -p aggressive -o ./out/
  * glb-compress *.glb -s 0.5 -f -q
+ * glb-compress inspect model.glb --json
  * ```
  *
  * @module cli
  */
 
 import { mkdir } from 'node:fs/promises';
-import { basename, join, resolve } from 'node:path';
+import { availableParallelism } from 'node:os';
+import { basename, dirname, join, resolve } from 'node:path';
 import { parseArgs } from 'node:util';
+import { isMainThread } from 'node:worker_threads';
 import { Glob } from 'bun';
 import { version } from 'pkg';
 import {
+	AUTO_PRESET,
+	BYTE_CATEGORIES,
+	type BreakdownReport,
+	COMPRESS_BACKENDS,
+	type AnimationSelection,
+	type CompressBackend,
+	type CompressCache,
+	type CompressorPool,
 	type CompressPreset,
+	type CompressReport,
+	type CompressResult,
+	CompressionCancelledError,
+	clipFilenames,
 	compress,
+	compressFile,
+	createCompressorPool,
+	createFileCache,
+	detectInputFormat,
+	formatBudgetFailure,
+	formatBudgetSettings,
 	formatBytes,
+	formatQuality,
+	getPreset,
+	type InspectReport,
 	init,
-	PRESETS,
+	inspectFile,
+	LOD_OUTPUTS,
+	type LodOutput,
+	listPresets,
+	loadConfig,
+	PIPELINE_STAGES,
+	type PipelineOptions,
+	parseAnimationSelection,
+	parseByteSize,
+	parseLodList,
+	parsePipelineOptions,
 	parseSimplifyRatio,
+	parseTolerance,
+	type QualityTolerance,
+	resolveLodLevels,
+	resolvePipeline,
 	validateGlbMagic,
 } from '$lib/mod';
 
-const VALID_PRESETS = Object.keys(PRESETS) as CompressPreset[];
-
 /** ANSI escape codes for colored terminal output (disabled when not a TTY). */
 const useColor = process.stdout.isTTY ?? false;
 const c = useColor
@@ -66,15 +108,36 @@ ${c.bold}${c.cyan}glb-compress${c.reset} - Compress GLB/glTF files
 ${c.bold}USAGE${c.reset}
   glb-compress <files...> [options]
   glb-compress ./models/*.glb -o ./compressed/
+  glb-compress inspect <files...> [--json]   Report contents without compressing
 
 ${c.bold}ARGUMENTS${c.reset}
-  files         GLB files to compress (supports glob patterns)
+  files         GLB/glTF files to compress (supports glob patterns)
+                .gltf resources (.bin, textures) are read from the file's directory
 
 ${c.bold}OPTIONS${c.reset}
   -o, --output <dir>    Output directory (default: same as input with -compressed suffix)
   -p, --preset <name>   Compression preset (default: "default")
+      --tolerance <t>   Error limits for -p auto (e.g. geometry:0.001,translation:0.001,rotation:1)
+  -b, --backend <name>  Encoder backend: ${COMPRESS_BACKENDS.join(', ')} (default: "auto")
+  -c, --config <path>   Config file with custom presets (default: nearest glb-compressor.config.(ts|json))
   -s, --simplify <0-1>  Additional mesh simplification ratio (e.g., 0.5 = 50%)
+      --max-size <size> Size budget (e.g. 3MB): escalate preset, texture size, animation rate,
+                        and simplification until the output fits; fails if it cannot
+      --lods <ratios>   Generate a LOD chain (comma-separated, decreasing, e.g. 1,0.5,0.25,0.1)
+      --lod-output <m>  LOD output: msft_lod (one GLB) or files (<name>.lod0.glb ... lodN.glb)
+      --keep-anims <n>  Keep only these animation clips (comma-separated names or /regex/)
+      --drop-anims <n>  Drop these animation clips (comma-separated names or /regex/)
+      --rename-anim <r> Rename an animation clip (old=new), repeatable
+      --trim-anims <t>  Trim animation clips to a time range in seconds (start:end, e.g. 0.5:2)
+      --split-anims     Write each animation clip to its own GLB (<name>.<clip>.glb) with the skeleton
+      --skip <stages>   Skip pipeline stages (comma-separated: ${PIPELINE_STAGES.join(', ')})
+      --set <key=value> Set a pipeline option, repeatable (e.g. cleanup.flatten=false)
+  -j, --jobs <n>        Files compressed in parallel on worker threads (default: CPU count)
+      --cache-dir <dir> Reuse results cached in <dir> for unchanged files and options
   -q, --quiet           Suppress progress output
+      --verify          Compare output to input: surface distance, joint error, texture PSNR/SSIM
+      --breakdown       Show the bytes spent on geometry, animation, textures, and JSON, before and after
+      --json            Print per-file results with compression reports as JSON (implies -q)
   -f, --force           Overwrite existing files
   -h, --help            Show this help
   -v, --version         Show version
@@ -84,6 +147,8 @@ ${c.bold}PRESETS${c.reset}
   balanced      Moderate anim quantization, 24Hz resample
   aggressive    Strong anim quantization, 15Hz resample (best for avatars)
   max           Aggressive + supercompression + lower vertex precision
+  auto          Smallest of the above within --tolerance (geometry/joint error)
+  <custom>      Any preset defined in the config file
 
 ${c.bold}EXAMPLES${c.reset}
   ${c.dim}# Compress single file${c.reset}
@@ -95,8 +160,44 @@ ${c.bold}EXAMPLES${c.reset}
   ${c.dim}# Compress multiple files to output directory${c.reset}
   glb-compress *.glb -o ./compressed/ -p balanced
 
+  ${c.dim}# Compress a folder, four files at a time${c.reset}
+  glb-compress ./models/*.glb -o ./compressed/ -j 4
+
   ${c.dim}# Quiet mode for scripts${c.reset}
   glb-compress model.glb -q -p max
+
+  ${c.dim}# Keep the node hierarchy and skip texture re-encoding${c.reset}
+  glb-compress scene.glb --set cleanup.flatten=false --set cleanup.join=false --skip textures
+
+  ${c.dim}# Draco output for viewers without meshopt support${c.reset}
+  glb-compress model.glb -b draco
+
+  ${c.dim}# LOD chain as sibling files${c.reset}
+  glb-compress model.glb --lods 1,0.5,0.25,0.1 --lod-output files
+
+  ${c.dim}# Ship two clips, renamed, each in its own file next to the model${c.reset}
+  glb-compress avatar.glb --keep-anims Idle,/^Walk/ --rename-anim Idle=idle --split-anims
+
+  ${c.dim}# Smallest preset that moves the surface by at most 0.05% of the model size${c.reset}
+  glb-compress model.glb -p auto --tolerance geometry:0.0005
+
+  ${c.dim}# Fit an avatar into a 3 MB budget${c.reset}
+  glb-compress avatar.glb --max-size 3MB
+
+  ${c.dim}# Check how much the aggressive preset changed the model${c.reset}
+  glb-compress avatar.glb -p aggressive --verify
+
+  ${c.dim}# Which data dominates the output: geometry, animation clips, or textures${c.reset}
+  glb-compress avatar.glb --breakdown
+
+  ${c.dim}# Only recompress what changed since the last build${c.reset}
+  glb-compress ./models/*.glb -o ./compressed/ -f --cache-dir .glb-cache
+
+  ${c.dim}# Machine-readable pipeline report${c.reset}
+  glb-compress model.glb --json > report.json
+
+  ${c.dim}# Meshes, skins, animations, textures, and where the bytes go${c.reset}
+  glb-compress inspect avatar.glb
 `);
 }
 
@@ -106,128 +207,496 @@ interface Options {
 	output?: string;
 	/** Mesh simplification ratio in `(0, 1)`, or `undefined` to skip. */
 	simplify?: number;
+	/** Size budget in bytes, or `undefined` for none. */
+	targetBytes?: number;
+	/** Per-phase pipeline options from `--set` / `--skip`. */
+	pipeline: PipelineOptions;
+	/** LOD chain ratios, or `undefined` to skip. */
+	lods?: number[];
+	/** How the LOD chain is written. */
+	lodOutput: LodOutput;
+	/** Animation clips to keep, drop, rename, and trim, or `undefined` for all of them as-is. */
+	animations?: AnimationSelection;
+	/** Write each animation clip to its own GLB. */
+	splitAnimations: boolean;
 	/** Named compression preset. */
 	preset: CompressPreset;
+	/** Error limits for the `auto` preset. */
+	tolerance?: QualityTolerance;
+	/** Final encoder backend. */
+	backend: CompressBackend;
 	/** Suppress all progress output. */
 	quiet: boolean;
 	/** Overwrite existing output files without prompting. */
 	force: boolean;
+	/** Print a JSON summary (with compression reports) instead of progress output. */
+	json: boolean;
+	/** Measure output quality against the input (`report.quality`). */
+	verify: boolean;
+	/** Attribute the bytes of input and output (`report.breakdown`). */
+	breakdown: boolean;
+	/** Result cache from `--cache-dir`, or `undefined` for none. */
+	cache?: CompressCache;
+	/** Aborted on Ctrl-C. */
+	signal: AbortSignal;
+}
+
+/** Outcome of compressing a single file, as printed by `--json`. */
+interface FileResult {
+	/** Absolute input path. */
+	input: string;
+	/** Output path, when compression succeeded (level 0 for `--lod-output files`). */
+	output?: string;
+	/** Per-level output paths for `--lod-output files`. */
+	lods?: string[];
+	/** Per-clip output paths for `--split-anims`. */
+	clips?: string[];
+	success: boolean;
+	error?: string;
+	/** Set when Ctrl-C stopped this file's compression. */
+	cancelled?: true;
+	/** Structured pipeline report, when compression ran (also for a missed size budget). */
+	report?: CompressReport;
+	/** Whether the output came from `--cache-dir`; unset without a cache. */
+	cache?: 'hit' | 'miss';
 }
 
 /**
- * Compress a single GLB file and write the result to disk.
+ * Compress a single GLB or glTF file and write the result to disk.
  *
  * Resolves the output path (same dir or `--output` dir), validates the input,
  * runs the compression pipeline, and writes the compressed GLB. Prints progress
  * and results to stdout unless `quiet` is set.
  *
- * @param inputPath - Absolute path to the input `.glb` file.
+ * @param inputPath - Absolute path to the input `.glb` or `.gltf` file.
  * @param options   - Parsed CLI options.
- * @returns `{ success: true }` or `{ success: false, error: string }`.
+ * @param pool      - Worker pool for parallel batches; omit to compress on the main thread.
+ * @returns A {@link FileResult} with the output path and report, or the error message.
  */
-async function compressFile(inputPath: string, options: Options): Promise<{ success: boolean; error?: string }> {
+async function processFile(inputPath: string, options: Options, pool?: CompressorPool): Promise<FileResult> {
 	const { output, simplify, quiet, force } = options;
-
-	// Determine output path
-	let outputPath: string;
-	if (output) {
-		outputPath = join(output, basename(inputPath).replace(/\.(glb|gltf)$/i, '-compressed.glb'));
-	} else {
-		outputPath = inputPath.replace(/\.(glb|gltf)$/i, '-compressed.glb');
-	}
+	const lodFiles: boolean = options.lods !== undefined && options.lodOutput === 'files';
+
+	// Determine output path(s): <name>-compressed.glb, or <name>.lod0.glb ... lodN.glb
+	const suffix = (i: number): string => (lodFiles ? `.lod${i}.glb` : '-compressed.glb');
+	const outputPaths: string[] = Array.from({ length: lodFiles ? (options.lods?.length ?? 0) : 1 }, (_, i) =>
+		output
+			? join(output, basename(inputPath).replace(/\.(glb|gltf)$/i, suffix(i)))
+			: inputPath.replace(/\.(glb|gltf)$/i, suffix(i)),
+	);
+	const [outputPath] = outputPaths;
+	if (outputPath === undefined) throw new Error(`No output path for ${inputPath}`);
 
 	// Guard against overwriting the input when the extension doesn't match .glb/.gltf
 	if (resolve(outputPath) === resolve(inputPath)) {
 		return {
+			input: inputPath,
 			success: false,
 			error: `Output path is the same as input (non-standard extension?): ${inputPath}`,
 		};
 	}
 
 	// Check if output exists
-	if (!force && (await Bun.file(outputPath).exists())) {
-		return {
-			success: false,
-			error: `Output file exists: ${outputPath} (use -f to overwrite)`,
-		};
+	for (const path of outputPaths) {
+		if (!force && (await Bun.file(path).exists())) {
+			return {
+				input: inputPath,
+				success: false,
+				error: `Output file exists: ${path} (use -f to overwrite)`,
+			};
+		}
 	}
 
 	// Read input file
 	const inputFile = Bun.file(inputPath);
 	if (!(await inputFile.exists())) {
-		return { success: false, error: `File not found: ${inputPath}` };
+		return { input: inputPath, success: false, error: `File not found: ${inputPath}` };
 	}
 
 	const input = await inputFile.bytes();
-
-	// Validate GLB
-	try {
-		validateGlbMagic(input);
-	} catch (err) {
-		return {
-			success: false,
-			error: err instanceof Error ? err.message : 'Invalid GLB file',
-		};
+	// Captured up front: a worker pool takes over (detaches) the input buffer
+	const inputSize: number = input.byteLength;
+	const isGltf = detectInputFormat(input) === 'gltf';
+
+	// Validate GLB (JSON glTF is validated when its resources are resolved)
+	if (!isGltf) {
+		try {
+			validateGlbMagic(input);
+		} catch (err) {
+			return {
+				input: inputPath,
+				success: false,
+				error: err instanceof Error ? err.message : 'Invalid GLB file',
+			};
+		}
 	}
 
 	const startTime = performance.now();
+	// Parallel files print their status on a line of its own, naming the file
+	const status = (text: string): string => (pool ? `${text} ${basename(inputPath)}` : ` ${text}`);
 
 	if (!quiet) {
-		process.stdout.write(
-			`${c.cyan}Compressing${c.reset} ${basename(inputPath)} ${c.dim}(${formatBytes(input.byteLength)})${c.reset}...`,
-		);
+		const line: string = `${c.cyan}Compressing${c.reset} ${basename(inputPath)} ${c.dim}(${formatBytes(inputSize)})${c.reset}`;
+		if (pool) console.log(line);
+		else process.stdout.write(`${line}...`);
 	}
 
 	try {
-		const result = await compress(input, {
+		const compressOptions = {
 			simplifyRatio: simplify,
 			preset: options.preset,
+			tolerance: options.tolerance,
+			targetBytes: options.targetBytes,
+			backend: options.backend,
+			pipeline: options.pipeline,
+			lods: options.lods,
+			lodOutput: options.lodOutput,
+			animations: options.animations,
+			splitAnimations: options.splitAnimations,
+			verify: options.verify,
+			breakdown: options.breakdown,
+			cache: options.cache,
 			quiet,
-		});
+			signal: options.signal,
+		};
+		const result: CompressResult = pool
+			? await (isGltf ? pool.compressFile(inputPath, compressOptions) : pool.compress(input, compressOptions))
+			: await (isGltf ? compressFile(inputPath, compressOptions) : compress(input, compressOptions));
+		const originalSize = result.originalSize ?? inputSize;
+		const { budget } = result.report;
+		if (budget && !budget.met) {
+			if (!quiet) console.log(status(`${c.red}failed${c.reset}`));
+			return {
+				input: inputPath,
+				success: false,
+				error: formatBudgetFailure(budget),
+				report: result.report,
+				cache: result.cache,
+			};
+		}
+
+		// Split clips: <name>.<clip>.glb next to the output, named once the clips are known
+		const clips = result.clips ?? [];
+		const clipBase: string = basename(inputPath).replace(/\.(glb|gltf)$/i, '');
+		const clipPaths: string[] = clipFilenames(
+			clipBase,
+			clips.map((clip) => clip.name),
+		).map((filename) => join(output ?? dirname(inputPath), filename));
+		for (const path of clipPaths) {
+			if (!force && (await Bun.file(path).exists())) {
+				if (!quiet) console.log(status(`${c.red}failed${c.reset}`));
+				return { input: inputPath, success: false, error: `Output file exists: ${path} (use -f to overwrite)` };
+			}
+		}
 
 		// Write output (output directory already created by main())
-		await Bun.write(outputPath, result.buffer);
+		const lodBuffers: Uint8Array[] = result.lods?.map((lod) => lod.buffer) ?? [result.buffer];
+		for (const [i, path] of outputPaths.entries()) {
+			await Bun.write(path, lodBuffers[i] ?? new Uint8Array());
+		}
+		for (const [i, path] of clipPaths.entries()) {
+			await Bun.write(path, clips[i]?.buffer ?? new Uint8Array());
+		}
 
 		const elapsed = ((performance.now() - startTime) / 1000).toFixed(1);
-		const ratio = input.byteLength > 0 ? ((1 - result.buffer.byteLength / input.byteLength) * 100).toFixed(1) : '0.0';
+		const ratio = originalSize > 0 ? ((1 - result.buffer.byteLength / originalSize) * 100).toFixed(1) : '0.0';
 
 		if (!quiet) {
+			const cached: string = result.cache === 'hit' ? ` ${c.cyan}(cached)${c.reset}` : '';
 			console.log(
-				` ${c.green}done${c.reset} ${c.dim}(${elapsed}s)${c.reset}\n` +
-					`  ${formatBytes(input.byteLength)} -> ${c.bold}${formatBytes(result.buffer.byteLength)}${c.reset} ` +
+				`${status(`${c.green}done${c.reset}`)} ${c.dim}(${elapsed}s)${c.reset}${cached}\n` +
+					`  ${formatBytes(originalSize)} -> ${c.bold}${formatBytes(result.buffer.byteLength)}${c.reset} ` +
 					`${c.green}(-${ratio}%)${c.reset} via ${c.magenta}${result.method}${c.reset}\n` +
-					`  ${c.dim}-> ${outputPath}${c.reset}`,
+					outputPaths
+						.map((path, i) => {
+							const level: string = lodFiles ? ` (LOD ${i}: ${formatBytes(lodBuffers[i]?.byteLength ?? 0)})` : '';
+							return `  ${c.dim}-> ${path}${level}${c.reset}`;
+						})
+						.concat(
+							clipPaths.map(
+								(path, i) =>
+									`  ${c.dim}-> ${path} (clip "${clips[i]?.name}": ${formatBytes(clips[i]?.buffer.byteLength ?? 0)})${c.reset}`,
+							),
+						)
+						.join('\n'),
 			);
+			if (budget) {
+				const target: string = formatBytes(budget.targetBytes);
+				console.log(`  ${c.dim}budget:${c.reset} ≤${target} with ${formatBudgetSettings(budget.settings)}`);
+			}
+			const { auto } = result.report;
+			if (auto) {
+				const note: string = auto.withinTolerance ? '' : ` ${c.yellow}(none within tolerance)${c.reset}`;
+				console.log(`  ${c.dim}preset:${c.reset} ${auto.selected}${note}`);
+			}
+			if (result.report.quality) {
+				console.log(`  ${c.dim}quality:${c.reset} ${formatQuality(result.report.quality)}`);
+			}
+			if (result.report.breakdown) console.log(formatBreakdown(result.report.breakdown));
 		}
 
-		return { success: true };
+		return {
+			input: inputPath,
+			output: outputPath,
+			...(lodFiles ? { lods: outputPaths } : {}),
+			...(clipPaths.length > 0 ? { clips: clipPaths } : {}),
+			success: true,
+			report: result.report,
+			cache: result.cache,
+		};
 	} catch (err) {
+		if (err instanceof CompressionCancelledError) {
+			if (!quiet) console.log(status(`${c.yellow}cancelled${c.reset}`));
+			return { input: inputPath, success: false, error: err.message, cancelled: true };
+		}
 		if (!quiet) {
-			console.log(` ${c.red}failed${c.reset}`);
+			console.log(status(`${c.red}failed${c.reset}`));
 		}
 		return {
+			input: inputPath,
 			success: false,
 			error: err instanceof Error ? err.message : String(err),
 		};
 	}
 }
 
+/** Items of the output listed by {@link formatBreakdown}. */
+const BREAKDOWN_TOP_ITEMS = 5;
+
+/**
+ * Byte attribution before and after compression, as indented lines: each
+ * category's size and share of the file, then the output's largest meshes,
+ * animation clips, and images.
+ */
+function formatBreakdown(breakdown: BreakdownReport): string {
+	const { before, after } = breakdown;
+	const share = (bytes: number, size: number): string => (size > 0 ? ((bytes / size) * 100).toFixed(1) : '0.0');
+	const lines: string[] = [`  ${c.dim}bytes:${c.reset}`];
+	for (const category of BYTE_CATEGORIES) {
+		const from: number = before.categories[category];
+		const to: number = after.categories[category];
+		if (from === 0 && to === 0) continue;
+		lines.push(
+			`    ${cell(category, 11)}${cell(formatBytes(from), 11)}-> ${cell(formatBytes(to), 11)}` +
+				`${c.dim}${share(to, after.size)}% of output${c.reset}`,
+		);
+	}
+
+	const items = [
+		...after.meshes.map((item) => ({ kind: 'mesh', ...item })),
+		...after.animations.map((item) => ({ kind: 'clip', ...item })),
+		...after.textures.map((item) => ({ kind: 'image', ...item })),
+	]
+		.filter((item) => item.bytes > 0)
+		.sort((a, b) => b.bytes - a.bytes)
+		.slice(0, BREAKDOWN_TOP_ITEMS);
+	if (items.length > 0) lines.push(`  ${c.dim}largest:${c.reset}`);
+	for (const item of items) {
+		lines.push(
+			`    ${cell(item.kind, 7)}${cell(item.name || '(unnamed)', 24)}${cell(formatBytes(item.bytes), 11)}` +
+				`${c.dim}${share(item.bytes, after.size)}%${c.reset}`,
+		);
+	}
+	return lines.join('\n');
+}
+
+/** Expand glob patterns (relative to the working directory) and resolve plain paths to absolute ones. */
+async function expandFiles(patterns: string[]): Promise<string[]> {
+	const files: string[] = [];
+	for (const pattern of patterns) {
+		if (/[*?[\]{!]/.test(pattern)) {
+			const glob = new Glob(pattern);
+			for await (const file of glob.scan({
+				cwd: process.cwd(),
+				absolute: true,
+			})) {
+				files.push(file);
+			}
+		} else {
+			files.push(resolve(pattern));
+		}
+	}
+	return files;
+}
+
+/** Outcome of inspecting a single file, as printed by `inspect --json`. */
+interface InspectFileResult {
+	/** Absolute input path. */
+	input: string;
+	success: boolean;
+	error?: string;
+	report?: InspectReport;
+}
+
+/** Left-aligned table cell: `text` padded to `width`. */
+function cell(text: string, width: number): string {
+	return text.length >= width ? `${text} ` : text.padEnd(width);
+}
+
+/** Print an {@link InspectReport} as indented sections. */
+function printInspectReport(path: string, report: InspectReport): void {
+	const { stats } = report;
+	const flags: string = [report.format.toUpperCase(), formatBytes(report.size), report.skinned ? 'skinned' : '']
+		.filter(Boolean)
+		.join(', ');
+	const section = (title: string, count: number, detail: string = ''): void => {
+		console.log(`  ${c.bold}${cell(title, 12)}${c.reset}${count}${detail ? ` ${c.dim}(${detail})${c.reset}` : ''}`);
+	};
+	const name = (value: string): string => cell(value || '(unnamed)', 24);
+
+	console.log(`${c.cyan}${basename(path)}${c.reset} ${c.dim}${flags}${c.reset}`);
+	section(
+		'Meshes',
+		report.meshes.length,
+		`${stats.vertices.toLocaleString()} verts, ${stats.triangles.toLocaleString()} tris`,
+	);
+	for (const mesh of report.meshes) {
+		const morphs: string = mesh.morphTargets > 0 ? `, ${mesh.morphTargets} morph targets` : '';
+		console.log(
+			`    ${name(mesh.name)}${cell(`${mesh.vertices.toLocaleString()} verts`, 16)}` +
+				`${cell(`${mesh.triangles.toLocaleString()} tris`, 16)}${c.dim}${mesh.primitives} prim(s)${morphs}, ` +
+				`${mesh.attributes.join(' ')}${c.reset}`,
+		);
+	}
+	section('Skins', report.skins.length);
+	for (const skin of report.skins) {
+		console.log(`    ${name(skin.name)}${skin.joints} joints`);
+	}
+	const keyframes: number = report.animations.reduce((sum, clip) => sum + clip.keyframes, 0);
+	section('Animations', report.animations.length, keyframes ? `${keyframes.toLocaleString()} keyframes` : '');
+	for (const clip of report.animations) {
+		console.log(
+			`    ${name(clip.name)}${cell(`${clip.duration.toFixed(2)}s`, 10)}${cell(`${clip.channels} channels`, 14)}` +
+				`${clip.keyframes.toLocaleString()} keyframes`,
+		);
+	}
+	section('Materials', report.materials.length);
+	for (const material of report.materials) {
+		const sided: string = material.doubleSided ? ', double-sided' : '';
+		console.log(
+			`    ${name(material.name)}${c.dim}${material.alphaMode.toLowerCase()}${sided}` +
+				`${material.textures.length > 0 ? `: ${material.textures.join(' ')}` : ''}${c.reset}`,
+		);
+	}
+	section('Textures', report.textures.length);
+	for (const texture of report.textures) {
+		const size: string = texture.width && texture.height ? `${texture.width}x${texture.height}` : '?';
+		console.log(
+			`    ${name(texture.name)}${cell(texture.mimeType, 12)}${cell(size, 11)}${cell(formatBytes(texture.bytes), 11)}` +
+				`${c.dim}${texture.slots.join(' ')}${c.reset}`,
+		);
+	}
+	console.log(`  ${c.bold}${cell('Extensions', 12)}${c.reset}${report.extensionsUsed.join(', ') || 'none'}`);
+
+	console.log(`  ${c.bold}Bytes${c.reset}`);
+	for (const category of BYTE_CATEGORIES) {
+		const bytes: number = report.bytes[category];
+		if (bytes === 0) continue;
+		const share: string = ((bytes / report.size) * 100).toFixed(1);
+		console.log(`    ${cell(category, 12)}${cell(formatBytes(bytes), 11)}${c.dim}${share}%${c.reset}`);
+	}
+}
+
+/**
+ * `glb-compress inspect <files...> [--json]` — report each file's contents
+ * without compressing.
+ *
+ * Exit codes: `0` when every file was inspected, `1` otherwise.
+ */
+async function inspectMain(args: string[]): Promise<void> {
+	const { values, positionals } = parseArgs({
+		args,
+		options: {
+			json: { type: 'boolean', default: false },
+			help: { type: 'boolean', short: 'h', default: false },
+		},
+		allowPositionals: true,
+	});
+
+	if (values.help) {
+		printHelp();
+		process.exit(0);
+	}
+
+	// Reserve stdout for the JSON output
+	if (values.json) {
+		console.log = console.info = console.debug = console.error;
+	}
+
+	if (positionals.length === 0) {
+		console.error(`${c.red}Error:${c.reset} No input files specified\n`);
+		printHelp();
+		process.exit(1);
+	}
+
+	const files: string[] = await expandFiles(positionals);
+	if (files.length === 0) {
+		console.error(`${c.red}Error:${c.reset} No matching files found`);
+		process.exit(1);
+	}
+
+	await init();
+
+	const results: InspectFileResult[] = [];
+	for (const input of files) {
+		try {
+			const report: InspectReport = await inspectFile(input);
+			results.push({ input, success: true, report });
+			if (!values.json) {
+				console.log();
+				printInspectReport(input, report);
+			}
+		} catch (err) {
+			const error: string = err instanceof Error ? err.message : String(err);
+			results.push({ input, success: false, error });
+			if (!values.json) console.error(`\n${c.red}Error:${c.reset} ${basename(input)}: ${error}`);
+		}
+	}
+
+	if (values.json) {
+		process.stdout.write(`${JSON.stringify(results, null, 2)}\n`);
+	}
+	process.exit(results.every((result) => result.success) ? 0 : 1);
+}
+
 /**
- * CLI entry point — parses arguments, expands globs, and compresses each file sequentially.
+ * CLI entry point — parses arguments, expands globs, and compresses the files,
+ * several at a time on a worker pool when `--jobs` allows.
  *
  * Exit codes:
  * - `0` — all files compressed successfully.
  * - `1` — one or more files failed, or invalid arguments.
+ * - `130` — cancelled with Ctrl-C.
  */
 async function main() {
+	if (Bun.argv[2] === 'inspect') return inspectMain(Bun.argv.slice(3));
+
 	const { values, positionals } = parseArgs({
 		args: Bun.argv.slice(2),
 		options: {
 			output: { type: 'string', short: 'o' },
 			preset: { type: 'string', short: 'p' },
+			tolerance: { type: 'string' },
+			backend: { type: 'string', short: 'b' },
+			config: { type: 'string', short: 'c' },
 			simplify: { type: 'string', short: 's' },
+			'max-size': { type: 'string' },
+			lods: { type: 'string' },
+			'lod-output': { type: 'string' },
+			'keep-anims': { type: 'string', multiple: true },
+			'drop-anims': { type: 'string', multiple: true },
+			'rename-anim': { type: 'string', multiple: true },
+			'trim-anims': { type: 'string' },
+			'split-anims': { type: 'boolean', default: false },
+			skip: { type: 'string' },
+			set: { type: 'string', multiple: true },
+			jobs: { type: 'string', short: 'j' },
+			'cache-dir': { type: 'string' },
 			quiet: { type: 'boolean', short: 'q', default: false },
 			force: { type: 'boolean', short: 'f', default: false },
+			json: { type: 'boolean', default: false },
+			verify: { type: 'boolean', default: false },
+			breakdown: { type: 'boolean', default: false },
 			help: { type: 'boolean', short: 'h', default: false },
 			version: { type: 'boolean', short: 'v', default: false },
 		},
@@ -244,21 +713,67 @@ async function main() {
 		process.exit(0);
 	}
 
+	// Reserve stdout for the JSON summary: the pipeline and glTF-Transform log to stdout directly
+	if (values.json) {
+		console.log = console.info = console.debug = console.error;
+	}
+
 	if (positionals.length === 0) {
 		console.error(`${c.red}Error:${c.reset} No input files specified\n`);
 		printHelp();
 		process.exit(1);
 	}
 
-	// Parse preset — validate before casting
-	const rawPreset = values.preset ?? 'default';
-	if (!VALID_PRESETS.includes(rawPreset as CompressPreset)) {
+	// Load custom presets (explicit --config, or discovered from the working directory)
+	let configPath: string | null;
+	try {
+		configPath = await loadConfig(values.config);
+	} catch (err) {
+		console.error(`${c.red}Error:${c.reset} ${err instanceof Error ? err.message : String(err)}`);
+		process.exit(1);
+	}
+
+	// Parse preset
+	const preset: CompressPreset = values.preset ?? 'default';
+	const presetConfig = getPreset(preset === AUTO_PRESET ? 'default' : preset);
+	if (!presetConfig) {
+		console.error(
+			`${c.red}Error:${c.reset} Invalid preset: "${values.preset}" (must be one of: ${[...listPresets(), AUTO_PRESET].join(', ')})`,
+		);
+		process.exit(1);
+	}
+	let tolerance: QualityTolerance | undefined;
+	try {
+		tolerance = values.tolerance ? parseTolerance(values.tolerance) : undefined;
+	} catch (err) {
+		console.error(`${c.red}Error:${c.reset} ${err instanceof Error ? err.message : String(err)}`);
+		process.exit(1);
+	}
+
+	// Parse backend
+	const backend = COMPRESS_BACKENDS.find((name) => name === (values.backend ?? 'auto'));
+	if (!backend) {
 		console.error(
-			`${c.red}Error:${c.reset} Invalid preset: "${values.preset}" (must be one of: ${VALID_PRESETS.join(', ')})`,
+			`${c.red}Error:${c.reset} Invalid backend: "${values.backend}" (must be one of: ${COMPRESS_BACKENDS.join(', ')})`,
 		);
 		process.exit(1);
 	}
-	const preset = rawPreset as CompressPreset;
+
+	// Parse pipeline options (--set phase.option=value, --skip stage,...) and validate them up front
+	let pipeline: PipelineOptions;
+	try {
+		const entries: [string, string][] = (values.set ?? []).map((pair): [string, string] => {
+			const eq: number = pair.indexOf('=');
+			if (eq <= 0) throw new Error(`Invalid --set "${pair}" (expected <stage>.<option>=<value>)`);
+			return [pair.slice(0, eq), pair.slice(eq + 1)];
+		});
+		if (values.skip) entries.push(['skip', values.skip]);
+		pipeline = parsePipelineOptions(entries);
+		resolvePipeline(presetConfig, pipeline);
+	} catch (err) {
+		console.error(`${c.red}Error:${c.reset} ${err instanceof Error ? err.message : String(err)}`);
+		process.exit(1);
+	}
 
 	// Parse simplify ratio
 	const simplify = values.simplify ? parseSimplifyRatio(values.simplify) : undefined;
@@ -267,22 +782,68 @@ async function main() {
 		process.exit(1);
 	}
 
-	// Expand globs
-	const files: string[] = [];
-	for (const pattern of positionals) {
-		if (/[*?[\]{!]/.test(pattern)) {
-			const glob = new Glob(pattern);
-			for await (const file of glob.scan({
-				cwd: process.cwd(),
-				absolute: true,
-			})) {
-				files.push(file);
-			}
-		} else {
-			files.push(resolve(pattern));
+	// Parse size budget
+	const targetBytes: number | undefined = parseByteSize(values['max-size'] ?? null);
+	if (values['max-size'] && targetBytes === undefined) {
+		console.error(`${c.red}Error:${c.reset} Invalid size: ${values['max-size']} (e.g. 3MB, 512KB, 1048576)`);
+		process.exit(1);
+	}
+	if (targetBytes !== undefined && preset === AUTO_PRESET) {
+		console.error(`${c.red}Error:${c.reset} --max-size cannot be combined with -p auto`);
+		process.exit(1);
+	}
+
+	// Parse LOD chain
+	const lods: number[] | undefined = parseLodList(values.lods ?? null);
+	const lodOutput = LOD_OUTPUTS.find((name) => name === (values['lod-output'] ?? 'msft_lod'));
+	try {
+		if (lods) resolveLodLevels(lods);
+		if (!lodOutput) {
+			throw new Error(`Invalid LOD output: "${values['lod-output']}" (must be one of: ${LOD_OUTPUTS.join(', ')})`);
+		}
+	} catch (err) {
+		console.error(`${c.red}Error:${c.reset} ${err instanceof Error ? err.message : String(err)}`);
+		process.exit(1);
+	}
+
+	// Parse animation clip selection
+	let animations: AnimationSelection | undefined;
+	try {
+		animations = parseAnimationSelection({
+			keep: values['keep-anims'],
+			drop: values['drop-anims'],
+			rename: values['rename-anim'],
+			trim: values['trim-anims'],
+		});
+		if (values['split-anims'] && lods && lodOutput === 'files') {
+			throw new Error('--split-anims cannot be combined with --lod-output files');
+		}
+	} catch (err) {
+		console.error(`${c.red}Error:${c.reset} ${err instanceof Error ? err.message : String(err)}`);
+		process.exit(1);
+	}
+
+	// Parse parallelism
+	const jobs: number = values.jobs === undefined ? availableParallelism() : Number(values.jobs);
+	if (!Number.isInteger(jobs) || jobs < 1) {
+		console.error(`${c.red}Error:${c.reset} Invalid jobs: ${values.jobs} (must be a positive integer)`);
+		process.exit(1);
+	}
+
+	// Open the result cache
+	let cache: CompressCache | undefined;
+	if (values['cache-dir']) {
+		try {
+			cache = await createFileCache({ dir: resolve(values['cache-dir']) });
+		} catch (err) {
+			console.error(
+				`${c.red}Error:${c.reset} Cannot use cache directory: ${err instanceof Error ? err.message : String(err)}`,
+			);
+			process.exit(1);
 		}
 	}
 
+	const files: string[] = await expandFiles(positionals);
 	if (files.length === 0) {
 		console.error(`${c.red}Error:${c.reset} No matching files found`);
 		process.exit(1);
@@ -293,17 +854,43 @@ async function main() {
 		await mkdir(values.output, { recursive: true });
 	}
 
+	// Ctrl-C stops the running compressions (gltfpack included); a second one exits at once
+	const abort = new AbortController();
+	process.on('SIGINT', () => {
+		if (abort.signal.aborted) process.exit(130);
+		abort.abort();
+		if (!values.quiet && !values.json) console.log(`\n${c.yellow}Cancelling...${c.reset} (Ctrl-C again to exit now)`);
+	});
+
 	const options: Options = {
 		output: values.output,
 		simplify,
+		targetBytes,
+		pipeline,
+		lods,
+		lodOutput,
+		animations,
+		splitAnimations: values['split-anims'],
 		preset,
-		quiet: values.quiet,
+		tolerance,
+		backend,
+		quiet: values.quiet || values.json,
 		force: values.force,
+		json: values.json,
+		verify: values.verify,
+		breakdown: values.breakdown,
+		cache,
+		signal: abort.signal,
 	};
 
 	if (!options.quiet) {
 		console.log(`\n${c.bold}${c.cyan}glb-compress${c.reset} v${version}\n`);
+		if (configPath) console.log(`Config: ${c.dim}${configPath}${c.reset}`);
 		console.log(`Preset: ${c.bold}${preset}${c.reset}`);
+		if (backend !== 'auto') console.log(`Backend: ${c.bold}${backend}${c.reset}`);
+		if (targetBytes) console.log(`Max size: ${c.bold}${formatBytes(targetBytes)}${c.reset}`);
+		if (lods) console.log(`LODs: ${c.bold}${lods.join(', ')}${c.reset} (${lodOutput})`);
+		if (values['cache-dir']) console.log(`Cache: ${c.dim}${resolve(values['cache-dir'])}${c.reset}`);
 		console.log(`Processing ${c.bold}${files.length}${c.reset} file(s)...\n`);
 	}
 
@@ -312,17 +899,43 @@ async function main() {
 
 	let succeeded = 0;
 	let failed = 0;
-
-	for (const file of files) {
-		const result = await compressFile(file, options);
-		if (result.success) {
-			succeeded++;
-		} else {
-			failed++;
-			if (!options.quiet) {
-				console.error(`  ${c.red}Error:${c.reset} ${result.error}`);
+	const results: FileResult[] = [];
+
+	// A single file (or -j 1) runs on the main thread; batches share a worker pool
+	const workers: number = Math.min(jobs, files.length);
+	const pool: CompressorPool | undefined = workers > 1 ? createCompressorPool({ size: workers }) : undefined;
+	// One iterator shared by the workers, so each file is taken once
+	const queue = files.entries();
+	const runNext = async (): Promise<void> => {
+		for (const [i, file] of queue) {
+			if (abort.signal.aborted) break;
+			const result = await processFile(file, options, pool);
+			results[i] = result;
+			if (result.success) {
+				succeeded++;
+			} else if (!result.cancelled) {
+				failed++;
+				if (!options.quiet) {
+					console.error(`  ${c.red}Error:${c.reset} ${result.error}`);
+				}
 			}
 		}
+	};
+	await Promise.all(Array.from({ length: workers }, runNext));
+	await pool?.close();
+
+	if (options.json) {
+		// Files skipped after Ctrl-C have no entry
+		process.stdout.write(`${JSON.stringify(results.filter(Boolean), null, 2)}\n`);
+	}
+
+	if (abort.signal.aborted) {
+		if (!options.quiet) {
+			// Stopped and never started files alike
+			const skipped: number = files.length - succeeded - failed;
+			console.log(`\n${c.yellow}Cancelled: ${succeeded} succeeded, ${failed} failed, ${skipped} skipped${c.reset}`);
+		}
+		process.exit(130);
 	}
 
 	if (!options.quiet) {
@@ -332,12 +945,21 @@ async function main() {
 		} else {
 			console.log(`${c.yellow}Completed: ${succeeded} succeeded, ${failed} failed${c.reset}`);
 		}
+		if (cache) {
+			const { hits, misses, entries, bytes } = cache.stats();
+			console.log(
+				`${c.dim}Cache: ${hits} hit(s), ${misses} miss(es); ${entries} entries (${formatBytes(bytes)})${c.reset}`,
+			);
+		}
 	}
 
 	process.exit(failed > 0 ? 1 : 0);
 }
 
-main().catch((err) => {
-	console.error(`${c.red}Fatal error:${c.reset}`, err);
-	process.exit(1);
-});
+// Pool workers of self-contained builds load this bundle as well; only the main thread runs the CLI
+if (isMainThread) {
+	main().catch((err) => {
+		console.error(`${c.red}Fatal error:${c.reset}`, err);
+		process.exit(1);
+	});
+}
@@ -0,0 +1,138 @@
+import { expect, test } from 'bun:test';
+import { type Document, NodeIO } from '@gltf-transform/core';
+import {
+	frames,
+	gridDocument,
+	skinnedDocument,
+	texturedDocument,
+	translationDocument,
+	writeGlb,
+} from '../test/fixtures';
+import { BYTE_CATEGORIES, type ByteBreakdown, breakdownBytes, readGlbJson } from './breakdown';
+import { compress } from './compress';
+import { byteBreakdown } from './inspect';
+
+/** Sum of a breakdown's categories. */
+function total(breakdown: ByteBreakdown): number {
+	return BYTE_CATEGORIES.reduce((sum, category) => sum + breakdown.categories[category], 0);
+}
+
+/** A skinned document that also carries a translation clip on its first part. */
+function riggedDocument(): Document {
+	const { doc, parts } = skinnedDocument(['skin', 'cloth']);
+	const [node] = parts;
+	if (!node) throw new Error('No part');
+	const buffer = doc.getRoot().listBuffers()[0] ?? null;
+	const times: number[] = frames(31, 1);
+	const sampler = doc
+		.createAnimationSampler()
+		.setInput(doc.createAccessor().setType('SCALAR').setArray(new Float32Array(times)).setBuffer(buffer))
+		.setOutput(
+			doc
+				.createAccessor()
+				.setType('VEC3')
+				.setArray(new Float32Array(times.flatMap((t) => [t, 0, 0])))
+				.setBuffer(buffer),
+		);
+	const channel = doc.createAnimationChannel().setTargetNode(node).setTargetPath('translation').setSampler(sampler);
+	doc.createAnimation('sway').addSampler(sampler).addChannel(channel);
+	return doc;
+}
+
+test('readGlbJson reads the JSON chunk and rejects anything but a GLB', async () => {
+	const input: Uint8Array = await writeGlb(gridDocument(4));
+	const { json, jsonBytes } = readGlbJson(input);
+	expect(json.meshes?.[0]?.name).toBe('grid');
+	expect(jsonBytes % 4).toBe(0);
+	expect(() => readGlbJson(new TextEncoder().encode('{"asset":{}}'))).toThrow('Invalid GLB header');
+});
+
+test('every byte of a GLB is attributed to exactly one category', async () => {
+	const input: Uint8Array = await writeGlb(riggedDocument());
+	const { json, jsonBytes } = readGlbJson(input);
+	const breakdown = breakdownBytes(json, jsonBytes, input.byteLength);
+	expect(total(breakdown)).toBe(input.byteLength);
+	expect(breakdown.categories.json).toBe(jsonBytes);
+	// Per part, 3 float positions, 3 uint16 joints, and 3 float weights; 2 inverse bind matrices
+	expect(breakdown.categories.geometry).toBe(2 * (36 + 24 + 48));
+	expect(breakdown.categories.skins).toBe(2 * 64);
+	// 31 times and 31 translations
+	expect(breakdown.categories.animation).toBe(31 * 4 + 31 * 12);
+	expect(breakdown.meshes).toEqual([
+		{ name: 'part0', bytes: 108 },
+		{ name: 'part1', bytes: 108 },
+	]);
+	expect(breakdown.animations).toEqual([{ name: 'sway', bytes: 31 * 16 }]);
+});
+
+test('images in buffer views count as textures', async () => {
+	const { doc, textures } = await texturedDocument(8);
+	const input: Uint8Array = await writeGlb(doc);
+	const { json, jsonBytes } = readGlbJson(input);
+	const breakdown = breakdownBytes(json, jsonBytes, input.byteLength);
+	const imageBytes: number = Object.values(textures).reduce(
+		(sum, texture) => sum + (texture.getImage()?.byteLength ?? 0),
+		0,
+	);
+	expect(breakdown.categories.textures).toBe(imageBytes);
+	expect(breakdown.textures.map((texture) => [texture.name, texture.mimeType])).toEqual([
+		['baseColor', 'image/png'],
+		['normal', 'image/png'],
+		['occlusion', 'image/png'],
+	]);
+	expect(total(breakdown)).toBe(input.byteLength);
+});
+
+test('external images are sized from the document and typed by extension', async () => {
+	const { doc } = await texturedDocument(8);
+	const { json, resources } = await new NodeIO().writeJSON(doc);
+	for (const image of json.images ?? []) {
+		image.name = undefined;
+		image.mimeType = undefined;
+	}
+	const [first, second, third] = json.images ?? [];
+	if (!first || !second || !third) throw new Error('No images');
+	first.uri = 'base.JPG?v=2';
+	second.uri = 'normal.constructor';
+	third.uri = 'occlusion.png';
+
+	const jsonBytes: number = JSON.stringify(json).length;
+	const size: number = Object.values(resources).reduce((sum, data) => sum + data.byteLength, jsonBytes);
+	const breakdown = breakdownBytes(json, jsonBytes, size, doc);
+	expect(breakdown.textures.map((texture) => [texture.name, texture.mimeType])).toEqual([
+		['base.JPG?v=2', 'image/jpeg'],
+		['normal.constructor', ''],
+		['occlusion.png', 'image/png'],
+	]);
+	expect(breakdown.textures.every((texture) => texture.bytes > 0)).toBe(true);
+	expect(total(breakdown)).toBe(size);
+});
+
+test('meshopt-compressed views count at their compressed size', async () => {
+	const { buffer } = await compress(await writeGlb(gridDocument(20)), { backend: 'meshopt', quiet: true });
+	const { json, jsonBytes } = readGlbJson(buffer);
+	const breakdown = breakdownBytes(json, jsonBytes, buffer.byteLength);
+	expect(total(breakdown)).toBe(buffer.byteLength);
+	// 400 float positions and 2166 indices uncompressed
+	expect(breakdown.categories.geometry).toBeLessThan(400 * 12 + 2166 * 4);
+	expect(breakdown.meshes[0]?.bytes).toBe(breakdown.categories.geometry);
+});
+
+test('byteBreakdown parses a GLB or a .gltf with its resources', async () => {
+	const glb: Uint8Array = await writeGlb(translationDocument([], { triangle: true }).doc);
+	expect((await byteBreakdown(glb)).categories.geometry).toBe(36);
+
+	const { json, resources } = await new NodeIO().writeJSON(translationDocument([], { triangle: true }).doc);
+	const input: Uint8Array = new TextEncoder().encode(JSON.stringify(json));
+	const breakdown = await byteBreakdown(input, resources);
+	expect(breakdown.size).toBe(input.byteLength + (resources[json.buffers?.[0]?.uri ?? '']?.byteLength ?? 0));
+	expect(breakdown.categories).toMatchObject({ geometry: 36, json: input.byteLength });
+});
+
+test('compress attaches the breakdown of its input and output', async () => {
+	const input: Uint8Array = await writeGlb(riggedDocument());
+	const { buffer, report } = await compress(input, { backend: 'meshopt', breakdown: true, quiet: true });
+	expect(report.breakdown?.before.size).toBe(input.byteLength);
+	expect(report.breakdown?.after.size).toBe(buffer.byteLength);
+	expect(report.breakdown?.after.animations.map((clip) => clip.name)).toEqual(['sway']);
+});
@@ -0,0 +1,251 @@
+/**
+ * Byte-size attribution: what a model file spends its bytes on.
+ *
+ * {@link breakdownBytes} walks a file's glTF JSON — buffer views, the accessors
+ * and images using them, Draco and instancing extensions — and attributes every
+ * stored byte to a mesh, an animation clip, a skin, or an image, plus the JSON
+ * itself. Compressed buffer views count at their stored size, so the breakdown
+ * of a compressed GLB shows where its bytes actually go. Run it on the input
+ * and output of {@link compress} (`CompressOptions.breakdown`) to see which
+ * kind of data a preset should target.
+ *
+ * @module breakdown
+ */
+
+import type { Document, GLTF } from '@gltf-transform/core';
+import { GLB_MAGIC } from './constants';
+
+/**
+ * Bytes of a file by kind of data, as stored (compressed buffer views count at
+ * their compressed size). The categories add up to the file size.
+ */
+export interface ByteCategories {
+	/** Vertex attributes, indices, morph targets, instancing attributes, and Draco data. */
+	geometry: number;
+	/** Animation keyframe times and values. */
+	animation: number;
+	/** Skin inverse bind matrices. */
+	skins: number;
+	/** Images. */
+	textures: number;
+	/** The glTF JSON (without embedded `data:` URIs). */
+	json: number;
+	/** Container headers, padding, unreferenced data, and base64 overhead. */
+	other: number;
+}
+
+/** The {@link ByteCategories} keys, in report order. */
+export const BYTE_CATEGORIES: readonly (keyof ByteCategories)[] = [
+	'geometry',
+	'animation',
+	'skins',
+	'textures',
+	'json',
+	'other',
+];
+
+/** Bytes attributed to one mesh, animation clip, or image. */
+export interface ItemBytes {
+	/** Name in the file, or its URI for an unnamed external image. */
+	name: string;
+	bytes: number;
+}
+
+/** Bytes attributed to one image. */
+export interface ImageBytes extends ItemBytes {
+	mimeType: string;
+}
+
+/** Where the bytes of one file go. */
+export interface ByteBreakdown {
+	/** File size in bytes (JSON plus resources for a `.gltf`). */
+	size: number;
+	categories: ByteCategories;
+	/** Per mesh, in file order: its primitives' attributes, indices, morph targets, and Draco data. */
+	meshes: ItemBytes[];
+	/** Per animation clip, in file order: its samplers' keyframe times and values. */
+	animations: ItemBytes[];
+	/** Per image, in file order. */
+	textures: ImageBytes[];
+}
+
+/** Owner of a share of a buffer view. */
+type Owner =
+	| { category: 'geometry' | 'skins'; item?: ItemBytes }
+	| { category: 'animation'; item: ItemBytes }
+	| { category: 'textures'; item: ImageBytes };
+
+/** Element sizes in bytes by accessor component type. */
+const COMPONENT_BYTES: Record<number, number> = { 5120: 1, 5121: 1, 5122: 2, 5123: 2, 5125: 4, 5126: 4 };
+
+/** Components per element by accessor type. */
+const TYPE_COMPONENTS: Record<string, number> = { SCALAR: 1, VEC2: 2, VEC3: 3, VEC4: 4, MAT2: 4, MAT3: 9, MAT4: 16 };
+
+/**
+ * Read the glTF JSON of a GLB, with the JSON chunk's length.
+ *
+ * @throws {Error} If `input` is not a GLB.
+ */
+export function readGlbJson(input: Uint8Array): { json: GLTF.IGLTF; jsonBytes: number } {
+	const view = new DataView(input.buffer, input.byteOffset, input.byteLength);
+	if (input.byteLength < 20 || view.getUint32(0, true) !== GLB_MAGIC) throw new Error('Invalid GLB header');
+	const jsonBytes: number = view.getUint32(12, true);
+	return { json: JSON.parse(new TextDecoder().decode(input.subarray(20, 20 + jsonBytes))), jsonBytes };
+}
+
+/** Stored size of a buffer view: the compressed size for `EXT_meshopt_compression`, `0` for its fallback buffers. */
+function storedViewBytes(json: GLTF.IGLTF, index: number): number {
+	const view: GLTF.IBufferView | undefined = json.bufferViews?.[index];
+	if (!view) return 0;
+	const meshopt: unknown = view.extensions?.EXT_meshopt_compression;
+	if (typeof meshopt === 'object' && meshopt !== null) {
+		return 'byteLength' in meshopt && typeof meshopt.byteLength === 'number' ? meshopt.byteLength : 0;
+	}
+	const fallback: unknown = json.buffers?.[view.buffer]?.extensions?.EXT_meshopt_compression;
+	const isFallback: boolean =
+		typeof fallback === 'object' && fallback !== null && 'fallback' in fallback && fallback.fallback === true;
+	return isFallback ? 0 : view.byteLength;
+}
+
+/**
+ * Attribute a file's bytes from its parsed glTF JSON.
+ *
+ * A buffer view shared by several accessors (glTF-Transform packs all vertex
+ * attributes into one) is split between their owners in proportion to the
+ * accessors' uncompressed sizes. An accessor used by several owners counts
+ * toward the first one: meshes, then skins, then animations.
+ *
+ * @param json      - The file's glTF JSON.
+ * @param jsonBytes - Size of the JSON (the GLB JSON chunk, or the whole `.gltf`).
+ * @param size      - File size, resources included.
+ * @param document  - The parsed document, for the sizes of images stored outside buffer
+ *                    views (external or `data:` URIs); without it they count as `0`.
+ */
+export function breakdownBytes(json: GLTF.IGLTF, jsonBytes: number, size: number, document?: Document): ByteBreakdown {
+	const meshes: ItemBytes[] = (json.meshes ?? []).map((mesh) => ({ name: mesh.name ?? '', bytes: 0 }));
+	const animations: ItemBytes[] = (json.animations ?? []).map((clip) => ({ name: clip.name ?? '', bytes: 0 }));
+	const textures: ImageBytes[] = (json.images ?? []).map((image) => ({
+		name: image.name || (image.uri?.startsWith('data:') ? '' : image.uri) || '',
+		mimeType: image.mimeType ?? mimeTypeFromUri(image.uri),
+		bytes: 0,
+	}));
+	const categories: ByteCategories = { geometry: 0, animation: 0, skins: 0, textures: 0, json: 0, other: 0 };
+
+	// Each view's claims, weighted by the uncompressed bytes each owner stores in it
+	const claims = new Map<number, { owner: Owner; weight: number }[]>();
+	const claim = (view: number | undefined, owner: Owner, weight: number): void => {
+		if (view === undefined) return;
+		const list = claims.get(view) ?? [];
+		list.push({ owner, weight });
+		claims.set(view, list);
+	};
+	const claimedAccessors = new Set<number>();
+	const claimAccessor = (index: number | undefined, owner: Owner): void => {
+		const accessor: GLTF.IAccessor | undefined = index === undefined ? undefined : json.accessors?.[index];
+		if (index === undefined || !accessor || claimedAccessors.has(index)) return;
+		claimedAccessors.add(index);
+		const elementBytes: number = (COMPONENT_BYTES[accessor.componentType] ?? 4) * (TYPE_COMPONENTS[accessor.type] ?? 1);
+		claim(accessor.bufferView, owner, accessor.count * elementBytes);
+		const { sparse } = accessor;
+		if (sparse) {
+			claim(sparse.indices.bufferView, owner, sparse.count * (COMPONENT_BYTES[sparse.indices.componentType] ?? 4));
+			claim(sparse.values.bufferView, owner, sparse.count * elementBytes);
+		}
+	};
+
+	for (const [i, mesh] of (json.meshes ?? []).entries()) {
+		const owner: Owner = { category: 'geometry', item: meshes[i] };
+		for (const prim of mesh.primitives) {
+			for (const index of Object.values(prim.attributes)) claimAccessor(index, owner);
+			claimAccessor(prim.indices, owner);
+			for (const target of prim.targets ?? []) {
+				for (const index of Object.values(target)) claimAccessor(index, owner);
+			}
+			const draco: unknown = prim.extensions?.KHR_draco_mesh_compression;
+			if (
+				typeof draco === 'object' &&
+				draco !== null &&
+				'bufferView' in draco &&
+				typeof draco.bufferView === 'number'
+			) {
+				claim(draco.bufferView, owner, 1);
+			}
+		}
+	}
+	for (const node of json.nodes ?? []) {
+		const instancing: unknown = node.extensions?.EXT_mesh_gpu_instancing;
+		if (typeof instancing !== 'object' || instancing === null || !('attributes' in instancing)) continue;
+		const { attributes } = instancing;
+		if (typeof attributes !== 'object' || attributes === null) continue;
+		for (const index of Object.values(attributes)) {
+			if (typeof index === 'number') claimAccessor(index, { category: 'geometry' });
+		}
+	}
+	for (const skin of json.skins ?? []) claimAccessor(skin.inverseBindMatrices, { category: 'skins' });
+	for (const [i, animation] of (json.animations ?? []).entries()) {
+		const item: ItemBytes | undefined = animations[i];
+		if (!item) continue;
+		const owner: Owner = { category: 'animation', item };
+		for (const sampler of animation.samplers) {
+			claimAccessor(sampler.input, owner);
+			claimAccessor(sampler.output, owner);
+		}
+	}
+
+	// glTF-Transform reads images in order, one texture per image
+	const documentTextures = document?.getRoot().listTextures() ?? [];
+	let embedded: number = 0;
+	for (const [i, image] of (json.images ?? []).entries()) {
+		const item: ImageBytes | undefined = textures[i];
+		if (!item) continue;
+		if (image.bufferView !== undefined) {
+			claim(image.bufferView, { category: 'textures', item }, 1);
+			continue;
+		}
+		item.bytes = documentTextures[i]?.getImage()?.byteLength ?? 0;
+		categories.textures += item.bytes;
+		if (image.uri?.startsWith('data:')) embedded += image.uri.length;
+	}
+	// Embedded buffers: their views are attributed like any other
+	for (const buffer of json.buffers ?? []) {
+		if (buffer.uri?.startsWith('data:')) embedded += buffer.uri.length;
+	}
+
+	// Split each view between its claims; the last one takes the rounding remainder
+	for (const [view, list] of claims) {
+		const stored: number = storedViewBytes(json, view);
+		const totalWeight: number = list.reduce((sum, entry) => sum + entry.weight, 0);
+		let remaining: number = stored;
+		for (const [i, { owner, weight }] of list.entries()) {
+			const share: number =
+				i === list.length - 1
+					? remaining
+					: Math.floor(totalWeight > 0 ? (stored * weight) / totalWeight : stored / list.length);
+			remaining -= share;
+			categories[owner.category] += share;
+			if (owner.item) owner.item.bytes += share;
+		}
+	}
+
+	categories.json = Math.max(0, jsonBytes - embedded);
+	const attributed: number =
+		categories.geometry + categories.animation + categories.skins + categories.textures + categories.json;
+	categories.other = Math.max(0, size - attributed);
+	return { size, categories, meshes, animations, textures };
+}
+
+/** MIME type of an image from its URI's `data:` prefix or extension, or `""`. */
+function mimeTypeFromUri(uri: string | undefined): string {
+	if (!uri) return '';
+	const dataUri: RegExpMatchArray | null = uri.match(/^data:([^;,]+)/);
+	if (dataUri) return dataUri[1] ?? '';
+	const extension: string = uri.split(/[?#]/)[0]?.split('.').pop()?.toLowerCase() ?? '';
+	const types: Record<string, string> = {
+		png: 'image/png',
+		jpg: 'image/jpeg',
+		jpeg: 'image/jpeg',
+		webp: 'image/webp',
+		ktx2: 'image/ktx2',
+	};
+	return Object.hasOwn(types, extension) ? (types[extension] ?? '') : '';
+}
@@ -0,0 +1,82 @@
+import { expect, test } from 'bun:test';
+import { gridDocument, writeGlb } from '../test/fixtures';
+import {
+	applyBudgetStep,
+	BUDGET_STEPS,
+	type BudgetReport,
+	type BudgetSettings,
+	formatBudgetFailure,
+	formatBudgetSettings,
+} from './budget';
+import { compress } from './compress';
+
+test('a step escalates the preset and tightens each cap', () => {
+	expect(applyBudgetStep({ preset: 'default' }, { preset: 'aggressive', textureMaxSize: 512 })).toEqual({
+		preset: 'aggressive',
+		textureMaxSize: 512,
+		simplifyRatio: undefined,
+		animationFps: undefined,
+	});
+	expect(
+		applyBudgetStep(
+			{ preset: 'balanced', textureMaxSize: 256, simplifyRatio: 0.9, animationFps: 12 },
+			{ preset: 'max', textureMaxSize: 512, simplifyRatio: 0.5, animationFps: 24 },
+		),
+	).toEqual({ preset: 'max', textureMaxSize: 256, simplifyRatio: 0.5, animationFps: 12 });
+});
+
+test('a step never relaxes the preset and keeps custom presets', () => {
+	expect(applyBudgetStep({ preset: 'max' }, { preset: 'balanced' }).preset).toBe('max');
+	expect(applyBudgetStep({ preset: 'my-preset' }, { preset: 'max' }).preset).toBe('my-preset');
+	expect(applyBudgetStep({ preset: 'auto' }, { preset: 'max' }).preset).toBe('auto');
+});
+
+test('the ladder ends at the floor and only gets stricter', () => {
+	let settings: BudgetSettings = { preset: 'default' };
+	const ladder: BudgetSettings[] = BUDGET_STEPS.map((step) => {
+		settings = applyBudgetStep(settings, step);
+		return settings;
+	});
+	expect(ladder.at(-1)).toEqual({ preset: 'max', textureMaxSize: 128, simplifyRatio: 0.25, animationFps: 5 });
+	for (const [i, step] of ladder.entries()) {
+		const previous: BudgetSettings | undefined = ladder[i - 1];
+		if (!previous) continue;
+		expect(step.textureMaxSize ?? Infinity).toBeLessThanOrEqual(previous.textureMaxSize ?? Infinity);
+		expect(step.simplifyRatio ?? 1).toBeLessThanOrEqual(previous.simplifyRatio ?? 1);
+		expect(step.animationFps ?? Infinity).toBeLessThanOrEqual(previous.animationFps ?? Infinity);
+	}
+});
+
+test('settings and failures format as one line', () => {
+	const settings: BudgetSettings = { preset: 'max', textureMaxSize: 512, simplifyRatio: 0.5, animationFps: 10 };
+	expect(formatBudgetSettings(settings)).toBe('preset max, textures ≤512px, simplify 50%, animation 10 Hz');
+	expect(formatBudgetSettings({ preset: 'default' })).toBe('preset default');
+	const budget: BudgetReport = { targetBytes: 2048, met: false, bytes: 3072, settings, attempts: [] };
+	expect(formatBudgetFailure(budget)).toBe(
+		'Size budget not met: 3.0 KB > 2.0 KB (smallest output, preset max, textures ≤512px, simplify 50%, animation 10 Hz)',
+	);
+});
+
+test('compress stops at the first attempt that fits', async () => {
+	const input: Uint8Array = await writeGlb(gridDocument(30));
+	const { buffer, report } = await compress(input, { targetBytes: 1e6, backend: 'meshopt', quiet: true });
+	expect(report.budget).toMatchObject({ targetBytes: 1e6, met: true, bytes: buffer.byteLength });
+	expect(report.budget?.attempts).toHaveLength(1);
+});
+
+test('compress skips steps a static meshopt model ignores and keeps the smallest output', async () => {
+	const input: Uint8Array = await writeGlb(gridDocument(30, { flat: true }));
+	const { buffer, report } = await compress(input, { targetBytes: 1, backend: 'meshopt', quiet: true });
+	const budget = report.budget;
+	// No textures or animations, and the preset does not change meshopt output: only simplification escalates
+	expect(budget?.attempts.map((attempt) => attempt.settings.simplifyRatio)).toEqual([undefined, 0.75, 0.5, 0.25]);
+	expect(budget?.attempts.every((attempt) => attempt.settings.preset === 'default')).toBe(true);
+	expect(budget?.met).toBe(false);
+	expect(buffer.byteLength).toBe(Math.min(...(budget?.attempts.map((attempt) => attempt.bytes) ?? [])));
+	expect(budget?.settings.simplifyRatio).toBe(0.25);
+});
+
+test('compress rejects a non-positive budget', async () => {
+	const input: Uint8Array = await writeGlb(gridDocument(4));
+	await expect(compress(input, { targetBytes: -1, quiet: true })).rejects.toThrow('Invalid targetBytes -1');
+});
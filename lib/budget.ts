@@ -0,0 +1,104 @@
+/**
+ * File-size budgets.
+ *
+ * With `CompressOptions.targetBytes`, `compress()` re-runs the pipeline with
+ * progressively stronger settings from {@link BUDGET_STEPS} — preset, texture
+ * size cap, animation resample rate, mesh simplification — until the
+ * output fits or the last step (the floor) is reached.
+ *
+ * @module budget
+ */
+
+import type { BuiltinPreset, CompressPreset } from './presets';
+import { formatBytes } from './utils';
+
+/** Settings escalated by the budget search. Omitted values leave the pipeline untouched. */
+export interface BudgetSettings {
+	preset: CompressPreset;
+	/** Texture size cap (`textures.maxSize`, also applied to `slotMaxSize`). */
+	textureMaxSize?: number;
+	/** Mesh simplification ratio (`simplifyRatio`). */
+	simplifyRatio?: number;
+	/** Animation resample rate in Hz (`pipeline.animation.resampleFps`). */
+	animationFps?: number;
+}
+
+/** One step of the escalation ladder. */
+export interface BudgetStep extends Partial<BudgetSettings> {
+	preset?: BuiltinPreset;
+}
+
+/**
+ * Escalation ladder, mildest first; each step is applied on top of the caller's
+ * settings and never relaxes them. The last step is the floor.
+ */
+export const BUDGET_STEPS: readonly BudgetStep[] = [
+	{ preset: 'balanced' },
+	{ preset: 'aggressive' },
+	{ preset: 'max' },
+	{ preset: 'max', textureMaxSize: 512 },
+	{ preset: 'max', textureMaxSize: 512, animationFps: 10 },
+	{ preset: 'max', textureMaxSize: 256, animationFps: 10, simplifyRatio: 0.75 },
+	{ preset: 'max', textureMaxSize: 256, animationFps: 5, simplifyRatio: 0.5 },
+	{ preset: 'max', textureMaxSize: 128, animationFps: 5, simplifyRatio: 0.25 },
+];
+
+/** Built-in presets from mildest to strongest; the preset only escalates along this order. */
+const PRESET_ORDER: readonly BuiltinPreset[] = ['default', 'balanced', 'aggressive', 'max'];
+
+/** One pipeline run of the budget search. */
+export interface BudgetAttempt {
+	settings: BudgetSettings;
+	/** Encoder that produced the output. */
+	method: string;
+	/** Output size in bytes. */
+	bytes: number;
+}
+
+/** Result of the budget search, attached as `CompressReport.budget`. */
+export interface BudgetReport {
+	targetBytes: number;
+	/** Whether the returned output fits in {@link BudgetReport.targetBytes}. */
+	met: boolean;
+	/** Size of the returned output. */
+	bytes: number;
+	/** Settings that produced the returned output. */
+	settings: BudgetSettings;
+	/** Every run, in order. */
+	attempts: BudgetAttempt[];
+}
+
+/**
+ * Apply a {@link BudgetStep} to the current settings.
+ *
+ * Caps and ratios only ever get stricter. The preset is escalated only when the
+ * current one is a built-in preset milder than the step's; custom presets are kept.
+ */
+export function applyBudgetStep(base: BudgetSettings, step: BudgetStep): BudgetSettings {
+	const rank: number = PRESET_ORDER.findIndex((preset) => preset === base.preset);
+	const stricter = (a: number | undefined, b: number | undefined): number | undefined =>
+		a === undefined ? b : b === undefined ? a : Math.min(a, b);
+	return {
+		preset: step.preset && rank >= 0 && PRESET_ORDER.indexOf(step.preset) > rank ? step.preset : base.preset,
+		textureMaxSize: stricter(base.textureMaxSize, step.textureMaxSize),
+		simplifyRatio: stricter(base.simplifyRatio, step.simplifyRatio),
+		animationFps: stricter(base.animationFps, step.animationFps),
+	};
+}
+
+/** One-line summary of {@link BudgetSettings}, e.g. `preset max, textures ≤512px, simplify 50%, animation 10 Hz`. */
+export function formatBudgetSettings(settings: BudgetSettings): string {
+	const parts: string[] = [`preset ${settings.preset}`];
+	if (settings.textureMaxSize !== undefined) parts.push(`textures ≤${settings.textureMaxSize}px`);
+	if (settings.simplifyRatio !== undefined) parts.push(`simplify ${(settings.simplifyRatio * 100).toFixed(0)}%`);
+	if (settings.animationFps !== undefined) parts.push(`animation ${settings.animationFps} Hz`);
+	return parts.join(', ');
+}
+
+/** Message for a budget that could not be met, e.g. `Size budget not met: 3.41 MB > 3.00 MB (...)`. */
+export function formatBudgetFailure(budget: BudgetReport): string {
+	return (
+		`Size budget not met: ${formatBytes(budget.bytes)} > ${formatBytes(budget.targetBytes)} ` +
+		`(smallest output, ${formatBudgetSettings(budget.settings)})`
+	);
+}
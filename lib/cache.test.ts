@@ -0,0 +1,119 @@
+import { expect, test } from 'bun:test';
+import { readdir } from 'node:fs/promises';
+import { join } from 'node:path';
+import { gridDocument, writeGlb } from '../test/fixtures';
+import { type CacheEnvironment, cacheKey, createFileCache, createMemoryCache } from './cache';
+import { type CompressResult, compress } from './compress';
+import { definePreset } from './presets';
+import { withTempDir } from './utils';
+
+const environment: CacheEnvironment = { library: '1.0.0', gltfpack: null, toktx: false };
+
+const input: Uint8Array = await writeGlb(gridDocument(10));
+/** A real result with LOD files: level 0 shares `buffer`. */
+const lodResult: CompressResult = await compress(input, {
+	lods: [1, 0.5],
+	lodOutput: 'files',
+	backend: 'meshopt',
+	quiet: true,
+});
+
+test('cacheKey ignores option order and options that do not affect the output', () => {
+	const key: string = cacheKey(input, {}, { preset: 'balanced', backend: 'meshopt' }, environment);
+	expect(key).toMatch(/^[0-9a-f]{64}$/);
+	expect(
+		cacheKey(input, {}, { backend: 'meshopt', preset: 'balanced', quiet: true, onLog: () => {} }, environment),
+	).toBe(key);
+});
+
+test('cacheKey changes with the input, options, resources, and environment', () => {
+	const key: string = cacheKey(input, {}, {}, environment);
+	const keys: string[] = [
+		cacheKey(input.subarray(1), {}, {}, environment),
+		cacheKey(input, {}, { preset: 'aggressive' }, environment),
+		cacheKey(input, { 'a.bin': new Uint8Array([1]) }, {}, environment),
+		cacheKey(input, {}, {}, { ...environment, gltfpack: '0.21' }),
+		cacheKey(input, {}, {}, { ...environment, toktx: true }),
+	];
+	expect(new Set([key, ...keys]).size).toBe(keys.length + 1);
+	// Options are hashed as given: naming the default preset is a separate entry
+	expect(cacheKey(input, {}, { preset: 'default' }, environment)).not.toBe(key);
+});
+
+test('redefining a custom preset changes its key', () => {
+	definePreset('test-cache-preset', { static: ['-cc'] });
+	const before: string = cacheKey(input, {}, { preset: 'test-cache-preset' }, environment);
+	definePreset('test-cache-preset', { static: ['-kn'] });
+	expect(cacheKey(input, {}, { preset: 'test-cache-preset' }, environment)).not.toBe(before);
+});
+
+test('the memory cache counts hits and misses and returns copies', async () => {
+	const cache = createMemoryCache({ maxBytes: 1 << 20 });
+	expect(await cache.get('a')).toBeUndefined();
+	await cache.set('a', lodResult);
+
+	const stored = await cache.get('a');
+	expect(stored?.buffer).toEqual(lodResult.buffer);
+	expect(stored?.lods?.map((lod) => lod.level)).toEqual([0, 1]);
+	expect(stored?.lods?.[0]?.buffer).toBe(stored?.buffer);
+	if (!stored) throw new Error('No cached result');
+	stored.buffer.fill(0);
+	expect((await cache.get('a'))?.buffer).toEqual(lodResult.buffer);
+
+	const lodBytes: number = lodResult.lods?.[1]?.buffer.byteLength ?? 0;
+	expect(cache.stats()).toEqual({ hits: 2, misses: 1, entries: 1, bytes: lodResult.buffer.byteLength + lodBytes });
+});
+
+test('the memory cache evicts the least recently used entries', async () => {
+	const size: number = lodResult.buffer.byteLength + (lodResult.lods?.[1]?.buffer.byteLength ?? 0);
+	const cache = createMemoryCache({ maxBytes: size * 2 });
+	await cache.set('a', lodResult);
+	await cache.set('b', lodResult);
+	await cache.get('a');
+	await cache.set('c', lodResult);
+	expect(await cache.get('b')).toBeUndefined();
+	expect(await cache.get('a')).toBeDefined();
+	expect(await cache.get('c')).toBeDefined();
+
+	const small = createMemoryCache({ maxBytes: size - 1 });
+	await small.set('a', lodResult);
+	expect(small.stats().entries).toBe(0);
+	expect(() => createMemoryCache({ maxBytes: 0 })).toThrow('Invalid cache size: 0');
+});
+
+test('the file cache stores one entry per key and reloads them', async () => {
+	await withTempDir(async (dir) => {
+		const cache = await createFileCache({ dir });
+		expect(await cache.get('a')).toBeUndefined();
+		await cache.set('a', lodResult);
+		expect(await readdir(dir)).toEqual(['a.cache']);
+
+		const reloaded = await createFileCache({ dir });
+		expect(reloaded.stats()).toMatchObject({ hits: 0, misses: 0, entries: 1 });
+		const stored = await reloaded.get('a');
+		expect(stored?.buffer).toEqual(lodResult.buffer);
+		expect(stored?.method).toBe(lodResult.method);
+		expect(stored?.report).toEqual(lodResult.report);
+		expect(stored?.lods?.map((lod) => lod.buffer)).toEqual(lodResult.lods?.map((lod) => lod.buffer));
+		expect(stored?.lods?.[0]?.buffer).toBe(stored?.buffer);
+	});
+});
+
+test('an unreadable file cache entry is a miss', async () => {
+	await withTempDir(async (dir) => {
+		await Bun.write(join(dir, 'a.cache'), new Uint8Array([255, 0, 0, 0, 123]));
+		const cache = await createFileCache({ dir });
+		expect(await cache.get('a')).toBeUndefined();
+		expect(cache.stats()).toMatchObject({ hits: 0, misses: 1 });
+	});
+});
+
+test('compress returns a cached result on the second run', async () => {
+	const cache = createMemoryCache({ maxBytes: 1 << 20 });
+	const first = await compress(input, { backend: 'meshopt', cache, quiet: true });
+	const logs: string[] = [];
+	const second = await compress(input, { backend: 'meshopt', cache, quiet: true, onLog: (msg) => logs.push(msg) });
+	expect([first.cache, second.cache]).toEqual(['miss', 'hit']);
+	expect(second.buffer).toEqual(first.buffer);
+	expect(logs).toEqual([expect.stringMatching(/^Cache hit: /)]);
+});
@@ -0,0 +1,323 @@
+/**
+ * Content-addressed cache for compression results.
+ *
+ * A result is stored under a key hashed from the input bytes, the normalized
+ * compression options (including the resolved preset configuration), and the
+ * environment that produced it (library and `gltfpack` versions, `toktx`), so
+ * an identical request returns the stored output without re-running the
+ * pipeline. Pass a cache as `CompressOptions.cache`.
+ *
+ * Two backends are provided: {@link createMemoryCache}, an LRU bounded by total
+ * bytes (used by the server), and {@link createFileCache}, one file per entry
+ * in a directory (used by the CLI's `--cache-dir`). Any object implementing
+ * {@link CompressCache} can be used instead.
+ *
+ * @example
+ * ```ts
+ * const cache = await createFileCache({ dir: '.glb-cache' });
+ * const result = await compress(glbBytes, { preset: 'aggressive', cache });
+ * console.log(result.cache); // "miss" the first time, "hit" afterwards
+ * ```
+ *
+ * @module cache
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readdir, rename, rm, stat } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { ClipResult, CompressOptions, CompressResult, GltfResources, LodResult } from './compress';
+import { AUTO_PRESET, AUTO_PRESET_CANDIDATES, getPreset } from './presets';
+
+/** Counters reported by {@link CompressCache.stats}. */
+export interface CacheStats {
+	/** Lookups that returned a stored result. */
+	hits: number;
+	/** Lookups that found nothing. */
+	misses: number;
+	/** Stored results. */
+	entries: number;
+	/** Bytes of output stored (file sizes for {@link createFileCache}). */
+	bytes: number;
+}
+
+/**
+ * Storage for compression results, keyed by {@link cacheKey}.
+ *
+ * Implementations should not throw: a failing lookup returns `undefined` and a
+ * failing store is ignored, so a broken cache only costs a re-run.
+ */
+export interface CompressCache {
+	/** Look up a stored result (without its `cache` field). */
+	get(key: string): Promise<CompressResult | undefined>;
+	/** Store a result. */
+	set(key: string, result: CompressResult): Promise<void>;
+	/** Hit/miss counters and current size. */
+	stats(): CacheStats;
+}
+
+/** Options for {@link createMemoryCache}. */
+export interface MemoryCacheOptions {
+	/** Total output bytes kept; least recently used entries are evicted beyond it. */
+	maxBytes: number;
+}
+
+/** Options for {@link createFileCache}. */
+export interface FileCacheOptions {
+	/** Directory holding the entries; created if missing. */
+	dir: string;
+}
+
+/** What produced a result, besides its input and options. */
+export interface CacheEnvironment {
+	/** glb-compressor version. */
+	library: string;
+	/** `gltfpack` version, or `null` when it is not installed. */
+	gltfpack: string | null;
+	/** Whether `toktx` is installed. */
+	toktx: boolean;
+}
+
+/** Bumped when the key derivation or the file entry layout changes. */
+const CACHE_FORMAT = 1;
+
+/** Options that do not affect the output. */
+const IGNORED_OPTIONS: ReadonlySet<string> = new Set(['onLog', 'signal', 'quiet', 'cache']);
+
+/** JSON with object keys sorted, so equal options serialize identically. */
+function stableStringify(value: unknown): string {
+	return JSON.stringify(value, (_key, item: unknown) => {
+		if (typeof item !== 'object' || item === null || Array.isArray(item)) return item;
+		return Object.fromEntries(Object.entries(item).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)));
+	});
+}
+
+/**
+ * Derive the cache key (hex SHA-256) for compressing `input` with `options`.
+ *
+ * Options that do not affect the output (`onLog`, `signal`, `quiet`, `cache`)
+ * are left out, and the preset is replaced by its configuration, so redefining
+ * a custom preset invalidates its entries.
+ *
+ * @param input       - GLB bytes or glTF JSON text.
+ * @param resources   - External resources of a JSON glTF.
+ * @param options     - Compression options.
+ * @param environment - Versions of the tools that produce the output.
+ */
+export function cacheKey(
+	input: Uint8Array,
+	resources: GltfResources,
+	options: CompressOptions,
+	environment: CacheEnvironment,
+): string {
+	const relevant: Record<string, unknown> = {};
+	for (const [name, value] of Object.entries(options)) {
+		if (!IGNORED_OPTIONS.has(name)) relevant[name] = value;
+	}
+	const preset: string = options.preset ?? 'default';
+	const presetConfig =
+		preset === AUTO_PRESET ? AUTO_PRESET_CANDIDATES.map((name) => getPreset(name)) : getPreset(preset);
+
+	const hash = createHash('sha256');
+	hash.update(stableStringify({ format: CACHE_FORMAT, environment, options: relevant, presetConfig }));
+	hash.update(input);
+	for (const [name, data] of Object.entries(resources).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))) {
+		hash.update(`\0${name}\0${data.byteLength}\0`);
+		hash.update(data);
+	}
+	return hash.digest('hex');
+}
+
+/** Every distinct output buffer of a result (LOD level 0 usually shares `buffer`). */
+function resultBuffers(result: CompressResult): Uint8Array[] {
+	return [
+		...new Set([
+			result.buffer,
+			...(result.lods?.map((lod) => lod.buffer) ?? []),
+			...(result.clips?.map((clip) => clip.buffer) ?? []),
+		]),
+	];
+}
+
+/** Copy a result's buffers, so callers and the cache never share (or detach) each other's memory. */
+function copyResult(result: CompressResult): CompressResult {
+	const copies = new Map<Uint8Array, Uint8Array>(resultBuffers(result).map((buffer) => [buffer, buffer.slice()]));
+	const copy = (buffer: Uint8Array): Uint8Array => copies.get(buffer) ?? buffer.slice();
+	const { cache: _cache, ...rest } = result;
+	return {
+		...rest,
+		buffer: copy(result.buffer),
+		lods: result.lods?.map((lod) => ({ ...lod, buffer: copy(lod.buffer) })),
+		clips: result.clips?.map((clip) => ({ ...clip, buffer: copy(clip.buffer) })),
+	};
+}
+
+/**
+ * Create an in-memory LRU cache holding at most `maxBytes` of output.
+ *
+ * A result larger than `maxBytes` on its own is not stored.
+ *
+ * @throws {Error} If `maxBytes` is not a positive number.
+ */
+export function createMemoryCache(options: MemoryCacheOptions): CompressCache {
+	const { maxBytes } = options;
+	if (!(maxBytes > 0)) throw new Error(`Invalid cache size: ${maxBytes} (must be positive)`);
+
+	// Map iteration order is insertion order: re-inserting on access keeps the LRU entry first
+	const entries = new Map<string, { result: CompressResult; bytes: number }>();
+	let bytes: number = 0;
+	let hits: number = 0;
+	let misses: number = 0;
+
+	return {
+		async get(key) {
+			const entry = entries.get(key);
+			if (!entry) {
+				misses++;
+				return undefined;
+			}
+			hits++;
+			entries.delete(key);
+			entries.set(key, entry);
+			return copyResult(entry.result);
+		},
+
+		async set(key, result) {
+			const size: number = resultBuffers(result).reduce((sum, buffer) => sum + buffer.byteLength, 0);
+			if (size > maxBytes) return;
+			const previous = entries.get(key);
+			if (previous) {
+				entries.delete(key);
+				bytes -= previous.bytes;
+			}
+			entries.set(key, { result: copyResult(result), bytes: size });
+			bytes += size;
+			for (const [oldest, entry] of entries) {
+				if (bytes <= maxBytes) break;
+				entries.delete(oldest);
+				bytes -= entry.bytes;
+			}
+		},
+
+		stats() {
+			return { hits, misses, entries: entries.size, bytes };
+		},
+	};
+}
+
+/** JSON header of a file cache entry; the output buffers follow it. */
+interface FileEntryHeader {
+	method: string;
+	originalSize?: number;
+	report: CompressResult['report'];
+	/** Byte length of each stored buffer, in order; the first is `buffer`. */
+	buffers: number[];
+	/** LOD levels, with the index of their buffer instead of the bytes. */
+	lods?: (Omit<LodResult, 'buffer'> & { buffer: number })[];
+	/** Split animation clips, likewise. */
+	clips?: (Omit<ClipResult, 'buffer'> & { buffer: number })[];
+}
+
+/** Serialize a result: a little-endian u32 header length, the header JSON, then the buffers. */
+function encodeEntry(result: CompressResult): Uint8Array {
+	const buffers: Uint8Array[] = resultBuffers(result);
+	const header: FileEntryHeader = {
+		method: result.method,
+		originalSize: result.originalSize,
+		report: result.report,
+		buffers: buffers.map((buffer) => buffer.byteLength),
+		lods: result.lods?.map((lod) => ({ ...lod, buffer: buffers.indexOf(lod.buffer) })),
+		clips: result.clips?.map((clip) => ({ ...clip, buffer: buffers.indexOf(clip.buffer) })),
+	};
+	const json: Uint8Array = new TextEncoder().encode(JSON.stringify(header));
+	const out = new Uint8Array(4 + json.byteLength + buffers.reduce((sum, buffer) => sum + buffer.byteLength, 0));
+	new DataView(out.buffer).setUint32(0, json.byteLength, true);
+	out.set(json, 4);
+	let offset: number = 4 + json.byteLength;
+	for (const buffer of buffers) {
+		out.set(buffer, offset);
+		offset += buffer.byteLength;
+	}
+	return out;
+}
+
+/** Inverse of {@link encodeEntry}. @throws {Error} If the entry is truncated. */
+function decodeEntry(data: Uint8Array): CompressResult {
+	const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+	const headerLength: number = view.getUint32(0, true);
+	const header: FileEntryHeader = JSON.parse(new TextDecoder().decode(data.subarray(4, 4 + headerLength)));
+	const buffers: Uint8Array[] = [];
+	let offset: number = 4 + headerLength;
+	for (const length of header.buffers) {
+		if (offset + length > data.byteLength) throw new Error('Truncated cache entry');
+		buffers.push(data.subarray(offset, offset + length));
+		offset += length;
+	}
+	const buffer: Uint8Array | undefined = buffers[0];
+	if (!buffer) throw new Error('Truncated cache entry');
+	return {
+		buffer,
+		method: header.method,
+		originalSize: header.originalSize,
+		report: header.report,
+		lods: header.lods?.map((lod) => ({ ...lod, buffer: buffers[lod.buffer] ?? buffer })),
+		clips: header.clips?.map((clip) => ({ ...clip, buffer: buffers[clip.buffer] ?? buffer })),
+	};
+}
+
+/**
+ * Create a cache storing one `<key>.cache` file per result in `options.dir`.
+ *
+ * Entries are written to a temporary file and renamed, so concurrent processes
+ * sharing the directory never read a partial entry. Entries are never evicted;
+ * delete the directory (or its files) to reclaim space.
+ */
+export async function createFileCache(options: FileCacheOptions): Promise<CompressCache> {
+	const { dir } = options;
+	await mkdir(dir, { recursive: true });
+
+	const sizes = new Map<string, number>();
+	for (const name of await readdir(dir)) {
+		if (!name.endsWith('.cache')) continue;
+		try {
+			sizes.set(name.slice(0, -'.cache'.length), (await stat(join(dir, name))).size);
+		} catch {
+			// Removed by another process meanwhile
+		}
+	}
+	let hits: number = 0;
+	let misses: number = 0;
+
+	const entryPath = (key: string): string => join(dir, `${key}.cache`);
+
+	return {
+		async get(key) {
+			try {
+				const result: CompressResult = decodeEntry(await Bun.file(entryPath(key)).bytes());
+				hits++;
+				return result;
+			} catch {
+				// Missing, or unreadable (e.g. written by an incompatible version)
+				misses++;
+				return undefined;
+			}
+		},
+
+		async set(key, result) {
+			const data: Uint8Array = encodeEntry(result);
+			const tmp: string = `${entryPath(key)}.${process.pid}.${crypto.randomUUID()}.tmp`;
+			try {
+				await Bun.write(tmp, data);
+				await rename(tmp, entryPath(key));
+				sizes.set(key, data.byteLength);
+			} catch {
+				await rm(tmp, { force: true }).catch(() => {});
+			}
+		},
+
+		stats() {
+			let bytes: number = 0;
+			for (const size of sizes.values()) bytes += size;
+			return { hits, misses, entries: sizes.size, bytes };
+		},
+	};
+}
@@ -0,0 +1,211 @@
+import { expect, test } from 'bun:test';
+import { AnimationChannel, type AnimationSampler, type Document } from '@gltf-transform/core';
+import { frames, type TranslationClip, translationDocument } from '../test/fixtures';
+import {
+	type AnimationSelection,
+	type AnimationSelectionReport,
+	clipFilenames,
+	parseAnimationSelection,
+	resolveAnimationSelection,
+	selectAnimations,
+	splitAnimations,
+} from './clips';
+
+/** A document with one single-keyframe translation clip per name. */
+function clipsDocument(names: string[]): Document {
+	return translationDocument(names.map((name) => ({ name, times: [0], value: () => [0, 0, 0] }))).doc;
+}
+
+/** Run {@link selectAnimations} and return its report. */
+async function select(
+	names: string[],
+	raw: Parameters<typeof parseAnimationSelection>[0],
+): Promise<AnimationSelectionReport> {
+	const selection = parseAnimationSelection(raw);
+	if (!selection) throw new Error('Empty selection');
+	let report: AnimationSelectionReport | undefined;
+	await clipsDocument(names).transform(
+		selectAnimations(selection, (r) => {
+			report = r;
+		}),
+	);
+	if (!report) throw new Error('No report');
+	return report;
+}
+
+test('regex patterns match clip names, commas included', async () => {
+	const report = await select(['Idle', 'walk', 'walk_back', 'run'], { keep: ['/^(walk|idle){1,2}/i,run'] });
+	expect(report.kept).toEqual(['Idle', 'walk', 'walk_back', 'run']);
+
+	const dropped = await select(['Idle', 'walk', 'walk_back', 'run'], { drop: ['/_back$/'] });
+	expect(dropped.dropped).toEqual(['walk_back']);
+});
+
+test('regex patterns with g or y flags match every clip independently', async () => {
+	const global = await select(['walk', 'walk_back'], { keep: ['/walk/g'] });
+	expect(global.kept).toEqual(['walk', 'walk_back']);
+
+	const sticky = await select(['walk', 'walk_back', 'run'], { drop: ['/walk/y'] });
+	expect(sticky.dropped).toEqual(['walk', 'walk_back']);
+});
+
+test('a plain pattern is an exact name', async () => {
+	const report = await select(['walk', 'walk_back'], { keep: ['walk'] });
+	expect(report.kept).toEqual(['walk']);
+	expect(report.dropped).toEqual(['walk_back']);
+});
+
+test('an invalid regex is rejected', () => {
+	expect(() => parseAnimationSelection({ keep: ['/(/'] })).toThrow('Invalid clip pattern');
+});
+
+test('renames apply to the clips left after keep and drop', async () => {
+	const report = await select(['walk', 'run', 'idle'], { drop: ['run'], rename: ['walk=Walk, run=Run, idle=idle'] });
+	expect(report.kept).toEqual(['Walk', 'idle']);
+	expect(report.renamed).toEqual([{ from: 'walk', to: 'Walk' }]);
+	expect(() => parseAnimationSelection({ rename: ['walk'] })).toThrow('Invalid clip rename "walk"');
+	expect(() => parseAnimationSelection({ rename: ['walk='] })).toThrow('the new name is empty');
+});
+
+test('dropped clips take their accessors along', async () => {
+	const doc: Document = clipsDocument(['walk', 'run']);
+	await doc.transform(selectAnimations({ drop: ['run'] }));
+	expect(
+		doc
+			.getRoot()
+			.listAnimations()
+			.map((animation) => animation.getName()),
+	).toEqual(['walk']);
+	expect(doc.getRoot().listAccessors()).toHaveLength(2);
+});
+
+test('the trim range must be non-empty and non-negative', () => {
+	expect(parseAnimationSelection({ trim: '1.5:' })).toEqual({ trim: { start: 1.5 } });
+	expect(parseAnimationSelection({ trim: ':3' })).toEqual({ trim: { start: 0, end: 3 } });
+	expect(() => parseAnimationSelection({ trim: '2:1' })).toThrow('Invalid clip trim 2:1');
+	expect(() => parseAnimationSelection({ trim: '1:2:3' })).toThrow('Invalid clip trim "1:2:3"');
+	expect(() => parseAnimationSelection({ trim: 'a:1' })).toThrow('Invalid clip trim "a:1"');
+	expect(() => resolveAnimationSelection({ trim: { start: -1 } })).toThrow('Invalid clip trim -1:Infinity');
+});
+
+/** Keyframe times and values of a sampler, rounded to 4 decimals. */
+function keys(sampler: AnimationSampler | undefined): { times: number[]; values: number[] } {
+	const round = (array: ArrayLike<number>): number[] => Array.from(array, (value) => Math.round(value * 1e4) / 1e4 + 0);
+	return {
+		times: round(sampler?.getInput()?.getArray() ?? []),
+		values: round(sampler?.getOutput()?.getArray() ?? []),
+	};
+}
+
+/** Trim the clips of a translation document and return the report and samplers. */
+async function trim(
+	clips: TranslationClip[],
+	range: AnimationSelection['trim'],
+	edit: (samplers: AnimationSampler[]) => void = () => {},
+): Promise<{ report: AnimationSelectionReport; samplers: AnimationSampler[] }> {
+	const { doc, samplers } = translationDocument(clips);
+	edit(samplers);
+	let report: AnimationSelectionReport | undefined;
+	await doc.transform(
+		selectAnimations({ trim: range }, (r) => {
+			report = r;
+		}),
+	);
+	if (!report) throw new Error('No report');
+	return { report, samplers };
+}
+
+/** A linear clip moving along X by one unit per second. */
+function slide(times: number[], interpolation: TranslationClip['interpolation'] = 'LINEAR'): TranslationClip {
+	return { name: 'slide', times, value: (t) => [t, 0, 0], interpolation };
+}
+
+test('trim interpolates LINEAR values at the bounds and shifts the clip to 0', async () => {
+	const { report, samplers } = await trim([slide(frames(5, 1))], { start: 0.3, end: 0.8 });
+	expect(report.trimmed).toBe(1);
+	expect(keys(samplers[0])).toEqual({
+		times: [0, 0.2, 0.45, 0.5],
+		values: [0.3, 0, 0, 0.5, 0, 0, 0.75, 0, 0, 0.8, 0, 0],
+	});
+});
+
+test('trim keeps keyframes on the bounds without adding any', async () => {
+	const { samplers } = await trim([slide(frames(5, 1))], { start: 0.25, end: 0.75 });
+	expect(keys(samplers[0])).toEqual({ times: [0, 0.25, 0.5], values: [0.25, 0, 0, 0.5, 0, 0, 0.75, 0, 0] });
+});
+
+test('a range between two keyframes keeps both interpolated bounds', async () => {
+	const { samplers } = await trim([slide([0, 1])], { start: 0.25, end: 0.5 });
+	expect(keys(samplers[0])).toEqual({ times: [0, 0.25], values: [0.25, 0, 0, 0.5, 0, 0] });
+});
+
+test('trim holds STEP values at the bounds', async () => {
+	const { samplers } = await trim([slide([0, 1, 2], 'STEP')], { start: 0.5, end: 1.5 });
+	expect(keys(samplers[0])).toEqual({ times: [0, 0.5, 1], values: [0, 0, 0, 1, 0, 0, 1, 0, 0] });
+});
+
+test('a clip that ends before the range keeps its last value as one keyframe', async () => {
+	const { samplers } = await trim([slide([0, 1])], { start: 3 });
+	expect(keys(samplers[0])).toEqual({ times: [0], values: [1, 0, 0] });
+});
+
+test('a range covering the whole clip leaves it untouched', async () => {
+	const { report, samplers } = await trim([slide(frames(5, 1))], { start: 0, end: 1 });
+	expect(report.trimmed).toBe(0);
+	expect(keys(samplers[0]).times).toEqual([0, 0.25, 0.5, 0.75, 1]);
+});
+
+test('trim slerps rotations at the bounds', async () => {
+	const half: number = Math.SQRT1_2;
+	const { samplers } = await trim([slide([0, 1])], { start: 0.25 }, ([sampler]) => {
+		sampler
+			?.getOutput()
+			?.setType('VEC4')
+			.setArray(new Float32Array([0, 0, 0, 1, 0, 0, half, half]));
+		for (const channel of sampler?.listParents() ?? []) {
+			if (channel instanceof AnimationChannel) channel.setTargetPath('rotation');
+		}
+	});
+	// A quarter of the way from identity to 90° about Z: 22.5° about Z
+	const angle: number = Math.PI / 16;
+	expect(keys(samplers[0]).values.slice(0, 4)).toEqual(
+		[0, 0, Math.sin(angle), Math.cos(angle)].map((value) => Math.round(value * 1e4) / 1e4),
+	);
+});
+
+test('trim keeps whole CUBICSPLINE keyframes inside the range', async () => {
+	// Per keyframe: in-tangent, value, out-tangent
+	const output = new Float32Array([0, 0, 0, 0, 0, 0, 1, 0, 0, 1, 0, 0, 1, 0, 0, 1, 0, 0, 1, 0, 0, 2, 0, 0, 1, 0, 0]);
+	const cubic = (samplers: AnimationSampler[]): void => {
+		samplers[0]?.getOutput()?.setArray(output);
+	};
+	const inside = await trim([slide([0, 1, 2], 'CUBICSPLINE')], { start: 0.5, end: 2 }, cubic);
+	expect(keys(inside.samplers[0])).toEqual({ times: [0.5, 1.5], values: Array.from(output.subarray(9)) });
+
+	const after = await trim([slide([0, 1, 2], 'CUBICSPLINE')], { start: 3 }, cubic);
+	expect(keys(after.samplers[0])).toEqual({ times: [0], values: Array.from(output.subarray(18)) });
+});
+
+test('splitAnimations moves each clip into a document without meshes', async () => {
+	const { doc } = translationDocument([slide(frames(5, 1)), { ...slide([0, 1]), name: 'hop' }], { triangle: true });
+	const clips = await splitAnimations(doc);
+	expect(clips.map((clip) => clip.name)).toEqual(['slide', 'hop']);
+	for (const { name, document } of clips) {
+		const root = document.getRoot();
+		expect(root.listAnimations().map((animation) => animation.getName())).toEqual([name]);
+		expect(root.listNodes().map((node) => node.getName())).toEqual(['mover']);
+		expect(root.listMeshes()).toHaveLength(0);
+	}
+	expect(doc.getRoot().listAnimations()).toHaveLength(0);
+	expect(doc.getRoot().listMeshes()).toHaveLength(1);
+});
+
+test('clipFilenames sanitizes, numbers unnamed clips, and suffixes duplicates', () => {
+	expect(clipFilenames('avatar', ['walk', 'Walk', 'arms/up', '', 'walk'])).toEqual([
+		'avatar.walk.glb',
+		'avatar.Walk-2.glb',
+		'avatar.arms_up.glb',
+		'avatar.clip3.glb',
+		'avatar.walk-3.glb',
+	]);
+});
@@ -0,0 +1,346 @@
+/**
+ * Animation clip selection: keep or drop clips by name, rename them, trim them
+ * to a time range, and split them into files of their own.
+ *
+ * Avatar GLBs often ship dozens of clips while a product needs a handful.
+ * {@link selectAnimations} removes the others before the pipeline spends time
+ * on them (so resampling and static-track removal only see what ships), and
+ * {@link splitAnimations} moves each remaining clip into a document holding
+ * only the node hierarchy, to be loaded next to the model — viewers such as
+ * three.js bind clips to the model's nodes by name.
+ *
+ * @module clips
+ */
+
+import {
+	type Animation,
+	type AnimationSampler,
+	type Document,
+	PropertyType,
+	type Transform,
+} from '@gltf-transform/core';
+import * as transform from '@gltf-transform/functions';
+import { type Keyframes, keyframeRow, readKeyframes, sampleKeyframes, writeKeyframes } from './keyframes';
+import { sanitizeFilename } from './utils';
+
+/**
+ * Which animation clips to keep, and how to rename and trim them.
+ *
+ * Patterns are exact clip names, or regular expressions written as
+ * `/source/flags` (e.g. `/^walk/i`), matched anywhere in the name.
+ */
+export interface AnimationSelection {
+	/** Keep only clips matching one of these patterns. Omit to keep every clip. */
+	keep?: string[];
+	/** Drop clips matching one of these patterns (applied after `keep`). */
+	drop?: string[];
+	/** New clip names by current name (applied after `keep` and `drop`). */
+	rename?: Record<string, string>;
+	/**
+	 * Time range to keep, in seconds. Keyframes outside it are removed, values
+	 * at its bounds are interpolated (`CUBICSPLINE` samplers keep the keyframes
+	 * inside it), and clips are shifted to start at `0`.
+	 */
+	trim?: { start?: number; end?: number };
+}
+
+/** Result reported by {@link selectAnimations}. */
+export interface AnimationSelectionReport {
+	/** Names of the kept clips, after renaming. */
+	kept: string[];
+	/** Names of the removed clips. */
+	dropped: string[];
+	renamed: { from: string; to: string }[];
+	/** Kept clips changed by `trim`. */
+	trimmed: number;
+}
+
+/** One clip written to its own file by {@link splitAnimations}. */
+export interface ClipFileReport {
+	/** Clip name. */
+	name: string;
+	/** Encoded GLB size. */
+	bytes: number;
+}
+
+/** A document holding one clip and the node hierarchy it animates. */
+export interface ClipDocument {
+	name: string;
+	document: Document;
+}
+
+/**
+ * Compile a clip name pattern: `/source/flags` is a regular expression, any
+ * other string an exact name. The `g` and `y` flags are dropped: they make
+ * `test()` resume from the previous match, so one name would affect the next.
+ *
+ * @throws {Error} If the regular expression is invalid.
+ */
+function compilePattern(pattern: string): (name: string) => boolean {
+	const regex: RegExpMatchArray | null = pattern.match(/^\/(.+)\/([a-z]*)$/);
+	if (!regex) return (name) => name === pattern;
+	let compiled: RegExp;
+	try {
+		compiled = new RegExp(regex[1] ?? '', regex[2]?.replace(/[gy]/g, ''));
+	} catch (err) {
+		throw new Error(`Invalid clip pattern ${pattern}: ${err instanceof Error ? err.message : String(err)}`);
+	}
+	return (name) => compiled.test(name);
+}
+
+/**
+ * Check an {@link AnimationSelection}: patterns must compile and the trim range
+ * must be a non-empty range of non-negative seconds.
+ *
+ * @returns The selection's `keep` and `drop` matchers.
+ * @throws {Error} On an invalid pattern, rename, or trim range.
+ */
+export function resolveAnimationSelection(selection: AnimationSelection): {
+	keep: ((name: string) => boolean) | null;
+	drop: (name: string) => boolean;
+} {
+	const keep = selection.keep?.map(compilePattern);
+	const drop = (selection.drop ?? []).map(compilePattern);
+	for (const [from, to] of Object.entries(selection.rename ?? {})) {
+		if (!to) throw new Error(`Invalid clip rename "${from}": the new name is empty`);
+	}
+	const { start = 0, end = Infinity } = selection.trim ?? {};
+	if (!(start >= 0) || !(end > start)) {
+		throw new Error(`Invalid clip trim ${start}:${end} (expected 0 <= start < end, in seconds)`);
+	}
+	return {
+		keep: keep ? (name) => keep.some((matches) => matches(name)) : null,
+		drop: (name) => drop.some((matches) => matches(name)),
+	};
+}
+
+/**
+ * Parse clip selection flags (CLI) or params (server) into an {@link AnimationSelection}.
+ *
+ * `keep` and `drop` values are comma-separated names, each of which may be a
+ * `/regex/`; `rename` values are comma-separated `old=new` pairs; `trim` is
+ * `start:end` in seconds, either side optional (`1.5:`, `:3`). Every list
+ * option may be given several times.
+ *
+ * @returns The selection, or `undefined` when no option is set.
+ * @throws {Error} On a malformed value (see also {@link resolveAnimationSelection}).
+ */
+export function parseAnimationSelection(raw: {
+	keep?: string[];
+	drop?: string[];
+	rename?: string[];
+	trim?: string | null;
+}): AnimationSelection | undefined {
+	const list = (values: string[] = []): string[] | undefined => {
+		// A `/regex/` may itself contain commas
+		const items: string[] = values
+			.flatMap((value) => value.match(/\/(?:\\.|[^\\/])+\/[a-z]*(?=,|$)|[^,]+/g) ?? [])
+			.map((item) => item.trim())
+			.filter(Boolean);
+		return items.length > 0 ? items : undefined;
+	};
+	const selection: AnimationSelection = {};
+
+	const keep = list(raw.keep);
+	if (keep) selection.keep = keep;
+	const drop = list(raw.drop);
+	if (drop) selection.drop = drop;
+
+	const renames = list(raw.rename);
+	if (renames) {
+		selection.rename = {};
+		for (const pair of renames) {
+			const eq: number = pair.indexOf('=');
+			if (eq <= 0) throw new Error(`Invalid clip rename "${pair}" (expected <old>=<new>)`);
+			selection.rename[pair.slice(0, eq).trim()] = pair.slice(eq + 1).trim();
+		}
+	}
+
+	if (raw.trim) {
+		const [rawStart = '', rawEnd = '', ...extra] = raw.trim.split(':').map((part) => part.trim());
+		const start: number = rawStart === '' ? 0 : Number(rawStart);
+		const end: number = rawEnd === '' ? Infinity : Number(rawEnd);
+		if (extra.length > 0 || Number.isNaN(start) || Number.isNaN(end)) {
+			throw new Error(`Invalid clip trim "${raw.trim}" (expected <start>:<end> in seconds, e.g. 0.5:2)`);
+		}
+		selection.trim = { start, ...(Number.isFinite(end) ? { end } : {}) };
+	}
+
+	if (Object.keys(selection).length === 0) return undefined;
+	resolveAnimationSelection(selection);
+	return selection;
+}
+
+/**
+ * Keep, drop, rename, and trim animation clips (see {@link AnimationSelection}).
+ *
+ * Dropped clips are removed with their channels and samplers; accessors only
+ * they used are pruned. Trimming writes new keyframe accessors, so accessors
+ * shared with other samplers are left intact.
+ *
+ * @param selection - Clips to keep or drop, renames, and trim range.
+ * @param onReport  - Optional callback receiving the kept, dropped, and renamed clips.
+ * @returns A glTF-Transform `Transform` function (async).
+ * @throws {Error} If the selection is invalid (see {@link resolveAnimationSelection}).
+ */
+export function selectAnimations(
+	selection: AnimationSelection,
+	onReport?: (report: AnimationSelectionReport) => void,
+): Transform {
+	const { keep, drop } = resolveAnimationSelection(selection);
+	return async (doc: Document): Promise<void> => {
+		const report: AnimationSelectionReport = { kept: [], dropped: [], renamed: [], trimmed: 0 };
+		const { start = 0, end = Infinity } = selection.trim ?? {};
+
+		for (const animation of doc.getRoot().listAnimations()) {
+			const name: string = animation.getName();
+			if ((keep && !keep(name)) || drop(name)) {
+				disposeAnimation(animation);
+				report.dropped.push(name);
+				continue;
+			}
+
+			const renamed: string | undefined = selection.rename?.[name];
+			if (renamed !== undefined && renamed !== name) {
+				animation.setName(renamed);
+				report.renamed.push({ from: name, to: renamed });
+			}
+			if (selection.trim && trimAnimation(animation, start, end)) report.trimmed++;
+			report.kept.push(animation.getName());
+		}
+
+		if (report.dropped.length > 0 || report.trimmed > 0) {
+			await doc.transform(transform.prune({ propertyTypes: [PropertyType.ACCESSOR] }));
+		}
+
+		console.log(
+			`  selectAnimations: kept ${report.kept.length}, dropped ${report.dropped.length}` +
+				(report.renamed.length > 0 ? `, renamed ${report.renamed.length}` : '') +
+				(report.trimmed > 0 ? `, trimmed ${report.trimmed}` : ''),
+		);
+		onReport?.(report);
+	};
+}
+
+/**
+ * Move each animation clip into a document of its own.
+ *
+ * Every clip document is a copy of `doc` with only that clip, and without
+ * meshes, skins, materials, and textures: what remains is the node hierarchy
+ * (names and rest transforms) the clip targets. The clips are then removed
+ * from `doc`. Clip documents keep every node, even childless ones, so the
+ * hierarchy matches the model's.
+ *
+ * @param doc - Document to split; its animations are removed.
+ * @returns One document per clip, in clip order.
+ */
+export async function splitAnimations(doc: Document): Promise<ClipDocument[]> {
+	const clips: ClipDocument[] = [];
+	const prune = transform.prune({ keepLeaves: true });
+
+	for (const [i, animation] of doc.getRoot().listAnimations().entries()) {
+		const document: Document = transform.cloneDocument(doc);
+		const root = document.getRoot();
+		for (const [j, other] of root.listAnimations().entries()) {
+			if (j !== i) disposeAnimation(other);
+		}
+		for (const node of root.listNodes()) {
+			node.setMesh(null);
+			node.setSkin(null);
+		}
+		await document.transform(prune);
+		clips.push({ name: animation.getName(), document });
+	}
+
+	for (const animation of doc.getRoot().listAnimations()) disposeAnimation(animation);
+	await doc.transform(prune);
+	return clips;
+}
+
+/**
+ * Filenames for split clips, `<base>.<clip>.glb`: clip names are sanitized,
+ * unnamed clips are numbered, and duplicates get a numeric suffix.
+ *
+ * @param base  - Output name without extension, e.g. `avatar`.
+ * @param names - Clip names, in order.
+ */
+export function clipFilenames(base: string, names: string[]): string[] {
+	const used = new Set<string>();
+	return names.map((name, i) => {
+		const clean: string = name ? sanitizeFilename(name.replace(/[\\/]/g, '_')) : `clip${i}`;
+		let filename: string = `${base}.${clean}.glb`;
+		for (let n: number = 2; used.has(filename.toLowerCase()); n++) filename = `${base}.${clean}-${n}.glb`;
+		used.add(filename.toLowerCase());
+		return filename;
+	});
+}
+
+/** Remove an animation with its channels and samplers. */
+function disposeAnimation(animation: Animation): void {
+	for (const channel of animation.listChannels()) channel.dispose();
+	for (const sampler of animation.listSamplers()) sampler.dispose();
+	animation.dispose();
+}
+
+/**
+ * Cut every sampler of a clip to `[start, end]` and shift it to start at `0`.
+ *
+ * @returns Whether any sampler changed.
+ */
+function trimAnimation(animation: Animation, start: number, end: number): boolean {
+	let changed: boolean = false;
+	for (const sampler of animation.listSamplers()) {
+		const rotation: boolean = animation
+			.listChannels()
+			.some((channel) => channel.getSampler() === sampler && channel.getTargetPath() === 'rotation');
+		if (trimSampler(sampler, start, end, rotation)) changed = true;
+	}
+	return changed;
+}
+
+/**
+ * Cut one sampler's keyframes to `[start, end]`, interpolating `LINEAR` and
+ * `STEP` values at the bounds, and shift them by `-start`.
+ *
+ * @returns Whether the sampler changed.
+ */
+function trimSampler(sampler: AnimationSampler, start: number, end: number, rotation: boolean): boolean {
+	const keys: Keyframes | null = readKeyframes(sampler);
+	if (!keys) return false;
+	const { times } = keys;
+	const first: number = times[0] ?? 0;
+	const last: number = times[times.length - 1] ?? 0;
+	if (start === 0 && first >= 0 && end >= last) return false;
+
+	const newTimes: number[] = [];
+	const newValues: number[] = [];
+	const push = (time: number, value: number[]): void => {
+		newTimes.push(time - start);
+		newValues.push(...value);
+	};
+
+	const inside: number[] = [];
+	for (let i: number = 0; i < times.length; i++) {
+		const time: number = times[i] ?? 0;
+		if (time >= start && time <= end) inside.push(i);
+	}
+	if (sampler.getInterpolation() === 'CUBICSPLINE') {
+		// Hermite segments cannot be cut without refitting their tangents: keep whole keyframes
+		if (inside.length === 0) {
+			const nearest: number = start > last ? times.length - 1 : 0;
+			inside.push(nearest);
+		}
+		for (const i of inside) push(Math.max(start, times[i] ?? 0), keyframeRow(keys, i));
+	} else {
+		const step: boolean = sampler.getInterpolation() === 'STEP';
+		const firstInside: number = inside.length > 0 ? (times[inside[0] ?? 0] ?? 0) : Infinity;
+		const lastInside: number = inside.length > 0 ? (times[inside[inside.length - 1] ?? 0] ?? 0) : -Infinity;
+		if (first < start && firstInside > start) push(start, sampleKeyframes(keys, start, step, rotation));
+		for (const i of inside) push(times[i] ?? 0, keyframeRow(keys, i));
+		if (last > end && lastInside < end) push(end, sampleKeyframes(keys, end, step, rotation));
+		if (newTimes.length === 0) push(start, sampleKeyframes(keys, start, step, rotation));
+	}
+
+	writeKeyframes(sampler, newTimes, newValues);
+	return true;
+}
@@ -0,0 +1,78 @@
+import { expect, test } from 'bun:test';
+import type { Document } from '@gltf-transform/core';
+import { cloneDocument } from '@gltf-transform/functions';
+import { frames, gridDocument, solidPng, texturedDocument, translationDocument } from '../test/fixtures';
+import { checkTolerance, compareDocuments, parseTolerance, type QualityReport, worstError } from './compare';
+
+/** A one-second clip moving `mover` along X by `amplitude`. */
+function sway(amplitude: number, name: string = 'sway'): Document {
+	return translationDocument([{ name, times: frames(11, 1), value: (t) => [amplitude * Math.sin(t * 6), 0, 0] }], {
+		triangle: true,
+	}).doc;
+}
+
+test('a document compared with its copy has no error', async () => {
+	const original: Document = gridDocument(10);
+	const quality: QualityReport = await compareDocuments(original, cloneDocument(original));
+	expect(quality.geometry).toMatchObject({ hausdorff: 0, rms: 0, relativeHausdorff: 0 });
+	expect(quality.geometry?.diagonal).toBeGreaterThan(0);
+	expect(quality.animations).toEqual([]);
+	expect(checkTolerance(quality)).toEqual([]);
+});
+
+test('moved geometry is measured in scene units and relative to the diagonal', async () => {
+	const original: Document = gridDocument(10);
+	const compressed: Document = cloneDocument(original);
+	compressed.getRoot().listNodes()[0]?.setTranslation([0, 0.1, 0]);
+	const geometry = (await compareDocuments(original, compressed)).geometry;
+	expect(geometry?.hausdorff).toBeCloseTo(0.1, 4);
+	expect(geometry?.relativeHausdorff).toBeCloseTo(0.1 / (geometry?.diagonal ?? 1), 6);
+});
+
+test('clips are matched by name and sampled over their duration', async () => {
+	const quality: QualityReport = await compareDocuments(sway(1), sway(1.01), { sampleRate: 10 });
+	const [clip] = quality.animations;
+	expect(clip).toMatchObject({ name: 'sway', matched: true, samples: 11, joints: 1, missingJoints: 0 });
+	expect(clip?.maxTranslation).toBeCloseTo(0.01, 3);
+	expect(clip?.rmsTranslation).toBeLessThanOrEqual(clip?.maxTranslation ?? 0);
+	expect(clip?.maxRotation).toBe(0);
+});
+
+test('a clip missing from the output is unbounded error', async () => {
+	const quality: QualityReport = await compareDocuments(sway(1), sway(1, 'renamed'));
+	expect(quality.animations[0]).toMatchObject({ name: 'sway', matched: false, samples: 0 });
+	expect(worstError(quality)).toEqual({ geometry: Infinity, translation: Infinity, rotation: Infinity });
+});
+
+test('checkTolerance names every exceeded limit', async () => {
+	const quality: QualityReport = await compareDocuments(sway(1), sway(1.1));
+	expect(checkTolerance(quality, { translation: 1 })).toEqual([]);
+	const [violation] = checkTolerance(quality, { translation: 0.01 });
+	expect(violation).toMatch(/^translation error \S+ exceeds 0\.01$/);
+});
+
+test('parseTolerance reads key:value pairs', () => {
+	expect(parseTolerance('geometry:0.0005, rotation:0.5')).toEqual({ geometry: 0.0005, rotation: 0.5 });
+	expect(() => parseTolerance('scale:1')).toThrow('Invalid tolerance "scale:1"');
+	expect(() => parseTolerance('geometry:-1')).toThrow('Invalid tolerance "geometry:-1"');
+	expect(() => parseTolerance('geometry')).toThrow('Invalid tolerance "geometry"');
+});
+
+test('textures are compared per material slot', async () => {
+	const { doc: original } = await texturedDocument(8);
+	const compressed: Document = cloneDocument(original);
+	const [material] = compressed.getRoot().listMaterials();
+	material?.getBaseColorTexture()?.setImage(await solidPng(8, 0.5));
+	material?.setNormalTexture(null);
+
+	const { textures } = await compareDocuments(original, compressed);
+	expect(textures.map((texture) => texture.slot)).toEqual(['baseColorTexture', 'normalTexture', 'occlusionTexture']);
+	const [changed, missing, same] = textures;
+	expect(changed?.psnr).toBeLessThan(100);
+	expect(changed?.ssim).toBeLessThanOrEqual(1);
+	expect(missing).toMatchObject({ psnr: null, skipped: 'texture missing from compressed output' });
+	expect(same).toMatchObject({ width: 8, height: 8, psnr: 100 });
+	expect(same?.ssim).toBeCloseTo(1);
+
+	expect((await compareDocuments(original, compressed, { textures: false })).textures).toEqual([]);
+});
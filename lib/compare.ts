@@ -0,0 +1,940 @@
+/**
+ * Quality metrics comparing a compressed model to its original.
+ *
+ * {@link compareDocuments} measures what compression cost visually:
+ *
+ * - **Geometry** — symmetric Hausdorff and RMS distance between the two
+ *   surfaces in world space. Positions are read through their accessors, so
+ *   `KHR_mesh_quantization` data is dequantized (node transforms, instancing,
+ *   and rest-pose skinning included).
+ * - **Animation** — world-space joint translation and rotation error, sampled
+ *   over each clip's duration.
+ * - **Textures** — PSNR and SSIM per material slot, decoded with sharp. KTX2
+ *   images cannot be decoded and are reported as skipped.
+ *
+ * Both documents are read-only; nothing is modified.
+ *
+ * @module compare
+ */
+
+import {
+	type Accessor,
+	type Animation,
+	type AnimationSampler,
+	type Document,
+	type Material,
+	MathUtils,
+	type mat4,
+	type Node,
+	type Texture,
+	type vec3,
+	type vec4,
+} from '@gltf-transform/core';
+import type { InstancedMesh } from '@gltf-transform/extensions';
+import sharp from 'sharp';
+import { SHARP_MIME_TYPES } from './textures';
+
+/** Options for {@link compareDocuments}. */
+export interface CompareOptions {
+	/**
+	 * Maximum surface sample points per direction; vertices are strided down to this.
+	 * @default 50000
+	 */
+	maxPoints?: number;
+	/**
+	 * Animation sampling rate in Hz.
+	 * @default 30
+	 */
+	sampleRate?: number;
+	/**
+	 * Compare textures (PSNR/SSIM).
+	 * @default true
+	 */
+	textures?: boolean;
+}
+
+/** Surface distance between the original and compressed geometry. */
+export interface GeometryError {
+	/** Symmetric Hausdorff distance (largest one-sided distance), in scene units. */
+	hausdorff: number;
+	/** RMS distance over the samples of both directions, in scene units. */
+	rms: number;
+	/** Bounding-box diagonal of the original scene, in scene units. */
+	diagonal: number;
+	/** `hausdorff / diagonal`. */
+	relativeHausdorff: number;
+	/** `rms / diagonal`. */
+	relativeRms: number;
+	/** Sample points measured (both directions). */
+	samples: number;
+}
+
+/** World-space joint error of one animation clip. */
+export interface AnimationError {
+	/** Clip name, or `animation_<index>` when unnamed. */
+	name: string;
+	/** Whether the compressed model has a matching clip (by name, else by index). */
+	matched: boolean;
+	/** Time samples evaluated. */
+	samples: number;
+	/** Joints (skin joints, or animated nodes without skins) compared. */
+	joints: number;
+	/** Joints with no same-named node in the compressed model. */
+	missingJoints: number;
+	/** Largest joint position error, in scene units. */
+	maxTranslation: number;
+	/** RMS joint position error, in scene units. */
+	rmsTranslation: number;
+	/** Largest joint rotation error, in degrees. */
+	maxRotation: number;
+}
+
+/** Image difference for one material texture slot. */
+export interface TextureError {
+	/** Material name, or `material_<index>` when unnamed. */
+	material: string;
+	/** Material slot, e.g. `"baseColorTexture"`. */
+	slot: string;
+	/** Resolution the images were compared at (the original's, capped at {@link MAX_COMPARE_SIZE}). */
+	width: number;
+	height: number;
+	/** Peak signal-to-noise ratio in dB over RGBA, capped at 100 for identical images; `null` if skipped. */
+	psnr: number | null;
+	/** Mean structural similarity of luma (`1` = identical); `null` if skipped. */
+	ssim: number | null;
+	/** Why the slot was not compared (missing texture, undecodable format). */
+	skipped?: string;
+}
+
+/** Result of {@link compareDocuments}. */
+export interface QualityReport {
+	/** Surface distance, or `null` when either model has no triangles. */
+	geometry: GeometryError | null;
+	/** Per-clip joint error, in original clip order. */
+	animations: AnimationError[];
+	/** Per material slot image error; empty when texture comparison is off. */
+	textures: TextureError[];
+	/** Wall-clock time spent comparing, in milliseconds. */
+	durationMs: number;
+}
+
+/**
+ * Maximum acceptable error, used by `preset: 'auto'` to accept or reject a preset.
+ * Distances are relative to the original scene's bounding-box diagonal.
+ */
+export interface QualityTolerance {
+	/** Surface Hausdorff distance as a fraction of the diagonal. */
+	geometry?: number;
+	/** Joint position error as a fraction of the diagonal. */
+	translation?: number;
+	/** Joint rotation error, in degrees. */
+	rotation?: number;
+}
+
+/** Tolerance applied when none is given: 0.1% of the diagonal and 1°. */
+export const DEFAULT_TOLERANCE: Required<QualityTolerance> = { geometry: 0.001, translation: 0.001, rotation: 1 };
+
+/** Keys accepted by {@link parseTolerance}. */
+const TOLERANCE_KEYS: readonly (keyof QualityTolerance)[] = ['geometry', 'translation', 'rotation'];
+
+/** Largest texture side compared; bigger images are downscaled first. */
+const MAX_COMPARE_SIZE = 1024;
+
+/** Longest clip sample count, regardless of duration and sample rate. */
+const MAX_ANIMATION_SAMPLES = 1000;
+
+/** PSNR reported for identical images. */
+const MAX_PSNR = 100;
+
+/** Material texture slots compared, with their getters. */
+const TEXTURE_SLOTS: readonly [string, (material: Material) => Texture | null][] = [
+	['baseColorTexture', (m) => m.getBaseColorTexture()],
+	['normalTexture', (m) => m.getNormalTexture()],
+	['occlusionTexture', (m) => m.getOcclusionTexture()],
+	['emissiveTexture', (m) => m.getEmissiveTexture()],
+	['metallicRoughnessTexture', (m) => m.getMetallicRoughnessTexture()],
+];
+
+/**
+ * Compare a compressed document against its original.
+ *
+ * @param original   - Document before compression.
+ * @param compressed - Document read back from the compressed output.
+ * @param options    - Sampling limits and texture switch.
+ * @returns Geometry, animation, and texture error.
+ */
+export async function compareDocuments(
+	original: Document,
+	compressed: Document,
+	options: CompareOptions = {},
+): Promise<QualityReport> {
+	const start: number = performance.now();
+	const maxPoints: number = options.maxPoints ?? 50_000;
+	const sampleRate: number = options.sampleRate ?? 30;
+
+	const geometry: GeometryError | null = compareGeometry(original, compressed, maxPoints);
+	const animations: AnimationError[] = compareAnimations(original, compressed, sampleRate);
+	const textures: TextureError[] = options.textures === false ? [] : await compareTextures(original, compressed);
+
+	return { geometry, animations, textures, durationMs: performance.now() - start };
+}
+
+/**
+ * Worst-case error of a {@link QualityReport}, in {@link QualityTolerance} units.
+ *
+ * Clips without a match in the compressed model count as unbounded error.
+ */
+export function worstError(quality: QualityReport): Required<QualityTolerance> {
+	const diagonal: number = quality.geometry?.diagonal || 1;
+	let translation: number = 0;
+	let rotation: number = 0;
+	for (const animation of quality.animations) {
+		if (!animation.matched) return { geometry: Infinity, translation: Infinity, rotation: Infinity };
+		translation = Math.max(translation, animation.maxTranslation / diagonal);
+		rotation = Math.max(rotation, animation.maxRotation);
+	}
+	return { geometry: quality.geometry?.relativeHausdorff ?? 0, translation, rotation };
+}
+
+/**
+ * Check a {@link QualityReport} against a tolerance.
+ *
+ * @param quality   - Comparison result.
+ * @param tolerance - Limits; omitted keys use {@link DEFAULT_TOLERANCE}.
+ * @returns Human-readable violations; empty when the output is within tolerance.
+ */
+export function checkTolerance(quality: QualityReport, tolerance: QualityTolerance = {}): string[] {
+	const limits: Required<QualityTolerance> = { ...DEFAULT_TOLERANCE, ...tolerance };
+	const error: Required<QualityTolerance> = worstError(quality);
+	return TOLERANCE_KEYS.filter((key) => error[key] > limits[key]).map(
+		(key) => `${key} error ${error[key].toPrecision(3)} exceeds ${limits[key]}`,
+	);
+}
+
+/**
+ * Parse a tolerance string such as `"geometry:0.0005,rotation:0.5"` (CLI flag, query param).
+ *
+ * @throws {Error} On unknown keys or non-positive values.
+ */
+export function parseTolerance(raw: string): QualityTolerance {
+	const tolerance: QualityTolerance = {};
+	for (const pair of raw.split(',')) {
+		const [key, value] = pair.split(':').map((part) => part.trim());
+		const limit: number = Number(value);
+		const name = TOLERANCE_KEYS.find((k) => k === key);
+		if (!name || !value || !Number.isFinite(limit) || limit < 0) {
+			throw new Error(
+				`Invalid tolerance "${pair}" (expected ${TOLERANCE_KEYS.map((k) => `${k}:<number>`).join(', ')})`,
+			);
+		}
+		tolerance[name] = limit;
+	}
+	return tolerance;
+}
+
+// ---------------------------------------------------------------------------
+// Geometry
+// ---------------------------------------------------------------------------
+
+/** World-space vertices and triangles (9 floats each) of a scene. */
+interface SceneGeometry {
+	points: Float32Array;
+	triangles: Float32Array;
+}
+
+/** Symmetric Hausdorff/RMS distance between the two scenes' surfaces. */
+function compareGeometry(original: Document, compressed: Document, maxPoints: number): GeometryError | null {
+	const a: SceneGeometry = collectGeometry(original);
+	const b: SceneGeometry = collectGeometry(compressed);
+	if (a.triangles.length === 0 || b.triangles.length === 0) return null;
+
+	const ab = surfaceDistance(a.points, buildGrid(b.triangles), maxPoints);
+	const ba = surfaceDistance(b.points, buildGrid(a.triangles), maxPoints);
+	const samples: number = ab.samples + ba.samples;
+	const hausdorff: number = Math.max(ab.max, ba.max);
+	const rms: number = Math.sqrt((ab.sumSq + ba.sumSq) / samples);
+	const diagonal: number = boundsDiagonal(a.points);
+
+	return {
+		hausdorff,
+		rms,
+		diagonal,
+		relativeHausdorff: diagonal > 0 ? hausdorff / diagonal : 0,
+		relativeRms: diagonal > 0 ? rms / diagonal : 0,
+		samples,
+	};
+}
+
+/** Collect world-space triangle geometry of every mesh reachable from the scenes. */
+function collectGeometry(doc: Document): SceneGeometry {
+	const points: number[] = [];
+	const triangles: number[] = [];
+	const position: vec3 = [0, 0, 0];
+	const skinned: vec3 = [0, 0, 0];
+	const world: vec3 = [0, 0, 0];
+
+	for (const scene of doc.getRoot().listScenes()) {
+		scene.traverse((node: Node) => {
+			const mesh = node.getMesh();
+			if (!mesh) return;
+
+			const skin = node.getSkin();
+			const jointMatrices: mat4[] = skin ? skinMatrices(skin.listJoints(), skin.getInverseBindMatrices()) : [];
+			// Skinned vertices are placed by their joints; the node transform does not apply
+			const instances: mat4[] = skin ? [identity()] : instanceMatrices(node);
+
+			for (const prim of mesh.listPrimitives()) {
+				if (prim.getMode() !== 4) continue; // TRIANGLES only
+				const positions: Accessor | null = prim.getAttribute('POSITION');
+				if (!positions) continue;
+				const joints: Accessor | null = skin ? prim.getAttribute('JOINTS_0') : null;
+				const weights: Accessor | null = skin ? prim.getAttribute('WEIGHTS_0') : null;
+
+				const count: number = positions.getCount();
+				const local = new Float32Array(count * 3);
+				for (let i: number = 0; i < count; i++) {
+					positions.getElement(i, position);
+					const p: vec3 =
+						joints && weights ? skinVertex(position, i, joints, weights, jointMatrices, skinned) : position;
+					local.set(p, i * 3);
+				}
+
+				const indices: Accessor | null = prim.getIndices();
+				const indexCount: number = indices ? indices.getCount() : count;
+				for (const matrix of instances) {
+					const base: number = points.length / 3;
+					for (let i: number = 0; i < count; i++) {
+						points.push(...transformPoint(matrix, local, i * 3, world));
+					}
+					for (let i: number = 0; i + 2 < indexCount; i += 3) {
+						for (let k: number = 0; k < 3; k++) {
+							const index: number = indices ? indices.getScalar(i + k) : i + k;
+							const p: number = (base + index) * 3;
+							triangles.push(points[p] ?? 0, points[p + 1] ?? 0, points[p + 2] ?? 0);
+						}
+					}
+				}
+			}
+		});
+	}
+
+	return { points: new Float32Array(points), triangles: new Float32Array(triangles) };
+}
+
+/** World matrices of a mesh node, one per `EXT_mesh_gpu_instancing` instance (or just the node's). */
+function instanceMatrices(node: Node): mat4[] {
+	const world: mat4 = node.getWorldMatrix();
+	const batch = node.getExtension<InstancedMesh>('EXT_mesh_gpu_instancing');
+	if (!batch) return [world];
+
+	const translation = batch.getAttribute('TRANSLATION');
+	const rotation = batch.getAttribute('ROTATION');
+	const scale = batch.getAttribute('SCALE');
+	const count: number = (translation ?? rotation ?? scale)?.getCount() ?? 0;
+	const matrices: mat4[] = [];
+	for (let i: number = 0; i < count; i++) {
+		const t: vec3 = [0, 0, 0];
+		const r: vec4 = [0, 0, 0, 1];
+		const s: vec3 = [1, 1, 1];
+		translation?.getElement(i, t);
+		rotation?.getElement(i, r);
+		scale?.getElement(i, s);
+		matrices.push(multiply(world, MathUtils.compose(t, r, s, identity())));
+	}
+	return matrices;
+}
+
+/** Rest-pose skinning matrices (`jointWorld × inverseBind`) for each joint. */
+function skinMatrices(joints: Node[], inverseBind: Accessor | null): mat4[] {
+	return joints.map((joint, i) => {
+		const ibm: mat4 = identity();
+		inverseBind?.getElement(i, ibm);
+		return multiply(joint.getWorldMatrix(), ibm);
+	});
+}
+
+/** Linear-blend-skin one vertex at rest pose into `target`. */
+function skinVertex(
+	position: vec3,
+	index: number,
+	joints: Accessor,
+	weights: Accessor,
+	jointMatrices: mat4[],
+	target: vec3,
+): vec3 {
+	const j: number[] = joints.getElement(index, [0, 0, 0, 0]);
+	const w: number[] = weights.getElement(index, [0, 0, 0, 0]);
+	const skinned: vec3 = [0, 0, 0];
+	const sum: vec3 = [0, 0, 0];
+	let total: number = 0;
+	for (let k: number = 0; k < 4; k++) {
+		const weight: number = w[k] ?? 0;
+		const matrix: mat4 | undefined = jointMatrices[j[k] ?? 0];
+		if (weight === 0 || !matrix) continue;
+		transformPoint(matrix, position, 0, skinned);
+		sum[0] += skinned[0] * weight;
+		sum[1] += skinned[1] * weight;
+		sum[2] += skinned[2] * weight;
+		total += weight;
+	}
+	// Unweighted vertices stay where they are
+	if (total === 0) return position;
+	target[0] = sum[0] / total;
+	target[1] = sum[1] / total;
+	target[2] = sum[2] / total;
+	return target;
+}
+
+/** Uniform grid over triangles for nearest-surface queries. */
+interface TriangleGrid {
+	triangles: Float32Array;
+	min: vec3;
+	cellSize: number;
+	dims: vec3;
+	/** Offset of each cell's triangle list in {@link TriangleGrid.items} (CSR layout, `cells + 1` entries). */
+	cellStart: Uint32Array;
+	items: Uint32Array;
+	/** Per-triangle query stamp, so triangles spanning several cells are tested once per query. */
+	stamps: Uint32Array;
+	query: number;
+}
+
+/** Bucket triangles into a grid sized for roughly one triangle per occupied cell. */
+function buildGrid(triangles: Float32Array): TriangleGrid {
+	const count: number = triangles.length / 9;
+	const min: vec3 = [Infinity, Infinity, Infinity];
+	const max: vec3 = [-Infinity, -Infinity, -Infinity];
+	for (let i: number = 0; i < triangles.length; i += 3) {
+		for (const a of [0, 1, 2] as const) {
+			const v: number = triangles[i + a] ?? 0;
+			if (v < min[a]) min[a] = v;
+			if (v > max[a]) max[a] = v;
+		}
+	}
+
+	// Surfaces fill ~n² of n³ cells, so n ≈ √count keeps cells sparse
+	const extent: number = Math.max(max[0] - min[0], max[1] - min[1], max[2] - min[2], 1e-9);
+	const resolution: number = Math.min(128, Math.max(1, Math.ceil(Math.sqrt(count / 2))));
+	const cellSize: number = (extent / resolution) * (1 + 1e-6);
+	const dims: vec3 = [0, 0, 0];
+	for (const a of [0, 1, 2] as const) dims[a] = Math.max(1, Math.ceil((max[a] - min[a]) / cellSize));
+	const cells: number = dims[0] * dims[1] * dims[2];
+
+	// Two passes: count triangles per cell, then fill the item list
+	const cellStart = new Uint32Array(cells + 1);
+	const cursor = new Uint32Array(cells);
+	let items = new Uint32Array(0);
+	for (let pass: number = 0; pass < 2; pass++) {
+		for (let t: number = 0; t < count; t++) {
+			const o: number = t * 9;
+			const lo: vec3 = [0, 0, 0];
+			const hi: vec3 = [0, 0, 0];
+			for (const a of [0, 1, 2] as const) {
+				const v0: number = triangles[o + a] ?? 0;
+				const v1: number = triangles[o + 3 + a] ?? 0;
+				const v2: number = triangles[o + 6 + a] ?? 0;
+				lo[a] = cellCoord(Math.min(v0, v1, v2), min[a], cellSize, dims[a]);
+				hi[a] = cellCoord(Math.max(v0, v1, v2), min[a], cellSize, dims[a]);
+			}
+			for (let z: number = lo[2]; z <= hi[2]; z++) {
+				for (let y: number = lo[1]; y <= hi[1]; y++) {
+					for (let x: number = lo[0]; x <= hi[0]; x++) {
+						const cell: number = (z * dims[1] + y) * dims[0] + x;
+						if (pass === 0) {
+							cellStart[cell + 1] = (cellStart[cell + 1] ?? 0) + 1;
+						} else {
+							const slot: number = cursor[cell] ?? 0;
+							items[(cellStart[cell] ?? 0) + slot] = t;
+							cursor[cell] = slot + 1;
+						}
+					}
+				}
+			}
+		}
+		if (pass === 0) {
+			for (let c: number = 0; c < cells; c++) cellStart[c + 1] = (cellStart[c + 1] ?? 0) + (cellStart[c] ?? 0);
+			items = new Uint32Array(cellStart[cells] ?? 0);
+		}
+	}
+
+	return { triangles, min, cellSize, dims, cellStart, items, stamps: new Uint32Array(count), query: 0 };
+}
+
+/** Grid cell index of a coordinate along one axis, clamped to the grid. */
+function cellCoord(value: number, min: number, cellSize: number, dim: number): number {
+	return Math.min(dim - 1, Math.max(0, Math.floor((value - min) / cellSize)));
+}
+
+/** One-sided distance from (strided) sample points to the grid's surface. */
+function surfaceDistance(
+	points: Float32Array,
+	grid: TriangleGrid,
+	maxPoints: number,
+): { max: number; sumSq: number; samples: number } {
+	const total: number = points.length / 3;
+	const stride: number = Math.max(1, Math.ceil(total / maxPoints));
+	let max: number = 0;
+	let sumSq: number = 0;
+	let samples: number = 0;
+	for (let i: number = 0; i < total; i += stride) {
+		const d: number = nearestDistance(grid, points[i * 3] ?? 0, points[i * 3 + 1] ?? 0, points[i * 3 + 2] ?? 0);
+		if (d > max) max = d;
+		sumSq += d * d;
+		samples++;
+	}
+	return { max, sumSq, samples };
+}
+
+/** Distance from a point to the closest triangle, searching grid cells ring by ring. */
+function nearestDistance(grid: TriangleGrid, px: number, py: number, pz: number): number {
+	const { triangles, min, cellSize, dims, cellStart, items, stamps } = grid;
+	const query: number = ++grid.query;
+	const cx: number = cellCoord(px, min[0], cellSize, dims[0]);
+	const cy: number = cellCoord(py, min[1], cellSize, dims[1]);
+	const cz: number = cellCoord(pz, min[2], cellSize, dims[2]);
+	const maxRing: number = Math.max(dims[0], dims[1], dims[2]);
+	let best: number = Infinity;
+
+	for (let r: number = 0; r <= maxRing; r++) {
+		for (let z: number = Math.max(0, cz - r); z <= Math.min(dims[2] - 1, cz + r); z++) {
+			for (let y: number = Math.max(0, cy - r); y <= Math.min(dims[1] - 1, cy + r); y++) {
+				const shell: boolean = Math.abs(z - cz) === r || Math.abs(y - cy) === r;
+				// Inside the shell only the two x faces are new
+				const step: number = shell ? 1 : 2 * r;
+				for (let x: number = Math.max(0, cx - r); x <= Math.min(dims[0] - 1, cx + r); x += Math.max(1, step)) {
+					if (!shell && Math.abs(x - cx) !== r) continue;
+					const cell: number = (z * dims[1] + y) * dims[0] + x;
+					const end: number = cellStart[cell + 1] ?? 0;
+					for (let k: number = cellStart[cell] ?? 0; k < end; k++) {
+						const t: number = items[k] ?? 0;
+						if (stamps[t] === query) continue;
+						stamps[t] = query;
+						const d: number = pointTriangleDistanceSq(triangles, t * 9, px, py, pz);
+						if (d < best) best = d;
+					}
+				}
+			}
+		}
+		// Every cell beyond ring r is at least r cells away
+		if (best <= (r * cellSize) ** 2) break;
+	}
+	return Math.sqrt(best);
+}
+
+/** Squared distance from a point to a triangle (Ericson, Real-Time Collision Detection §5.1.5). */
+function pointTriangleDistanceSq(tri: Float32Array, o: number, px: number, py: number, pz: number): number {
+	const ax: number = tri[o] ?? 0;
+	const ay: number = tri[o + 1] ?? 0;
+	const az: number = tri[o + 2] ?? 0;
+	const abx: number = (tri[o + 3] ?? 0) - ax;
+	const aby: number = (tri[o + 4] ?? 0) - ay;
+	const abz: number = (tri[o + 5] ?? 0) - az;
+	const acx: number = (tri[o + 6] ?? 0) - ax;
+	const acy: number = (tri[o + 7] ?? 0) - ay;
+	const acz: number = (tri[o + 8] ?? 0) - az;
+	const apx: number = px - ax;
+	const apy: number = py - ay;
+	const apz: number = pz - az;
+
+	const closest = (u: number, v: number): number => {
+		const dx: number = apx - u * abx - v * acx;
+		const dy: number = apy - u * aby - v * acy;
+		const dz: number = apz - u * abz - v * acz;
+		return dx * dx + dy * dy + dz * dz;
+	};
+
+	const d1: number = abx * apx + aby * apy + abz * apz;
+	const d2: number = acx * apx + acy * apy + acz * apz;
+	if (d1 <= 0 && d2 <= 0) return closest(0, 0);
+
+	const bpx: number = apx - abx;
+	const bpy: number = apy - aby;
+	const bpz: number = apz - abz;
+	const d3: number = abx * bpx + aby * bpy + abz * bpz;
+	const d4: number = acx * bpx + acy * bpy + acz * bpz;
+	if (d3 >= 0 && d4 <= d3) return closest(1, 0);
+
+	const vc: number = d1 * d4 - d3 * d2;
+	if (vc <= 0 && d1 >= 0 && d3 <= 0) return closest(d1 / (d1 - d3), 0);
+
+	const cpx: number = apx - acx;
+	const cpy: number = apy - acy;
+	const cpz: number = apz - acz;
+	const d5: number = abx * cpx + aby * cpy + abz * cpz;
+	const d6: number = acx * cpx + acy * cpy + acz * cpz;
+	if (d6 >= 0 && d5 <= d6) return closest(0, 1);
+
+	const vb: number = d5 * d2 - d1 * d6;
+	if (vb <= 0 && d2 >= 0 && d6 <= 0) return closest(0, d2 / (d2 - d6));
+
+	const va: number = d3 * d6 - d5 * d4;
+	if (va <= 0 && d4 - d3 >= 0 && d5 - d6 >= 0) {
+		const w: number = (d4 - d3) / (d4 - d3 + (d5 - d6));
+		return closest(1 - w, w);
+	}
+
+	// Degenerate triangles fall back to the nearest vertex
+	const denom: number = va + vb + vc;
+	if (denom === 0) return Math.min(closest(0, 0), closest(1, 0), closest(0, 1));
+	return closest(vb / denom, vc / denom);
+}
+
+/** Bounding-box diagonal of a point cloud. */
+function boundsDiagonal(points: Float32Array): number {
+	const min: vec3 = [Infinity, Infinity, Infinity];
+	const max: vec3 = [-Infinity, -Infinity, -Infinity];
+	for (let i: number = 0; i < points.length; i += 3) {
+		for (const a of [0, 1, 2] as const) {
+			const v: number = points[i + a] ?? 0;
+			if (v < min[a]) min[a] = v;
+			if (v > max[a]) max[a] = v;
+		}
+	}
+	return Math.hypot(max[0] - min[0], max[1] - min[1], max[2] - min[2]);
+}
+
+// ---------------------------------------------------------------------------
+// Animation
+// ---------------------------------------------------------------------------
+
+/** Joint error for every clip of the original, matched by name (else index) in the compressed model. */
+function compareAnimations(original: Document, compressed: Document, sampleRate: number): AnimationError[] {
+	const compressedAnimations: Animation[] = compressed.getRoot().listAnimations();
+	const joints: Node[] = listJoints(original);
+	const compressedNodes = new Map<string, Node>();
+	for (const node of compressed.getRoot().listNodes()) {
+		const name: string = node.getName();
+		if (name && !compressedNodes.has(name)) compressedNodes.set(name, node);
+	}
+
+	return original
+		.getRoot()
+		.listAnimations()
+		.map((animation, index): AnimationError => {
+			const name: string = animation.getName() || `animation_${index}`;
+			const match: Animation | undefined = animation.getName()
+				? compressedAnimations.find((other) => other.getName() === animation.getName())
+				: compressedAnimations[index];
+			const nodes: Node[] = joints.length > 0 ? joints : listTargets(animation);
+			const pairs: [Node, Node][] = [];
+			for (const node of nodes) {
+				const other: Node | undefined = compressedNodes.get(node.getName());
+				if (other) pairs.push([node, other]);
+			}
+			const result: AnimationError = {
+				name,
+				matched: match !== undefined,
+				samples: 0,
+				joints: pairs.length,
+				missingJoints: nodes.length - pairs.length,
+				maxTranslation: 0,
+				rmsTranslation: 0,
+				maxRotation: 0,
+			};
+			if (!match || pairs.length === 0) return result;
+
+			const duration: number = animationDuration(animation);
+			const samples: number = Math.min(MAX_ANIMATION_SAMPLES, Math.max(2, Math.ceil(duration * sampleRate) + 1));
+			let sumSq: number = 0;
+			const ta: vec3 = [0, 0, 0];
+			const tb: vec3 = [0, 0, 0];
+			const ra: vec4 = [0, 0, 0, 1];
+			const rb: vec4 = [0, 0, 0, 1];
+			const scale: vec3 = [1, 1, 1];
+			for (let s: number = 0; s < samples; s++) {
+				const time: number = (duration * s) / (samples - 1);
+				const worldA = poseAt(animation, time);
+				const worldB = poseAt(match, time);
+				for (const [a, b] of pairs) {
+					MathUtils.decompose(worldA(a), ta, ra, scale);
+					MathUtils.decompose(worldB(b), tb, rb, scale);
+					const distance: number = Math.hypot(ta[0] - tb[0], ta[1] - tb[1], ta[2] - tb[2]);
+					const dot: number = Math.min(1, Math.abs(ra[0] * rb[0] + ra[1] * rb[1] + ra[2] * rb[2] + ra[3] * rb[3]));
+					const angle: number = (2 * Math.acos(dot) * 180) / Math.PI;
+					result.maxTranslation = Math.max(result.maxTranslation, distance);
+					result.maxRotation = Math.max(result.maxRotation, angle);
+					sumSq += distance * distance;
+				}
+			}
+			result.samples = samples;
+			result.rmsTranslation = Math.sqrt(sumSq / (samples * pairs.length));
+			return result;
+		});
+}
+
+/** Every named skin joint, de-duplicated. */
+function listJoints(doc: Document): Node[] {
+	const joints = new Set<Node>();
+	for (const skin of doc.getRoot().listSkins()) {
+		for (const joint of skin.listJoints()) if (joint.getName()) joints.add(joint);
+	}
+	return [...joints];
+}
+
+/** Named nodes targeted by a clip's TRS channels. */
+function listTargets(animation: Animation): Node[] {
+	const targets = new Set<Node>();
+	for (const channel of animation.listChannels()) {
+		const node: Node | null = channel.getTargetNode();
+		if (node?.getName() && channel.getTargetPath() !== 'weights') targets.add(node);
+	}
+	return [...targets];
+}
+
+/** Clip duration: the latest keyframe time across its samplers. */
+function animationDuration(animation: Animation): number {
+	let duration: number = 0;
+	for (const sampler of animation.listSamplers()) {
+		const input: Accessor | null = sampler.getInput();
+		if (input && input.getCount() > 0) duration = Math.max(duration, input.getScalar(input.getCount() - 1));
+	}
+	return duration;
+}
+
+/**
+ * Pose a clip at `time` and return a world-matrix lookup.
+ *
+ * Animated TRS values override the nodes' rest transforms; the documents
+ * themselves are left untouched.
+ */
+function poseAt(animation: Animation, time: number): (node: Node) => mat4 {
+	const overrides = new Map<Node, { translation?: vec3; rotation?: vec4; scale?: vec3 }>();
+	for (const channel of animation.listChannels()) {
+		const node: Node | null = channel.getTargetNode();
+		const path = channel.getTargetPath();
+		const sampler: AnimationSampler | null = channel.getSampler();
+		if (!node || !sampler || (path !== 'translation' && path !== 'rotation' && path !== 'scale')) continue;
+		const value: number[] | null = sampleChannel(sampler, time, path === 'rotation');
+		if (!value) continue;
+		const entry = overrides.get(node) ?? {};
+		if (path === 'rotation') entry.rotation = [value[0] ?? 0, value[1] ?? 0, value[2] ?? 0, value[3] ?? 1];
+		else entry[path] = [value[0] ?? 0, value[1] ?? 0, value[2] ?? 0];
+		overrides.set(node, entry);
+	}
+
+	const cache = new Map<Node, mat4>();
+	const world = (node: Node): mat4 => {
+		const cached: mat4 | undefined = cache.get(node);
+		if (cached) return cached;
+		const entry = overrides.get(node);
+		const local: mat4 = MathUtils.compose(
+			entry?.translation ?? node.getTranslation(),
+			entry?.rotation ?? node.getRotation(),
+			entry?.scale ?? node.getScale(),
+			identity(),
+		);
+		const parent: Node | null = node.getParentNode();
+		const matrix: mat4 = parent ? multiply(world(parent), local) : local;
+		cache.set(node, matrix);
+		return matrix;
+	};
+	return world;
+}
+
+/** Evaluate a sampler at `time` (STEP, LINEAR with slerp for rotations, or CUBICSPLINE). */
+function sampleChannel(sampler: AnimationSampler, time: number, rotation: boolean): number[] | null {
+	const input: Accessor | null = sampler.getInput();
+	const output: Accessor | null = sampler.getOutput();
+	if (!input || !output || input.getCount() === 0) return null;
+
+	const count: number = input.getCount();
+	const size: number = output.getElementSize();
+	const cubic: boolean = sampler.getInterpolation() === 'CUBICSPLINE';
+	// CUBICSPLINE stores [inTangent, value, outTangent] per keyframe
+	const value = (key: number, part: number = 1): number[] =>
+		output.getElement(cubic ? key * 3 + part : key, new Array<number>(size).fill(0));
+
+	if (time <= input.getScalar(0)) return value(0);
+	if (time >= input.getScalar(count - 1)) return value(count - 1);
+
+	// Binary search for the keyframe interval containing `time`
+	let lo: number = 0;
+	let hi: number = count - 1;
+	while (hi - lo > 1) {
+		const mid: number = (lo + hi) >> 1;
+		if (input.getScalar(mid) <= time) lo = mid;
+		else hi = mid;
+	}
+	const t0: number = input.getScalar(lo);
+	const dt: number = input.getScalar(hi) - t0;
+	const t: number = dt > 0 ? (time - t0) / dt : 0;
+
+	if (sampler.getInterpolation() === 'STEP') return value(lo);
+	if (cubic) {
+		const p0: number[] = value(lo);
+		const m0: number[] = value(lo, 2);
+		const p1: number[] = value(hi);
+		const m1: number[] = value(hi, 0);
+		const t2: number = t * t;
+		const t3: number = t2 * t;
+		const result: number[] = p0.map(
+			(v, i) =>
+				(2 * t3 - 3 * t2 + 1) * v +
+				(t3 - 2 * t2 + t) * dt * (m0[i] ?? 0) +
+				(-2 * t3 + 3 * t2) * (p1[i] ?? 0) +
+				(t3 - t2) * dt * (m1[i] ?? 0),
+		);
+		return rotation ? normalize(result) : result;
+	}
+	const next: number[] = value(hi);
+	return rotation ? slerp(value(lo), next, t) : value(lo).map((v, i) => v + ((next[i] ?? 0) - v) * t);
+}
+
+/** Spherical linear interpolation between two quaternions. */
+function slerp(a: number[], b: number[], t: number): number[] {
+	let dot: number = a.reduce((sum, v, i) => sum + v * (b[i] ?? 0), 0);
+	const target: number[] = dot < 0 ? b.map((v) => -v) : b;
+	dot = Math.abs(dot);
+	if (dot > 0.9995) return normalize(a.map((v, i) => v + ((target[i] ?? 0) - v) * t));
+	const theta: number = Math.acos(dot);
+	const sin: number = Math.sin(theta);
+	const wa: number = Math.sin((1 - t) * theta) / sin;
+	const wb: number = Math.sin(t * theta) / sin;
+	return a.map((v, i) => v * wa + (target[i] ?? 0) * wb);
+}
+
+/** Normalize a vector (quaternion) to unit length. */
+function normalize(v: number[]): number[] {
+	const length: number = Math.hypot(...v) || 1;
+	return v.map((x) => x / length);
+}
+
+// ---------------------------------------------------------------------------
+// Textures
+// ---------------------------------------------------------------------------
+
+/** PSNR/SSIM per material slot, matching materials by name (else index). */
+async function compareTextures(original: Document, compressed: Document): Promise<TextureError[]> {
+	const compressedMaterials: Material[] = compressed.getRoot().listMaterials();
+	const results: TextureError[] = [];
+
+	for (const [index, material] of original.getRoot().listMaterials().entries()) {
+		const name: string = material.getName() || `material_${index}`;
+		const match: Material | undefined = material.getName()
+			? compressedMaterials.find((other) => other.getName() === material.getName())
+			: compressedMaterials[index];
+
+		for (const [slot, getTexture] of TEXTURE_SLOTS) {
+			const before: Texture | null = getTexture(material);
+			if (!before) continue;
+			const after: Texture | null = match ? getTexture(match) : null;
+			const result: TextureError = { material: name, slot, width: 0, height: 0, psnr: null, ssim: null };
+			if (!after) result.skipped = 'texture missing from compressed output';
+			else if (!SHARP_MIME_TYPES.includes(after.getMimeType()) || !SHARP_MIME_TYPES.includes(before.getMimeType())) {
+				result.skipped = `cannot decode ${after.getMimeType()}`;
+			} else {
+				Object.assign(result, await compareImages(before, after));
+			}
+			results.push(result);
+		}
+	}
+	return results;
+}
+
+/** Decode both images at the original's resolution (capped) and measure PSNR and SSIM. */
+async function compareImages(
+	before: Texture,
+	after: Texture,
+): Promise<Pick<TextureError, 'width' | 'height' | 'psnr' | 'ssim'>> {
+	const metadata = await sharp(before.getImage() ?? new Uint8Array()).metadata();
+	const scale: number = Math.min(1, MAX_COMPARE_SIZE / Math.max(metadata.width ?? 1, metadata.height ?? 1));
+	const width: number = Math.max(1, Math.round((metadata.width ?? 1) * scale));
+	const height: number = Math.max(1, Math.round((metadata.height ?? 1) * scale));
+
+	// Downscaled outputs are upscaled back, so lost detail counts as error
+	const decode = (texture: Texture): Promise<Buffer> =>
+		sharp(texture.getImage() ?? new Uint8Array())
+			.resize(width, height, { fit: 'fill' })
+			.ensureAlpha()
+			.raw()
+			.toBuffer();
+	const [a, b] = await Promise.all([decode(before), decode(after)]);
+
+	return { width, height, psnr: psnr(a, b), ssim: ssim(a, b, width, height) };
+}
+
+/** Peak signal-to-noise ratio of two same-size 8-bit buffers, in dB. */
+function psnr(a: Uint8Array, b: Uint8Array): number {
+	let sumSq: number = 0;
+	for (let i: number = 0; i < a.length; i++) {
+		const d: number = (a[i] ?? 0) - (b[i] ?? 0);
+		sumSq += d * d;
+	}
+	if (sumSq === 0) return MAX_PSNR;
+	return Math.min(MAX_PSNR, 10 * Math.log10((255 * 255 * a.length) / sumSq));
+}
+
+/** Mean SSIM of the luma of two RGBA buffers, over 8×8 windows with a stride of 4. */
+function ssim(a: Uint8Array, b: Uint8Array, width: number, height: number): number {
+	const C1: number = (0.01 * 255) ** 2;
+	const C2: number = (0.03 * 255) ** 2;
+	const luma = (data: Uint8Array, i: number): number =>
+		0.299 * (data[i * 4] ?? 0) + 0.587 * (data[i * 4 + 1] ?? 0) + 0.114 * (data[i * 4 + 2] ?? 0);
+
+	const window: number = Math.min(8, width, height);
+	let total: number = 0;
+	let windows: number = 0;
+	for (let y: number = 0; y + window <= height; y += 4) {
+		for (let x: number = 0; x + window <= width; x += 4) {
+			let sa: number = 0;
+			let sb: number = 0;
+			let saa: number = 0;
+			let sbb: number = 0;
+			let sab: number = 0;
+			for (let wy: number = 0; wy < window; wy++) {
+				for (let wx: number = 0; wx < window; wx++) {
+					const i: number = (y + wy) * width + x + wx;
+					const va: number = luma(a, i);
+					const vb: number = luma(b, i);
+					sa += va;
+					sb += vb;
+					saa += va * va;
+					sbb += vb * vb;
+					sab += va * vb;
+				}
+			}
+			const n: number = window * window;
+			const ma: number = sa / n;
+			const mb: number = sb / n;
+			const varA: number = saa / n - ma * ma;
+			const varB: number = sbb / n - mb * mb;
+			const cov: number = sab / n - ma * mb;
+			total += ((2 * ma * mb + C1) * (2 * cov + C2)) / ((ma * ma + mb * mb + C1) * (varA + varB + C2));
+			windows++;
+		}
+	}
+	return windows > 0 ? total / windows : 1;
+}
+
+// ---------------------------------------------------------------------------
+// Matrix helpers (column-major, as in glTF)
+// ---------------------------------------------------------------------------
+
+/** A new 4×4 identity matrix. */
+function identity(): mat4 {
+	return [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+}
+
+/** `a × b` for column-major 4×4 matrices. */
+function multiply(a: mat4, b: mat4): mat4 {
+	const out: mat4 = identity();
+	for (let col: number = 0; col < 4; col++) {
+		for (let row: number = 0; row < 4; row++) {
+			let sum: number = 0;
+			for (let k: number = 0; k < 4; k++) sum += (a[k * 4 + row] ?? 0) * (b[col * 4 + k] ?? 0);
+			out[col * 4 + row] = sum;
+		}
+	}
+	return out;
+}
+
+/** Transform the point at `src[offset..offset+2]` by `m` into `target`. */
+function transformPoint(m: mat4, src: ArrayLike<number>, offset: number, target: vec3): vec3 {
+	const x: number = src[offset] ?? 0;
+	const y: number = src[offset + 1] ?? 0;
+	const z: number = src[offset + 2] ?? 0;
+	target[0] = m[0] * x + m[4] * y + m[8] * z + m[12];
+	target[1] = m[1] * x + m[5] * y + m[9] * z + m[13];
+	target[2] = m[2] * x + m[6] * y + m[10] * z + m[14];
+	return target;
+}
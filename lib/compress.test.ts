@@ -0,0 +1,233 @@
+import { expect, test } from 'bun:test';
+import { join } from 'node:path';
+import { NodeIO } from '@gltf-transform/core';
+import {
+	frames,
+	gridDocument,
+	skinnedDocument,
+	type TranslationClip,
+	translationDocument,
+	writeGlb,
+} from '../test/fixtures';
+import { readGlbJson } from './breakdown';
+import {
+	type CompressOptions,
+	compress,
+	compressFile,
+	compressGltf,
+	gltfpackFlags,
+	readDocument,
+	readModelFile,
+} from './compress';
+import { type PipelineOptions, resolvePipeline } from './pipeline';
+import { definePreset, getPreset } from './presets';
+import { CompressionCancelledError, detectInputFormat, withTempDir } from './utils';
+
+/** A GLB with one triangle on an animated node, and a one-second translation clip per name. */
+function animatedGlb(names: string[]): Promise<Uint8Array> {
+	const clips: TranslationClip[] = names.map((name, i) => ({
+		name,
+		times: frames(11, 1),
+		value: (t) => [Math.sin(t * 7 + i), Math.cos(t * 5 + i), 0],
+	}));
+	return writeGlb(translationDocument(clips, { triangle: true }).doc);
+}
+
+/** Clip names and matches from a verified compression. */
+async function verifiedClips(options: CompressOptions): Promise<[string, boolean][]> {
+	const input: Uint8Array = await animatedGlb(['walk', 'run']);
+	const result = await compress(input, { backend: 'meshopt', verify: true, quiet: true, ...options });
+	const animations = result.report.quality?.animations ?? [];
+	return animations.map((animation): [string, boolean] => [animation.name, animation.matched]);
+}
+
+const selection: CompressOptions['animations'] = { drop: ['run'], rename: { walk: 'Walk' } };
+
+test('verify compares against the selected clips', async () => {
+	expect(await verifiedClips({ animations: selection })).toEqual([['Walk', true]]);
+});
+
+test('verify within a budget compares against the selected clips', async () => {
+	expect(await verifiedClips({ animations: selection, targetBytes: 1e6 })).toEqual([['Walk', true]]);
+});
+
+test('verify within a budget leaves split clips out', async () => {
+	expect(await verifiedClips({ splitAnimations: true, targetBytes: 1e6 })).toEqual([]);
+});
+
+test('splitAnimations returns each selected clip as a GLB of its own', async () => {
+	const input: Uint8Array = await animatedGlb(['walk', 'run', 'idle']);
+	const result = await compress(input, {
+		backend: 'meshopt',
+		animations: { ...selection, trim: { end: 0.5 } },
+		splitAnimations: true,
+		quiet: true,
+	});
+	expect(result.clips?.map((clip) => clip.name)).toEqual(['Walk', 'idle']);
+	expect(result.report.transforms.animations).toMatchObject({ kept: ['Walk', 'idle'], trimmed: 2 });
+	expect(result.report.clips).toEqual(
+		(result.clips ?? []).map(({ name, buffer }) => ({ name, bytes: buffer.byteLength })),
+	);
+	expect(readGlbJson(result.buffer).json.animations).toBeUndefined();
+	for (const clip of result.clips ?? []) {
+		const { json } = readGlbJson(clip.buffer);
+		expect(json.animations?.map((animation) => animation.name)).toEqual([clip.name]);
+		expect(json.meshes).toBeUndefined();
+	}
+});
+
+test('splitAnimations cannot be combined with LOD files', async () => {
+	const input: Uint8Array = await animatedGlb(['walk']);
+	await expect(
+		compress(input, { lods: [1, 0.5], lodOutput: 'files', splitAnimations: true, quiet: true }),
+	).rejects.toThrow('splitAnimations cannot be combined with lodOutput "files"');
+});
+
+/** gltfpack flags for the static model of a built-in preset with pipeline overrides. */
+function flagsFor(preset: string, overrides: PipelineOptions = {}, encoderFlags: string[] = []): string[] {
+	const config = getPreset(preset);
+	if (!config) throw new Error(`No preset ${preset}`);
+	const { animation, textures } = resolvePipeline(config, overrides);
+	return gltfpackFlags(config.static, animation.resampleFps, textures, encoderFlags);
+}
+
+test('gltfpack gets -af at the preset rate', () => {
+	expect(flagsFor('default').slice(0, 2)).toEqual(['-af', '30']);
+	expect(flagsFor('balanced').slice(0, 2)).toEqual(['-af', '24']);
+	expect(flagsFor('aggressive').slice(0, 2)).toEqual(['-af', '15']);
+	expect(flagsFor('max').slice(0, 2)).toEqual(['-af', '15']);
+});
+
+test('gltfpack gets -af when the animation phase does not resample', () => {
+	expect(flagsFor('aggressive', { animation: { resample: false } }).slice(0, 2)).toEqual(['-af', '15']);
+	expect(flagsFor('aggressive', { animation: { enabled: false } }).slice(0, 2)).toEqual(['-af', '15']);
+	expect(flagsFor('aggressive', { animation: { resampleFps: 0 } }).slice(0, 2)).toEqual(['-af', '0']);
+});
+
+test('-af from encoder.flags comes after the preset rate', () => {
+	const flags: string[] = flagsFor('aggressive', {}, ['-af', '10']);
+	expect(flags.slice(0, 2)).toEqual(['-af', '15']);
+	expect(flags.slice(-2)).toEqual(['-af', '10']);
+	expect(flags).toContain('-vp');
+});
+
+test('compressGltf resolves a percent-encoded resource URI by filename', async () => {
+	const { json, resources } = await new NodeIO().writeJSON(translationDocument([], { triangle: true }).doc);
+	const [buffer] = json.buffers ?? [];
+	const data = buffer?.uri === undefined ? undefined : resources[buffer.uri];
+	if (!buffer || !data) throw new Error('No external buffer');
+	buffer.uri = 'data/mesh%20buffer.bin';
+
+	const result = await compressGltf(json, { 'mesh buffer.bin': data }, { backend: 'meshopt', quiet: true });
+	expect(detectInputFormat(result.buffer)).toBe('glb');
+	await expect(compressGltf(json, {}, { quiet: true })).rejects.toThrow(
+		'Missing external resource "data/mesh%20buffer.bin"',
+	);
+});
+
+test('compressFile reads a .gltf with its resources next to it', async () => {
+	await withTempDir(async (dir) => {
+		const path: string = join(dir, 'scene.gltf');
+		await new NodeIO().write(path, translationDocument([], { triangle: true }).doc);
+		const { input, resources } = await readModelFile(path);
+		expect(detectInputFormat(input)).toBe('gltf');
+		expect(Object.keys(resources)).toEqual(['scene.bin']);
+
+		const result = await compressFile(path, { backend: 'meshopt', quiet: true });
+		expect(detectInputFormat(result.buffer)).toBe('glb');
+		expect(result.originalSize).toBe(input.byteLength + (resources['scene.bin']?.byteLength ?? 0));
+	});
+});
+
+test('the draco backend writes KHR_draco_mesh_compression that reads back', async () => {
+	const input: Uint8Array = await writeGlb(gridDocument(20));
+	const { buffer, method, report } = await compress(input, { backend: 'draco', quiet: true });
+	expect(method).toBe('draco');
+	expect(report.encode.method).toBe('draco');
+	expect(readGlbJson(buffer).json.extensionsRequired).toContain('KHR_draco_mesh_compression');
+
+	const [mesh] = (await readDocument(buffer)).getRoot().listMeshes();
+	expect(mesh?.listPrimitives()[0]?.getIndices()?.getCount()).toBe(19 * 19 * 6);
+});
+
+test('the draco backend takes quantization bits from the preset', async () => {
+	definePreset('test-draco-coarse', { draco: { static: { position: 6 } } });
+	const input: Uint8Array = await writeGlb(gridDocument(20));
+	const fine = await compress(input, { backend: 'draco', quiet: true });
+	const coarse = await compress(input, { backend: 'draco', preset: 'test-draco-coarse', quiet: true });
+	expect(coarse.buffer.byteLength).toBeLessThan(fine.buffer.byteLength);
+});
+
+test('auto encodes each distinct preset once and keeps the smallest within tolerance', async () => {
+	const input: Uint8Array = await animatedGlb(['walk']);
+	const { report } = await compress(input, {
+		preset: 'auto',
+		backend: 'meshopt',
+		tolerance: { geometry: 1, translation: 1, rotation: 180 },
+		quiet: true,
+	});
+	const auto = report.auto;
+	// max encodes like aggressive with meshopt: same 15 fps rate
+	expect(auto?.candidates.map((candidate) => candidate.preset)).toEqual(['default', 'balanced', 'aggressive']);
+	expect(auto?.withinTolerance).toBe(true);
+	const smallest = Math.min(...(auto?.candidates.map((candidate) => candidate.bytes) ?? []));
+	expect(auto?.candidates.find((candidate) => candidate.preset === auto.selected)?.bytes).toBe(smallest);
+	expect(report.preset).toBe(auto?.selected ?? '');
+});
+
+test('auto keeps the most conservative preset when none is within tolerance', async () => {
+	const input: Uint8Array = await writeGlb(gridDocument(20));
+	const { report } = await compress(input, {
+		preset: 'auto',
+		backend: 'meshopt',
+		tolerance: { geometry: 0 },
+		quiet: true,
+	});
+	expect(report.auto).toMatchObject({ selected: 'default', withinTolerance: false });
+	expect(report.auto?.candidates).toHaveLength(1);
+	expect(report.auto?.candidates[0]?.violations[0]).toMatch(/^geometry error \S+ exceeds 0$/);
+	expect(report.auto?.tolerance).toEqual({ geometry: 0, translation: 0.001, rotation: 1 });
+});
+
+test('auto cannot be combined with a size budget', async () => {
+	const input: Uint8Array = await writeGlb(gridDocument(4));
+	await expect(compress(input, { preset: 'auto', targetBytes: 1000, quiet: true })).rejects.toThrow(
+		'targetBytes cannot be combined with preset "auto"',
+	);
+});
+
+test('an aborted signal cancels compression before it starts', async () => {
+	const input: Uint8Array = await writeGlb(gridDocument(4));
+	const abort = new AbortController();
+	abort.abort();
+	await expect(compress(input, { signal: abort.signal, quiet: true })).rejects.toThrow(CompressionCancelledError);
+});
+
+test('aborting during compression stops the pipeline', async () => {
+	const input: Uint8Array = await writeGlb(gridDocument(20));
+	const abort = new AbortController();
+	const logs: string[] = [];
+	const run = compress(input, {
+		backend: 'meshopt',
+		signal: abort.signal,
+		quiet: true,
+		onLog: (message) => {
+			logs.push(message);
+			abort.abort();
+		},
+	});
+	await expect(run).rejects.toThrow(CompressionCancelledError);
+	// The first phase's log line aborts; later phases never start
+	expect(logs).toHaveLength(1);
+});
+
+test('a skinned model is joined per skin and reordered with its weights kept normalized', async () => {
+	const input: Uint8Array = await writeGlb(skinnedDocument(['skin', 'skin']).doc);
+	const { buffer, report } = await compress(input, { backend: 'meshopt', quiet: true });
+	expect(report.transforms.skinnedJoin).toEqual({ joined: 1 });
+	expect(report.transforms.reorderWeights).toEqual({ normalized: 0 });
+
+	const doc = await readDocument(buffer);
+	expect(doc.getRoot().listSkins()).toHaveLength(1);
+	expect(doc.getRoot().listMeshes()).toHaveLength(1);
+});
@@ -3,8 +3,12 @@
  *
  * Orchestrates a multi-phase pipeline of glTF-Transform transforms followed by
  * a final binary compression pass via `gltfpack` (preferred) or meshoptimizer
- * WASM (fallback). Automatically detects skinned models and takes a conservative
- * transform path to protect skeleton hierarchies.
+ * WASM (fallback). Automatically detects skinned models and swaps in skin-safe
+ * transform variants to protect skeleton hierarchies and vertex weights.
+ *
+ * Input can be a GLB binary ({@link compress}), a JSON glTF document with its
+ * external resources ({@link compressGltf}), or a path on disk
+ * ({@link compressFile}). All three produce a single self-contained GLB.
  *
  * @example
  * ```ts
@@ -18,136 +22,95 @@
  * @module compress
  */
 
-import { join } from 'node:path';
-import { type Document, NodeIO, type Transform } from '@gltf-transform/core';
+import { dirname, join } from 'node:path';
+import { type Document, type GLTF, NodeIO, type Transform } from '@gltf-transform/core';
 import { ALL_EXTENSIONS } from '@gltf-transform/extensions';
 import * as transform from '@gltf-transform/functions';
 import { $ } from 'bun';
 import draco3d from 'draco3dgltf';
 import { MeshoptDecoder, MeshoptEncoder, MeshoptSimplifier } from 'meshoptimizer';
-import sharp from 'sharp';
+import { version as libraryVersion } from 'pkg';
 
+import { type ByteBreakdown, breakdownBytes, readGlbJson } from './breakdown';
+import {
+	applyBudgetStep,
+	BUDGET_STEPS,
+	type BudgetAttempt,
+	type BudgetReport,
+	type BudgetSettings,
+	formatBudgetSettings,
+} from './budget';
+import { type CompressCache, cacheKey } from './cache';
+import { type AnimationSelection, selectAnimations, splitAnimations } from './clips';
+import {
+	type CompareOptions,
+	checkTolerance,
+	compareDocuments,
+	DEFAULT_TOLERANCE,
+	type QualityReport,
+	type QualityTolerance,
+	worstError,
+} from './compare';
+import { COMPRESSION_EXTENSIONS, GLTFPACK_TIMEOUT_MS } from './constants';
 import {
-	COMPRESSION_EXTENSIONS,
-	GLTFPACK_TIMEOUT_MS,
-	INSTANCE_MIN,
-	MERGE_TOLERANCE,
-	MESH_WARN_THRESHOLD,
-	TEXTURE_MAX_SIZE,
-	TOTAL_WARN_THRESHOLD,
-} from './constants';
+	generateLods,
+	LOD_OUTPUTS,
+	type LodLevel,
+	type LodLevelReport,
+	type LodOutput,
+	type LodReport,
+	MSFTLod,
+	resolveLodLevels,
+	simplifyLodDocument,
+} from './lod';
+import { type PipelineOptions, type ResolvedPipeline, resolvePipeline } from './pipeline';
+import {
+	AUTO_PRESET,
+	AUTO_PRESET_CANDIDATES,
+	type CompressPreset,
+	type DracoQuantization,
+	getPreset,
+	listPresets,
+	type PresetConfig,
+} from './presets';
+import {
+	type AutoPresetCandidate,
+	type AutoPresetReport,
+	type CompressReport,
+	collectStats,
+	measurePhase,
+	type PhaseReport,
+	type TextureReport,
+	type TransformReports,
+} from './report';
+import { encodeKtx2Textures, encodeTextures, gltfpackTextureFlags, usesKtx2 } from './textures';
 import {
 	analyzeMeshComplexity,
 	decimateBloatedMeshes,
+	joinSkinned,
 	mergeByDistance,
 	normalizeWeights,
+	type ResampleOptions,
 	removeDegenerateFaces,
 	removeStaticTracksWithBake,
 	removeUnusedUVs,
+	reorderSkinned,
+	resampleAnimations,
 } from './transforms';
-import { formatBytes, withTempDir } from './utils';
+import {
+	CompressionCancelledError,
+	checkCancelled,
+	detectInputFormat,
+	formatBytes,
+	throwIfCancelled,
+	withTempDir,
+} from './utils';
 
-/**
- * Compression preset controlling gltfpack flags.
- *
- * - `default`  — conservative, preserves all detail
- * - `balanced` — moderate animation quantization, 24Hz resample
- * - `aggressive` — strong animation quantization, 15Hz resample (best tested for skinned avatars)
- * - `max` — aggressive + supercompression + lower vertex precision
- */
-export type CompressPreset = 'default' | 'balanced' | 'aggressive' | 'max';
+/** Final-stage encoder selectable via {@link CompressOptions.backend}. */
+export type CompressBackend = 'auto' | 'gltfpack' | 'meshopt' | 'draco';
 
-interface GltfpackPresetConfig {
-	/** Extra gltfpack flags for skinned models */
-	skinned: string[];
-	/** Extra gltfpack flags for non-skinned models */
-	static: string[];
-}
-
-/**
- * gltfpack flag presets, benchmarked against a 30MB skinned avatar (77 anims, 89k verts).
- *
- * Results on owen.glb:
- *   default    → 5.95 MB (-80.4%)
- *   balanced   → 5.37 MB (-82.3%)
- *   aggressive → 4.83 MB (-84.1%)  ← best quality/size for skinned avatars
- *   max        → 4.77 MB (-84.3%)  ← smallest, drops -kn (normals requantized)
- */
-export const PRESETS: Record<CompressPreset, GltfpackPresetConfig> = {
-	default: {
-		// biome-ignore format: align cli flags with the values
-		skinned: [
-			'-vp', '20',
-			'-kn'
-		],
-		// biome-ignore format: align cli flags with the values
-		static: [
-			'-vp', '16'
-		],
-	},
-	balanced: {
-		// biome-ignore format: align cli flags with the values
-		skinned: [
-			'-vp', '20',
-			'-kn',
-			'-at', '14',
-			'-ar', '10',
-			'-as', '14',
-			'-af', '24',
-		],
-		// biome-ignore format: align cli flags with the values
-		static: [
-			'-vp', '16',
-			'-at', '14',
-			'-ar', '10',
-			'-as', '14',
-			'-af', '24'
-		],
-	},
-	aggressive: {
-		// biome-ignore format: align cli flags with the values
-		skinned: [
-			'-vp', '20',
-			'-kn',
-			'-at', '12',
-			'-ar', '8',
-			'-as', '12',
-			'-af', '15',
-		],
-		// biome-ignore format: align cli flags with the values
-		static: [
-			'-vp', '14',
-			'-at', '12',
-			'-ar', '8',
-			'-as', '12',
-			'-af', '15'
-		],
-	},
-	max: {
-		// biome-ignore format: align cli flags with the values
-		skinned: [
-			'-cz',
-			'-vp', '14',
-			'-at', '12',
-			'-ar', '8',
-			'-as', '12',
-			'-af', '15',
-			'-si', '0.95',
-			'-slb',
-		],
-		// biome-ignore format: align cli flags with the values
-		static: [
-			'-cz',
-			'-vp', '14',
-			'-at', '12',
-			'-ar', '8',
-			'-as', '12',
-			'-af', '15',
-			'-si', '0.95',
-			'-slb',
-		],
-	},
-};
+/** All {@link CompressBackend} values, for validating CLI and server input. */
+export const COMPRESS_BACKENDS: readonly CompressBackend[] = ['auto', 'gltfpack', 'meshopt', 'draco'];
 
 /**
  * Options for the {@link compress} function.
@@ -169,10 +132,135 @@ export interface CompressOptions {
 	quiet?: boolean;
 
 	/**
-	 * Named compression preset controlling gltfpack flags.
+	 * Cancels the run when aborted: checked between phases and inside the heavy
+	 * custom transforms, and kills a running `gltfpack`/`toktx` process. The
+	 * call then rejects with a {@link CompressionCancelledError}.
+	 */
+	signal?: AbortSignal;
+
+	/**
+	 * Final encoder backend.
+	 *
+	 * - `auto` — gltfpack when installed, meshopt WASM otherwise (or if gltfpack fails)
+	 * - `gltfpack` — gltfpack only; throws if it is missing or fails
+	 * - `meshopt` — glTF-Transform meshopt encoder (`EXT_meshopt_compression`)
+	 * - `draco` — glTF-Transform Draco encoder (`KHR_draco_mesh_compression`), for legacy viewers
+	 *
+	 * @default "auto"
+	 */
+	backend?: CompressBackend;
+
+	/**
+	 * Per-phase options: switch phases or individual transforms on/off and tune
+	 * their parameters. Omitted values come from the preset, then the library
+	 * defaults. Skinned models use skin-safe variants where they exist; flatten,
+	 * weld, and auto-decimation stay off for them regardless.
+	 */
+	pipeline?: PipelineOptions;
+
+	/**
+	 * Named compression preset: a built-in or one registered with `definePreset()`.
+	 * Controls gltfpack flags, the animation rate, and, for custom presets, which phases run and their thresholds.
+	 *
+	 * `auto` runs the pipeline once, encodes with each built-in preset, and keeps
+	 * the smallest output within {@link tolerance} (see {@link CompressReport.auto}).
 	 * @default "default"
 	 */
 	preset?: CompressPreset;
+
+	/**
+	 * Maximum geometric/animation error for `preset: 'auto'`, measured against
+	 * the clean GLB (after optimization, before encoding). Ignored for other presets.
+	 * @default DEFAULT_TOLERANCE
+	 */
+	tolerance?: QualityTolerance;
+
+	/**
+	 * File-size budget in bytes. When the output is larger, the pipeline is re-run
+	 * with stronger settings (see `BUDGET_STEPS`) until it fits or the floor is
+	 * reached. The smallest output is returned either way; check
+	 * {@link CompressReport.budget}`.met`. Cannot be combined with `preset: 'auto'`.
+	 */
+	targetBytes?: number;
+
+	/**
+	 * Generate a LOD chain: one simplification ratio per level, strictly
+	 * decreasing and starting at the full-detail level, e.g. `[1, 0.5, 0.25, 0.1]`.
+	 * Ratios are relative to the optimized mesh (after `simplifyRatio`). Omit to skip.
+	 */
+	lods?: number[];
+
+	/**
+	 * How the LOD chain is emitted.
+	 *
+	 * - `msft_lod` — one GLB with `MSFT_lod` on each mesh node (not supported by the gltfpack backend)
+	 * - `files` — one GLB per level, returned in {@link CompressResult.lods}
+	 *
+	 * @default "msft_lod"
+	 */
+	lodOutput?: LodOutput;
+
+	/**
+	 * Screen-coverage hint per level (`MSFT_screencoverage`), one per entry in `lods`.
+	 * Defaults to half of each level's ratio.
+	 */
+	lodCoverage?: number[];
+
+	/**
+	 * Measure what compression cost: compare the output against the parsed input
+	 * (see {@link compare}) and attach the result as `report.quality`. Pass
+	 * {@link CompareOptions} to tune sampling. For `lodOutput: "files"` level 0 is compared.
+	 */
+	verify?: boolean | CompareOptions;
+
+	/**
+	 * Attribute the bytes of the input and the output to meshes, animation clips,
+	 * skins, images, and JSON (see `breakdownBytes()`) and attach both as
+	 * `report.breakdown`, to see which kind of data dominates the result.
+	 */
+	breakdown?: boolean;
+
+	/**
+	 * Keep, drop, rename, and trim animation clips before the pipeline runs
+	 * (see {@link AnimationSelection}). `verify` compares the selected clips.
+	 */
+	animations?: AnimationSelection;
+
+	/**
+	 * Move each animation clip into a GLB of its own, holding the node hierarchy
+	 * the clip targets but no meshes, skins, or textures, returned in
+	 * {@link CompressResult.clips}. The main output keeps no animations, and
+	 * `verify` compares it without them. Not supported with `lodOutput: "files"`.
+	 */
+	splitAnimations?: boolean;
+
+	/**
+	 * Result cache to consult before running the pipeline (see `createMemoryCache()`
+	 * and `createFileCache()`). Entries are keyed by the input bytes, these options,
+	 * and the library and `gltfpack` versions; a hit returns the stored result,
+	 * report included, and sets {@link CompressResult.cache}.
+	 */
+	cache?: CompressCache;
+}
+
+/** One level of a LOD chain emitted with `lodOutput: "files"`. */
+export interface LodResult extends LodLevel {
+	/** Level index, `0` being full detail. */
+	level: number;
+	/** The compressed GLB for this level. */
+	buffer: Uint8Array;
+	/** Compression backend used for this level. */
+	method: string;
+}
+
+/** One animation clip emitted with `splitAnimations`. */
+export interface ClipResult {
+	/** Clip name. */
+	name: string;
+	/** The compressed GLB holding this clip. */
+	buffer: Uint8Array;
+	/** Compression backend used for this clip. */
+	method: string;
 }
 
 /**
@@ -182,15 +270,44 @@ export interface CompressResult {
 	/** The compressed GLB binary. */
 	buffer: Uint8Array;
 
-	/** Compression backend used: `"gltfpack"` or `"meshopt"`. */
+	/** Compression backend used: `"gltfpack"`, `"meshopt"`, `"draco"`, or `"none"` (encoder disabled). */
 	method: string;
 
-	/** Original input size in bytes (set by {@link compress}, not the backend). */
+	/**
+	 * Original input size in bytes (set by {@link compress}, not the backend).
+	 * For JSON glTF input this includes all external resources.
+	 */
 	originalSize?: number;
+
+	/** Structured per-phase statistics, transform results, and timing. */
+	report: CompressReport;
+
+	/** Every LOD level (level 0 is `buffer`) when `lodOutput` is `"files"`. */
+	lods?: LodResult[];
+
+	/** Every animation clip, in clip order, when `splitAnimations` is set. */
+	clips?: ClipResult[];
+
+	/** Whether the result came from {@link CompressOptions.cache}; unset without a cache. */
+	cache?: 'hit' | 'miss';
 }
 
+/** Output of a final-stage encoder, before the report is attached. */
+type EncodeResult = Pick<CompressResult, 'buffer' | 'method'>;
+
+/**
+ * External resources (buffers, images) referenced by a JSON glTF document.
+ *
+ * Keys are matched against each `uri` in the document — either verbatim,
+ * percent-decoded, or by bare filename — so uploads keyed by filename work
+ * as well as archives keyed by relative path.
+ */
+export type GltfResources = Record<string, Uint8Array>;
+
 let io: NodeIO;
 let hasGltfpack: boolean = false;
+let gltfpackVersion: string | null = null;
+let hasToktx: boolean = false;
 
 // Pre-warm init on module load (eliminates cold start latency).
 // The rejection propagates to callers of init()/compress() so CLI/server
@@ -213,7 +330,8 @@ export async function init(): Promise<void> {
 
 /**
  * Internal initialization — pre-warms Meshopt WASM, Draco WASM, configures
- * the glTF-Transform I/O with all extensions, and probes for the `gltfpack` binary.
+ * the glTF-Transform I/O with all extensions, and probes for the `gltfpack` and
+ * `toktx` binaries.
  */
 async function doInit(): Promise<void> {
 	await Promise.all([MeshoptDecoder.ready, MeshoptEncoder.ready, MeshoptSimplifier.ready]);
@@ -223,7 +341,7 @@ async function doInit(): Promise<void> {
 		draco3d.createDecoderModule(),
 	]);
 
-	io = new NodeIO().registerExtensions(ALL_EXTENSIONS).registerDependencies({
+	io = new NodeIO().registerExtensions([...ALL_EXTENSIONS, MSFTLod]).registerDependencies({
 		'draco3d.encoder': dracoEncoder,
 		'draco3d.decoder': dracoDecoder,
 		'meshopt.encoder': MeshoptEncoder,
@@ -242,11 +360,15 @@ async function doInit(): Promise<void> {
 			if (version === 'unknown') console.warn('Could not determine gltfpack version');
 			else console.log('gltfpack:', version);
 			hasGltfpack = true;
+			gltfpackVersion = version;
 		}
 	} catch (err) {
 		console.warn('gltfpack detection failed:', err instanceof Error ? err.message : err);
 		console.warn('Will use meshopt fallback');
 	}
+
+	// toktx (KTX-Software) encodes KTX2 textures when gltfpack is not the encoder
+	hasToktx = typeof Bun?.which === 'function' && Bun.which('toktx') !== null;
 }
 
 /**
@@ -269,36 +391,493 @@ function stripCompressionExtensions(document: Document, log: (msg: string) => vo
  * Compress a GLB binary through the full multi-phase optimization pipeline.
  *
  * **Pipeline phases:**
- * 1. Cleanup — dedup, prune, remove unused UVs (+ flatten/join/weld for static models)
- * 2. Geometry — merge by distance, remove degenerate faces, auto-decimate (static only)
- * 3. GPU — instancing, vertex reorder (static only), sparse encoding
- * 4. Animation — resample keyframes, remove static tracks, normalize weights (skinned only)
- * 5. Textures — compress to WebP via sharp (max 1024x1024)
- * 6. Final — gltfpack subprocess (preferred) or meshopt WASM (fallback)
+ * 1. Cleanup — dedup, prune, remove unused UVs (+ flatten/join/weld for static
+ *    models; skinned models join primitives per skin and material)
+ * 2. Geometry — merge by distance (matching skin weights on skinned models),
+ *    remove degenerate faces, auto-decimate (static only)
+ * 3. GPU — instancing, vertex reorder (renormalizing weights on skinned models), sparse encoding
+ * 4. Animation — resample keyframes at the target rate within per-path tolerances, remove static tracks, normalize weights (skinned only)
+ * 5. Textures — re-encode per texture class (WebP by default, max 1024x1024);
+ *    KTX2 via gltfpack when it is the encoder, otherwise via `toktx`
+ * 6. Final — gltfpack subprocess (preferred) or meshopt WASM (fallback), or Draco
+ *    when `options.backend` is `"draco"`
  *
- * Skinned models automatically take a conservative path that skips transforms
- * known to break skeleton hierarchies or denormalize vertex weights.
+ * Skinned models automatically take skin-safe variants of the geometry
+ * transforms and skip those known to break skeleton hierarchies (flatten,
+ * weld, auto-decimation). Each phase
+ * and its transforms can be tuned or switched off via `options.pipeline`.
  *
  * @param input   - Raw GLB file bytes.
  * @param options - Compression options (preset, simplify ratio, logging).
  * @returns Compressed GLB buffer, compression method used, and original size.
  * @throws {Error} If the input cannot be parsed as valid GLB/glTF.
+ * @throws {CompressionCancelledError} If `options.signal` is aborted.
  */
 export async function compress(input: Uint8Array, options: CompressOptions = {}): Promise<CompressResult> {
-	function log(msg: string): void {
-		if (!options.quiet) console.log(msg);
-		options.onLog?.(msg);
+	return withCache(input, {}, options, async () => {
+		await init();
+		throwIfCancelled(options.signal);
+
+		let document: Document;
+		try {
+			document = await io.readBinary(input);
+		} catch (err) {
+			throw new Error(`Failed to parse GLB/glTF: ${err instanceof Error ? err.message : String(err)}`);
+		}
+
+		// Measured before the pipeline mutates the document
+		let before: ByteBreakdown | undefined;
+		if (options.breakdown) {
+			const { json, jsonBytes } = readGlbJson(input);
+			before = breakdownBytes(json, jsonBytes, input.byteLength, document);
+		}
+		const result: CompressResult =
+			options.targetBytes === undefined
+				? await compressDocument(document, input.byteLength, options)
+				: await compressWithinBudget(document, input.byteLength, options);
+		return before ? withBreakdown(result, before) : result;
+	});
+}
+
+/**
+ * Compress a JSON glTF document and its external resources into a single GLB.
+ *
+ * Every non-`data:` URI in `buffers` and `images` must be resolvable from
+ * `resources` (see {@link GltfResources} for the matching rules). Embedded
+ * `data:` URIs need no entry.
+ *
+ * @param json      - glTF JSON, either as text or as a parsed object.
+ * @param resources - External `.bin` and texture files referenced by the document.
+ * @param options   - Compression options (preset, simplify ratio, logging).
+ * @returns Compressed GLB buffer, compression method used, and original size.
+ * @throws {Error} If the JSON is invalid or a referenced resource is missing.
+ * @throws {CompressionCancelledError} If `options.signal` is aborted.
+ */
+export async function compressGltf(
+	json: string | GLTF.IGLTF,
+	resources: GltfResources = {},
+	options: CompressOptions = {},
+): Promise<CompressResult> {
+	const gltf: GLTF.IGLTF = parseGltfJson(json);
+	const jsonBytes: Uint8Array = new TextEncoder().encode(typeof json === 'string' ? json : JSON.stringify(json));
+	return withCache(jsonBytes, resources, options, () =>
+		compressJsonDocument(gltf, jsonBytes.byteLength, resolveResources(gltf, resources), options),
+	);
+}
+
+/**
+ * Compress a `.glb` or `.gltf` file from disk.
+ *
+ * For `.gltf` files, external buffers and textures are loaded relative to the
+ * file's directory. The format is detected from the file contents, not the
+ * extension.
+ *
+ * @param path    - Path to a `.glb` or `.gltf` file.
+ * @param options - Compression options (preset, simplify ratio, logging).
+ * @returns Compressed GLB buffer, compression method used, and original size.
+ * @throws {Error} If the file or one of its resources cannot be read, or parsing fails.
+ * @throws {CompressionCancelledError} If `options.signal` is aborted.
+ */
+export async function compressFile(path: string, options: CompressOptions = {}): Promise<CompressResult> {
+	const { input, resources } = await readModelFile(path);
+	if (detectInputFormat(input) !== 'gltf') {
+		return compress(input, options);
+	}
+
+	const gltf: GLTF.IGLTF = parseGltfJson(new TextDecoder().decode(input));
+	return withCache(input, resources, options, () =>
+		compressJsonDocument(gltf, input.byteLength, resolveResources(gltf, resources), options),
+	);
+}
+
+/**
+ * Read a `.glb` or `.gltf` file from disk, with the external buffers and
+ * textures of a `.gltf` (keyed by their URI, loaded relative to the file).
+ *
+ * @throws {Error} If the file or one of its resources cannot be read, or the glTF JSON is invalid.
+ */
+export async function readModelFile(path: string): Promise<{ input: Uint8Array; resources: GltfResources }> {
+	const file = Bun.file(path);
+	if (!(await file.exists())) {
+		throw new Error(`File not found: ${path}`);
+	}
+
+	const input: Uint8Array = await file.bytes();
+	const resources: Record<string, Uint8Array<ArrayBuffer>> = {};
+	if (detectInputFormat(input) !== 'gltf') return { input, resources };
+
+	const gltf: GLTF.IGLTF = parseGltfJson(new TextDecoder().decode(input));
+	for (const uri of listExternalUris(gltf)) {
+		let decoded: string = uri;
+		try {
+			decoded = decodeURIComponent(uri);
+		} catch {
+			// Malformed escape sequence — look for the raw URI
+		}
+		const resourcePath: string = join(dirname(path), decoded);
+		const resource = Bun.file(resourcePath);
+		if (!(await resource.exists())) {
+			throw new Error(`Missing external resource "${uri}" (expected at ${resourcePath})`);
+		}
+		resources[uri] = await resource.bytes();
+	}
+	return { input, resources };
+}
+
+/**
+ * Run `compressRun` through `options.cache`: return the stored result for the
+ * same input and options, or run it and store its result. Without a cache,
+ * `compressRun` is called directly.
+ *
+ * The key is computed before `compressRun` starts, so the input may be
+ * transferred (detached) by it, as the worker pool does.
+ *
+ * @param input       - GLB bytes or glTF JSON text.
+ * @param resources   - External resources of a JSON glTF.
+ * @param options     - Compression options, `cache` included.
+ * @param compressRun - Produces the result on a miss.
+ */
+export async function withCache(
+	input: Uint8Array,
+	resources: GltfResources,
+	options: CompressOptions,
+	compressRun: () => Promise<CompressResult>,
+): Promise<CompressResult> {
+	const { cache } = options;
+	if (!cache) return compressRun();
+
+	await init();
+	const key: string = cacheKey(input, resources, options, {
+		library: libraryVersion,
+		gltfpack: gltfpackVersion,
+		toktx: hasToktx,
+	});
+	const stored: CompressResult | undefined = await cache.get(key);
+	if (stored) {
+		const message: string = `Cache hit: ${formatBytes(stored.buffer.byteLength)} (${stored.method})`;
+		if (!options.quiet) console.log(message);
+		options.onLog?.(message);
+		return { ...stored, cache: 'hit' };
 	}
 
+	const result: CompressResult = await compressRun();
+	await cache.set(key, result);
+	return { ...result, cache: 'miss' };
+}
+
+/**
+ * Parse a GLB, or a JSON glTF with its external resources, into a document
+ * without running the pipeline.
+ *
+ * @param input     - GLB bytes or glTF JSON text.
+ * @param resources - External `.bin` and texture files for a JSON glTF.
+ * @throws {Error} If the input cannot be parsed or a referenced resource is missing.
+ */
+export async function readDocument(input: Uint8Array, resources: GltfResources = {}): Promise<Document> {
 	await init();
+	try {
+		if (detectInputFormat(input) !== 'gltf') return await io.readBinary(input);
+		const gltf: GLTF.IGLTF = parseGltfJson(new TextDecoder().decode(input));
+		return await io.readJSON({ json: gltf, resources: resolveResources(gltf, resources) });
+	} catch (err) {
+		throw new Error(`Failed to parse GLB/glTF: ${err instanceof Error ? err.message : String(err)}`);
+	}
+}
+
+/** Parse glTF JSON text (or pass through an object), wrapping syntax errors. */
+function parseGltfJson(json: string | GLTF.IGLTF): GLTF.IGLTF {
+	if (typeof json !== 'string') return json;
+	try {
+		return JSON.parse(json);
+	} catch (err) {
+		throw new Error(`Failed to parse glTF JSON: ${err instanceof Error ? err.message : String(err)}`);
+	}
+}
+
+/** List every external (non-`data:`) URI referenced by buffers and images. */
+function listExternalUris(gltf: GLTF.IGLTF): string[] {
+	const uris = new Set<string>();
+	for (const resource of [...(gltf.buffers ?? []), ...(gltf.images ?? [])]) {
+		if (resource.uri && !resource.uri.startsWith('data:')) uris.add(resource.uri);
+	}
+	return [...uris];
+}
+
+/**
+ * Map each external URI in the document to its resource bytes.
+ *
+ * Tries the URI verbatim, then percent-decoded, then the bare filename, so
+ * callers can key resources however their source (multipart upload, ZIP
+ * archive, in-memory map) names them.
+ */
+function resolveResources(gltf: GLTF.IGLTF, resources: GltfResources): Record<string, Uint8Array<ArrayBuffer>> {
+	const resolved: Record<string, Uint8Array<ArrayBuffer>> = {};
+	for (const uri of listExternalUris(gltf)) {
+		let decoded: string = uri;
+		try {
+			decoded = decodeURIComponent(uri);
+		} catch {
+			// Malformed escape sequence — fall back to the raw URI
+		}
+		const filename: string = decoded.split('/').pop() ?? decoded;
+		const data: Uint8Array | undefined =
+			resources[uri] ?? resources[decoded] ?? resources[decoded.replace(/^\.\//, '')] ?? resources[filename];
+		if (!data) {
+			throw new Error(`Missing external resource "${uri}" referenced by glTF`);
+		}
+		resolved[uri] =
+			data.buffer instanceof ArrayBuffer ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength) : data.slice();
+	}
+	return resolved;
+}
+
+/** Read a parsed glTF JSON document with resolved resources and run the pipeline. */
+async function compressJsonDocument(
+	gltf: GLTF.IGLTF,
+	jsonSize: number,
+	resources: Record<string, Uint8Array<ArrayBuffer>>,
+	options: CompressOptions,
+): Promise<CompressResult> {
+	await init();
+	throwIfCancelled(options.signal);
 
 	let document: Document;
 	try {
-		document = await io.readBinary(input);
+		document = await io.readJSON({ json: gltf, resources });
 	} catch (err) {
 		throw new Error(`Failed to parse GLB/glTF: ${err instanceof Error ? err.message : String(err)}`);
 	}
 
+	let originalSize: number = jsonSize;
+	for (const data of Object.values(resources)) originalSize += data.byteLength;
+
+	const before: ByteBreakdown | undefined = options.breakdown
+		? breakdownBytes(gltf, jsonSize, originalSize, document)
+		: undefined;
+	const result: CompressResult =
+		options.targetBytes === undefined
+			? await compressDocument(document, originalSize, options)
+			: await compressWithinBudget(document, originalSize, options);
+	return before ? withBreakdown(result, before) : result;
+}
+
+/** Attach `report.breakdown`: `before` and the attribution of the output GLB. */
+function withBreakdown(result: CompressResult, before: ByteBreakdown): CompressResult {
+	const { json, jsonBytes } = readGlbJson(result.buffer);
+	const after: ByteBreakdown = breakdownBytes(json, jsonBytes, result.buffer.byteLength);
+	return { ...result, report: { ...result.report, breakdown: { before, after } } };
+}
+
+/**
+ * Run the pipeline until the output fits in `options.targetBytes`, escalating
+ * through {@link BUDGET_STEPS}. Each run starts from a copy of the parsed document.
+ *
+ * Returns the first output that fits, or the smallest one when none does, with
+ * {@link CompressReport.budget} describing every run. `verify` is measured once,
+ * on the returned output, against that run's selected clips.
+ */
+async function compressWithinBudget(
+	document: Document,
+	originalSize: number,
+	options: CompressOptions,
+): Promise<CompressResult> {
+	const targetBytes: number = options.targetBytes ?? 0;
+	if (!Number.isFinite(targetBytes) || targetBytes <= 0) {
+		throw new Error(`Invalid targetBytes ${targetBytes} (must be a positive number of bytes)`);
+	}
+	if (options.preset === AUTO_PRESET) {
+		throw new Error('targetBytes cannot be combined with preset "auto"');
+	}
+	const log = (msg: string): void => {
+		if (!options.quiet) console.log(msg);
+		options.onLog?.(msg);
+	};
+
+	// Steps that only change what the document or encoder ignores are skipped:
+	// built-in presets only affect gltfpack, Draco quantization, and the animation rate
+	const { pipeline = {} } = options;
+	const backend: CompressBackend = options.backend ?? 'auto';
+	const encoderEnabled: boolean = pipeline.encoder?.enabled !== false;
+	const gltfpackEncodes: boolean = encoderEnabled && (backend === 'gltfpack' || (backend === 'auto' && hasGltfpack));
+	const root = document.getRoot();
+	const hasTextures: boolean = root.listTextures().length > 0;
+	const hasAnimations: boolean =
+		root.listAnimations().length > 0 && pipeline.animation?.enabled !== false && pipeline.animation?.resample !== false;
+	const presetMatters: boolean = gltfpackEncodes || (encoderEnabled && backend === 'draco') || hasAnimations;
+	const base: BudgetSettings = {
+		preset: options.preset ?? 'default',
+		textureMaxSize: pipeline.textures?.maxSize,
+		simplifyRatio: options.simplifyRatio,
+		// 0 keeps the source keyframe times, which any budget rate is stricter than
+		animationFps: pipeline.animation?.resampleFps || undefined,
+	};
+	const ladder: BudgetSettings[] = [base];
+	const seen = new Set<string>([JSON.stringify(base)]);
+	let current: BudgetSettings = base;
+	for (const step of BUDGET_STEPS) {
+		current = applyBudgetStep(current, step);
+		const effective: BudgetSettings = {
+			...current,
+			preset: presetMatters ? current.preset : base.preset,
+			textureMaxSize: hasTextures ? current.textureMaxSize : base.textureMaxSize,
+			animationFps: hasAnimations ? current.animationFps : base.animationFps,
+		};
+		const key: string = JSON.stringify(effective);
+		if (seen.has(key)) continue;
+		seen.add(key);
+		ladder.push(effective);
+	}
+
+	const attempts: BudgetAttempt[] = [];
+	let best: { result: CompressResult; settings: BudgetSettings; reference?: Document } | undefined;
+	for (const [i, settings] of ladder.entries()) {
+		await checkCancelled(options.signal);
+		log(`Budget ${formatBytes(targetBytes)}: attempt ${i + 1}/${ladder.length} (${formatBudgetSettings(settings)})`);
+		const { textureMaxSize, animationFps } = settings;
+		// Clip selection and splitting happen in the pipeline; verification compares against their result
+		let reference: Document | undefined;
+		const keepReference = (doc: Document): void => {
+			reference = doc;
+		};
+		const result: CompressResult = await compressDocument(
+			transform.cloneDocument(document),
+			originalSize,
+			{
+				...options,
+				preset: settings.preset,
+				simplifyRatio: settings.simplifyRatio,
+				pipeline: {
+					...pipeline,
+					textures: {
+						...pipeline.textures,
+						...(textureMaxSize === undefined
+							? {}
+							: {
+									maxSize: textureMaxSize,
+									slotMaxSize: Object.fromEntries(
+										Object.entries(pipeline.textures?.slotMaxSize ?? {}).map(([slot, size]) => [
+											slot,
+											Math.min(size, textureMaxSize),
+										]),
+									),
+								}),
+					},
+					animation: {
+						...pipeline.animation,
+						...(animationFps === undefined ? {} : { resampleFps: animationFps }),
+					},
+				},
+				verify: false,
+			},
+			options.verify ? keepReference : undefined,
+		);
+		const bytes: number = result.buffer.byteLength;
+		attempts.push({ settings, method: result.method, bytes });
+		log(`Budget: ${formatBytes(bytes)} ${bytes <= targetBytes ? 'fits' : 'over budget'}`);
+
+		if (!best || bytes < best.result.buffer.byteLength) best = { result, settings, reference };
+		if (bytes <= targetBytes) break;
+	}
+	if (!best) throw new Error('Budget search produced no output');
+
+	const { result, settings } = best;
+	const budget: BudgetReport = {
+		targetBytes,
+		met: result.buffer.byteLength <= targetBytes,
+		bytes: result.buffer.byteLength,
+		settings,
+		attempts,
+	};
+	if (!budget.met) log(`Budget: floor reached, smallest output ${formatBytes(budget.bytes)}`);
+
+	let quality: QualityReport | undefined;
+	if (options.verify) {
+		await checkCancelled(options.signal);
+		log('  Verifying quality...');
+		const output: Document = await io.readBinary(result.buffer);
+		quality = await compareDocuments(best.reference ?? document, output, options.verify === true ? {} : options.verify);
+		log(`  ${formatQuality(quality)}`);
+	}
+	return { ...result, report: { ...result.report, budget, ...(quality ? { quality } : {}) } };
+}
+
+/**
+ * Run the optimization pipeline and final compression on a parsed document.
+ *
+ * Shared by {@link compress}, {@link compressGltf}, and {@link compressFile}.
+ *
+ * @param onReference - Receives the document `verify` compares against (the
+ *                      input after clip selection, without split clips), for a
+ *                      caller that verifies the output itself.
+ */
+async function compressDocument(
+	document: Document,
+	originalSize: number,
+	options: CompressOptions,
+	onReference?: (reference: Document) => void,
+): Promise<CompressResult> {
+	function log(msg: string): void {
+		if (!options.quiet) console.log(msg);
+		options.onLog?.(msg);
+	}
+
+	// auto: the pipeline runs with default settings, each candidate only changes the encoder and animation rate
+	const auto: boolean = options.preset === AUTO_PRESET;
+	let preset: CompressPreset = auto ? 'default' : (options.preset ?? 'default');
+	let presetConfig: PresetConfig | undefined = getPreset(preset);
+	if (!presetConfig) {
+		throw new Error(`Unknown preset "${preset}" (available: ${[...listPresets(), AUTO_PRESET].join(', ')})`);
+	}
+	const pipeline: ResolvedPipeline = resolvePipeline(presetConfig, options.pipeline);
+	const { cleanup, geometry, gpu, animation, textures, encoder } = pipeline;
+	const { signal } = options;
+
+	// LOD chain: MSFT_lod in one GLB (gltfpack would drop the scene-less LOD nodes), or one GLB per level
+	const lodLevels: LodLevel[] | null = options.lods ? resolveLodLevels(options.lods, options.lodCoverage) : null;
+	const lodOutput: LodOutput = options.lodOutput ?? 'msft_lod';
+	if (!LOD_OUTPUTS.includes(lodOutput)) {
+		throw new Error(`Invalid lodOutput "${lodOutput}" (expected one of: ${LOD_OUTPUTS.join(', ')})`);
+	}
+	const msftLod: boolean = lodLevels !== null && lodOutput === 'msft_lod';
+	if (options.splitAnimations && lodLevels && !msftLod) {
+		throw new Error('splitAnimations cannot be combined with lodOutput "files"');
+	}
+	const backend: CompressBackend = options.backend ?? 'auto';
+	if (msftLod && backend === 'gltfpack' && encoder.enabled) {
+		throw new Error(
+			'MSFT_lod output is not supported by the gltfpack backend (use lodOutput "files" or another backend)',
+		);
+	}
+
+	// KTX2 textures are encoded by gltfpack when it runs, by toktx otherwise
+	const useGltfpack: boolean =
+		encoder.enabled && (backend === 'gltfpack' || (backend === 'auto' && hasGltfpack && !msftLod));
+	const ktx2: boolean = textures.enabled && usesKtx2(textures);
+	if (ktx2 && !useGltfpack && !hasToktx) {
+		throw new Error('KTX2 texture output requires gltfpack (as the encoder) or toktx (KTX-Software) in PATH');
+	}
+
+	const startTime: number = performance.now();
+	const phases: PhaseReport[] = [];
+	const reports: TransformReports = {};
+	const inputStats = collectStats(document);
+
+	// Phase 0: Clip selection (optional) - before the reference copy, so verification compares the clips kept
+	const { animations: selection } = options;
+	if (selection) {
+		await checkCancelled(signal);
+		await measurePhase(document, 'clips', phases, () =>
+			document.transform(
+				selectAnimations(selection, (r) => {
+					reports.animations = r;
+				}),
+			),
+		);
+	}
+
+	// Untouched copy of the input for quality verification
+	const reference: Document | null = options.verify || onReference ? transform.cloneDocument(document) : null;
+
 	// Debug: save immediately after read (before any transforms)
 	if (process.env.DEBUG_RAW) {
 		const rawBuffer = await io.writeBinary(document);
@@ -315,183 +894,643 @@ export async function compress(input: Uint8Array, options: CompressOptions = {})
 	// BATCHED TRANSFORMS - reduces overhead by combining compatible transforms
 	// Phase 1: Analysis + cleanup (sync transforms batched together)
 	const cleanupTransforms: Transform[] = [
-		analyzeMeshComplexity(MESH_WARN_THRESHOLD, TOTAL_WARN_THRESHOLD),
-		transform.dedup(),
-		transform.prune(),
-		removeUnusedUVs(),
+		analyzeMeshComplexity(cleanup.meshWarn, cleanup.totalWarn, (r) => {
+			reports.complexity = r;
+		}),
 	];
+	if (cleanup.dedup) cleanupTransforms.push(transform.dedup());
+	if (cleanup.prune) cleanupTransforms.push(transform.prune());
+	if (cleanup.removeUnusedUVs) {
+		cleanupTransforms.push(
+			removeUnusedUVs((r) => {
+				reports.unusedUVs = r;
+			}),
+		);
+	}
 
 	// For non-skinned models, add geometry optimization transforms
 	// NOTE: For skinned models, skip transforms that cause mesh artifacts:
-	// - flatten/join: break skeleton hierarchy
+	// - flatten/join: break skeleton hierarchy (joinSkinned joins per skin instead)
 	// - weld: merges vertices across mesh boundaries (leg/shoe clipping)
-	// - mergeByDistance: breaks vertex weights
 	if (!hasSkins) {
-		cleanupTransforms.push(transform.flatten(), transform.join(), transform.weld());
+		if (cleanup.flatten) cleanupTransforms.push(transform.flatten());
+		if (cleanup.join) cleanupTransforms.push(transform.join());
+		if (cleanup.weld) cleanupTransforms.push(transform.weld());
 	} else {
-		log('  Skinned model detected - using conservative transforms');
+		log('  Skinned model detected - using skin-safe transforms');
+		if (cleanup.join) {
+			cleanupTransforms.push(
+				joinSkinned((r) => {
+					reports.skinnedJoin = r;
+				}),
+			);
+		}
 	}
 
-	await document.transform(...cleanupTransforms);
+	if (cleanup.enabled) {
+		await checkCancelled(signal);
+		await measurePhase(document, 'cleanup', phases, () => document.transform(...cleanupTransforms));
+	}
 
-	// Phase 2: Geometry processing (non-skinned only)
-	if (!hasSkins) {
-		await document.transform(
-			mergeByDistance(MERGE_TOLERANCE),
-			removeDegenerateFaces(),
-			transform.prune(),
+	// Phase 2: Geometry processing (skinned models: merge only identically skinned vertices, no decimation)
+	if (geometry.enabled) {
+		const geometryTransforms: Transform[] = [];
+		if (geometry.mergeByDistance) {
+			geometryTransforms.push(
+				mergeByDistance(
+					geometry.mergeTolerance,
+					(r) => {
+						reports.mergeByDistance = r;
+					},
+					signal,
+					{
+						matchSkin: hasSkins,
+						...(geometry.mergeAttributes && {
+							normalAngle: geometry.mergeNormalAngle,
+							uvTolerance: geometry.mergeUvTolerance,
+							colorTolerance: geometry.mergeColorTolerance,
+						}),
+					},
+				),
+			);
+		}
+		if (geometry.removeDegenerateFaces) {
+			geometryTransforms.push(
+				removeDegenerateFaces(
+					geometry.minFaceArea,
+					(r) => {
+						reports.degenerateFaces = r;
+					},
+					signal,
+				),
+			);
+		}
+		geometryTransforms.push(transform.prune());
+		if (geometry.decimate && !hasSkins) {
 			// Auto-decimate bloated meshes (>threshold verts)
-			decimateBloatedMeshes(MESH_WARN_THRESHOLD, 0.5, MeshoptSimplifier),
-		);
+			geometryTransforms.push(
+				decimateBloatedMeshes(
+					geometry.decimateThreshold,
+					geometry.decimateRatio,
+					MeshoptSimplifier,
+					(r) => {
+						reports.decimation = r;
+					},
+					signal,
+					{
+						maxError: geometry.decimateError,
+						lockBorder: geometry.decimateLockBorder,
+						protectSeams: geometry.decimateProtectSeams,
+						include: geometry.decimateInclude,
+						exclude: geometry.decimateExclude,
+					},
+				),
+			);
+		}
+		await checkCancelled(signal);
+		await measurePhase(document, 'geometry', phases, () => document.transform(...geometryTransforms));
 	}
 
 	// Phase 3: GPU optimizations (batched)
-	// Skip reorder() for skinned models - causes weight denormalization
-	const gpuTransforms: Transform[] = [
-		transform.instance({ min: INSTANCE_MIN }),
-		...(!hasSkins ? [transform.reorder({ encoder: MeshoptEncoder })] : []),
-		transform.sparse(),
-	];
-	await document.transform(...gpuTransforms);
+	// reorder() denormalizes weights on skinned models - reorderSkinned() renormalizes them
+	const gpuTransforms: Transform[] = [];
+	if (gpu.instance) gpuTransforms.push(transform.instance({ min: gpu.instanceMin }));
+	if (gpu.reorder && !hasSkins) gpuTransforms.push(transform.reorder({ encoder: MeshoptEncoder }));
+	if (gpu.reorder && hasSkins) {
+		gpuTransforms.push(
+			reorderSkinned(MeshoptEncoder, (r) => {
+				reports.reorderWeights = r;
+			}),
+		);
+	}
+	if (gpu.sparse) gpuTransforms.push(transform.sparse());
+	if (gpu.enabled) {
+		await checkCancelled(signal);
+		await measurePhase(document, 'gpu', phases, () => document.transform(...gpuTransforms));
+	}
 
 	// Phase 4: Animation + weights (batched)
-	const animTransforms: Transform[] = [transform.resample(), removeStaticTracksWithBake()];
-	if (hasSkins) {
-		animTransforms.push(normalizeWeights());
+	const animTransforms: Transform[] = [];
+	const resampleTolerances: ResampleOptions = {
+		translation: animation.translationTolerance,
+		rotation: animation.rotationTolerance,
+		scale: animation.scaleTolerance,
+		weights: animation.weightsTolerance,
+	};
+	if (animation.resample) {
+		animTransforms.push(
+			resampleAnimations(
+				{ fps: animation.resampleFps, ...resampleTolerances },
+				(r) => {
+					reports.resample = r;
+				},
+				signal,
+			),
+		);
+	}
+	if (animation.removeStaticTracks) {
+		animTransforms.push(
+			removeStaticTracksWithBake(
+				animation.staticTolerance,
+				(r) => {
+					reports.staticTracks = r;
+				},
+				signal,
+			),
+		);
+	}
+	if (hasSkins && animation.normalizeWeights) {
+		animTransforms.push(
+			normalizeWeights((r) => {
+				reports.weights = r;
+			}),
+		);
+	}
+	if (animation.enabled) {
+		await checkCancelled(signal);
+		await measurePhase(document, 'animation', phases, () => document.transform(...animTransforms));
 	}
-	await document.transform(...animTransforms);
 
 	// Phase 5: Texture compression (async, separate call required)
-	await document.transform(
-		transform.textureCompress({
-			targetFormat: 'webp',
-			encoder: sharp,
-			resize: [TEXTURE_MAX_SIZE, TEXTURE_MAX_SIZE],
-		}),
-	);
+	let textureReports: TextureReport[] = [];
+	if (textures.enabled) {
+		await checkCancelled(signal);
+		await measurePhase(document, 'textures', phases, async () => {
+			textureReports = await encodeTextures(document, textures, useGltfpack, log, signal);
 
-	// Final cleanup
-	await document.transform(transform.prune());
+			// Final cleanup
+			await document.transform(transform.prune());
+		});
+	}
 
 	// Optional additional mesh simplification (user-requested)
 	const { simplifyRatio } = options;
 	if (simplifyRatio && simplifyRatio > 0 && simplifyRatio < 1) {
+		await checkCancelled(signal);
 		log(`  User simplify: ${(simplifyRatio * 100).toFixed(0)}%`);
-		await document.transform(
-			transform.simplify({
-				simplifier: MeshoptSimplifier,
-				ratio: simplifyRatio,
-			}),
+		await measurePhase(document, 'simplify', phases, () =>
+			document.transform(
+				transform.simplify({
+					simplifier: MeshoptSimplifier,
+					ratio: simplifyRatio,
+				}),
+			),
 		);
 	}
 
-	// Write a clean (uncompressed) GLB as input for gltfpack
-	const cleanBuffer = await io.writeBinary(document);
-	log(`Clean GLB: ${formatBytes(cleanBuffer.byteLength)}`);
+	// Phase 6: LOD chain (optional)
+	let lodReport: LodReport | undefined;
+	/** Lower LOD levels (files output), each with its own document. */
+	const lodDocuments: { level: LodLevel; document: Document }[] = [];
+	if (lodLevels && msftLod) {
+		await checkCancelled(signal);
+		log(`  Generating ${lodLevels.length} LOD levels (MSFT_lod)`);
+		await measurePhase(document, 'lod', phases, () =>
+			document.transform(
+				generateLods(lodLevels, MeshoptSimplifier, (r) => {
+					lodReport = r;
+				}),
+			),
+		);
+	} else if (lodLevels) {
+		await checkCancelled(signal);
+		log(`  Generating ${lodLevels.length} LOD files`);
+		await measurePhase(document, 'lod', phases, async () => {
+			// Clone before level 0 is simplified in place; ratios are relative to the optimized mesh
+			const levelDocuments: { level: LodLevel; document: Document }[] = lodLevels.map((level, i) => ({
+				level,
+				document: i === 0 ? document : transform.cloneDocument(document),
+			}));
+			lodDocuments.push(...levelDocuments.slice(1));
+			const levels: LodLevelReport[] = [];
+			for (const [i, { level, document: lodDocument }] of levelDocuments.entries()) {
+				await checkCancelled(signal);
+				simplifyLodDocument(lodDocument, level.ratio, MeshoptSimplifier);
+				const { vertices, triangles } = collectStats(lodDocument);
+				levels.push({ ...level, level: i, vertices, triangles });
+				const root = lodDocument.getRoot();
+				root.setExtras({
+					...root.getExtras(),
+					lod: { level: i, ratio: level.ratio, screenCoverage: level.screenCoverage },
+				});
+			}
+			lodReport = { output: 'files', levels };
+		});
+	}
+
+	// Whether there are keyframes for a rate to change, and whether the animation phase resampled them
+	// (split clips take the animations along)
+	const animated: boolean = document.getRoot().listAnimations().length > 0;
+	const resampled: boolean = animated && animation.enabled && animation.resample;
+
+	// Split clips into documents of their own; the main output is compared without them
+	const clipDocuments = options.splitAnimations ? await splitAnimations(document) : [];
+	if (clipDocuments.length > 0) {
+		log(`  Split ${clipDocuments.length} animation clips into files`);
+		for (const animation of reference?.getRoot().listAnimations() ?? []) animation.dispose();
+	}
+	if (reference) onReference?.(reference);
+
+	/**
+	 * Run the final encoder on one document (the main output, a LOD level, or an auto candidate).
+	 * `fps` is the preset's animation rate, passed to gltfpack as `-af`.
+	 */
+	const encode = async (
+		doc: Document,
+		preset: CompressPreset,
+		presetConfig: PresetConfig,
+		fps: number,
+	): Promise<EncodeResult & { cleanBytes: number }> => {
+		await checkCancelled(signal);
+		// Write a clean (uncompressed) GLB as input for gltfpack
+		const cleanBuffer = await io.writeBinary(doc);
+		log(`Clean GLB: ${formatBytes(cleanBuffer.byteLength)}`);
+
+		// Debug: save clean GLB for inspection
+		if (process.env.DEBUG_CLEAN) {
+			await Bun.write('/tmp/debug-clean.glb', cleanBuffer);
+			log('  Debug: saved /tmp/debug-clean.glb');
+		}
+
+		// auto: try gltfpack first (better compression), fall back to glTF-Transform meshopt
+		let result: EncodeResult | null = null;
+		if (!encoder.enabled) {
+			log('  Encoder disabled - returning clean GLB');
+			result = { buffer: cleanBuffer, method: 'none' };
+		} else if (backend === 'draco') {
+			log(`  Running Draco (preset: ${preset})...`);
+			const quantization: DracoQuantization =
+				(hasSkins ? presetConfig.draco?.skinned : presetConfig.draco?.static) ?? {};
+			result = await compressWithDraco(doc, quantization, log);
+		} else if (useGltfpack) {
+			if (!hasGltfpack) {
+				throw new Error('gltfpack backend requested but gltfpack was not found in PATH');
+			}
+			log(`  Running gltfpack (preset: ${preset})...`);
+			const presetFlags: string[] = hasSkins ? presetConfig.skinned : presetConfig.static;
+			try {
+				result = await compressWithGltfpack(
+					cleanBuffer,
+					gltfpackFlags(presetFlags, fps, textures, encoder.flags),
+					log,
+					signal,
+				);
+				log(`  gltfpack: ${formatBytes(result.buffer.byteLength)}`);
+			} catch (err) {
+				if (backend === 'gltfpack' || err instanceof CompressionCancelledError) throw err;
+				log(`gltfpack failed: ${err instanceof Error ? err.message : err}`);
+			}
+		}
+
+		if (!result) {
+			if (ktx2 && useGltfpack) {
+				// gltfpack was meant to encode the KTX2 textures
+				if (hasToktx) await encodeKtx2Textures(doc, textures, log, signal);
+				else log('  toktx not found - KTX2 textures left as PNG/JPEG');
+			}
+			await checkCancelled(signal);
+			log(backend === 'meshopt' ? '  Running meshopt...' : '  Running meshopt fallback...');
+			// Skip quantize for skinned models to avoid deformation
+			result = await compressWithMeshopt(doc, encoder.quantize && !hasSkins, log);
+			log(`  meshopt: ${formatBytes(result.buffer.byteLength)}`);
+		}
+
+		return { ...result, cleanBytes: cleanBuffer.byteLength };
+	};
+
+	/** Animation rate of a candidate preset (`0`: source keyframe times). */
+	const candidateFps = (config: PresetConfig): number =>
+		resolvePipeline(config, options.pipeline).animation.resampleFps;
+
+	/** Resample a copy of the optimized document to a candidate preset's rate, when the phase resampled at another. */
+	const resampleTo = async (doc: Document, fps: number): Promise<void> => {
+		if (resampled && fps !== animation.resampleFps) {
+			await doc.transform(resampleAnimations({ fps, ...resampleTolerances }));
+		}
+	};
+
+	/** Identifies what a preset changes in the encoder and animation rate, so identical candidates are encoded once. */
+	const encoderKey = (config: PresetConfig): string => {
+		// The rate changes the keyframes the animation phase resampled, and gltfpack's -af
+		const rateMatters: boolean = resampled || (animated && useGltfpack);
+		const fps: string = rateMatters ? `${candidateFps(config)}` : '-';
+		if (!encoder.enabled) return `${fps} none`;
+		if (backend === 'draco') return `${fps} ${JSON.stringify(hasSkins ? config.draco?.skinned : config.draco?.static)}`;
+		if (useGltfpack) return `${fps} ${(hasSkins ? config.skinned : config.static).join(' ')}`;
+		return `${fps} meshopt`;
+	};
+
+	const encodeStart: number = performance.now();
+	let autoReport: AutoPresetReport | undefined;
+	let encoded: (EncodeResult & { cleanBytes: number }) | undefined;
+	// auto: the selected candidate's rate, which LOD and clip files are resampled to as well
+	let fps: number = candidateFps(presetConfig);
+	if (auto) {
+		const tolerance: Required<QualityTolerance> = { ...DEFAULT_TOLERANCE, ...options.tolerance };
+		const candidates: AutoPresetCandidate[] = [];
+		const tried = new Set<string>();
+		let fallback: (EncodeResult & { cleanBytes: number }) | undefined;
+		for (const name of AUTO_PRESET_CANDIDATES) {
+			const config: PresetConfig | undefined = getPreset(name);
+			if (!config || tried.has(encoderKey(config))) continue;
+			tried.add(encoderKey(config));
+
+			log(`  Auto: trying preset "${name}"...`);
+			// Encoders mutate the document, so each candidate gets its own copy of the clean one
+			const candidateDocument: Document = transform.cloneDocument(document);
+			const rate: number = candidateFps(config);
+			await resampleTo(candidateDocument, rate);
+			const candidate = await encode(candidateDocument, name, config, rate);
+			await checkCancelled(signal);
+			const output: Document = await io.readBinary(candidate.buffer);
+			const candidateQuality = await compareDocuments(document, output, { textures: false });
+			const violations: string[] = checkTolerance(candidateQuality, tolerance);
+			candidates.push({
+				preset: name,
+				method: candidate.method,
+				bytes: candidate.buffer.byteLength,
+				error: worstError(candidateQuality),
+				violations,
+			});
+			log(
+				`  Auto: "${name}" ${formatBytes(candidate.buffer.byteLength)} ${violations.length ? `rejected (${violations.join('; ')})` : 'within tolerance'}`,
+			);
 
-	// Debug: save clean GLB for inspection
-	if (process.env.DEBUG_CLEAN) {
-		await Bun.write('/tmp/debug-clean.glb', cleanBuffer);
-		log('  Debug: saved /tmp/debug-clean.glb');
+			fallback ??= candidate;
+			if (violations.length === 0 && (!encoded || candidate.buffer.byteLength < encoded.buffer.byteLength)) {
+				encoded = candidate;
+				preset = name;
+				presetConfig = config;
+				fps = rate;
+			}
+		}
+
+		const withinTolerance: boolean = encoded !== undefined;
+		if (!encoded) {
+			// Nothing qualified: keep the most conservative candidate
+			log(`  Auto: no preset within tolerance - using "${preset}"`);
+			encoded = fallback;
+		} else {
+			log(`  Auto: selected preset "${preset}"`);
+		}
+		autoReport = { tolerance, selected: preset, withinTolerance, candidates };
 	}
+	const { cleanBytes, ...result } = encoded ?? (await encode(document, preset, presetConfig, fps));
+	const encodeEnd: number = performance.now();
 
-	// Try gltfpack first (better compression), fall back to glTF-Transform meshopt
-	const preset = options.preset ?? 'default';
-	if (hasGltfpack) {
-		log(`  Running gltfpack (preset: ${preset})...`);
-		const result = await compressWithGltfpack(cleanBuffer, hasSkins, preset, log);
-		if (result) {
-			log(`  gltfpack: ${formatBytes(result.buffer.byteLength)}`);
-			return { ...result, originalSize: input.byteLength };
+	// Files output: encode each lower level as its own GLB
+	let lods: LodResult[] | undefined;
+	const baseLevel: LodLevel | undefined = lodLevels?.[0];
+	if (baseLevel && lodReport && !msftLod) {
+		lods = [{ ...baseLevel, level: 0, ...result }];
+		for (const [i, { level, document: lodDocument }] of lodDocuments.entries()) {
+			log(`  LOD ${i + 1} (${(level.ratio * 100).toFixed(0)}%)...`);
+			await resampleTo(lodDocument, fps);
+			const { buffer, method } = await encode(lodDocument, preset, presetConfig, fps);
+			lods.push({ ...level, level: i + 1, buffer, method });
 		}
+		for (const entry of lods) {
+			const levelReport = lodReport.levels[entry.level];
+			if (levelReport) levelReport.bytes = entry.buffer.byteLength;
+		}
+	}
+
+	// Split clips: encode each as its own GLB
+	let clips: ClipResult[] | undefined;
+	if (clipDocuments.length > 0) {
+		clips = [];
+		for (const clip of clipDocuments) {
+			log(`  Clip "${clip.name}"...`);
+			await resampleTo(clip.document, fps);
+			const { buffer, method } = await encode(clip.document, preset, presetConfig, fps);
+			clips.push({ name: clip.name, buffer, method });
+		}
+	}
+
+	let quality: QualityReport | undefined;
+	if (reference && options.verify) {
+		await checkCancelled(signal);
+		log('  Verifying quality...');
+		const output: Document = await io.readBinary(result.buffer);
+		quality = await compareDocuments(reference, output, options.verify === true ? {} : options.verify || {});
+		log(`  ${formatQuality(quality)}`);
+	}
+
+	const endTime: number = performance.now();
+	const report: CompressReport = {
+		preset,
+		skinned: hasSkins,
+		originalSize,
+		input: inputStats,
+		phases,
+		transforms: reports,
+		textures: textureReports,
+		...(lodReport ? { lods: lodReport } : {}),
+		...(clips ? { clips: clips.map(({ name, buffer }) => ({ name, bytes: buffer.byteLength })) } : {}),
+		...(autoReport ? { auto: autoReport } : {}),
+		encode: {
+			method: result.method,
+			inputBytes: cleanBytes,
+			outputBytes: result.buffer.byteLength,
+			durationMs: encodeEnd - encodeStart,
+		},
+		...(quality ? { quality } : {}),
+		durationMs: endTime - startTime,
+	};
+
+	return { ...result, originalSize, report, ...(lods ? { lods } : {}), ...(clips ? { clips } : {}) };
+}
+
+/**
+ * Compare a compressed GLB against its original.
+ *
+ * Both buffers are decoded (meshopt, Draco, and quantization included), then
+ * measured with {@link compareDocuments}: surface Hausdorff/RMS distance,
+ * per-animation joint error, and texture PSNR/SSIM.
+ *
+ * @param original   - GLB bytes before compression.
+ * @param compressed - GLB bytes after compression.
+ * @param options    - Sampling limits and texture switch.
+ * @returns The {@link QualityReport}.
+ * @throws {Error} If either buffer cannot be parsed.
+ */
+export async function compare(
+	original: Uint8Array,
+	compressed: Uint8Array,
+	options: CompareOptions = {},
+): Promise<QualityReport> {
+	await init();
+	const [before, after] = await Promise.all([io.readBinary(original), io.readBinary(compressed)]);
+	return compareDocuments(before, after, options);
+}
+
+/**
+ * One-line summary of a {@link QualityReport}, e.g.
+ * `Hausdorff 0.12% / RMS 0.01% of diagonal, joints ≤0.4°, PSNR ≥38.2 dB`.
+ */
+export function formatQuality(quality: QualityReport): string {
+	const parts: string[] = [];
+	const { geometry, animations, textures } = quality;
+	if (geometry) {
+		const hausdorff: string = (geometry.relativeHausdorff * 100).toFixed(2);
+		const rms: string = (geometry.relativeRms * 100).toFixed(2);
+		parts.push(`Hausdorff ${hausdorff}% / RMS ${rms}% of diagonal`);
+	}
+	const compared = animations.filter((a) => a.samples > 0);
+	if (compared.length > 0) {
+		const rotation: number = Math.max(...compared.map((a) => a.maxRotation));
+		const translation: number = Math.max(...compared.map((a) => a.maxTranslation));
+		parts.push(`joints ≤${rotation.toFixed(1)}° / ≤${translation.toPrecision(2)} units`);
 	}
+	const measured = textures.filter((t) => t.psnr !== null);
+	if (measured.length > 0) {
+		const psnr: number = Math.min(...measured.map((t) => t.psnr ?? 0));
+		const ssim: number = Math.min(...measured.map((t) => t.ssim ?? 0));
+		parts.push(`PSNR ≥${psnr.toFixed(1)} dB, SSIM ≥${ssim.toFixed(3)}`);
+	}
+	return parts.length > 0 ? parts.join(', ') : 'nothing to compare';
+}
 
-	log('  Running meshopt fallback...');
-	const result = await compressWithMeshopt(document, hasSkins, log);
-	log(`  meshopt: ${formatBytes(result.buffer.byteLength)}`);
-	return { ...result, originalSize: input.byteLength };
+/**
+ * gltfpack flags for one encode: `-af` at the preset's animation rate, then
+ * the preset, KTX2 texture class, and `encoder.flags` flags.
+ *
+ * `-af` is always passed, so gltfpack never falls back to its own 30 Hz
+ * default; `0` keeps the source keyframe times. gltfpack takes the last value
+ * of a repeated flag, so an `-af` in a custom preset or `encoder.flags` wins.
+ *
+ * @param presetFlags  - The preset's skinned or static flags.
+ * @param fps          - The preset's resolved `animation.resampleFps`.
+ * @param textures     - Resolved texture options.
+ * @param encoderFlags - Extra flags from `encoder.flags`.
+ */
+export function gltfpackFlags(
+	presetFlags: string[],
+	fps: number,
+	textures: ResolvedPipeline['textures'],
+	encoderFlags: string[],
+): string[] {
+	return ['-af', String(fps), ...presetFlags, ...gltfpackTextureFlags(textures), ...encoderFlags];
 }
 
 /**
  * Compress a clean (uncompressed) GLB using the external `gltfpack` binary.
  *
- * Writes the input to a temp file, spawns `gltfpack` with preset-specific flags
- * (varying by skinned/static), and reads back the output. Returns `null` on any
- * failure so the caller can fall back to the WASM path.
+ * Writes the input to a temp file, spawns `gltfpack` with the given flags
+ * (preset flags for skinned/static, KTX2 texture class flags, and any extra
+ * encoder flags), and reads back the output. Textures are only converted for
+ * the classes the texture phase left for gltfpack.
+ *
+ * Aborting `signal` kills the process.
+ *
+ * @throws {Error} If gltfpack exits non-zero or times out; the `auto` backend
+ *   catches this and falls back to the WASM path.
+ * @throws {CompressionCancelledError} If `signal` is aborted.
  */
 async function compressWithGltfpack(
 	cleanBuffer: Uint8Array,
-	hasSkins: boolean,
-	preset: CompressPreset,
+	presetFlags: string[],
 	log: (msg: string) => void,
-): Promise<CompressResult | null> {
+	signal?: AbortSignal,
+): Promise<EncodeResult> {
 	return withTempDir(async (dir) => {
 		const inputPath = join(dir, 'clean.glb');
 		const outputPath = join(dir, 'compressed.glb');
 
-		try {
-			await Bun.write(inputPath, cleanBuffer);
-			const config = PRESETS[preset];
-			const presetFlags = hasSkins ? config.skinned : config.static;
-			// -cc is the base compression flag (overridden by -cz in some presets)
-			const hasCompressFlag = presetFlags.some((f) => f === '-cz' || f === '-c');
-			// biome-ignore format: align cli flags with the values
-			const args = [
-				'gltfpack',
-				'-i', inputPath,
-				'-o', outputPath,
-				...(hasCompressFlag ? [] : ['-cc']),
-				'-tc',
-				...presetFlags,
-			];
-			const proc = Bun.spawn(args, {
-				stdout: 'ignore',
-				stderr: 'pipe',
-			});
-
-			const timeoutId = setTimeout(() => proc.kill(), GLTFPACK_TIMEOUT_MS);
-			const exitCode = await proc.exited;
-			clearTimeout(timeoutId);
+		await Bun.write(inputPath, cleanBuffer);
+		// -cc is the base compression flag (overridden by -cz in some presets)
+		const hasCompressFlag = presetFlags.some((f) => f === '-cz' || f === '-c');
+		// biome-ignore format: align cli flags with the values
+		const args = [
+			'gltfpack',
+			'-i', inputPath,
+			'-o', outputPath,
+			...(hasCompressFlag ? [] : ['-cc']),
+			...presetFlags,
+		];
+		const proc = Bun.spawn(args, {
+			stdout: 'ignore',
+			stderr: 'pipe',
+		});
 
-			if (exitCode !== 0) {
-				const stderr = await new Response(proc.stderr).text();
-				throw new Error(`gltfpack exited with code ${exitCode}: ${stderr}`);
-			}
+		const timeoutId = setTimeout(() => proc.kill(), GLTFPACK_TIMEOUT_MS);
+		const onAbort = (): void => proc.kill();
+		signal?.addEventListener('abort', onAbort, { once: true });
+		const exitCode = await proc.exited;
+		clearTimeout(timeoutId);
+		signal?.removeEventListener('abort', onAbort);
+		throwIfCancelled(signal);
 
-			const buffer = new Uint8Array(await Bun.file(outputPath).arrayBuffer());
-			log(`gltfpack: ${formatBytes(buffer.byteLength)}`);
-			return { buffer, method: 'gltfpack' };
-		} catch (err) {
-			log(`gltfpack failed: ${err instanceof Error ? err.message : err}`);
-			return null;
+		if (exitCode !== 0) {
+			const stderr = await new Response(proc.stderr).text();
+			throw new Error(`gltfpack exited with code ${exitCode}: ${stderr}`);
 		}
+
+		const buffer = new Uint8Array(await Bun.file(outputPath).arrayBuffer());
+		log(`gltfpack: ${formatBytes(buffer.byteLength)}`);
+		return { buffer, method: 'gltfpack' };
 	});
 }
 
 /**
  * Fallback compression using glTF-Transform's meshopt encoder (pure WASM).
  *
- * For static models, applies `quantize()` before `meshopt()` for better
- * compression. For skinned models, skips quantization to avoid vertex
- * deformation artifacts.
+ * When `quantize` is set (static models), applies `quantize()` before
+ * `meshopt()` for better compression. Callers pass `false` for skinned models
+ * to avoid vertex deformation artifacts.
  */
 async function compressWithMeshopt(
 	document: Document,
-	hasSkins: boolean,
+	quantize: boolean,
 	log: (msg: string) => void,
-): Promise<CompressResult> {
-	if (hasSkins) {
-		// Skip quantize for skinned models to avoid deformation
-		await document.transform(transform.meshopt({ encoder: MeshoptEncoder }));
-	} else {
+): Promise<EncodeResult> {
+	if (quantize) {
 		await document.transform(transform.quantize(), transform.meshopt({ encoder: MeshoptEncoder }));
+	} else {
+		await document.transform(transform.meshopt({ encoder: MeshoptEncoder }));
 	}
 	const buffer = await io.writeBinary(document);
 	log(`meshopt fallback: ${formatBytes(buffer.byteLength)}`);
 	return { buffer, method: 'meshopt' };
 }
 
+/**
+ * Compression using glTF-Transform's Draco encoder (`KHR_draco_mesh_compression`).
+ *
+ * For viewers that only support Draco. Quantization bits come from the preset
+ * (separate settings for skinned and static models); unset values use
+ * glTF-Transform's Draco defaults.
+ */
+async function compressWithDraco(
+	document: Document,
+	quantization: DracoQuantization,
+	log: (msg: string) => void,
+): Promise<EncodeResult> {
+	await document.transform(
+		transform.draco({
+			quantizePosition: quantization.position,
+			quantizeNormal: quantization.normal,
+			quantizeTexcoord: quantization.texcoord,
+			quantizeColor: quantization.color,
+			quantizeGeneric: quantization.generic,
+		}),
+	);
+	const buffer = await io.writeBinary(document);
+	log(`draco: ${formatBytes(buffer.byteLength)}`);
+	return { buffer, method: 'draco' };
+}
+
 /** Returns whether the `gltfpack` binary was found during initialization. */
 export function getHasGltfpack(): boolean {
 	return hasGltfpack;
 }
+
+/** Returns the `gltfpack` version found during initialization, or `null` when it is not installed. */
+export function getGltfpackVersion(): string | null {
+	return gltfpackVersion;
+}
+
+/** Returns whether the `toktx` binary (KTX2 texture encoding) was found during initialization. */
+export function getHasToktx(): boolean {
+	return hasToktx;
+}
@@ -13,18 +13,66 @@ export const GLB_MAGIC = 0x46546c67; // "glTF" in little-endian
 /** Maximum time (ms) to wait for a `gltfpack` subprocess before killing it. */
 export const GLTFPACK_TIMEOUT_MS = 60_000; // 60 seconds
 
+/** Maximum time (ms) to wait for a single `toktx` (KTX2 texture) subprocess before killing it. */
+export const TOKTX_TIMEOUT_MS = 60_000; // 60 seconds
+
 /** Default HTTP server port when `PORT` env var is not set. */
 export const DEFAULT_PORT = 8080;
 
+/** How long the server keeps finished `/jobs` entries and their results before evicting them (1 hour). */
+export const JOB_TTL_MS = 60 * 60_000; // 1 hour
+
+/** How long a `/compress-stream` result stays downloadable from `/results/:id` (5 minutes). */
+export const RESULT_TTL_MS = 5 * 60_000; // 5 minutes
+
+/** Output bytes kept for `/results/:id` downloads when `GLB_COMPRESSOR_RESULTS_SIZE` is not set (256 MB). */
+export const RESULT_STORE_BYTES = 256 * 1024 * 1024; // 256MB
+
+/** Compressions the server runs at once when `GLB_COMPRESSOR_CONCURRENCY` is not set. */
+export const SERVER_CONCURRENCY = 2;
+
+/** Requests the server queues behind running compressions when `GLB_COMPRESSOR_QUEUE_DEPTH` is not set. */
+export const SERVER_QUEUE_DEPTH = 8;
+
+/** How long a synchronous request may wait in the server queue when `GLB_COMPRESSOR_QUEUE_TIMEOUT` is not set (2 minutes). */
+export const SERVER_QUEUE_TIMEOUT_MS = 2 * 60_000; // 2 minutes
+
+/** Output bytes the server keeps in its result cache when `GLB_COMPRESSOR_CACHE_SIZE` is not set (256 MB). */
+export const SERVER_CACHE_BYTES = 256 * 1024 * 1024; // 256MB
+
 /** Per-mesh vertex count above which {@linkcode analyzeMeshComplexity} emits a warning. */
 export const MESH_WARN_THRESHOLD = 2000;
 
 /** Total scene vertex count above which {@linkcode analyzeMeshComplexity} emits a warning. */
 export const TOTAL_WARN_THRESHOLD = 15000;
 
-/** Spatial-hash precision for {@linkcode mergeByDistance} — vertices within this distance are merged. */
+/** Merge distance for {@linkcode mergeByDistance} — vertices within this distance are merged. */
 export const MERGE_TOLERANCE = 0.0001;
 
+/** Largest angle (degrees) between normals that {@linkcode mergeByDistance} still merges; sharper edges stay split. */
+export const MERGE_NORMAL_ANGLE = 30;
+
+/** Largest UV distance that {@linkcode mergeByDistance} still merges (about one texel at 1024 px); UV seams stay split. */
+export const MERGE_UV_TOLERANCE = 0.001;
+
+/** Largest per-channel vertex color difference that {@linkcode mergeByDistance} still merges (one 8-bit step). */
+export const MERGE_COLOR_TOLERANCE = 1 / 255;
+
+/** Keyframes per second that {@linkcode resampleAnimations} resamples denser animations to — gltfpack's default animation rate. */
+export const ANIMATION_FPS = 30;
+
+/** Largest translation error (scene units) of a keyframe that {@linkcode resampleAnimations} removes. */
+export const RESAMPLE_TRANSLATION_TOLERANCE = 0.0001;
+
+/** Largest rotation error (degrees) of a keyframe that {@linkcode resampleAnimations} removes. */
+export const RESAMPLE_ROTATION_TOLERANCE = 0.1;
+
+/** Largest per-component scale error of a keyframe that {@linkcode resampleAnimations} removes. */
+export const RESAMPLE_SCALE_TOLERANCE = 0.0001;
+
+/** Largest morph target weight error of a keyframe that {@linkcode resampleAnimations} removes. */
+export const RESAMPLE_WEIGHTS_TOLERANCE = 0.001;
+
 /** Maximum texture dimension (width or height) after compression. Textures are downscaled to fit. */
 export const TEXTURE_MAX_SIZE = 1024;
 
@@ -46,6 +94,15 @@ export const ErrorCode = {
 	COMPRESSION_FAILED: 'COMPRESSION_FAILED',
 	NO_FILE_PROVIDED: 'NO_FILE_PROVIDED',
 	INVALID_CONTENT_TYPE: 'INVALID_CONTENT_TYPE',
+	INVALID_PRESET: 'INVALID_PRESET',
+	INVALID_OPTIONS: 'INVALID_OPTIONS',
+	BUDGET_EXCEEDED: 'BUDGET_EXCEEDED',
+	JOB_NOT_FOUND: 'JOB_NOT_FOUND',
+	JOB_NOT_READY: 'JOB_NOT_READY',
+	RESULT_NOT_FOUND: 'RESULT_NOT_FOUND',
+	SERVER_BUSY: 'SERVER_BUSY',
+	INVALID_MESSAGE: 'INVALID_MESSAGE',
+	CANCELLED: 'CANCELLED',
 } as const;
 
 /** Union type of all possible {@link ErrorCode} string values. */
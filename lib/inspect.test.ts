@@ -0,0 +1,95 @@
+import { expect, test } from 'bun:test';
+import { join } from 'node:path';
+import { NodeIO } from '@gltf-transform/core';
+import {
+	frames,
+	gridDocument,
+	skinnedDocument,
+	texturedDocument,
+	translationDocument,
+	writeGlb,
+} from '../test/fixtures';
+import { BYTE_CATEGORIES } from './breakdown';
+import { compress } from './compress';
+import { inspect, inspectFile } from './inspect';
+import { withTempDir } from './utils';
+
+test('inspect reports meshes and their attributes', async () => {
+	const input: Uint8Array = await writeGlb(gridDocument(10));
+	const report = await inspect(input);
+	expect(report).toMatchObject({ format: 'glb', size: input.byteLength, skinned: false, extensionsUsed: [] });
+	expect(report.meshes).toEqual([
+		{
+			name: 'grid',
+			primitives: 1,
+			vertices: 100,
+			triangles: 162,
+			attributes: ['POSITION'],
+			morphTargets: 0,
+			skinned: false,
+		},
+	]);
+	expect(report.stats).toMatchObject({ meshes: 1, vertices: 100 });
+});
+
+test('inspect reports skins and which meshes they deform', async () => {
+	const report = await inspect(await writeGlb(skinnedDocument(['skin', 'cloth']).doc));
+	expect(report.skinned).toBe(true);
+	expect(report.skins).toEqual([{ name: 'rig', joints: 2, skeleton: 'hip' }]);
+	expect(report.meshes.map((mesh) => [mesh.name, mesh.skinned, mesh.attributes])).toEqual([
+		['part0', true, ['JOINTS_0', 'POSITION', 'WEIGHTS_0']],
+		['part1', true, ['JOINTS_0', 'POSITION', 'WEIGHTS_0']],
+	]);
+	expect(report.materials.map((material) => material.name)).toEqual(['skin', 'cloth']);
+});
+
+test('inspect reports animation clips with their keyframes and duration', async () => {
+	const { doc } = translationDocument([
+		{ name: 'walk', times: frames(11, 2), value: (t) => [t, 0, 0] },
+		{ name: 'idle', times: [0], value: () => [0, 0, 0] },
+	]);
+	const report = await inspect(await writeGlb(doc));
+	expect(report.animations).toEqual([
+		{ name: 'walk', channels: 1, keyframes: 11, duration: 2 },
+		{ name: 'idle', channels: 1, keyframes: 1, duration: 0 },
+	]);
+});
+
+test('inspect reports materials, their texture slots, and the images', async () => {
+	const { doc } = await texturedDocument(8, { alpha: 0.5 });
+	const report = await inspect(await writeGlb(doc));
+	expect(report.materials).toEqual([
+		{
+			name: 'textured',
+			alphaMode: 'BLEND',
+			doubleSided: false,
+			textures: ['baseColorTexture', 'normalTexture', 'occlusionTexture'],
+		},
+	]);
+	expect(report.textures.map((texture) => [texture.name, texture.slots])).toEqual([
+		['baseColor', ['baseColorTexture']],
+		['normal', ['normalTexture']],
+		['occlusion', ['occlusionTexture']],
+	]);
+	expect(report.textures[0]).toMatchObject({ mimeType: 'image/png', width: 8, height: 8 });
+});
+
+test('inspect reports the extensions of a compressed model and where its bytes go', async () => {
+	const { buffer } = await compress(await writeGlb(gridDocument(10)), { backend: 'meshopt', quiet: true });
+	const report = await inspect(buffer);
+	expect(report.extensionsUsed).toContain('EXT_meshopt_compression');
+	const total: number = BYTE_CATEGORIES.reduce((sum, category) => sum + report.bytes[category], 0);
+	expect(total).toBe(buffer.byteLength);
+	expect(report.bytes.geometry).toBeGreaterThan(0);
+});
+
+test('inspectFile reads a .gltf and counts its resources in the size', async () => {
+	await withTempDir(async (dir) => {
+		const path: string = join(dir, 'scene.gltf');
+		await new NodeIO().write(path, gridDocument(4));
+		const report = await inspectFile(path);
+		const binary: number = Bun.file(join(dir, 'scene.bin')).size;
+		expect(report).toMatchObject({ format: 'gltf', size: Bun.file(path).size + binary });
+		expect(report.meshes[0]?.vertices).toBe(16);
+	});
+});
@@ -0,0 +1,229 @@
+/**
+ * Model inspection without compression.
+ *
+ * {@link inspect} (or {@link inspectFile} for a path) parses a GLB or JSON glTF
+ * and reports what it contains — meshes, skins, animations, materials,
+ * textures, extensions — and which kind of data its bytes are spent on, e.g.
+ * to decide on a preset before compressing or to check what a compressed file
+ * still carries.
+ *
+ * @module inspect
+ */
+
+import { type Document, type GLTF, type Material, type Property, Texture } from '@gltf-transform/core';
+import { listTextureSlots } from '@gltf-transform/functions';
+import { type ByteBreakdown, type ByteCategories, breakdownBytes, readGlbJson } from './breakdown';
+import { type GltfResources, readDocument, readModelFile } from './compress';
+import { collectStats, countPrimitive, type DocumentStats, type TextureImageStats } from './report';
+import { imageStats } from './textures';
+import { detectInputFormat } from './utils';
+
+/** One mesh, with its primitives' totals. */
+export interface MeshInspection {
+	name: string;
+	primitives: number;
+	/** `POSITION` vertices across primitives. */
+	vertices: number;
+	triangles: number;
+	/** Vertex attribute semantics used by any primitive, e.g. `["NORMAL", "POSITION", "TEXCOORD_0"]`. */
+	attributes: string[];
+	/** Most morph targets on one primitive. */
+	morphTargets: number;
+	/** Whether a node using the mesh has a skin. */
+	skinned: boolean;
+}
+
+/** One skin. */
+export interface SkinInspection {
+	name: string;
+	joints: number;
+	/** Name of the skeleton root node, if set. */
+	skeleton: string | null;
+}
+
+/** One animation clip. */
+export interface AnimationInspection {
+	name: string;
+	channels: number;
+	/** Keyframes across channels (sampler input lengths). */
+	keyframes: number;
+	/** Time of the last keyframe, in seconds. */
+	duration: number;
+}
+
+/** One material. */
+export interface MaterialInspection {
+	name: string;
+	alphaMode: string;
+	doubleSided: boolean;
+	/** Texture slots in use, including extension slots, e.g. `["baseColorTexture", "normalTexture"]`. */
+	textures: string[];
+}
+
+/** One texture and its image. */
+export interface TextureInspection extends TextureImageStats {
+	/** Texture name, or its URI when unnamed. */
+	name: string;
+	/** Material slots the texture is used in. */
+	slots: string[];
+}
+
+/** What {@link inspect} reports about a model. */
+export interface InspectReport {
+	/** Container format of the input. */
+	format: 'glb' | 'gltf';
+	/** Input size in bytes (JSON plus resources for a `.gltf`). */
+	size: number;
+	/** Whether the model has skins (compressed along the skin-safe path). */
+	skinned: boolean;
+	/** Document totals, as in the compression report's phase stats. */
+	stats: DocumentStats;
+	/** glTF extensions the model uses. */
+	extensionsUsed: string[];
+	meshes: MeshInspection[];
+	skins: SkinInspection[];
+	animations: AnimationInspection[];
+	materials: MaterialInspection[];
+	textures: TextureInspection[];
+	/** Where the file's bytes go. */
+	bytes: ByteCategories;
+}
+
+/**
+ * Parse a model and report its contents without running the pipeline.
+ *
+ * @param input     - GLB bytes or glTF JSON text.
+ * @param resources - External `.bin` and texture files for a JSON glTF.
+ * @throws {Error} If the input cannot be parsed or a referenced resource is missing.
+ */
+export async function inspect(input: Uint8Array, resources: GltfResources = {}): Promise<InspectReport> {
+	const document: Document = await readDocument(input, resources);
+	const root = document.getRoot();
+
+	let size: number = input.byteLength;
+	const format = detectInputFormat(input) === 'gltf' ? 'gltf' : 'glb';
+	if (format === 'gltf') {
+		for (const data of Object.values(resources)) size += data.byteLength;
+	}
+
+	const skinnedMeshes = new Set(
+		root
+			.listNodes()
+			.filter((node) => node.getSkin())
+			.map((node) => node.getMesh()),
+	);
+
+	return {
+		format,
+		size,
+		skinned: root.listSkins().length > 0,
+		stats: collectStats(document),
+		extensionsUsed: root.listExtensionsUsed().map((ext) => ext.extensionName),
+		meshes: root.listMeshes().map((mesh) => {
+			const attributes = new Set<string>();
+			let vertices: number = 0;
+			let triangles: number = 0;
+			let morphTargets: number = 0;
+			for (const prim of mesh.listPrimitives()) {
+				const counts = countPrimitive(prim);
+				vertices += counts.vertices;
+				triangles += counts.triangles;
+				morphTargets = Math.max(morphTargets, prim.listTargets().length);
+				for (const semantic of prim.listSemantics()) attributes.add(semantic);
+			}
+			return {
+				name: mesh.getName(),
+				primitives: mesh.listPrimitives().length,
+				vertices,
+				triangles,
+				attributes: [...attributes].sort(),
+				morphTargets,
+				skinned: skinnedMeshes.has(mesh),
+			};
+		}),
+		skins: root.listSkins().map((skin) => ({
+			name: skin.getName(),
+			joints: skin.listJoints().length,
+			skeleton: skin.getSkeleton()?.getName() ?? null,
+		})),
+		animations: root.listAnimations().map((animation) => {
+			let keyframes: number = 0;
+			let duration: number = 0;
+			for (const channel of animation.listChannels()) {
+				const times = channel.getSampler()?.getInput()?.getArray();
+				if (!times || times.length === 0) continue;
+				keyframes += times.length;
+				duration = Math.max(duration, times[times.length - 1] ?? 0);
+			}
+			return { name: animation.getName(), channels: animation.listChannels().length, keyframes, duration };
+		}),
+		materials: root.listMaterials().map((material) => ({
+			name: material.getName(),
+			alphaMode: material.getAlphaMode(),
+			doubleSided: material.getDoubleSided(),
+			textures: materialTextureSlots(material),
+		})),
+		textures: root.listTextures().map((texture) => ({
+			name: texture.getName() || texture.getURI(),
+			slots: listTextureSlots(texture),
+			...imageStats(texture),
+		})),
+		bytes: documentBreakdown(input, format, size, document).categories,
+	};
+}
+
+/**
+ * Attribute a model's bytes to its meshes, animation clips, skins, images, and
+ * JSON (see {@link breakdownBytes}), e.g. to see what a compressed GLB spends
+ * its size on.
+ *
+ * @param input     - GLB bytes or glTF JSON text.
+ * @param resources - External `.bin` and texture files for a JSON glTF.
+ * @throws {Error} If the input cannot be parsed or a referenced resource is missing.
+ */
+export async function byteBreakdown(input: Uint8Array, resources: GltfResources = {}): Promise<ByteBreakdown> {
+	const document: Document = await readDocument(input, resources);
+	const format = detectInputFormat(input) === 'gltf' ? 'gltf' : 'glb';
+	let size: number = input.byteLength;
+	if (format === 'gltf') {
+		for (const data of Object.values(resources)) size += data.byteLength;
+	}
+	return documentBreakdown(input, format, size, document);
+}
+
+/**
+ * Inspect a `.glb` or `.gltf` file from disk; a `.gltf`'s external buffers and
+ * textures are loaded relative to the file's directory.
+ *
+ * @param path - Path to a `.glb` or `.gltf` file.
+ * @throws {Error} If the file or one of its resources cannot be read, or parsing fails.
+ */
+export async function inspectFile(path: string): Promise<InspectReport> {
+	const { input, resources } = await readModelFile(path);
+	return inspect(input, resources);
+}
+
+/** Names of the texture slots a material (or one of its extensions) fills. */
+function materialTextureSlots(material: Material): string[] {
+	const graph = material.getGraph();
+	const slots: string[] = [];
+	const visit = (property: Property): void => {
+		for (const edge of graph.listChildEdges(property)) {
+			const child = edge.getChild();
+			if (child instanceof Texture) slots.push(edge.getName());
+		}
+	};
+	visit(material);
+	for (const extension of material.listExtensions()) visit(extension);
+	return slots;
+}
+
+/** {@link breakdownBytes} of a parsed GLB or `.gltf`. */
+function documentBreakdown(input: Uint8Array, format: 'glb' | 'gltf', size: number, document: Document): ByteBreakdown {
+	if (format === 'glb') {
+		const { json, jsonBytes } = readGlbJson(input);
+		return breakdownBytes(json, jsonBytes, size, document);
+	}
+	const json: GLTF.IGLTF = JSON.parse(new TextDecoder().decode(input));
+	return breakdownBytes(json, input.byteLength, size, document);
+}
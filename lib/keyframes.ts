@@ -0,0 +1,93 @@
+/**
+ * Keyframe access shared by the animation transforms: decode a sampler's
+ * keyframes to floats, sample them at any time, and write new ones back.
+ *
+ * @module keyframes
+ */
+
+import type { Accessor, AnimationSampler, TypedArray } from '@gltf-transform/core';
+
+/** A sampler's keyframes, decoded to floats. */
+export interface Keyframes {
+	times: Float32Array;
+	/** One row of `stride` values per keyframe (three rows for `CUBICSPLINE`: in-tangent, value, out-tangent). */
+	values: Float32Array;
+	stride: number;
+}
+
+/**
+ * Decode a sampler's keyframes. Normalized and integer outputs are converted to floats.
+ *
+ * @returns The keyframes, or `null` when the sampler has no input, no output, or no keyframes.
+ */
+export function readKeyframes(sampler: AnimationSampler): Keyframes | null {
+	const input: Accessor | null = sampler.getInput();
+	const output: Accessor | null = sampler.getOutput();
+	const array: TypedArray | null = input?.getArray() ?? null;
+	if (!input || !output || !array || array.length === 0) return null;
+
+	const values = new Float32Array(output.getCount() * output.getElementSize());
+	const element: number[] = [];
+	for (let i: number = 0; i < output.getCount(); i++) {
+		output.getElement(i, element);
+		values.set(element, i * output.getElementSize());
+	}
+	return { times: new Float32Array(array), values, stride: values.length / array.length };
+}
+
+/** Values of keyframe `i`. */
+export function keyframeRow(keys: Keyframes, i: number): number[] {
+	return Array.from(keys.values.subarray(i * keys.stride, (i + 1) * keys.stride));
+}
+
+/**
+ * Interpolate between two keyframe values: linearly, or with a quaternion slerp
+ * along the shorter arc for rotations.
+ *
+ * @param alpha - Position between `a` (`0`) and `b` (`1`).
+ */
+export function interpolateKeyframe(a: number[], b: number[], alpha: number, rotation: boolean): number[] {
+	if (!rotation) return a.map((value, j) => value + ((b[j] ?? 0) - value) * alpha);
+
+	let dot: number = a.reduce((sum, value, j) => sum + value * (b[j] ?? 0), 0);
+	const sign: number = dot < 0 ? -1 : 1;
+	dot *= sign;
+	if (dot > 0.9995) {
+		const mixed: number[] = a.map((value, j) => value + (sign * (b[j] ?? 0) - value) * alpha);
+		const length: number = Math.hypot(...mixed);
+		return mixed.map((value) => value / length);
+	}
+	const theta: number = Math.acos(dot);
+	const wa: number = Math.sin((1 - alpha) * theta) / Math.sin(theta);
+	const wb: number = (sign * Math.sin(alpha * theta)) / Math.sin(theta);
+	return a.map((value, j) => value * wa + (b[j] ?? 0) * wb);
+}
+
+/** Times closer than this (in seconds) count as the same keyframe time, absorbing float32 rounding. */
+const TIME_EPSILON = 1e-6;
+
+/**
+ * Value of a `LINEAR` or `STEP` sampler at `time`, clamped to its first and
+ * last keyframes.
+ */
+export function sampleKeyframes(keys: Keyframes, time: number, step: boolean, rotation: boolean): number[] {
+	const { times } = keys;
+	let i: number = 0;
+	while (i < times.length - 1 && (times[i + 1] ?? 0) <= time + TIME_EPSILON) i++;
+	const t0: number = times[i] ?? 0;
+	const t1: number = times[i + 1] ?? t0;
+	if (step || time <= t0 || t1 <= t0) return keyframeRow(keys, i);
+	return interpolateKeyframe(keyframeRow(keys, i), keyframeRow(keys, i + 1), (time - t0) / (t1 - t0), rotation);
+}
+
+/**
+ * Replace a sampler's keyframes with new float accessors (copies of the old
+ * ones, so accessors shared with other samplers are left intact).
+ */
+export function writeKeyframes(sampler: AnimationSampler, times: ArrayLike<number>, values: ArrayLike<number>): void {
+	const input: Accessor | null = sampler.getInput();
+	const output: Accessor | null = sampler.getOutput();
+	if (!input || !output) return;
+	sampler.setInput(input.clone().setArray(new Float32Array(times)));
+	sampler.setOutput(output.clone().setNormalized(false).setArray(new Float32Array(values)));
+}
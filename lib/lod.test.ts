@@ -0,0 +1,140 @@
+import { expect, test } from 'bun:test';
+import { type Document, NodeIO } from '@gltf-transform/core';
+import { MeshoptSimplifier } from 'meshoptimizer';
+import { gridDocument, writeGlb } from '../test/fixtures';
+import { readGlbJson } from './breakdown';
+import { compress } from './compress';
+import { generateLods, type Lod, type LodReport, MSFTLod, parseLodList, resolveLodLevels } from './lod';
+
+/** Run {@link generateLods} on `doc` and return its report. */
+async function lods(doc: Document, ratios: number[]): Promise<LodReport> {
+	await MeshoptSimplifier.ready;
+	let report: LodReport | undefined;
+	await doc.transform(
+		generateLods(resolveLodLevels(ratios), MeshoptSimplifier, (r) => {
+			report = r;
+		}),
+	);
+	if (!report) throw new Error('No report');
+	return report;
+}
+
+test('each level is shown down to half its ratio by default', () => {
+	expect(resolveLodLevels([1, 0.5, 0.25])).toEqual([
+		{ ratio: 1, screenCoverage: 0.5 },
+		{ ratio: 0.5, screenCoverage: 0.25 },
+		{ ratio: 0.25, screenCoverage: 0.125 },
+	]);
+	expect(resolveLodLevels([1, 0.2], [0.4, 0.1]).map((level) => level.screenCoverage)).toEqual([0.4, 0.1]);
+});
+
+test('invalid levels are reported together', () => {
+	expect(() => resolveLodLevels([1])).toThrow('Invalid lods: expected 2-8 levels, got 1');
+	expect(() => resolveLodLevels([1, 1.5, 0.5, 0.6])).toThrow(
+		'Invalid lods: ratio 1.5 must be in (0, 1]; ratios must be strictly decreasing',
+	);
+	expect(() => resolveLodLevels([1, 0.5], [0.5])).toThrow('coverage needs one value per level');
+	expect(() => resolveLodLevels([1, 0.5], [0.2, 0.3])).toThrow('coverage must be strictly decreasing');
+});
+
+test('parseLodList reads comma-separated numbers', () => {
+	expect(parseLodList('1, 0.5,0.25')).toEqual([1, 0.5, 0.25]);
+	expect(parseLodList('1,,x')).toEqual([1, Number.NaN, Number.NaN]);
+	expect(parseLodList('')).toBeUndefined();
+	expect(parseLodList(null)).toBeUndefined();
+});
+
+test('generateLods adds simplified nodes that are in no scene', async () => {
+	const doc: Document = gridDocument(30);
+	const report = await lods(doc, [1, 0.5, 0.25]);
+	expect(report.output).toBe('msft_lod');
+	expect(report.levels.map((level) => level.level)).toEqual([0, 1, 2]);
+	const [base, half, quarter] = report.levels;
+	expect(base?.triangles).toBe(29 * 29 * 2);
+	expect(half?.triangles).toBeLessThanOrEqual(29 * 29);
+	expect(quarter?.triangles).toBeLessThan(half?.triangles ?? 0);
+
+	const grid = doc
+		.getRoot()
+		.listNodes()
+		.find((node) => node.getName() === 'grid');
+	const lod = grid?.getExtension<Lod>('MSFT_lod');
+	expect(lod?.listLods().map((node) => node.getName())).toEqual(['grid_LOD1', 'grid_LOD2']);
+	expect(grid?.getExtras()).toEqual({ MSFT_screencoverage: [0.5, 0.25, 0.125] });
+	expect(doc.getRoot().listScenes()[0]?.listChildren()).toEqual(grid ? [grid] : []);
+});
+
+test('a mesh shared by several nodes is simplified once per level', async () => {
+	const doc: Document = gridDocument(10);
+	const [grid] = doc.getRoot().listNodes();
+	const mesh = grid?.getMesh() ?? null;
+	doc
+		.getRoot()
+		.listScenes()[0]
+		?.addChild(doc.createNode('copy').setMesh(mesh).setTranslation([2, 0, 0]));
+	await lods(doc, [1, 0.5]);
+	const lodMeshes = doc
+		.getRoot()
+		.listNodes()
+		.filter((node) => node.getName().endsWith('_LOD1'))
+		.map((node) => node.getMesh());
+	expect(lodMeshes).toHaveLength(2);
+	expect(lodMeshes[0]).toBe(lodMeshes[1] ?? null);
+	expect(lodMeshes[0]).not.toBe(mesh);
+});
+
+test('mesh nodes with children get no chain', async () => {
+	const doc: Document = gridDocument(10);
+	const [grid] = doc.getRoot().listNodes();
+	grid?.addChild(doc.createNode('child'));
+	const report = await lods(doc, [1, 0.5]);
+	expect(grid?.getExtension('MSFT_lod')).toBeNull();
+	expect(report.levels[1]?.triangles).toBe(0);
+});
+
+test('MSFT_lod survives a write and read', async () => {
+	const doc: Document = gridDocument(10);
+	await lods(doc, [1, 0.5, 0.25]);
+	const io = new NodeIO().registerExtensions([MSFTLod]);
+	const read: Document = await io.readBinary(await io.writeBinary(doc));
+	const grid = read
+		.getRoot()
+		.listNodes()
+		.find((node) => node.getName() === 'grid');
+	expect(
+		grid
+			?.getExtension<Lod>('MSFT_lod')
+			?.listLods()
+			.map((node) => node.getName()),
+	).toEqual(['grid_LOD1', 'grid_LOD2']);
+});
+
+test('compress writes the chain into the GLB by default', async () => {
+	const input: Uint8Array = await writeGlb(gridDocument(30));
+	const { buffer, report } = await compress(input, { lods: [1, 0.5], backend: 'meshopt', quiet: true });
+	const { json } = readGlbJson(buffer);
+	expect(json.extensionsUsed).toContain('MSFT_lod');
+	expect(json.nodes?.some((node) => node.extensions?.MSFT_lod)).toBe(true);
+	expect(report.lods?.output).toBe('msft_lod');
+});
+
+test('compress writes one GLB per level for files output', async () => {
+	const input: Uint8Array = await writeGlb(gridDocument(30));
+	const result = await compress(input, { lods: [1, 0.5], lodOutput: 'files', backend: 'meshopt', quiet: true });
+	expect(result.lods?.map((level) => level.level)).toEqual([0, 1]);
+	expect(result.lods?.[0]?.buffer).toBe(result.buffer);
+	expect(result.report.lods?.output).toBe('files');
+	expect(result.report.lods?.levels.map((level) => level.bytes)).toEqual(
+		result.lods?.map((level) => level.buffer.byteLength),
+	);
+});
+
+test('compress rejects combinations it cannot write', async () => {
+	const input: Uint8Array = await writeGlb(gridDocument(4));
+	await expect(compress(input, { lods: [1, 0.5], backend: 'gltfpack', quiet: true })).rejects.toThrow(
+		'MSFT_lod output is not supported by the gltfpack backend',
+	);
+	await expect(compress(input, { lods: [1, 0.5], lodOutput: 'files', splitAnimations: true })).rejects.toThrow(
+		'splitAnimations cannot be combined with lodOutput "files"',
+	);
+});
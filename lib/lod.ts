@@ -0,0 +1,338 @@
+/**
+ * Level-of-detail chain generation.
+ *
+ * {@link generateLods} adds simplified copies of every mesh node and links them
+ * with the `MSFT_lod` extension, so a single GLB carries the whole chain. Each
+ * primary node gets `extras.MSFT_screencoverage` hints telling viewers (e.g.
+ * Babylon.js) which level to show at which screen coverage. For viewers without
+ * `MSFT_lod` support, `compress()` can instead write one GLB per level.
+ *
+ * glTF-Transform has no built-in `MSFT_lod` support; {@link MSFTLod} implements
+ * it so the extension survives reading and writing.
+ *
+ * @module lod
+ */
+
+import {
+	type Document,
+	Extension,
+	ExtensionProperty,
+	type IProperty,
+	type Mesh,
+	type Node,
+	type Nullable,
+	PropertyType,
+	type ReaderContext,
+	RefList,
+	type Transform,
+	type WriterContext,
+} from '@gltf-transform/core';
+import { simplifyPrimitive, weldPrimitive } from '@gltf-transform/functions';
+import type { MeshoptSimplifier as MeshoptSimplifierType } from 'meshoptimizer';
+
+const MSFT_LOD = 'MSFT_lod';
+
+/** Where {@link generateLods}' levels end up: one GLB with `MSFT_lod`, or one GLB per level. */
+export type LodOutput = 'msft_lod' | 'files';
+
+/** All {@link LodOutput} values, for validating CLI and server input. */
+export const LOD_OUTPUTS: readonly LodOutput[] = ['msft_lod', 'files'];
+
+/** Maximum number of levels in a chain (base level included). */
+const MAX_LOD_LEVELS = 8;
+
+/** One level of a LOD chain. */
+export interface LodLevel {
+	/** Simplification ratio relative to the optimized mesh, in `(0, 1]`. */
+	ratio: number;
+	/** Minimum screen coverage (fraction of viewport height) at which the level is shown. */
+	screenCoverage: number;
+}
+
+/** Statistics for one generated level. */
+export interface LodLevelReport extends LodLevel {
+	level: number;
+	vertices: number;
+	triangles: number;
+	/** Encoded GLB size, for `files` output only. */
+	bytes?: number;
+}
+
+/** Result reported for a LOD chain. */
+export interface LodReport {
+	output: LodOutput;
+	levels: LodLevelReport[];
+}
+
+interface ILod extends IProperty {
+	lods: RefList<Node>;
+}
+
+/**
+ * `MSFT_lod` on a {@link Node}: the lower-detail nodes that replace it, highest
+ * detail first. LOD nodes are not part of any scene.
+ */
+export class Lod extends ExtensionProperty<ILod> {
+	static override EXTENSION_NAME: typeof MSFT_LOD = MSFT_LOD;
+	declare extensionName: typeof MSFT_LOD;
+	declare propertyType: 'Lod';
+	declare parentTypes: [PropertyType.NODE];
+
+	protected override init(): void {
+		this.extensionName = MSFT_LOD;
+		this.propertyType = 'Lod';
+		this.parentTypes = [PropertyType.NODE];
+	}
+
+	protected override getDefaults(): Nullable<ILod> {
+		return Object.assign(super.getDefaults(), { lods: new RefList<Node>() });
+	}
+
+	/** Lists the LOD nodes, highest detail first. */
+	listLods(): Node[] {
+		return this.listRefs('lods');
+	}
+
+	/** Appends a lower-detail node. */
+	addLod(node: Node): this {
+		return this.addRef('lods', node);
+	}
+
+	/** Removes a LOD node. */
+	removeLod(node: Node): this {
+		return this.removeRef('lods', node);
+	}
+}
+
+/**
+ * [`MSFT_lod`](https://github.com/KhronosGroup/glTF/tree/main/extensions/2.0/Vendor/MSFT_lod)
+ * extension for node-level LOD chains. Register it with the I/O alongside
+ * `ALL_EXTENSIONS`.
+ */
+export class MSFTLod extends Extension {
+	static override EXTENSION_NAME: typeof MSFT_LOD = MSFT_LOD;
+	override extensionName: typeof MSFT_LOD = MSFT_LOD;
+
+	/** Creates a new {@link Lod} property for use on a {@link Node}. */
+	createLod(): Lod {
+		return new Lod(this.document.getGraph());
+	}
+
+	/** @hidden */
+	read(context: ReaderContext): this {
+		const nodeDefs = context.jsonDoc.json.nodes ?? [];
+		nodeDefs.forEach((nodeDef, nodeIndex) => {
+			const lodDef: unknown = nodeDef.extensions?.[MSFT_LOD];
+			if (typeof lodDef !== 'object' || lodDef === null) return;
+			const ids: unknown = 'ids' in lodDef ? lodDef.ids : undefined;
+			const lod: Lod = this.createLod();
+			for (const id of Array.isArray(ids) ? ids : []) {
+				const node: Node | undefined = typeof id === 'number' ? context.nodes[id] : undefined;
+				if (node) lod.addLod(node);
+			}
+			context.nodes[nodeIndex]?.setExtension(MSFT_LOD, lod);
+		});
+		return this;
+	}
+
+	/** @hidden */
+	write(context: WriterContext): this {
+		const nodeDefs = context.jsonDoc.json.nodes ?? [];
+		for (const node of this.document.getRoot().listNodes()) {
+			const lod: Lod | null = node.getExtension<Lod>(MSFT_LOD);
+			const nodeDef = nodeDefs[context.nodeIndexMap.get(node) ?? -1];
+			if (!lod || !nodeDef) continue;
+			const ids: number[] = lod
+				.listLods()
+				.map((lodNode): number | undefined => context.nodeIndexMap.get(lodNode))
+				.filter((id): id is number => id !== undefined);
+			nodeDef.extensions = { ...nodeDef.extensions, [MSFT_LOD]: { ids } };
+		}
+		return this;
+	}
+}
+
+/**
+ * Validate a LOD ratio list and pair each level with a screen-coverage hint.
+ *
+ * Ratios must be in `(0, 1]` and strictly decreasing. Without explicit
+ * `coverage`, each level is shown down to half its ratio (`[1, 0.5, 0.25]` →
+ * `[0.5, 0.25, 0.125]`), i.e. triangle density per screen area stays roughly constant.
+ *
+ * @param ratios   - Simplification ratio per level, highest detail first.
+ * @param coverage - Optional screen coverage per level (same length, decreasing).
+ * @returns The resolved levels.
+ * @throws {Error} If the ratios or coverage values are invalid.
+ */
+export function resolveLodLevels(ratios: number[], coverage?: number[]): LodLevel[] {
+	const errors: string[] = [];
+	if (ratios.length < 2 || ratios.length > MAX_LOD_LEVELS) {
+		errors.push(`expected 2-${MAX_LOD_LEVELS} levels, got ${ratios.length}`);
+	}
+	ratios.forEach((ratio, i) => {
+		if (!(ratio > 0 && ratio <= 1)) errors.push(`ratio ${ratio} must be in (0, 1]`);
+		else if (i > 0 && ratio >= (ratios[i - 1] ?? 0)) errors.push('ratios must be strictly decreasing');
+	});
+	if (coverage) {
+		if (coverage.length !== ratios.length) errors.push('coverage needs one value per level');
+		coverage.forEach((value, i) => {
+			if (!(value >= 0 && value <= 1)) errors.push(`coverage ${value} must be in [0, 1]`);
+			else if (i > 0 && value >= (coverage[i - 1] ?? 0)) errors.push('coverage must be strictly decreasing');
+		});
+	}
+	if (errors.length > 0) {
+		throw new Error(`Invalid lods: ${[...new Set(errors)].join('; ')}`);
+	}
+	return ratios.map((ratio, i) => ({ ratio, screenCoverage: coverage?.[i] ?? ratio / 2 }));
+}
+
+/**
+ * Parse a comma-separated list of numbers (e.g. `"1,0.5,0.25"`) from a CLI flag,
+ * query parameter, or form field. Values are checked by {@link resolveLodLevels}.
+ *
+ * @param raw - Raw string, or `null`/empty when absent.
+ * @returns The parsed numbers (`NaN` for unparseable entries), or `undefined` if `raw` is empty.
+ */
+export function parseLodList(raw: string | null): number[] | undefined {
+	if (!raw) return undefined;
+	return raw.split(',').map((value) => (value.trim() === '' ? Number.NaN : Number(value)));
+}
+
+/**
+ * Simplify every triangle primitive in the document to `ratio` of its indices.
+ *
+ * Unlike the error-bounded auto-decimation, the ratio drives the result: LOD
+ * levels are meant to hit their budget.
+ *
+ * @param doc        - Document to simplify in place.
+ * @param ratio      - Target index ratio in `(0, 1]`; `1` is a no-op.
+ * @param simplifier - The meshoptimizer `MeshoptSimplifier` WASM module instance.
+ */
+export function simplifyLodDocument(doc: Document, ratio: number, simplifier: typeof MeshoptSimplifierType): void {
+	if (ratio >= 1) return;
+	for (const mesh of doc.getRoot().listMeshes()) simplifyMesh(mesh, ratio, simplifier);
+}
+
+/**
+ * Build a `MSFT_lod` chain for every mesh node.
+ *
+ * Level 0 simplifies the existing meshes in place (when its ratio is below 1);
+ * every further level gets a simplified copy of the mesh on a new, scene-less
+ * node with the same transform, skin, and GPU instancing. Meshes shared by
+ * several nodes are simplified once per level. Nodes with children are skipped,
+ * since `MSFT_lod` replaces a node's whole subtree.
+ *
+ * @param levels     - Resolved levels (see {@link resolveLodLevels}).
+ * @param simplifier - The meshoptimizer `MeshoptSimplifier` WASM module instance.
+ * @param onReport   - Optional callback receiving per-level statistics.
+ * @returns A glTF-Transform `Transform` function.
+ */
+export function generateLods(
+	levels: LodLevel[],
+	simplifier: typeof MeshoptSimplifierType,
+	onReport?: (report: LodReport) => void,
+): Transform {
+	return (doc: Document): void => {
+		const extension: MSFTLod = doc.createExtension(MSFTLod);
+		const targets: { node: Node; mesh: Mesh }[] = doc
+			.getRoot()
+			.listNodes()
+			.flatMap((node) => {
+				const mesh: Mesh | null = node.getMesh();
+				const eligible: boolean =
+					node.listChildren().length === 0 &&
+					!node.getExtension(MSFT_LOD) &&
+					!node.listParents().some((parent) => parent instanceof Lod);
+				return mesh && eligible ? [{ node, mesh }] : [];
+			});
+		const skipped: number = doc
+			.getRoot()
+			.listNodes()
+			.filter((node) => node.getMesh() && node.listChildren().length > 0).length;
+		if (skipped > 0) console.log(`  generateLods: skipped ${skipped} mesh node(s) with children`);
+
+		const [base, ...lower] = levels;
+		if (!base) return;
+		const baseMeshes = new Set<Mesh>(targets.map(({ mesh }) => mesh));
+		for (const mesh of baseMeshes) simplifyMesh(mesh, base.ratio, simplifier);
+
+		const levelMeshes: { level: LodLevel; cache: Map<Mesh, Mesh> }[] = lower.map((level) => ({
+			level,
+			cache: new Map<Mesh, Mesh>(),
+		}));
+		for (const { node, mesh } of targets) {
+			const lod: Lod = extension.createLod();
+			for (const [i, { level, cache }] of levelMeshes.entries()) {
+				let lodMesh: Mesh | undefined = cache.get(mesh);
+				if (!lodMesh) {
+					lodMesh = cloneMesh(doc, mesh, `${mesh.getName() || 'mesh'}_LOD${i + 1}`);
+					// Ratios are relative to the optimized mesh, which level 0 already reduced
+					simplifyMesh(lodMesh, level.ratio / base.ratio, simplifier);
+					cache.set(mesh, lodMesh);
+				}
+				const lodNode: Node = doc
+					.createNode(`${node.getName() || 'node'}_LOD${i + 1}`)
+					.setMesh(lodMesh)
+					.setSkin(node.getSkin())
+					.setTranslation(node.getTranslation())
+					.setRotation(node.getRotation())
+					.setScale(node.getScale())
+					.setWeights(node.getWeights());
+				const instancing = node.getExtension<ExtensionProperty>('EXT_mesh_gpu_instancing');
+				if (instancing) lodNode.setExtension('EXT_mesh_gpu_instancing', instancing);
+				lod.addLod(lodNode);
+			}
+			node.setExtension(MSFT_LOD, lod);
+			node.setExtras({ ...node.getExtras(), MSFT_screencoverage: levels.map((level) => level.screenCoverage) });
+		}
+
+		onReport?.({
+			output: 'msft_lod',
+			levels: levels.map((level, i) => {
+				const meshes: Mesh[] = i === 0 ? [...baseMeshes] : [...(levelMeshes[i - 1]?.cache.values() ?? [])];
+				return { ...level, level: i, ...countMesh(meshes) };
+			}),
+		});
+	};
+}
+
+/** Simplify each triangle primitive of a mesh to `ratio` of its indices. */
+function simplifyMesh(mesh: Mesh, ratio: number, simplifier: typeof MeshoptSimplifierType): void {
+	if (ratio >= 1) return;
+	for (const prim of mesh.listPrimitives()) {
+		if (prim.getMode() !== 4 || !prim.getAttribute('POSITION')) continue; // TRIANGLES only
+		if (!prim.getIndices()) weldPrimitive(prim);
+		// error: 1 lets the ratio, not the error bound, decide where simplification stops
+		simplifyPrimitive(prim, { simplifier, ratio, error: 1 });
+	}
+}
+
+/**
+ * Copy a mesh with its own primitives and morph targets. Accessors stay shared
+ * until simplification swaps in compacted copies.
+ */
+function cloneMesh(doc: Document, mesh: Mesh, name: string): Mesh {
+	const clone: Mesh = doc.createMesh(name).setWeights(mesh.getWeights());
+	for (const prim of mesh.listPrimitives()) {
+		const primClone = prim.clone();
+		for (const target of primClone.listTargets()) {
+			primClone.removeTarget(target).addTarget(target.clone());
+		}
+		clone.addPrimitive(primClone);
+	}
+	return clone;
+}
+
+/** Vertex and triangle totals for a set of meshes. */
+function countMesh(meshes: Mesh[]): Pick<LodLevelReport, 'vertices' | 'triangles'> {
+	let vertices: number = 0;
+	let triangles: number = 0;
+	for (const mesh of meshes) {
+		for (const prim of mesh.listPrimitives()) {
+			const vertexCount: number = prim.getAttribute('POSITION')?.getCount() ?? 0;
+			vertices += vertexCount;
+			if (prim.getMode() === 4) triangles += Math.floor((prim.getIndices()?.getCount() ?? vertexCount) / 3);
+		}
+	}
+	return { vertices, triangles };
+}
@@ -17,23 +17,172 @@
 
 // Core compression API
 export type {
+	ClipResult,
+	CompressBackend,
 	CompressOptions,
-	CompressPreset,
 	CompressResult,
+	GltfResources,
+	LodResult,
+} from './compress';
+export {
+	COMPRESS_BACKENDS,
+	compare,
+	compress,
+	compressFile,
+	compressGltf,
+	formatQuality,
+	getGltfpackVersion,
+	getHasGltfpack,
+	getHasToktx,
+	init,
 } from './compress';
-export { compress, getHasGltfpack, init, PRESETS } from './compress';
+
+// Result cache (content-addressed; in-memory LRU or directory backend)
+export type { CacheEnvironment, CacheStats, CompressCache, FileCacheOptions, MemoryCacheOptions } from './cache';
+export { cacheKey, createFileCache, createMemoryCache } from './cache';
+
+// Model inspection (contents without compressing)
+export type {
+	AnimationInspection,
+	InspectReport,
+	MaterialInspection,
+	MeshInspection,
+	SkinInspection,
+	TextureInspection,
+} from './inspect';
+export { byteBreakdown, inspect, inspectFile } from './inspect';
+
+// Byte-size attribution (meshes, animation clips, images, JSON)
+export type { ByteBreakdown, ByteCategories, ImageBytes, ItemBytes } from './breakdown';
+export { BYTE_CATEGORIES, breakdownBytes, readGlbJson } from './breakdown';
+
+// Worker-thread pool (keeps the calling event loop responsive)
+export type { CompressorPool, CompressorPoolOptions } from './pool';
+export { CompressorPoolError, createCompressorPool } from './pool';
+
+// Quality metrics (geometry / animation / texture error)
+export type {
+	AnimationError,
+	CompareOptions,
+	GeometryError,
+	QualityReport,
+	QualityTolerance,
+	TextureError,
+} from './compare';
+export { checkTolerance, compareDocuments, DEFAULT_TOLERANCE, parseTolerance, worstError } from './compare';
+
+// Per-phase pipeline options
+export type {
+	AnimationOptions,
+	CleanupOptions,
+	EncoderOptions,
+	GeometryOptions,
+	GpuOptions,
+	PipelineOptions,
+	PipelineStage,
+	ResolvedPipeline,
+	TextureMode,
+	TextureOptions,
+	TextureSlotClass,
+} from './pipeline';
+export {
+	PIPELINE_STAGES,
+	parsePipelineOptions,
+	resolvePipeline,
+	TEXTURE_MODES,
+	TEXTURE_SLOT_CLASSES,
+} from './pipeline';
+
+// Texture modes (sharp / KTX2) and per-class rules
+export type { TextureLimits } from './textures';
+export { classifyTexture, gltfpackTextureFlags, resolveTextureLimits, resolveTextureMode } from './textures';
+
+// File-size budgets (targetBytes escalation ladder)
+export type { BudgetAttempt, BudgetReport, BudgetSettings, BudgetStep } from './budget';
+export { applyBudgetStep, BUDGET_STEPS, formatBudgetFailure, formatBudgetSettings } from './budget';
+
+// LOD chains (MSFT_lod or one GLB per level)
+export type { LodLevel, LodLevelReport, LodOutput, LodReport } from './lod';
+export {
+	generateLods,
+	LOD_OUTPUTS,
+	Lod,
+	MSFTLod,
+	parseLodList,
+	resolveLodLevels,
+	simplifyLodDocument,
+} from './lod';
+
+// Animation clips (keep/drop, rename, trim, one GLB per clip)
+export type { AnimationSelection, AnimationSelectionReport, ClipDocument, ClipFileReport } from './clips';
+export {
+	clipFilenames,
+	parseAnimationSelection,
+	resolveAnimationSelection,
+	selectAnimations,
+	splitAnimations,
+} from './clips';
+
+// Presets (built-in + user-defined via definePreset / config file)
+export type {
+	BuiltinPreset,
+	CompressPreset,
+	DracoQuantization,
+	GlbCompressorConfig,
+	PresetConfig,
+	PresetDefinition,
+	PresetPhases,
+	PresetThresholds,
+} from './presets';
+export {
+	AUTO_PRESET,
+	AUTO_PRESET_CANDIDATES,
+	CONFIG_FILENAMES,
+	definePreset,
+	findConfigFile,
+	getPreset,
+	listPresets,
+	loadConfig,
+	PRESETS,
+	validateGltfpackFlags,
+} from './presets';
 
 // Constants
 export * from './constants';
 
+// Structured compression reports
+export type {
+	AutoPresetCandidate,
+	AutoPresetReport,
+	BreakdownReport,
+	CompressReport,
+	DocumentStats,
+	EncodeReport,
+	PhaseReport,
+	PipelinePhase,
+	TextureImageStats,
+	TextureReport,
+	TransformReports,
+} from './report';
+export { collectStats, countPrimitive } from './report';
+
 // Custom transforms (for advanced / a-la-carte usage)
 export * from './transforms';
 
 // Utility functions
+export type { InputFormat } from './utils';
 export {
+	CompressionCancelledError,
+	checkCancelled,
+	detectInputFormat,
 	formatBytes,
+	parseByteSize,
 	parseSimplifyRatio,
 	sanitizeFilename,
+	throwIfCancelled,
 	validateGlbMagic,
 	withTempDir,
 } from './utils';
+
+// ZIP archives (bundled .gltf uploads, multi-file outputs)
+export { createZip, readZip, ZIP_MAGIC } from './zip';
@@ -0,0 +1,116 @@
+import { expect, test } from 'bun:test';
+import { ANIMATION_FPS, MERGE_TOLERANCE, MESH_WARN_THRESHOLD, TEXTURE_MAX_SIZE } from './constants';
+import { PIPELINE_STAGES, parsePipelineOptions, resolvePipeline } from './pipeline';
+import type { PresetConfig } from './presets';
+
+const preset: PresetConfig = { skinned: [], static: [] };
+
+test('resolvePipeline fills every option from the library defaults', () => {
+	const resolved = resolvePipeline(preset);
+	expect(Object.keys(resolved)).toEqual(PIPELINE_STAGES);
+	expect(resolved.cleanup).toMatchObject({ enabled: true, meshWarn: MESH_WARN_THRESHOLD, flatten: true });
+	expect(resolved.geometry).toMatchObject({
+		mergeTolerance: MERGE_TOLERANCE,
+		decimateThreshold: MESH_WARN_THRESHOLD,
+		decimateRatio: 0.5,
+		decimateInclude: [],
+	});
+	expect(resolved.animation.resampleFps).toBe(ANIMATION_FPS);
+	expect(resolved.textures).toEqual({
+		enabled: true,
+		mode: 'webp',
+		slots: {},
+		slotMaxSize: {},
+		slotQuality: {},
+		maxSize: TEXTURE_MAX_SIZE,
+	});
+	expect(resolved.encoder).toEqual({ enabled: true, flags: [], quantize: true });
+});
+
+test('options override preset thresholds, which override the defaults', () => {
+	const tuned: PresetConfig = {
+		...preset,
+		phases: { gpu: false },
+		thresholds: { meshWarn: 1000, mergeTolerance: 0.01, animationFps: 12, textureMaxSize: 512 },
+	};
+	const resolved = resolvePipeline(tuned, {
+		geometry: { mergeTolerance: 0.05, decimateThreshold: undefined },
+		textures: { maxSize: 256 },
+	});
+	expect(resolved.gpu.enabled).toBe(false);
+	expect(resolved.cleanup.meshWarn).toBe(1000);
+	expect(resolved.geometry.decimateThreshold).toBe(1000);
+	expect(resolved.geometry.mergeTolerance).toBe(0.05);
+	expect(resolved.animation.resampleFps).toBe(12);
+	expect(resolved.textures.maxSize).toBe(256);
+	expect(resolvePipeline(tuned, { gpu: { enabled: true } }).gpu.enabled).toBe(true);
+});
+
+test('options merge only their own keys', () => {
+	const overrides = JSON.parse('{"__proto__": {"enabled": false}, "dedup": false}');
+	const resolved = resolvePipeline(preset, { cleanup: overrides });
+	expect(resolved.cleanup.enabled).toBe(true);
+	expect(resolved.cleanup.dedup).toBe(false);
+	expect(Object.getPrototypeOf(resolved.cleanup)).toBe(Object.prototype);
+});
+
+test('resolvePipeline reports every out-of-range option at once', () => {
+	expect(() =>
+		resolvePipeline(preset, {
+			geometry: { decimateRatio: 1.5, mergeNormalAngle: 200 },
+			animation: { resampleFps: -1 },
+			textures: { quality: 0, slotMaxSize: { normal: 0 } },
+			encoder: { flags: ['-nope'] },
+		}),
+	).toThrow(
+		'Invalid pipeline options: geometry.decimateRatio must be in (0, 1]; ' +
+			'animation.resampleFps must be a non-negative number; ' +
+			'geometry.mergeNormalAngle must be between 0 and 180; ' +
+			'textures.slotMaxSize.normal must be a positive number; ' +
+			'textures.quality must be between 1 and 100; ' +
+			'encoder.flags: unknown gltfpack flag "-nope"',
+	);
+});
+
+test('parsePipelineOptions converts each value by its kind', () => {
+	const options = parsePipelineOptions([
+		['skip', 'gpu, textures'],
+		['cleanup.flatten', 'off'],
+		['geometry.mergeTolerance', '0.002'],
+		['geometry.decimateExclude', 'Head*, Eye_?'],
+		['animation.removeStaticTracks', 'YES'],
+		['textures.mode', 'ktx2-uastc'],
+		['textures.slots', 'normal:ktx2-uastc,color:webp'],
+		['textures.slotMaxSize', 'baseColor:2048, occlusion:512'],
+		['encoder.flags', ' -cc  -kn '],
+	]);
+	expect(options).toEqual({
+		gpu: { enabled: false },
+		textures: {
+			enabled: false,
+			mode: 'ktx2-uastc',
+			slots: { normal: 'ktx2-uastc', color: 'webp' },
+			slotMaxSize: { baseColor: 2048, occlusion: 512 },
+		},
+		cleanup: { flatten: false },
+		geometry: { mergeTolerance: 0.002, decimateExclude: ['Head*', 'Eye_?'] },
+		animation: { removeStaticTracks: true },
+		encoder: { flags: ['-cc', '-kn'] },
+	});
+});
+
+test('parsePipelineOptions rejects unknown keys and malformed values', () => {
+	expect(() => parsePipelineOptions([['skip', 'lod']])).toThrow('Unknown pipeline stage "lod"');
+	expect(() => parsePipelineOptions([['geometry', '1']])).toThrow('Unknown pipeline option "geometry"');
+	expect(() => parsePipelineOptions([['gpu.instance.min', '2']])).toThrow('Unknown pipeline option "gpu.instance.min"');
+	expect(() => parsePipelineOptions([['gpu.toString', '1']])).toThrow('Unknown pipeline option "gpu.toString"');
+	expect(() => parsePipelineOptions([['gpu.reorder', 'maybe']])).toThrow('expects a boolean, got "maybe"');
+	expect(() => parsePipelineOptions([['gpu.instanceMin', '']])).toThrow('expects a number, got ""');
+	expect(() => parsePipelineOptions([['textures.mode', 'gif']])).toThrow('"textures.mode" must be one of: webp');
+	expect(() => parsePipelineOptions([['textures.slots', 'albedo:webp']])).toThrow(
+		'Pipeline option "textures.slots" expects <color|normal|attrib>:<webp|avif|png|jpeg|ktx2-etc1s|ktx2-uastc|keep> pairs, got "albedo:webp"',
+	);
+	expect(() => parsePipelineOptions([['textures.slotQuality', 'normal:high']])).toThrow(
+		'expects <name>:<number> pairs, got "normal:high"',
+	);
+});
@@ -0,0 +1,602 @@
+/**
+ * Per-phase pipeline options — which transforms each phase runs and with which
+ * parameters.
+ *
+ * {@link PipelineOptions} is the user-facing shape (`CompressOptions.pipeline`),
+ * where everything is optional. {@link resolvePipeline} fills the gaps from the
+ * preset's phase switches and thresholds, then the library constants, yielding
+ * a {@link ResolvedPipeline} the pipeline reads directly.
+ *
+ * CLI flags (`--set phase.option=value`, `--skip phase,...`) and server query
+ * params (`?phase.option=value&skip=phase,...`) share one string syntax, parsed
+ * by {@link parsePipelineOptions}.
+ *
+ * @module pipeline
+ */
+
+import {
+	ANIMATION_FPS,
+	INSTANCE_MIN,
+	MERGE_COLOR_TOLERANCE,
+	MERGE_NORMAL_ANGLE,
+	MERGE_TOLERANCE,
+	MERGE_UV_TOLERANCE,
+	MESH_WARN_THRESHOLD,
+	RESAMPLE_ROTATION_TOLERANCE,
+	RESAMPLE_SCALE_TOLERANCE,
+	RESAMPLE_TRANSLATION_TOLERANCE,
+	RESAMPLE_WEIGHTS_TOLERANCE,
+	TEXTURE_MAX_SIZE,
+	TOTAL_WARN_THRESHOLD,
+} from './constants';
+import { type PresetConfig, validateGltfpackFlags } from './presets';
+
+/** Phase 1 — analysis and scene cleanup. */
+export interface CleanupOptions {
+	/** Run this phase at all. @default true */
+	enabled?: boolean;
+	/** Per-mesh vertex count reported as bloated by the analysis. @default MESH_WARN_THRESHOLD */
+	meshWarn?: number;
+	/** Total scene vertex count that triggers a warning. @default TOTAL_WARN_THRESHOLD */
+	totalWarn?: number;
+	/** Deduplicate accessors, meshes, materials, and textures. @default true */
+	dedup?: boolean;
+	/** Remove unreferenced properties. @default true */
+	prune?: boolean;
+	/** Strip `TEXCOORD_N` sets no material uses. @default true */
+	removeUnusedUVs?: boolean;
+	/** Flatten the node hierarchy (static models only). @default true */
+	flatten?: boolean;
+	/** Join compatible primitives (skinned models: per skin and material, hierarchy kept). @default true */
+	join?: boolean;
+	/** Weld identical vertices (static models only). @default true */
+	weld?: boolean;
+}
+
+/** Phase 2 — geometry processing. */
+export interface GeometryOptions {
+	/** Run this phase at all. @default true */
+	enabled?: boolean;
+	/** Merge vertices by position (skinned models: only with identical joints and weights). @default true */
+	mergeByDistance?: boolean;
+	/** Merge distance for {@link GeometryOptions.mergeByDistance}. @default MERGE_TOLERANCE */
+	mergeTolerance?: number;
+	/** Keep vertices apart when their normals, UVs, or colors differ beyond the tolerances below (`false`: positions only). @default true */
+	mergeAttributes?: boolean;
+	/** Largest angle between merged normals, in degrees (hard edges stay split). @default MERGE_NORMAL_ANGLE */
+	mergeNormalAngle?: number;
+	/** Largest distance between merged UVs (UV seams stay split). @default MERGE_UV_TOLERANCE */
+	mergeUvTolerance?: number;
+	/** Largest per-channel difference between merged vertex colors. @default MERGE_COLOR_TOLERANCE */
+	mergeColorTolerance?: number;
+	/** Remove zero-area triangles. @default true */
+	removeDegenerateFaces?: boolean;
+	/** Minimum triangle area kept by {@link GeometryOptions.removeDegenerateFaces}. @default 1e-10 */
+	minFaceArea?: number;
+	/** Auto-decimate meshes above {@link GeometryOptions.decimateThreshold} (static models only). @default true */
+	decimate?: boolean;
+	/** Vertex count above which a mesh is decimated. @default MESH_WARN_THRESHOLD */
+	decimateThreshold?: number;
+	/** Target ratio for auto-decimation, in `(0, 1]`. @default 0.5 */
+	decimateRatio?: number;
+	/** Largest decimation error, relative to each primitive's bounding-box diagonal. @default 0.01 */
+	decimateError?: number;
+	/** Keep open-border vertices in place when decimating. @default true */
+	decimateLockBorder?: boolean;
+	/** Keep UV-seam and hard-edge vertices in place when decimating. @default true */
+	decimateProtectSeams?: boolean;
+	/** Only decimate meshes whose name or node name matches one of these patterns (`*`, `?`). @default [] (all) */
+	decimateInclude?: string[];
+	/** Never decimate meshes whose name or node name matches one of these patterns. @default [] */
+	decimateExclude?: string[];
+}
+
+/** Phase 3 — GPU-oriented optimizations. */
+export interface GpuOptions {
+	/** Run this phase at all. @default true */
+	enabled?: boolean;
+	/** Create GPU instances for repeated meshes. @default true */
+	instance?: boolean;
+	/** Minimum identical meshes before instancing. @default INSTANCE_MIN */
+	instanceMin?: number;
+	/** Reorder vertices for cache locality (skinned models: weights renormalized after). @default true */
+	reorder?: boolean;
+	/** Sparse-encode mostly-zero accessors. @default true */
+	sparse?: boolean;
+}
+
+/** Phase 4 — animation and skin weights. */
+export interface AnimationOptions {
+	/** Run this phase at all. @default true */
+	enabled?: boolean;
+	/** Resample keyframes and remove the redundant ones, identically for every backend. @default true */
+	resample?: boolean;
+	/** Keyframes per second to resample denser animations to; `0` keeps the source keyframe times. @default preset `animationFps`, else ANIMATION_FPS */
+	resampleFps?: number;
+	/** Largest translation error of a removed keyframe, in scene units. @default RESAMPLE_TRANSLATION_TOLERANCE */
+	translationTolerance?: number;
+	/** Largest rotation error of a removed keyframe, in degrees. @default RESAMPLE_ROTATION_TOLERANCE */
+	rotationTolerance?: number;
+	/** Largest per-component scale error of a removed keyframe. @default RESAMPLE_SCALE_TOLERANCE */
+	scaleTolerance?: number;
+	/** Largest morph target weight error of a removed keyframe. @default RESAMPLE_WEIGHTS_TOLERANCE */
+	weightsTolerance?: number;
+	/** Remove static tracks that match the rest pose. @default true */
+	removeStaticTracks?: boolean;
+	/** Comparison tolerance for static-track detection. @default 1e-6 */
+	staticTolerance?: number;
+	/** Renormalize skin weights (skinned models only). @default true */
+	normalizeWeights?: boolean;
+}
+
+/**
+ * Output mode for a texture.
+ *
+ * - `webp` / `avif` / `png` / `jpeg` — re-encode via sharp
+ * - `ktx2-etc1s` / `ktx2-uastc` — GPU-compressed KTX2 (`KHR_texture_basisu`), encoded by
+ *   gltfpack when it is the final encoder, otherwise by `toktx` (KTX-Software)
+ * - `keep` — leave the image untouched (no resize, no re-encode)
+ */
+export type TextureMode = 'webp' | 'avif' | 'png' | 'jpeg' | 'ktx2-etc1s' | 'ktx2-uastc' | 'keep';
+
+/** All {@link TextureMode} values. */
+export const TEXTURE_MODES: readonly TextureMode[] = [
+	'webp',
+	'avif',
+	'png',
+	'jpeg',
+	'ktx2-etc1s',
+	'ktx2-uastc',
+	'keep',
+];
+
+/**
+ * Texture class a per-slot rule applies to, matching gltfpack's texture classes:
+ * `color` (base color, emissive, sheen/specular color), `normal` (normal maps),
+ * `attrib` (everything else — occlusion, metallic-roughness, ...).
+ */
+export type TextureSlotClass = 'color' | 'normal' | 'attrib';
+
+/** All {@link TextureSlotClass} values. */
+export const TEXTURE_SLOT_CLASSES: readonly TextureSlotClass[] = ['color', 'normal', 'attrib'];
+
+/** Phase 5 — texture compression (sharp, or KTX2 via gltfpack/toktx). */
+export interface TextureOptions {
+	/** Run this phase at all. @default true */
+	enabled?: boolean;
+	/** Output mode for textures without a matching {@link TextureOptions.slots} rule. @default "webp" */
+	mode?: TextureMode;
+	/** Per-class overrides, e.g. `{ normal: 'ktx2-uastc', color: 'ktx2-etc1s' }`. @default {} */
+	slots?: Partial<Record<TextureSlotClass, TextureMode>>;
+	/** Maximum width/height; larger textures are downscaled to fit. @default TEXTURE_MAX_SIZE */
+	maxSize?: number;
+	/** Encoder quality in `[1, 100]`; omit for the encoder's default. */
+	quality?: number;
+	/**
+	 * Per-slot {@link TextureOptions.maxSize} overrides, keyed by material slot
+	 * without the `Texture` suffix (`baseColor`, `normal`, `occlusion`,
+	 * `metallicRoughness`, `emissive`, extension slots such as `clearcoat` or
+	 * `sheenColor`). A texture used in several slots gets the largest limit.
+	 * @default {}
+	 */
+	slotMaxSize?: Record<string, number>;
+	/** Per-slot {@link TextureOptions.quality} overrides, keyed like {@link TextureOptions.slotMaxSize}. @default {} */
+	slotQuality?: Record<string, number>;
+}
+
+/** Final stage — binary encoding via gltfpack or meshopt. */
+export interface EncoderOptions {
+	/** Run the encoder; when `false` the clean, uncompressed GLB is returned. @default true */
+	enabled?: boolean;
+	/** Extra gltfpack flags appended after the preset's flags (validated). @default [] */
+	flags?: string[];
+	/** Quantize vertex attributes in the meshopt fallback (static models only). @default true */
+	quantize?: boolean;
+}
+
+/** Per-phase options accepted by `CompressOptions.pipeline`. Omitted values fall back to the preset. */
+export interface PipelineOptions {
+	cleanup?: CleanupOptions;
+	geometry?: GeometryOptions;
+	gpu?: GpuOptions;
+	animation?: AnimationOptions;
+	textures?: TextureOptions;
+	encoder?: EncoderOptions;
+}
+
+/** Name of a configurable stage, as used in `--skip` and `phase.option` keys. */
+export type PipelineStage = keyof PipelineOptions;
+
+/** Fully resolved pipeline options, as consumed by the pipeline. */
+export interface ResolvedPipeline {
+	cleanup: Required<CleanupOptions>;
+	geometry: Required<GeometryOptions>;
+	gpu: Required<GpuOptions>;
+	animation: Required<AnimationOptions>;
+	textures: Required<Omit<TextureOptions, 'quality'>> & Pick<TextureOptions, 'quality'>;
+	encoder: Required<EncoderOptions>;
+}
+
+/**
+ * Value kinds accepted by {@link parsePipelineOptions}. A string list is an enum;
+ * `'list'` is a comma-separated list of strings; `{ mapKeys, mapValues }` is a comma-separated `key:value` map (e.g.
+ * `normal:ktx2-uastc`), with `mapKeys: null` accepting any identifier.
+ */
+type OptionKind =
+	| 'boolean'
+	| 'number'
+	| 'flags'
+	| 'list'
+	| readonly string[]
+	| { mapKeys: readonly string[] | null; mapValues: readonly string[] | 'number' };
+
+/** Every configurable option and the kind of value it takes. */
+const PIPELINE_SCHEMA: { [S in PipelineStage]-?: { [K in keyof Required<PipelineOptions>[S]]-?: OptionKind } } = {
+	cleanup: {
+		enabled: 'boolean',
+		meshWarn: 'number',
+		totalWarn: 'number',
+		dedup: 'boolean',
+		prune: 'boolean',
+		removeUnusedUVs: 'boolean',
+		flatten: 'boolean',
+		join: 'boolean',
+		weld: 'boolean',
+	},
+	geometry: {
+		enabled: 'boolean',
+		mergeByDistance: 'boolean',
+		mergeTolerance: 'number',
+		mergeAttributes: 'boolean',
+		mergeNormalAngle: 'number',
+		mergeUvTolerance: 'number',
+		mergeColorTolerance: 'number',
+		removeDegenerateFaces: 'boolean',
+		minFaceArea: 'number',
+		decimate: 'boolean',
+		decimateThreshold: 'number',
+		decimateRatio: 'number',
+		decimateError: 'number',
+		decimateLockBorder: 'boolean',
+		decimateProtectSeams: 'boolean',
+		decimateInclude: 'list',
+		decimateExclude: 'list',
+	},
+	gpu: {
+		enabled: 'boolean',
+		instance: 'boolean',
+		instanceMin: 'number',
+		reorder: 'boolean',
+		sparse: 'boolean',
+	},
+	animation: {
+		enabled: 'boolean',
+		resample: 'boolean',
+		resampleFps: 'number',
+		translationTolerance: 'number',
+		rotationTolerance: 'number',
+		scaleTolerance: 'number',
+		weightsTolerance: 'number',
+		removeStaticTracks: 'boolean',
+		staticTolerance: 'number',
+		normalizeWeights: 'boolean',
+	},
+	textures: {
+		enabled: 'boolean',
+		mode: TEXTURE_MODES,
+		slots: { mapKeys: TEXTURE_SLOT_CLASSES, mapValues: TEXTURE_MODES },
+		maxSize: 'number',
+		quality: 'number',
+		slotMaxSize: { mapKeys: null, mapValues: 'number' },
+		slotQuality: { mapKeys: null, mapValues: 'number' },
+	},
+	encoder: {
+		enabled: 'boolean',
+		flags: 'flags',
+		quantize: 'boolean',
+	},
+};
+
+/** Names of all configurable stages. */
+export const PIPELINE_STAGES: PipelineStage[] = Object.keys(PIPELINE_SCHEMA).filter(isStage);
+
+/**
+ * Resolve pipeline options against a preset and the library defaults.
+ *
+ * Precedence: `options` > preset `phases`/`thresholds` > constants.
+ *
+ * @param preset  - Preset whose phase switches and thresholds provide defaults.
+ * @param options - Caller-supplied per-phase options.
+ * @returns Options with every field set.
+ * @throws {Error} If numeric options are out of range or encoder flags are invalid.
+ */
+export function resolvePipeline(preset: PresetConfig, options: PipelineOptions = {}): ResolvedPipeline {
+	const phases = preset.phases ?? {};
+	const thresholds = preset.thresholds ?? {};
+	const meshWarn: number = thresholds.meshWarn ?? MESH_WARN_THRESHOLD;
+
+	const resolved: ResolvedPipeline = {
+		cleanup: merge<ResolvedPipeline['cleanup']>(
+			{
+				enabled: phases.cleanup ?? true,
+				meshWarn,
+				totalWarn: thresholds.totalWarn ?? TOTAL_WARN_THRESHOLD,
+				dedup: true,
+				prune: true,
+				removeUnusedUVs: true,
+				flatten: true,
+				join: true,
+				weld: true,
+			},
+			options.cleanup,
+		),
+		geometry: merge<ResolvedPipeline['geometry']>(
+			{
+				enabled: phases.geometry ?? true,
+				mergeByDistance: true,
+				mergeTolerance: thresholds.mergeTolerance ?? MERGE_TOLERANCE,
+				mergeAttributes: true,
+				mergeNormalAngle: MERGE_NORMAL_ANGLE,
+				mergeUvTolerance: MERGE_UV_TOLERANCE,
+				mergeColorTolerance: MERGE_COLOR_TOLERANCE,
+				removeDegenerateFaces: true,
+				minFaceArea: 1e-10,
+				decimate: true,
+				decimateThreshold: meshWarn,
+				decimateRatio: thresholds.decimateRatio ?? 0.5,
+				decimateError: 0.01,
+				decimateLockBorder: true,
+				decimateProtectSeams: true,
+				decimateInclude: [],
+				decimateExclude: [],
+			},
+			options.geometry,
+		),
+		gpu: merge<ResolvedPipeline['gpu']>(
+			{
+				enabled: phases.gpu ?? true,
+				instance: true,
+				instanceMin: thresholds.instanceMin ?? INSTANCE_MIN,
+				reorder: true,
+				sparse: true,
+			},
+			options.gpu,
+		),
+		animation: merge<ResolvedPipeline['animation']>(
+			{
+				enabled: phases.animation ?? true,
+				resample: true,
+				resampleFps: thresholds.animationFps ?? ANIMATION_FPS,
+				translationTolerance: RESAMPLE_TRANSLATION_TOLERANCE,
+				rotationTolerance: RESAMPLE_ROTATION_TOLERANCE,
+				scaleTolerance: RESAMPLE_SCALE_TOLERANCE,
+				weightsTolerance: RESAMPLE_WEIGHTS_TOLERANCE,
+				removeStaticTracks: true,
+				staticTolerance: 1e-6,
+				normalizeWeights: true,
+			},
+			options.animation,
+		),
+		textures: merge<ResolvedPipeline['textures']>(
+			{
+				enabled: phases.textures ?? true,
+				mode: 'webp',
+				slots: {},
+				slotMaxSize: {},
+				slotQuality: {},
+				maxSize: thresholds.textureMaxSize ?? TEXTURE_MAX_SIZE,
+			},
+			options.textures,
+		),
+		encoder: merge<ResolvedPipeline['encoder']>(
+			{
+				enabled: true,
+				flags: [],
+				quantize: true,
+			},
+			options.encoder,
+		),
+	};
+
+	const errors: string[] = [];
+	const positive: [string, number][] = [
+		['cleanup.meshWarn', resolved.cleanup.meshWarn],
+		['cleanup.totalWarn', resolved.cleanup.totalWarn],
+		['geometry.mergeTolerance', resolved.geometry.mergeTolerance],
+		['geometry.minFaceArea', resolved.geometry.minFaceArea],
+		['geometry.decimateThreshold', resolved.geometry.decimateThreshold],
+		['geometry.decimateRatio', resolved.geometry.decimateRatio],
+		['geometry.decimateError', resolved.geometry.decimateError],
+		['gpu.instanceMin', resolved.gpu.instanceMin],
+		['animation.staticTolerance', resolved.animation.staticTolerance],
+		['textures.maxSize', resolved.textures.maxSize],
+	];
+	for (const [key, value] of positive) {
+		if (!Number.isFinite(value) || value <= 0) errors.push(`${key} must be a positive number`);
+	}
+	if (resolved.geometry.decimateRatio > 1) errors.push('geometry.decimateRatio must be in (0, 1]');
+	const nonNegative: [string, number][] = [
+		['geometry.mergeUvTolerance', resolved.geometry.mergeUvTolerance],
+		['geometry.mergeColorTolerance', resolved.geometry.mergeColorTolerance],
+		['animation.resampleFps', resolved.animation.resampleFps],
+		['animation.translationTolerance', resolved.animation.translationTolerance],
+		['animation.scaleTolerance', resolved.animation.scaleTolerance],
+		['animation.weightsTolerance', resolved.animation.weightsTolerance],
+	];
+	for (const [key, value] of nonNegative) {
+		if (!Number.isFinite(value) || value < 0) errors.push(`${key} must be a non-negative number`);
+	}
+	const { mergeNormalAngle } = resolved.geometry;
+	if (!(mergeNormalAngle >= 0 && mergeNormalAngle <= 180)) {
+		errors.push('geometry.mergeNormalAngle must be between 0 and 180');
+	}
+	const { rotationTolerance } = resolved.animation;
+	if (!(rotationTolerance >= 0 && rotationTolerance <= 180)) {
+		errors.push('animation.rotationTolerance must be between 0 and 180');
+	}
+	const { mode, slots, quality, slotMaxSize, slotQuality } = resolved.textures;
+	for (const [slot, size] of Object.entries(slotMaxSize)) {
+		if (!Number.isFinite(size) || size <= 0) errors.push(`textures.slotMaxSize.${slot} must be a positive number`);
+	}
+	for (const [slot, value] of Object.entries(slotQuality)) {
+		if (!(value >= 1 && value <= 100)) errors.push(`textures.slotQuality.${slot} must be between 1 and 100`);
+	}
+	if (!TEXTURE_MODES.includes(mode)) errors.push(`textures.mode must be one of: ${TEXTURE_MODES.join(', ')}`);
+	for (const [slotClass, slotMode] of Object.entries(slots)) {
+		if (!isTextureSlotClass(slotClass)) {
+			errors.push(`textures.slots: unknown texture class "${slotClass}" (expected ${TEXTURE_SLOT_CLASSES.join(', ')})`);
+		} else if (!TEXTURE_MODES.includes(slotMode)) {
+			errors.push(`textures.slots.${slotClass} must be one of: ${TEXTURE_MODES.join(', ')}`);
+		}
+	}
+	if (quality !== undefined && !(quality >= 1 && quality <= 100)) {
+		errors.push('textures.quality must be between 1 and 100');
+	}
+	errors.push(...validateGltfpackFlags(resolved.encoder.flags).map((e) => `encoder.flags: ${e}`));
+	if (errors.length > 0) {
+		throw new Error(`Invalid pipeline options: ${errors.join('; ')}`);
+	}
+
+	return resolved;
+}
+
+/**
+ * Parse string key/value pairs into {@link PipelineOptions}.
+ *
+ * Keys are either `phase.option` (e.g. `geometry.mergeTolerance`,
+ * `cleanup.flatten`) or `skip`, whose value is a comma-separated list of
+ * stages to disable. Booleans accept `true/false/1/0/yes/no/on/off`; encoder
+ * flags are whitespace-separated; name lists are comma-separated
+ * (`geometry.decimateExclude=Head*,Eye_?`); texture class and slot maps are
+ * `key:value` pairs separated by commas (`textures.slots=normal:ktx2-uastc`,
+ * `textures.slotMaxSize=baseColor:2048,occlusion:512`).
+ * Used by the CLI (`--set`, `--skip`) and the server (query params and form
+ * fields).
+ *
+ * @param entries - Key/value pairs, e.g. from `URLSearchParams` or `--set k=v`.
+ * @returns Parsed options (only the keys present are set).
+ * @throws {Error} On unknown stages or options, or values of the wrong kind.
+ */
+export function parsePipelineOptions(entries: Iterable<[string, string]>): PipelineOptions {
+	const parsed: Record<string, Record<string, unknown>> = {};
+	const set = (stage: string, option: string, value: unknown) => {
+		parsed[stage] = { ...parsed[stage], [option]: value };
+	};
+
+	for (const [key, raw] of entries) {
+		if (key === 'skip') {
+			for (const stage of raw.split(',').map((s) => s.trim())) {
+				if (!stage) continue;
+				if (!isStage(stage)) {
+					throw new Error(`Unknown pipeline stage "${stage}" (expected one of: ${PIPELINE_STAGES.join(', ')})`);
+				}
+				set(stage, 'enabled', false);
+			}
+			continue;
+		}
+
+		const [stage = '', option = '', ...rest] = key.split('.');
+		if (!isStage(stage) || rest.length > 0) {
+			throw new Error(`Unknown pipeline option "${key}" (expected <stage>.<option>)`);
+		}
+		const schema: Record<string, OptionKind> = PIPELINE_SCHEMA[stage];
+		const kind: OptionKind | undefined = Object.hasOwn(schema, option) ? schema[option] : undefined;
+		if (!kind) {
+			throw new Error(`Unknown pipeline option "${key}" (${stage} accepts: ${Object.keys(schema).join(', ')})`);
+		}
+		set(stage, option, parseValue(key, raw, kind));
+	}
+
+	// Every value was checked against PIPELINE_SCHEMA above; this narrows the stages and options
+	if (!isPipelineOptions(parsed)) throw new Error('Invalid pipeline options');
+	return parsed;
+}
+
+/**
+ * Shallow-merge `overrides` onto `defaults`, ignoring keys explicitly set to
+ * `undefined`. An own `__proto__` key (as `JSON.parse` creates) is skipped
+ * rather than assigned, which would replace the result's prototype.
+ */
+function merge<T extends object>(defaults: T, overrides: Partial<T> = {}): T {
+	const result: T = { ...defaults };
+	for (const key of Object.keys(overrides)) {
+		if (key === '__proto__' || !isOwnKey(overrides, key)) continue;
+		const value = overrides[key];
+		if (value !== undefined) result[key] = value;
+	}
+	return result;
+}
+
+/** Type guard for the own keys of `object`. */
+function isOwnKey<T extends object>(object: T, key: PropertyKey): key is keyof T {
+	return Object.hasOwn(object, key);
+}
+
+/** Type guard for {@link PipelineStage} names. */
+function isStage(name: string): name is PipelineStage {
+	return Object.hasOwn(PIPELINE_SCHEMA, name);
+}
+
+/** Type guard for {@link TextureSlotClass} names. */
+function isTextureSlotClass(name: string): name is TextureSlotClass {
+	return TEXTURE_SLOT_CLASSES.some((slotClass) => slotClass === name);
+}
+
+/** Whether every stage and option in `value` is one of {@link PIPELINE_SCHEMA}. */
+function isPipelineOptions(value: object): value is PipelineOptions {
+	return Object.entries(value).every(
+		([stage, options]) =>
+			isStage(stage) &&
+			typeof options === 'object' &&
+			options !== null &&
+			Object.keys(options).every((option) => Object.hasOwn(PIPELINE_SCHEMA[stage], option)),
+	);
+}
+
+/** Convert one raw string value according to its schema kind. */
+function parseValue(key: string, raw: string, kind: OptionKind): unknown {
+	const value: string = raw.trim();
+	if (kind === 'boolean') {
+		if (/^(true|1|yes|on)$/i.test(value)) return true;
+		if (/^(false|0|no|off)$/i.test(value)) return false;
+		throw new Error(`Pipeline option "${key}" expects a boolean, got "${raw}"`);
+	}
+	if (kind === 'number') {
+		const num: number = Number(value);
+		if (value === '' || !Number.isFinite(num)) {
+			throw new Error(`Pipeline option "${key}" expects a number, got "${raw}"`);
+		}
+		return num;
+	}
+	if (kind === 'flags') {
+		return value.split(/\s+/).filter(Boolean);
+	}
+	if (kind === 'list') {
+		return value
+			.split(',')
+			.map((item) => item.trim())
+			.filter(Boolean);
+	}
+	if ('mapKeys' in kind) {
+		const { mapKeys, mapValues } = kind;
+		const keyHint: string = mapKeys ? mapKeys.join('|') : 'name';
+		const valueHint: string = mapValues === 'number' ? 'number' : mapValues.join('|');
+		const map: Record<string, string | number> = {};
+		for (const pair of value.split(',').map((p) => p.trim())) {
+			if (!pair) continue;
+			const [k = '', v = '', ...extra] = pair.split(':').map((p) => p.trim());
+			const validKey: boolean = mapKeys ? mapKeys.includes(k) : /^[A-Za-z]\w*$/.test(k);
+			const validValue: boolean =
+				mapValues === 'number' ? v !== '' && Number.isFinite(Number(v)) : mapValues.includes(v);
+			if (!validKey || !validValue || extra.length > 0) {
+				throw new Error(`Pipeline option "${key}" expects <${keyHint}>:<${valueHint}> pairs, got "${pair}"`);
+			}
+			map[k] = mapValues === 'number' ? Number(v) : v;
+		}
+		return map;
+	}
+	if (!kind.includes(value)) {
+		throw new Error(`Pipeline option "${key}" must be one of: ${kind.join(', ')}`);
+	}
+	return value;
+}
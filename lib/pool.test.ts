@@ -0,0 +1,117 @@
+import { afterAll, expect, test } from 'bun:test';
+import { join } from 'node:path';
+import { NodeIO } from '@gltf-transform/core';
+import { gridDocument, translationDocument, writeGlb } from '../test/fixtures';
+import { CompressorPoolError, createCompressorPool } from './pool';
+import { definePreset } from './presets';
+import { CompressionCancelledError, detectInputFormat, withTempDir } from './utils';
+
+const pool = createCompressorPool({ size: 1 });
+
+afterAll(() => pool.close());
+
+test('the pool size must be a positive integer', () => {
+	expect(() => createCompressorPool({ size: 0 })).toThrow('Invalid pool size: 0');
+	expect(() => createCompressorPool({ size: 1.5 })).toThrow('Invalid pool size: 1.5');
+});
+
+test('compress runs on a worker and forwards its log lines', async () => {
+	const input: Uint8Array = await writeGlb(gridDocument(10));
+	const logs: string[] = [];
+	const result = await pool.compress(input, { backend: 'meshopt', quiet: true, onLog: (msg) => logs.push(msg) });
+	expect(detectInputFormat(result.buffer)).toBe('glb');
+	expect(result.method).toBe('meshopt');
+	expect(logs.length).toBeGreaterThan(0);
+	// The input's whole buffer was transferred to the worker
+	expect(input.byteLength).toBe(0);
+});
+
+test('an input over part of a larger buffer is copied, not transferred', async () => {
+	const glb: Uint8Array = await writeGlb(gridDocument(10));
+	const padded = new Uint8Array(glb.byteLength + 8);
+	padded.set(glb, 8);
+	const input: Uint8Array = padded.subarray(8);
+	await pool.compress(input, { backend: 'meshopt', quiet: true });
+	expect(input).toEqual(glb);
+});
+
+test('a custom preset is registered on the worker', async () => {
+	definePreset('test-pool-preset', { thresholds: { mergeTolerance: 0.01 } });
+	const input: Uint8Array = await writeGlb(gridDocument(10));
+	const { report } = await pool.compress(input, { backend: 'meshopt', preset: 'test-pool-preset', quiet: true });
+	expect(report.preset).toBe('test-pool-preset');
+});
+
+test('compressGltf, compressFile and inspect run on the pool', async () => {
+	const doc = translationDocument([], { triangle: true }).doc;
+	const { json, resources } = await new NodeIO().writeJSON(doc);
+	const gltf = await pool.compressGltf(json, resources, { backend: 'meshopt', quiet: true });
+	expect(detectInputFormat(gltf.buffer)).toBe('glb');
+
+	await withTempDir(async (dir) => {
+		const path: string = join(dir, 'scene.gltf');
+		await new NodeIO().write(path, doc);
+		const file = await pool.compressFile(path, { backend: 'meshopt', quiet: true });
+		expect(detectInputFormat(file.buffer)).toBe('glb');
+	});
+
+	const report = await pool.inspect(await writeGlb(gridDocument(10)));
+	expect(report).toMatchObject({ format: 'glb', skinned: false });
+	expect(report.meshes).toHaveLength(1);
+});
+
+test('jobs beyond the pool size wait for a free worker', async () => {
+	const inputs: Uint8Array[] = await Promise.all([4, 6, 8].map((size) => writeGlb(gridDocument(size))));
+	const results = await Promise.all(inputs.map((input) => pool.compress(input, { backend: 'meshopt', quiet: true })));
+	expect(results.map((result) => detectInputFormat(result.buffer))).toEqual(['glb', 'glb', 'glb']);
+});
+
+test('a failing job rejects with its error and the worker stays usable', async () => {
+	await expect(pool.compress(new TextEncoder().encode('not a model'), { quiet: true })).rejects.toThrow();
+	const result = await pool.compress(await writeGlb(gridDocument(4)), { backend: 'meshopt', quiet: true });
+	expect(detectInputFormat(result.buffer)).toBe('glb');
+});
+
+test('an aborted signal rejects a job before it is queued', async () => {
+	const abort = new AbortController();
+	abort.abort();
+	const input: Uint8Array = await writeGlb(gridDocument(4));
+	await expect(pool.compress(input, { signal: abort.signal, quiet: true })).rejects.toThrow(CompressionCancelledError);
+	await expect(pool.inspect(input, {}, abort.signal)).rejects.toThrow(CompressionCancelledError);
+	// Nothing was transferred for the refused jobs
+	expect(input.byteLength).toBeGreaterThan(0);
+});
+
+test('aborting a queued or running job rejects it and frees the worker', async () => {
+	const runningAbort = new AbortController();
+	const queuedAbort = new AbortController();
+	const [first, second] = await Promise.all([writeGlb(gridDocument(60)), writeGlb(gridDocument(4))]);
+	if (!first || !second) throw new Error('No input');
+	const running = pool.compress(first, {
+		backend: 'meshopt',
+		signal: runningAbort.signal,
+		quiet: true,
+		onLog: () => runningAbort.abort(),
+	});
+	const queued = pool.compress(second, { backend: 'meshopt', signal: queuedAbort.signal, quiet: true });
+	queuedAbort.abort();
+	await expect(queued).rejects.toThrow(CompressionCancelledError);
+	await expect(running).rejects.toThrow(CompressionCancelledError);
+
+	const result = await pool.compress(await writeGlb(gridDocument(4)), { backend: 'meshopt', quiet: true });
+	expect(detectInputFormat(result.buffer)).toBe('glb');
+});
+
+test('close rejects queued jobs and later calls', async () => {
+	const closing = createCompressorPool({ size: 1 });
+	const input: Uint8Array = await writeGlb(gridDocument(4));
+	const jobs: Promise<unknown>[] = [input.slice(), input.slice()].map((bytes) =>
+		closing.compress(bytes, { backend: 'meshopt', quiet: true }).catch((err: unknown) => err),
+	);
+	await closing.close();
+	for (const outcome of await Promise.all(jobs)) {
+		expect(outcome).toBeInstanceOf(CompressorPoolError);
+		expect(outcome).toHaveProperty('message', 'Compressor pool closed');
+	}
+	await expect(closing.compress(input, { quiet: true })).rejects.toThrow('Compressor pool closed');
+});
@@ -0,0 +1,423 @@
+/**
+ * Worker-thread pool for {@link compress}, {@link compressGltf}, {@link compressFile},
+ * and {@link inspect}.
+ *
+ * glTF-Transform, the custom transforms, and sharp run synchronously for long
+ * stretches; on a pool they run on worker threads so the caller's event loop
+ * (HTTP heartbeats, SSE streams, progress output) stays responsive. Input and
+ * output buffers are transferred rather than copied, and a worker that crashes
+ * (e.g. a WASM abort) only fails its own job and is replaced. Aborting a job's
+ * `signal` removes it from the queue or stops it on its worker.
+ *
+ * The pool spawns its workers from this module's own file, so no separate
+ * worker entry point needs to be shipped or bundled.
+ *
+ * @example
+ * ```ts
+ * const pool = createCompressorPool({ size: 4 });
+ * const results = await Promise.all(files.map((bytes) => pool.compress(bytes, { preset: 'aggressive' })));
+ * await pool.close();
+ * ```
+ *
+ * @module pool
+ */
+
+import { existsSync } from 'node:fs';
+import { availableParallelism } from 'node:os';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { format } from 'node:util';
+import { isMainThread, type MessagePort, parentPort, Worker, workerData } from 'node:worker_threads';
+import type { GLTF } from '@gltf-transform/core';
+import {
+	type CompressOptions,
+	type CompressResult,
+	compress,
+	compressFile,
+	compressGltf,
+	type GltfResources,
+	readModelFile,
+	withCache,
+} from './compress';
+import { type InspectReport, inspect } from './inspect';
+import { definePreset, getPreset, PRESETS, type PresetConfig } from './presets';
+import { CompressionCancelledError, detectInputFormat } from './utils';
+
+/**
+ * Rejects a pool job that failed for a reason other than its input: the pool
+ * was closed, its worker crashed, or the worker could not be handed the job.
+ */
+export class CompressorPoolError extends Error {
+	override readonly name = 'CompressorPoolError';
+}
+
+/** Options for {@link createCompressorPool}. */
+export interface CompressorPoolOptions {
+	/** Number of worker threads. @default os.availableParallelism() */
+	size?: number;
+}
+
+/**
+ * The compression entry points, running on a pool of worker threads.
+ *
+ * Jobs beyond {@link CompressorPool.size} wait for a free worker. Options are
+ * the same as for the in-process functions; `onLog` is called on the caller's
+ * thread, and aborting `signal` rejects the job with a `CompressionCancelledError`
+ * right away. Input buffers that own their whole `ArrayBuffer` are transferred
+ * to the worker and are detached (empty) afterwards. `cache` is consulted on the
+ * caller's thread, so a hit never waits for a worker.
+ */
+export interface CompressorPool {
+	/** Maximum number of worker threads. */
+	readonly size: number;
+	/** {@link compress} on a worker thread. */
+	compress(input: Uint8Array, options?: CompressOptions): Promise<CompressResult>;
+	/** {@link compressGltf} on a worker thread. */
+	compressGltf(
+		json: string | GLTF.IGLTF,
+		resources?: GltfResources,
+		options?: CompressOptions,
+	): Promise<CompressResult>;
+	/** {@link compressFile} on a worker thread (the file is read by the worker, or by the caller with `cache`). */
+	compressFile(path: string, options?: CompressOptions): Promise<CompressResult>;
+	/** {@link inspect} on a worker thread; aborting `signal` rejects with a `CompressionCancelledError`. */
+	inspect(input: Uint8Array, resources?: GltfResources, signal?: AbortSignal): Promise<InspectReport>;
+	/** Terminate the workers. Queued and running jobs are rejected. */
+	close(): Promise<void>;
+}
+
+/** What a worker is asked to compress. */
+type WorkerTask =
+	| { kind: 'compress'; input: Uint8Array }
+	| { kind: 'gltf'; json: string | GLTF.IGLTF; resources: GltfResources }
+	| { kind: 'file'; path: string }
+	| { kind: 'inspect'; input: Uint8Array; resources: GltfResources };
+
+/** What a worker sends back for a task. */
+type WorkerResult = CompressResult | InspectReport;
+
+/** Job message sent to a worker. */
+interface WorkerRequest {
+	type: 'run';
+	id: number;
+	task: WorkerTask;
+	/** Compression options without `onLog`, `signal`, and `cache` (none can cross threads). */
+	options: Omit<CompressOptions, 'onLog' | 'signal' | 'cache'>;
+	/** Custom presets the job refers to, registered in the worker before it runs. */
+	presets: Record<string, PresetConfig>;
+}
+
+/** Message sent to a worker. */
+type PoolMessage = WorkerRequest | { type: 'cancel'; id: number };
+
+/** Console methods forwarded from workers to the caller's console. */
+type ConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+/** Message sent by a worker. */
+type WorkerMessage =
+	| { type: 'log'; id: number; message: string }
+	| { type: 'console'; level: ConsoleLevel; text: string }
+	| { type: 'result'; id: number; result: WorkerResult }
+	| { type: 'error'; id: number; name: string; message: string };
+
+/** A job waiting for, or running on, a worker. */
+interface PoolJob {
+	request: WorkerRequest;
+	transfer: ArrayBuffer[];
+	onLog: (msg: string) => void;
+	signal?: AbortSignal;
+	resolve: (result: WorkerResult) => void;
+	reject: (err: Error) => void;
+}
+
+/** Whether a worker result comes from a compression (as opposed to an inspection). */
+function isCompressResult(result: WorkerResult): result is CompressResult {
+	return 'buffer' in result;
+}
+
+/** `workerData` key marking a thread spawned by the pool. */
+const WORKER_FLAG = 'glbCompressorPoolWorker';
+
+const CONSOLE_LEVELS: readonly ConsoleLevel[] = ['log', 'info', 'warn', 'error', 'debug'];
+
+/**
+ * How long a cancelled job's worker may take to stop before it is terminated
+ * (cancellation is only seen between steps, not inside a long synchronous one).
+ */
+const CANCEL_GRACE_MS = 5_000;
+
+/**
+ * Script the workers run: this module. Self-contained CJS bundles (Bun bytecode
+ * builds) inline the source path as `import.meta.url`; there the running bundle
+ * itself contains this module.
+ */
+function workerUrl(): URL {
+	const url = new URL(import.meta.url);
+	if (url.protocol === 'file:' && !existsSync(fileURLToPath(url)) && process.argv[1]) {
+		return pathToFileURL(process.argv[1]);
+	}
+	return url;
+}
+
+/**
+ * `ArrayBuffer`s backing `buffers`, for a `postMessage` transfer list. Views
+ * over part of a larger buffer (e.g. ZIP entries) are left to be copied, so
+ * the rest of that buffer stays usable.
+ */
+function transferList(buffers: Uint8Array[]): ArrayBuffer[] {
+	const list = new Set<ArrayBuffer>();
+	for (const { buffer, byteLength } of buffers) {
+		if (buffer instanceof ArrayBuffer && buffer.byteLength === byteLength) list.add(buffer);
+	}
+	return [...list];
+}
+
+/**
+ * Create a pool of compression worker threads.
+ *
+ * Workers are started on demand, up to `size`, and keep running (and the
+ * process alive) until {@link CompressorPool.close} is called.
+ *
+ * @throws {Error} If `size` is not a positive integer.
+ */
+export function createCompressorPool(options: CompressorPoolOptions = {}): CompressorPool {
+	const size: number = options.size ?? availableParallelism();
+	if (!Number.isInteger(size) || size < 1) {
+		throw new Error(`Invalid pool size: ${size} (must be a positive integer)`);
+	}
+
+	const workers = new Set<Worker>();
+	const idle: Worker[] = [];
+	const busy = new Map<Worker, PoolJob>();
+	const queue: PoolJob[] = [];
+	let nextId: number = 0;
+	let closed: boolean = false;
+
+	const dispatch = (): void => {
+		for (let job: PoolJob | undefined = queue[0]; job; job = queue[0]) {
+			let worker: Worker | undefined = idle.pop();
+			if (!worker) {
+				if (workers.size >= size) return;
+				worker = spawn();
+			}
+			queue.shift();
+			try {
+				worker.postMessage(job.request, job.transfer);
+			} catch (err) {
+				// e.g. options that cannot be cloned
+				idle.push(worker);
+				job.reject(new CompressorPoolError(err instanceof Error ? err.message : String(err)));
+				continue;
+			}
+			busy.set(worker, job);
+		}
+	};
+
+	const release = (worker: Worker): void => {
+		busy.delete(worker);
+		idle.push(worker);
+		dispatch();
+	};
+
+	// A worker died: fail its job and let dispatch() start a replacement
+	const crashed = (worker: Worker, reason: string): void => {
+		if (!workers.delete(worker)) return;
+		const index: number = idle.indexOf(worker);
+		if (index >= 0) idle.splice(index, 1);
+		const job: PoolJob | undefined = busy.get(worker);
+		busy.delete(worker);
+		job?.reject(new CompressorPoolError(closed ? 'Compressor pool closed' : `Compression worker crashed: ${reason}`));
+		if (!closed) dispatch();
+	};
+
+	// The job's signal was aborted: it is rejected now; a queued job leaves the
+	// queue, a running one is asked to stop and its worker replaced if it does not
+	const cancel = (job: PoolJob): void => {
+		job.reject(new CompressionCancelledError());
+		const index: number = queue.indexOf(job);
+		if (index >= 0) {
+			queue.splice(index, 1);
+			return;
+		}
+		for (const [worker, running] of busy) {
+			if (running !== job) continue;
+			worker.postMessage({ type: 'cancel', id: job.request.id } satisfies PoolMessage);
+			setTimeout(() => {
+				if (busy.get(worker) === job) worker.terminate();
+			}, CANCEL_GRACE_MS).unref();
+		}
+	};
+
+	const onMessage = (worker: Worker, message: WorkerMessage): void => {
+		if (message.type === 'console') {
+			console[message.level](message.text);
+			return;
+		}
+		const job: PoolJob | undefined = busy.get(worker);
+		if (!job || job.request.id !== message.id) return;
+		if (message.type === 'log') {
+			if (!job.signal?.aborted) job.onLog(message.message);
+		} else if (message.type === 'result') {
+			release(worker);
+			job.resolve(message.result);
+		} else {
+			release(worker);
+			job.reject(
+				message.name === 'CompressionCancelledError'
+					? new CompressionCancelledError(message.message)
+					: new Error(message.message),
+			);
+		}
+	};
+
+	const spawn = (): Worker => {
+		const worker = new Worker(workerUrl(), { workerData: { [WORKER_FLAG]: true } });
+		workers.add(worker);
+		worker.on('message', (message: WorkerMessage) => onMessage(worker, message));
+		worker.on('error', (err: Error) => crashed(worker, err.message));
+		worker.on('exit', (code: number) => crashed(worker, `exited with code ${code}`));
+		return worker;
+	};
+
+	const run = <T extends WorkerResult>(
+		task: WorkerTask,
+		options: CompressOptions,
+		buffers: Uint8Array[],
+		isResult: (result: WorkerResult) => result is T,
+	): Promise<T> => {
+		if (closed) return Promise.reject(new CompressorPoolError('Compressor pool closed'));
+		const { onLog, signal, cache: _cache, ...rest } = options;
+		if (signal?.aborted) return Promise.reject(new CompressionCancelledError());
+		const presets: Record<string, PresetConfig> = {};
+		const preset: PresetConfig | undefined = rest.preset ? getPreset(rest.preset) : undefined;
+		if (rest.preset && preset && !Object.hasOwn(PRESETS, rest.preset)) presets[rest.preset] = preset;
+
+		return new Promise((resolve, reject) => {
+			const onAbort = (): void => cancel(job);
+			const job: PoolJob = {
+				request: { type: 'run', id: nextId++, task, options: rest, presets },
+				transfer: transferList(buffers),
+				onLog: (msg) => {
+					if (!options.quiet) console.log(msg);
+					onLog?.(msg);
+				},
+				signal,
+				resolve: (result) => {
+					signal?.removeEventListener('abort', onAbort);
+					if (isResult(result)) resolve(result);
+					else {
+						reject(new CompressorPoolError(`Compression worker returned an unexpected result for a ${task.kind} job`));
+					}
+				},
+				reject: (err) => {
+					signal?.removeEventListener('abort', onAbort);
+					reject(err);
+				},
+			};
+			signal?.addEventListener('abort', onAbort, { once: true });
+			queue.push(job);
+			dispatch();
+		});
+	};
+
+	const pool: CompressorPool = {
+		size,
+
+		compress(input, options = {}) {
+			return withCache(input, {}, options, () => run({ kind: 'compress', input }, options, [input], isCompressResult));
+		},
+
+		compressGltf(json, resources = {}, options = {}) {
+			const jsonBytes: Uint8Array = new TextEncoder().encode(typeof json === 'string' ? json : JSON.stringify(json));
+			return withCache(jsonBytes, resources, options, () =>
+				run({ kind: 'gltf', json, resources }, options, Object.values(resources), isCompressResult),
+			);
+		},
+
+		async compressFile(path, options = {}) {
+			if (!options.cache) return run({ kind: 'file', path }, options, [], isCompressResult);
+			// The key needs the file's bytes: read it here and hand them to the worker on a miss
+			const { input, resources } = await readModelFile(path);
+			return detectInputFormat(input) === 'gltf'
+				? pool.compressGltf(new TextDecoder().decode(input), resources, options)
+				: pool.compress(input, options);
+		},
+
+		inspect(input, resources = {}, signal) {
+			return run(
+				{ kind: 'inspect', input, resources },
+				{ signal },
+				[input, ...Object.values(resources)],
+				(result): result is InspectReport => !isCompressResult(result),
+			);
+		},
+
+		async close() {
+			closed = true;
+			for (const job of queue.splice(0)) job.reject(new CompressorPoolError('Compressor pool closed'));
+			// Bun does not count pending terminations as event loop work; hold the loop open until they finish
+			const keepAlive = setInterval(() => {}, 1000);
+			try {
+				await Promise.all([...workers].map((worker) => worker.terminate()));
+			} finally {
+				clearInterval(keepAlive);
+			}
+		},
+	};
+	return pool;
+}
+
+/**
+ * Worker thread side: run jobs from the pool one at a time.
+ *
+ * Console output is forwarded to the pool's thread, so it follows any
+ * redirection there (e.g. the CLI's `--json` mode). A `cancel` message aborts
+ * the running job's signal; the error name tells the pool it was cancelled.
+ */
+function runWorker(port: MessagePort): void {
+	for (const level of CONSOLE_LEVELS) {
+		console[level] = (...args: unknown[]) => port.postMessage({ type: 'console', level, text: format(...args) });
+	}
+
+	let running: { id: number; abort: AbortController } | undefined;
+	port.on('message', async (request: PoolMessage) => {
+		if (request.type === 'cancel') {
+			if (running?.id === request.id) running.abort.abort();
+			return;
+		}
+		const { id, task } = request;
+		const abort = new AbortController();
+		running = { id, abort };
+		try {
+			for (const [name, config] of Object.entries(request.presets)) definePreset(name, config);
+			const options: CompressOptions = {
+				...request.options,
+				quiet: true,
+				signal: abort.signal,
+				onLog: (message) => port.postMessage({ type: 'log', id, message }),
+			};
+			if (task.kind === 'inspect') {
+				port.postMessage({ type: 'result', id, result: await inspect(task.input, task.resources) });
+				return;
+			}
+			const result: CompressResult =
+				task.kind === 'compress'
+					? await compress(task.input, options)
+					: task.kind === 'gltf'
+						? await compressGltf(task.json, task.resources, options)
+						: await compressFile(task.path, options);
+			const buffers: Uint8Array[] = [
+				result.buffer,
+				...(result.lods?.map((lod) => lod.buffer) ?? []),
+				...(result.clips?.map((clip) => clip.buffer) ?? []),
+			];
+			port.postMessage({ type: 'result', id, result }, transferList(buffers));
+		} catch (err) {
+			const { name, message } = err instanceof Error ? err : { name: 'Error', message: String(err) };
+			port.postMessage({ type: 'error', id, name, message });
+		} finally {
+			running = undefined;
+		}
+	});
+}
+
+if (!isMainThread && parentPort && workerData?.[WORKER_FLAG]) runWorker(parentPort);
@@ -0,0 +1,113 @@
+import { expect, test } from 'bun:test';
+import { mkdir } from 'node:fs/promises';
+import { join } from 'node:path';
+import { gridDocument, writeGlb } from '../test/fixtures';
+import { compress } from './compress';
+import { definePreset, findConfigFile, getPreset, listPresets, loadConfig, validateGltfpackFlags } from './presets';
+import { withTempDir } from './utils';
+
+test('definePreset registers a preset with empty flag lists by default', () => {
+	const config = definePreset('test-define', { static: ['-cc'], thresholds: { mergeTolerance: 0.01 } });
+	expect(config).toMatchObject({ skinned: [], static: ['-cc'], thresholds: { mergeTolerance: 0.01 } });
+	expect(getPreset('test-define')).toBe(config);
+	expect(listPresets().slice(0, 4)).toEqual(['default', 'balanced', 'aggressive', 'max']);
+	expect(listPresets()).toContain('test-define');
+});
+
+test('redefining a custom preset replaces it', () => {
+	definePreset('test-redefine', { static: ['-cc'] });
+	definePreset('test-redefine', { static: ['-kn'] });
+	expect(getPreset('test-redefine')?.static).toEqual(['-kn']);
+});
+
+test('built-in presets, auto, and odd names cannot be defined', () => {
+	expect(() => definePreset('default', {})).toThrow('Cannot redefine built-in preset "default"');
+	expect(() => definePreset('auto', {})).toThrow('Cannot redefine built-in preset "auto"');
+	expect(() => definePreset('my preset', {})).toThrow('Invalid preset name "my preset"');
+});
+
+test('definePreset collects every problem of a definition', () => {
+	expect(() =>
+		definePreset('test-invalid', {
+			skinned: ['-xx'],
+			static: ['-vp'],
+			thresholds: { decimateRatio: 2, instanceMin: 1.5, meshWarn: -1 },
+			draco: { static: { position: 31 } },
+		}),
+	).toThrow(
+		'Invalid preset "test-invalid": skinned: unknown gltfpack flag "-xx"; ' +
+			'static: gltfpack flag "-vp" requires a value; threshold "meshWarn" must be a positive number; ' +
+			'threshold "decimateRatio" must be in (0, 1]; threshold "instanceMin" must be an integer; ' +
+			'draco.static.position must be an integer between 1 and 30',
+	);
+	expect(getPreset('test-invalid')).toBeUndefined();
+});
+
+test('validateGltfpackFlags checks values and texture class lists', () => {
+	expect(validateGltfpackFlags(['-cc', '-vp', '14', '-tq', 'color,normal', '8', '-tu', '-af', '24'])).toEqual([]);
+	expect(validateGltfpackFlags(['-vp', 'high', '-si'])).toEqual([
+		'gltfpack flag "-vp" expects a number, got "high"',
+		'gltfpack flag "-si" requires a value',
+	]);
+	expect(validateGltfpackFlags(['constructor', 'toString'])).toEqual([
+		'unknown gltfpack flag "constructor"',
+		'unknown gltfpack flag "toString"',
+	]);
+});
+
+test('a custom preset compresses under its own name', async () => {
+	definePreset('test-compress', { phases: { gpu: false } });
+	const { report } = await compress(await writeGlb(gridDocument(8)), {
+		preset: 'test-compress',
+		backend: 'meshopt',
+		quiet: true,
+	});
+	expect(report.preset).toBe('test-compress');
+	expect(report.phases.map((phase) => phase.phase)).not.toContain('gpu');
+});
+
+test('loadConfig registers the presets of a JSON config', async () => {
+	await withTempDir(async (dir) => {
+		const path: string = join(dir, 'glb-compressor.config.json');
+		await Bun.write(path, JSON.stringify({ presets: { 'test-json': { static: ['-cc'] } } }));
+		expect(await loadConfig(path)).toBe(path);
+		expect(getPreset('test-json')?.static).toEqual(['-cc']);
+	});
+});
+
+test('loadConfig imports a TypeScript config', async () => {
+	await withTempDir(async (dir) => {
+		const path: string = join(dir, 'glb-compressor.config.ts');
+		await Bun.write(path, "export default { presets: { 'test-ts': { skinned: ['-kn'] } } };\n");
+		expect(await loadConfig(path)).toBe(path);
+		expect(getPreset('test-ts')?.skinned).toEqual(['-kn']);
+	});
+});
+
+test('loadConfig reports missing, malformed, and invalid configs', async () => {
+	await withTempDir(async (dir) => {
+		const missing: string = join(dir, 'missing.json');
+		await expect(loadConfig(missing)).rejects.toThrow(`Config file not found: ${missing}`);
+
+		const malformed: string = join(dir, 'malformed.json');
+		await Bun.write(malformed, '{ presets');
+		await expect(loadConfig(malformed)).rejects.toThrow(`Failed to load config ${malformed}`);
+
+		const invalid: string = join(dir, 'invalid.json');
+		await Bun.write(invalid, JSON.stringify({ presets: { max: {} } }));
+		await expect(loadConfig(invalid)).rejects.toThrow('Cannot redefine built-in preset "max"');
+	});
+});
+
+test('findConfigFile walks up from the start directory, TypeScript first', async () => {
+	await withTempDir(async (dir) => {
+		const nested: string = join(dir, 'a', 'b');
+		await mkdir(nested, { recursive: true });
+		await Bun.write(join(dir, 'glb-compressor.config.json'), '{}');
+		expect(await findConfigFile(nested)).toBe(join(dir, 'glb-compressor.config.json'));
+
+		await Bun.write(join(dir, 'a', 'glb-compressor.config.json'), '{}');
+		await Bun.write(join(dir, 'a', 'glb-compressor.config.ts'), 'export default {};\n');
+		expect(await findConfigFile(nested)).toBe(join(dir, 'a', 'glb-compressor.config.ts'));
+	});
+});
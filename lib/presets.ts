@@ -0,0 +1,447 @@
+/**
+ * Compression presets — built-in gltfpack flag sets plus a registry for
+ * user-defined presets.
+ *
+ * Custom presets are registered with {@link definePreset}, either directly or
+ * by loading a `glb-compressor.config.(json|ts)` file via {@link loadConfig}.
+ * Each preset carries gltfpack flags for skinned and static models, and may
+ * switch pipeline phases off or override their thresholds.
+ *
+ * @example
+ * ```ts
+ * import { compress, definePreset } from 'glb-compressor';
+ *
+ * definePreset('mobile', {
+ * 	skinned: ['-vp', '16', '-at', '12'],
+ * 	static: ['-vp', '12', '-si', '0.7'],
+ * 	thresholds: { textureMaxSize: 512 },
+ * });
+ * const result = await compress(glbBytes, { preset: 'mobile' });
+ * ```
+ *
+ * @module presets
+ */
+
+import { dirname, join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+import type { PipelinePhase } from './report';
+
+/**
+ * Built-in compression presets.
+ *
+ * - `default`  — conservative, preserves all detail
+ * - `balanced` — moderate animation quantization, 24Hz resample
+ * - `aggressive` — strong animation quantization, 15Hz resample (best tested for skinned avatars)
+ * - `max` — aggressive + supercompression + lower vertex precision
+ */
+export type BuiltinPreset = 'default' | 'balanced' | 'aggressive' | 'max';
+
+/**
+ * Name of a compression preset: one of the {@link BuiltinPreset}s or a custom
+ * preset registered with {@link definePreset}.
+ */
+export type CompressPreset = BuiltinPreset | typeof AUTO_PRESET | (string & {});
+
+/**
+ * Pseudo-preset that encodes with each of {@link AUTO_PRESET_CANDIDATES} and
+ * keeps the smallest output within `CompressOptions.tolerance`.
+ */
+export const AUTO_PRESET = 'auto';
+
+/** Presets tried by {@link AUTO_PRESET}, least to most aggressive. */
+export const AUTO_PRESET_CANDIDATES: readonly BuiltinPreset[] = ['default', 'balanced', 'aggressive', 'max'];
+
+/** Pipeline phases a preset can switch off (`clips`, `simplify`, and `lod` are controlled by `animations`, `simplifyRatio`, and `lods`). */
+export type PresetPhases = Partial<Record<Exclude<PipelinePhase, 'clips' | 'simplify' | 'lod'>, boolean>>;
+
+/** Pipeline thresholds a preset can override. Omitted values use the library constants. */
+export interface PresetThresholds {
+	/** Per-mesh vertex count that triggers warnings and auto-decimation (`MESH_WARN_THRESHOLD`). */
+	meshWarn?: number;
+	/** Total scene vertex count that triggers a warning (`TOTAL_WARN_THRESHOLD`). */
+	totalWarn?: number;
+	/** Target ratio for auto-decimating bloated meshes, in `(0, 1]` (default `0.5`). */
+	decimateRatio?: number;
+	/** Merge-by-distance tolerance (`MERGE_TOLERANCE`). */
+	mergeTolerance?: number;
+	/** Minimum identical meshes before GPU instancing (`INSTANCE_MIN`). */
+	instanceMin?: number;
+	/** Maximum texture dimension after resize (`TEXTURE_MAX_SIZE`). */
+	textureMaxSize?: number;
+	/** Keyframes per second animations are resampled to (`ANIMATION_FPS`). */
+	animationFps?: number;
+}
+
+/**
+ * Draco quantization bits per attribute type, used by the `draco` backend.
+ * Omitted values use glTF-Transform's Draco defaults (14/10/12/8/12).
+ */
+export interface DracoQuantization {
+	position?: number;
+	normal?: number;
+	texcoord?: number;
+	color?: number;
+	/** Other float attributes, including skin weights. */
+	generic?: number;
+}
+
+/** Full configuration of a registered preset. */
+export interface PresetConfig {
+	/** Extra gltfpack flags for skinned models */
+	skinned: string[];
+	/** Extra gltfpack flags for non-skinned models */
+	static: string[];
+	/** Phases to switch off (`false`). Phases not listed run as usual. */
+	phases?: PresetPhases;
+	/** Threshold overrides for the pipeline phases. */
+	thresholds?: PresetThresholds;
+	/** Draco quantization for skinned and static models (`draco` backend only). */
+	draco?: { skinned?: DracoQuantization; static?: DracoQuantization };
+}
+
+/** Preset definition accepted by {@link definePreset}. Omitted flag lists default to `[]`. */
+export type PresetDefinition = Partial<PresetConfig>;
+
+/** Shape of a `glb-compressor.config.(json|ts)` file. */
+export interface GlbCompressorConfig {
+	/** Custom presets keyed by name. */
+	presets?: Record<string, PresetDefinition>;
+}
+
+/** Config file names searched by {@link findConfigFile}, in priority order. */
+export const CONFIG_FILENAMES = ['glb-compressor.config.ts', 'glb-compressor.config.json'];
+
+/**
+ * gltfpack flag presets, benchmarked against a 30MB skinned avatar (77 anims, 89k verts).
+ *
+ * Results on owen.glb:
+ *   default    → 5.95 MB (-80.4%)
+ *   balanced   → 5.37 MB (-82.3%)
+ *   aggressive → 4.83 MB (-84.1%)  ← best quality/size for skinned avatars
+ *   max        → 4.77 MB (-84.3%)  ← smallest, drops -kn (normals requantized)
+ */
+export const PRESETS: Record<BuiltinPreset, PresetConfig> = {
+	default: {
+		// biome-ignore format: align cli flags with the values
+		skinned: [
+			'-vp', '20',
+			'-kn'
+		],
+		// biome-ignore format: align cli flags with the values
+		static: [
+			'-vp', '16'
+		],
+		draco: {
+			skinned: { position: 16, normal: 10, texcoord: 12, color: 8, generic: 12 },
+			static: { position: 14, normal: 10, texcoord: 12, color: 8, generic: 12 },
+		},
+	},
+	balanced: {
+		// biome-ignore format: align cli flags with the values
+		skinned: [
+			'-vp', '20',
+			'-kn',
+			'-at', '14',
+			'-ar', '10',
+			'-as', '14',
+		],
+		// biome-ignore format: align cli flags with the values
+		static: [
+			'-vp', '16',
+			'-at', '14',
+			'-ar', '10',
+			'-as', '14'
+		],
+		thresholds: { animationFps: 24 },
+		draco: {
+			skinned: { position: 16, normal: 10, texcoord: 12, color: 8, generic: 12 },
+			static: { position: 14, normal: 10, texcoord: 12, color: 8, generic: 12 },
+		},
+	},
+	aggressive: {
+		// biome-ignore format: align cli flags with the values
+		skinned: [
+			'-vp', '20',
+			'-kn',
+			'-at', '12',
+			'-ar', '8',
+			'-as', '12',
+		],
+		// biome-ignore format: align cli flags with the values
+		static: [
+			'-vp', '14',
+			'-at', '12',
+			'-ar', '8',
+			'-as', '12'
+		],
+		thresholds: { animationFps: 15 },
+		draco: {
+			skinned: { position: 16, normal: 8, texcoord: 12, color: 8, generic: 12 },
+			static: { position: 14, normal: 8, texcoord: 10, color: 8, generic: 10 },
+		},
+	},
+	max: {
+		// biome-ignore format: align cli flags with the values
+		skinned: [
+			'-cz',
+			'-vp', '14',
+			'-at', '12',
+			'-ar', '8',
+			'-as', '12',
+			'-si', '0.95',
+			'-slb',
+		],
+		// biome-ignore format: align cli flags with the values
+		static: [
+			'-cz',
+			'-vp', '14',
+			'-at', '12',
+			'-ar', '8',
+			'-as', '12',
+			'-si', '0.95',
+			'-slb',
+		],
+		thresholds: { animationFps: 15 },
+		draco: {
+			skinned: { position: 14, normal: 8, texcoord: 10, color: 8, generic: 10 },
+			static: { position: 14, normal: 8, texcoord: 10, color: 8, generic: 10 },
+		},
+	},
+};
+
+/**
+ * gltfpack flags accepted in presets, mapped to the kind of value they take.
+ *
+ * `-i`/`-o` are deliberately absent — input and output paths are managed by
+ * the pipeline.
+ */
+const GLTFPACK_FLAGS: Record<string, 'switch' | 'number' | 'string'> = {
+	// Compression
+	'-c': 'switch',
+	'-cc': 'switch',
+	'-cz': 'switch',
+	'-ce': 'string',
+	'-cf': 'switch',
+	'-noq': 'switch',
+	// Textures
+	'-tc': 'switch',
+	'-tu': 'switch',
+	'-tw': 'switch',
+	'-tq': 'number',
+	'-ts': 'number',
+	'-tl': 'number',
+	'-tp': 'switch',
+	'-tfy': 'switch',
+	'-tj': 'number',
+	'-tr': 'switch',
+	// Simplification
+	'-si': 'number',
+	'-se': 'number',
+	'-sa': 'switch',
+	'-sp': 'switch',
+	'-slb': 'switch',
+	// Vertex precision
+	'-vp': 'number',
+	'-vt': 'number',
+	'-vn': 'number',
+	'-vc': 'number',
+	'-vpi': 'switch',
+	'-vpn': 'switch',
+	'-vpf': 'switch',
+	// Animation
+	'-at': 'number',
+	'-ar': 'number',
+	'-as': 'number',
+	'-af': 'number',
+	'-ac': 'switch',
+	// Scene
+	'-kn': 'switch',
+	'-km': 'switch',
+	'-ke': 'switch',
+	'-kv': 'switch',
+	'-mm': 'switch',
+	'-mi': 'switch',
+};
+
+/** Flags that accept an optional texture class list first, e.g. `-tu normal` or `-tq color 6`. */
+const TEXTURE_CLASS_FLAGS: readonly string[] = ['-tc', '-tu', '-tq'];
+
+/** Registered presets (built-ins + user-defined), keyed by name. */
+const registry = new Map<string, PresetConfig>(Object.entries(PRESETS));
+
+/**
+ * Validate a list of gltfpack flags.
+ *
+ * @param flags - Flags as passed on the command line, values as separate entries.
+ * @returns A list of problems (unknown flags, missing or non-numeric values); empty when valid.
+ */
+export function validateGltfpackFlags(flags: string[]): string[] {
+	const errors: string[] = [];
+	for (let i = 0; i < flags.length; i++) {
+		const flag = flags[i] ?? '';
+		const kind = Object.hasOwn(GLTFPACK_FLAGS, flag) ? GLTFPACK_FLAGS[flag] : undefined;
+		if (!kind) {
+			errors.push(`unknown gltfpack flag "${flag}"`);
+			continue;
+		}
+		if (
+			TEXTURE_CLASS_FLAGS.includes(flag) &&
+			/^(color|normal|attrib)(,(color|normal|attrib))*$/.test(flags[i + 1] ?? '')
+		) {
+			i++;
+		}
+		if (kind === 'switch') continue;
+
+		const value = flags[i + 1];
+		if (value === undefined || value.startsWith('-')) {
+			errors.push(`gltfpack flag "${flag}" requires a value`);
+			continue;
+		}
+		i++;
+		if (kind === 'number' && !Number.isFinite(Number(value))) {
+			errors.push(`gltfpack flag "${flag}" expects a number, got "${value}"`);
+		}
+	}
+	return errors;
+}
+
+/** Validate Draco quantization bits (integers in `[1, 30]`), returning a list of problems. */
+function validateDraco(draco: NonNullable<PresetConfig['draco']>): string[] {
+	const errors: string[] = [];
+	for (const kind of ['skinned', 'static'] as const) {
+		for (const [attribute, bits] of Object.entries(draco[kind] ?? {})) {
+			if (!Number.isInteger(bits) || bits < 1 || bits > 30) {
+				errors.push(`draco.${kind}.${attribute} must be an integer between 1 and 30`);
+			}
+		}
+	}
+	return errors;
+}
+
+/** Validate threshold overrides, returning a list of problems. */
+function validateThresholds(thresholds: PresetThresholds): string[] {
+	const errors: string[] = [];
+	for (const [key, value] of Object.entries(thresholds)) {
+		if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+			errors.push(`threshold "${key}" must be a positive number`);
+		}
+	}
+	const { decimateRatio, instanceMin } = thresholds;
+	if (decimateRatio !== undefined && decimateRatio > 1) {
+		errors.push('threshold "decimateRatio" must be in (0, 1]');
+	}
+	if (instanceMin !== undefined && !Number.isInteger(instanceMin)) {
+		errors.push('threshold "instanceMin" must be an integer');
+	}
+	return errors;
+}
+
+/**
+ * Register a custom compression preset.
+ *
+ * gltfpack flags are validated against the flags gltfpack understands, so a
+ * typo fails at registration instead of silently producing a different file.
+ * Re-defining a custom preset replaces it; built-in presets cannot be replaced.
+ *
+ * @param name       - Preset name used as `CompressOptions.preset`, CLI `-p`, or server `?preset=`.
+ * @param definition - gltfpack flags, disabled phases, and threshold overrides.
+ * @returns The registered preset configuration.
+ * @throws {Error} If the name is invalid or built-in, or the definition fails validation.
+ */
+export function definePreset(name: string, definition: PresetDefinition): PresetConfig {
+	if (!/^[\w-]+$/.test(name)) {
+		throw new Error(`Invalid preset name "${name}" (use letters, digits, "_" or "-")`);
+	}
+	if (Object.hasOwn(PRESETS, name) || name === AUTO_PRESET) {
+		throw new Error(`Cannot redefine built-in preset "${name}"`);
+	}
+
+	const config: PresetConfig = {
+		skinned: definition.skinned ?? [],
+		static: definition.static ?? [],
+		phases: definition.phases,
+		thresholds: definition.thresholds,
+		draco: definition.draco,
+	};
+	const errors: string[] = [
+		...validateGltfpackFlags(config.skinned).map((e) => `skinned: ${e}`),
+		...validateGltfpackFlags(config.static).map((e) => `static: ${e}`),
+		...validateThresholds(config.thresholds ?? {}),
+		...(config.draco ? validateDraco(config.draco) : []),
+	];
+	if (errors.length > 0) {
+		throw new Error(`Invalid preset "${name}": ${errors.join('; ')}`);
+	}
+
+	registry.set(name, config);
+	return config;
+}
+
+/**
+ * Look up a registered preset by name.
+ *
+ * @returns The preset configuration, or `undefined` if no such preset exists.
+ */
+export function getPreset(name: string): PresetConfig | undefined {
+	return registry.get(name);
+}
+
+/** List the names of all registered presets (built-ins first). */
+export function listPresets(): string[] {
+	return [...registry.keys()];
+}
+
+/**
+ * Find a config file by walking up from `startDir` to the filesystem root.
+ *
+ * @returns Absolute path of the first `glb-compressor.config.(ts|json)` found, or `null`.
+ */
+export async function findConfigFile(startDir: string = process.cwd()): Promise<string | null> {
+	let dir: string = resolve(startDir);
+	while (true) {
+		for (const name of CONFIG_FILENAMES) {
+			const candidate = join(dir, name);
+			if (await Bun.file(candidate).exists()) return candidate;
+		}
+		const parent = dirname(dir);
+		if (parent === dir) return null;
+		dir = parent;
+	}
+}
+
+/**
+ * Load a config file and register its presets with {@link definePreset}.
+ *
+ * `.json` files contain a {@link GlbCompressorConfig}. `.ts`/`.js` files are
+ * imported (TypeScript requires Bun) and may either export a config as
+ * `default` or call `definePreset()` themselves.
+ *
+ * @param path - Config file path. When omitted, {@link findConfigFile} searches from the working directory.
+ * @returns The loaded config path, or `null` if no config file was found.
+ * @throws {Error} If an explicit path does not exist, the file cannot be parsed, or a preset is invalid.
+ */
+export async function loadConfig(path?: string): Promise<string | null> {
+	const configPath: string | null = path ? resolve(path) : await findConfigFile();
+	if (!configPath) return null;
+	if (!(await Bun.file(configPath).exists())) {
+		throw new Error(`Config file not found: ${configPath}`);
+	}
+
+	let config: GlbCompressorConfig;
+	try {
+		if (configPath.endsWith('.json')) {
+			config = JSON.parse(await Bun.file(configPath).text());
+		} else {
+			const mod: { default?: GlbCompressorConfig } = await import(pathToFileURL(configPath).href);
+			config = mod.default ?? {};
+		}
+	} catch (err) {
+		throw new Error(`Failed to load config ${configPath}: ${err instanceof Error ? err.message : String(err)}`);
+	}
+
+	for (const [name, definition] of Object.entries(config.presets ?? {})) {
+		definePreset(name, definition);
+	}
+	return configPath;
+}
@@ -0,0 +1,73 @@
+import { expect, test } from 'bun:test';
+import { Document } from '@gltf-transform/core';
+import { gridDocument, translationDocument, writeGlb } from '../test/fixtures';
+import { compress } from './compress';
+import { collectStats, countPrimitive, measurePhase, type PhaseReport } from './report';
+
+test('collectStats counts vertices, triangles, animations, and accessor bytes', () => {
+	const stats = collectStats(gridDocument(4));
+	expect(stats).toEqual({
+		meshes: 1,
+		vertices: 16,
+		triangles: 18,
+		materials: 0,
+		textures: 0,
+		animations: 0,
+		bytes: 16 * 12 + 54 * 4,
+	});
+
+	const animated = collectStats(translationDocument([{ name: 'move', times: [0, 1], value: (t) => [t, 0, 0] }]).doc);
+	expect(animated.animations).toBe(1);
+	expect(animated.bytes).toBe(2 * 4 + 2 * 12);
+});
+
+test('countPrimitive counts triangles by draw mode', () => {
+	const doc = new Document();
+	const position = doc
+		.createAccessor()
+		.setType('VEC3')
+		.setArray(new Float32Array(3 * 6));
+	const primitive = doc.createPrimitive().setAttribute('POSITION', position);
+	expect(countPrimitive(primitive)).toEqual({ vertices: 6, triangles: 2 });
+	expect(countPrimitive(primitive.setMode(5))).toEqual({ vertices: 6, triangles: 4 });
+	expect(countPrimitive(primitive.setMode(6))).toEqual({ vertices: 6, triangles: 4 });
+	expect(countPrimitive(primitive.setMode(1))).toEqual({ vertices: 6, triangles: 0 });
+
+	primitive.setMode(4).setIndices(
+		doc
+			.createAccessor()
+			.setType('SCALAR')
+			.setArray(new Uint16Array([0, 1, 2])),
+	);
+	expect(countPrimitive(primitive)).toEqual({ vertices: 6, triangles: 1 });
+});
+
+test('measurePhase records statistics before and after the phase', async () => {
+	const doc: Document = gridDocument(4);
+	const phases: PhaseReport[] = [];
+	await measurePhase(doc, 'cleanup', phases, async () => {
+		for (const mesh of doc.getRoot().listMeshes()) mesh.dispose();
+	});
+	const [phase] = phases;
+	expect(phases).toHaveLength(1);
+	expect(phase?.phase).toBe('cleanup');
+	expect(phase?.before.meshes).toBe(1);
+	expect(phase?.after.meshes).toBe(0);
+	expect(phase?.durationMs).toBeGreaterThanOrEqual(0);
+});
+
+test('compress reports its phases in order and the encoder outcome', async () => {
+	const input: Uint8Array = await writeGlb(gridDocument(20));
+	const { buffer, report } = await compress(input, { backend: 'meshopt', quiet: true });
+	expect(report.preset).toBe('default');
+	expect(report.skinned).toBe(false);
+	expect(report.originalSize).toBe(input.byteLength);
+	expect(report.input).toMatchObject({ meshes: 1, vertices: 400, triangles: 722 });
+	expect(report.phases.map((phase) => phase.phase)).toEqual(['cleanup', 'geometry', 'gpu', 'animation', 'textures']);
+	for (const [i, phase] of report.phases.entries()) {
+		expect(phase.before).toEqual(report.phases[i - 1]?.after ?? report.input);
+	}
+	expect(report.encode).toMatchObject({ method: 'meshopt', outputBytes: buffer.byteLength });
+	expect(report.textures).toEqual([]);
+	expect(report.durationMs).toBeGreaterThanOrEqual(report.encode.durationMs);
+});
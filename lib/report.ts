@@ -0,0 +1,266 @@
+/**
+ * Structured compression reports returned alongside the compressed buffer.
+ *
+ * A {@link CompressReport} captures document statistics before and after each
+ * pipeline phase, the results of the custom transforms, and the final encoder
+ * outcome, so callers can consume pipeline metrics without parsing log lines.
+ *
+ * @module report
+ */
+
+import type { Document, Primitive } from '@gltf-transform/core';
+import type { ByteBreakdown } from './breakdown';
+import type { BudgetReport } from './budget';
+import type { AnimationSelectionReport, ClipFileReport } from './clips';
+import type { QualityReport, QualityTolerance } from './compare';
+import type { LodReport } from './lod';
+import type { TextureMode, TextureSlotClass } from './pipeline';
+import type {
+	DecimationReport,
+	DegenerateFacesReport,
+	JoinSkinnedReport,
+	MergeByDistanceReport,
+	MeshComplexityReport,
+	NormalizeWeightsReport,
+	ResampleReport,
+	StaticTracksReport,
+	UnusedUVsReport,
+} from './transforms';
+
+/** Snapshot of document contents at a point in the pipeline. */
+export interface DocumentStats {
+	/** Mesh count. */
+	meshes: number;
+	/** Total `POSITION` vertex count across all primitives. */
+	vertices: number;
+	/** Total triangle count across triangle-list/strip/fan primitives. */
+	triangles: number;
+	/** Material count. */
+	materials: number;
+	/** Texture count. */
+	textures: number;
+	/** Animation clip count. */
+	animations: number;
+	/**
+	 * Estimated binary payload in bytes: accessor data plus encoded image bytes.
+	 * Excludes JSON and GLB container overhead.
+	 */
+	bytes: number;
+}
+
+/** Name of a pipeline phase recorded in {@link CompressReport.phases}. */
+export type PipelinePhase = 'clips' | 'cleanup' | 'geometry' | 'gpu' | 'animation' | 'textures' | 'simplify' | 'lod';
+
+/** Statistics for a single pipeline phase. Phases that did not run are omitted. */
+export interface PhaseReport {
+	phase: PipelinePhase;
+	before: DocumentStats;
+	after: DocumentStats;
+	/** Wall-clock time spent in the phase, in milliseconds. */
+	durationMs: number;
+}
+
+/** Results reported by the custom transforms that ran during compression. */
+export interface TransformReports {
+	/** Clip selection, when `animations` was set. */
+	animations?: AnimationSelectionReport;
+	complexity?: MeshComplexityReport;
+	unusedUVs?: UnusedUVsReport;
+	/** Skinned models only. */
+	skinnedJoin?: JoinSkinnedReport;
+	mergeByDistance?: MergeByDistanceReport;
+	degenerateFaces?: DegenerateFacesReport;
+	decimation?: DecimationReport;
+	resample?: ResampleReport;
+	staticTracks?: StaticTracksReport;
+	weights?: NormalizeWeightsReport;
+	/** Weights renormalized after reordering a skinned model. */
+	reorderWeights?: NormalizeWeightsReport;
+}
+
+/** Format, dimensions, and size of one texture image. */
+export interface TextureImageStats {
+	mimeType: string;
+	/** Pixel width, or `null` if the format's header could not be read. */
+	width: number | null;
+	/** Pixel height, or `null` if the format's header could not be read. */
+	height: number | null;
+	bytes: number;
+}
+
+/** What the texture phase did to one texture. */
+export interface TextureReport {
+	/** Texture name, or its URI when unnamed. */
+	name: string;
+	/** Material slots the texture is used in, e.g. `["baseColorTexture"]`. */
+	slots: string[];
+	/** Texture class used for mode rules. */
+	class: TextureSlotClass;
+	/** Output mode applied. */
+	mode: TextureMode;
+	/** Size limit applied (per-slot override or the phase default). */
+	maxSize: number;
+	/** Quality applied, if any. */
+	quality?: number;
+	before: TextureImageStats;
+	/**
+	 * Image after the texture phase. For KTX2 modes encoded by gltfpack this is
+	 * the resized PNG/JPEG handed to gltfpack.
+	 */
+	after: TextureImageStats;
+}
+
+/** Outcome of the final binary compression stage. */
+export interface EncodeReport {
+	/** Backend that produced the output: `"gltfpack"` or `"meshopt"`. */
+	method: string;
+	/** Size of the clean (uncompressed) GLB handed to the encoder. */
+	inputBytes: number;
+	/** Size of the compressed output GLB. */
+	outputBytes: number;
+	/** Wall-clock time spent encoding (including a failed gltfpack attempt), in milliseconds. */
+	durationMs: number;
+}
+
+/** One preset tried by `preset: 'auto'`. */
+export interface AutoPresetCandidate {
+	preset: string;
+	/** Backend that encoded this candidate. */
+	method: string;
+	/** Output size in bytes. */
+	bytes: number;
+	/** Worst-case error against the clean GLB. */
+	error: Required<QualityTolerance>;
+	/** Tolerances exceeded; empty when the candidate qualified. */
+	violations: string[];
+}
+
+/** How `preset: 'auto'` chose its preset. */
+export interface AutoPresetReport {
+	/** Tolerance applied (defaults filled in). */
+	tolerance: Required<QualityTolerance>;
+	/** Winning preset, also reported as {@link CompressReport.preset}. */
+	selected: string;
+	/** `false` when no candidate qualified and the most conservative one was kept. */
+	withinTolerance: boolean;
+	/** Every preset tried, in order. Presets encoding identically to an earlier one are skipped. */
+	candidates: AutoPresetCandidate[];
+}
+
+/** Where the bytes go before and after compression, when `breakdown` was set. */
+export interface BreakdownReport {
+	/** The input file. */
+	before: ByteBreakdown;
+	/** The output GLB (level 0 for `lodOutput: "files"`). */
+	after: ByteBreakdown;
+}
+
+/** Structured report describing a full {@link compress} run. */
+export interface CompressReport {
+	/** Preset the run used (the winning preset for `auto`). */
+	preset: string;
+	/** Whether skinned meshes were detected (conservative path). */
+	skinned: boolean;
+	/** Original input size in bytes. */
+	originalSize: number;
+	/** Document statistics right after parsing, before any phase ran. */
+	input: DocumentStats;
+	/** Per-phase before/after statistics, in execution order. */
+	phases: PhaseReport[];
+	/** Results of the custom transforms. */
+	transforms: TransformReports;
+	/** Per-texture results of the texture phase; empty when it did not run. */
+	textures: TextureReport[];
+	/** LOD chain that was generated, when `lods` was set. */
+	lods?: LodReport;
+	/** Clips written to files of their own, when `splitAnimations` was set. */
+	clips?: ClipFileReport[];
+	/** Final encoder outcome. */
+	encode: EncodeReport;
+	/** Size budget search, when `targetBytes` was set. */
+	budget?: BudgetReport;
+	/** Preset selection details, for `preset: 'auto'`. */
+	auto?: AutoPresetReport;
+	/** Output compared against the input, when `verify` was set. */
+	quality?: QualityReport;
+	/** Byte attribution of the input and output, when `breakdown` was set. */
+	breakdown?: BreakdownReport;
+	/** Total wall-clock time, in milliseconds. */
+	durationMs: number;
+}
+
+/**
+ * Collect mesh, material, texture, animation, and byte statistics from a document.
+ *
+ * @param doc - Document to inspect (read-only).
+ * @returns A {@link DocumentStats} snapshot.
+ */
+export function collectStats(doc: Document): DocumentStats {
+	const root = doc.getRoot();
+	let vertices: number = 0;
+	let triangles: number = 0;
+
+	for (const mesh of root.listMeshes()) {
+		for (const prim of mesh.listPrimitives()) {
+			const counts = countPrimitive(prim);
+			vertices += counts.vertices;
+			triangles += counts.triangles;
+		}
+	}
+
+	let bytes: number = 0;
+	for (const accessor of root.listAccessors()) {
+		bytes += accessor.getArray()?.byteLength ?? 0;
+	}
+	for (const texture of root.listTextures()) {
+		bytes += texture.getImage()?.byteLength ?? 0;
+	}
+
+	return {
+		meshes: root.listMeshes().length,
+		vertices,
+		triangles,
+		materials: root.listMaterials().length,
+		textures: root.listTextures().length,
+		animations: root.listAnimations().length,
+		bytes,
+	};
+}
+
+/**
+ * Count a primitive's `POSITION` vertices and its triangles (triangle
+ * list/strip/fan modes only; points and lines have none).
+ */
+export function countPrimitive(prim: Primitive): { vertices: number; triangles: number } {
+	const vertices: number = prim.getAttribute('POSITION')?.getCount() ?? 0;
+	const indexCount: number = prim.getIndices()?.getCount() ?? vertices;
+	switch (prim.getMode()) {
+		case 4: // TRIANGLES
+			return { vertices, triangles: Math.floor(indexCount / 3) };
+		case 5: // TRIANGLE_STRIP
+		case 6: // TRIANGLE_FAN
+			return { vertices, triangles: Math.max(0, indexCount - 2) };
+		default:
+			return { vertices, triangles: 0 };
+	}
+}
+
+/**
+ * Run one pipeline phase, recording before/after statistics and timing.
+ *
+ * @param doc    - Document the phase operates on.
+ * @param phase  - Phase name to record.
+ * @param phases - Report list the {@link PhaseReport} is appended to.
+ * @param fn     - The phase body.
+ */
+export async function measurePhase(
+	doc: Document,
+	phase: PipelinePhase,
+	phases: PhaseReport[],
+	fn: () => Promise<unknown>,
+): Promise<void> {
+	const before: DocumentStats = collectStats(doc);
+	const start: number = performance.now();
+	await fn();
+	phases.push({ phase, before, after: collectStats(doc), durationMs: performance.now() - start });
+}
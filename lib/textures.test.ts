@@ -0,0 +1,115 @@
+import { expect, test } from 'bun:test';
+import { texturedDocument } from '../test/fixtures';
+import { type PipelineOptions, type ResolvedPipeline, resolvePipeline } from './pipeline';
+import { getPreset } from './presets';
+import type { TextureReport } from './report';
+import {
+	classifyTexture,
+	encodeTextures,
+	gltfpackTextureFlags,
+	resolveTextureLimits,
+	resolveTextureMode,
+	usesKtx2,
+} from './textures';
+
+/** Texture options resolved against the default preset. */
+function textureOptions(options: PipelineOptions['textures'] = {}): ResolvedPipeline['textures'] {
+	const preset = getPreset('default');
+	if (!preset) throw new Error('No default preset');
+	return resolvePipeline(preset, { textures: options }).textures;
+}
+
+/** Run {@link encodeTextures} on a fresh {@link texturedDocument} and return its reports by texture name. */
+async function encode(
+	options: PipelineOptions['textures'],
+	fixture: { size?: number; alpha?: number; deferKtx2?: boolean } = {},
+): Promise<Record<string, TextureReport>> {
+	const { doc } = await texturedDocument(fixture.size ?? 16, { alpha: fixture.alpha });
+	const reports = await encodeTextures(doc, textureOptions(options), fixture.deferKtx2 ?? false, () => {});
+	return Object.fromEntries(reports.map((report) => [report.name, report]));
+}
+
+test('textures are classified by the slots they are used in', async () => {
+	const { doc, textures } = await texturedDocument(4);
+	expect(classifyTexture(textures.baseColor)).toBe('color');
+	expect(classifyTexture(textures.normal)).toBe('normal');
+	expect(classifyTexture(textures.occlusion)).toBe('attrib');
+
+	const material = doc.getRoot().listMaterials()[0];
+	material?.setEmissiveTexture(textures.normal);
+	expect(classifyTexture(textures.normal)).toBe('color');
+});
+
+test('a slot rule wins over the default mode', () => {
+	const options = textureOptions({ mode: 'avif', slots: { normal: 'ktx2-uastc' } });
+	expect(resolveTextureMode(options, 'color')).toBe('avif');
+	expect(resolveTextureMode(options, 'normal')).toBe('ktx2-uastc');
+	expect(usesKtx2(options)).toBe(true);
+	expect(usesKtx2(textureOptions({ mode: 'png' }))).toBe(false);
+});
+
+test('gltfpack gets one flag per KTX2 mode with the classes using it', () => {
+	const options = textureOptions({ mode: 'ktx2-etc1s', slots: { normal: 'ktx2-uastc', attrib: 'webp' } });
+	expect(gltfpackTextureFlags(options)).toEqual(['-tc', 'color', '-tu', 'normal']);
+	expect(gltfpackTextureFlags({ ...options, quality: 74 })).toEqual(['-tc', 'color', '-tu', 'normal', '-tq', '7']);
+	expect(gltfpackTextureFlags({ ...options, enabled: false })).toEqual([]);
+	expect(gltfpackTextureFlags(textureOptions({ quality: 90 }))).toEqual([]);
+});
+
+test('each texture is encoded in the mode of its class', async () => {
+	const reports = await encode({ mode: 'webp', slots: { normal: 'png', attrib: 'keep' } });
+	expect(reports.baseColor).toMatchObject({ class: 'color', mode: 'webp', after: { mimeType: 'image/webp' } });
+	expect(reports.normal).toMatchObject({ class: 'normal', mode: 'png', after: { mimeType: 'image/png' } });
+	expect(reports.occlusion?.mode).toBe('keep');
+	expect(reports.occlusion?.after).toEqual(reports.occlusion?.before);
+});
+
+test('jpeg keeps textures with an alpha channel in their format', async () => {
+	const opaque = await encode({ mode: 'jpeg' });
+	expect(opaque.baseColor?.after.mimeType).toBe('image/jpeg');
+
+	const translucent = await encode({ mode: 'jpeg' }, { alpha: 0.5 });
+	expect(translucent.baseColor?.after.mimeType).toBe('image/png');
+	expect(translucent.normal?.after.mimeType).toBe('image/jpeg');
+});
+
+test('KTX2 textures left for gltfpack are only resized, as PNG or JPEG', async () => {
+	const reports = await encode({ mode: 'ktx2-etc1s', maxSize: 8 }, { size: 32, deferKtx2: true });
+	expect(reports.baseColor).toMatchObject({
+		mode: 'ktx2-etc1s',
+		after: { mimeType: 'image/png', width: 8, height: 8 },
+	});
+});
+
+test('per-slot limits win over the phase defaults', () => {
+	const options = textureOptions({
+		maxSize: 1024,
+		quality: 80,
+		slotMaxSize: { normal: 512, occlusionTexture: 256 },
+		slotQuality: { baseColor: 95 },
+	});
+	expect(resolveTextureLimits(options, ['normalTexture'])).toEqual({ maxSize: 512, quality: 80 });
+	expect(resolveTextureLimits(options, ['occlusionTexture'])).toEqual({ maxSize: 256, quality: 80 });
+	expect(resolveTextureLimits(options, ['baseColorTexture'])).toEqual({ maxSize: 1024, quality: 95 });
+	expect(resolveTextureLimits(textureOptions(), ['emissiveTexture']).quality).toBeUndefined();
+});
+
+test('a texture in several slots gets the largest limit and highest quality', () => {
+	const options = textureOptions({ slotMaxSize: { normal: 512, occlusion: 256 }, slotQuality: { occlusion: 60 } });
+	expect(resolveTextureLimits(options, ['normalTexture', 'occlusionTexture'])).toEqual({
+		maxSize: 512,
+		quality: 60,
+	});
+});
+
+test('textures are downscaled to fit their slot limit', async () => {
+	const reports = await encode({ mode: 'png', maxSize: 16, slotMaxSize: { normal: 8 } }, { size: 32 });
+	expect(reports.baseColor).toMatchObject({ maxSize: 16, after: { width: 16, height: 16 } });
+	expect(reports.normal).toMatchObject({ maxSize: 8, after: { width: 8, height: 8 } });
+	expect(reports.occlusion).toMatchObject({ maxSize: 16, before: { width: 32 }, after: { width: 16 } });
+});
+
+test('textures within their limit keep their size', async () => {
+	const reports = await encode({ mode: 'png', slotMaxSize: { baseColor: 64 } }, { size: 32 });
+	expect(reports.baseColor).toMatchObject({ maxSize: 64, after: { width: 32, height: 32 } });
+});
@@ -0,0 +1,348 @@
+/**
+ * Texture phase — per-texture output modes with per-class rules.
+ *
+ * Each texture is classified like gltfpack does (`color`, `normal`, `attrib`)
+ * and encoded once, according to {@link TextureOptions.slots} or the default
+ * {@link TextureOptions.mode}:
+ *
+ * - sharp modes (WebP, AVIF, PNG, JPEG) are always encoded here
+ * - KTX2 modes are encoded here via `toktx` (KTX-Software), unless gltfpack is
+ *   the final encoder — then textures are only resized here and gltfpack's
+ *   BasisU encoder converts exactly those classes ({@link gltfpackTextureFlags})
+ *
+ * so textures are never double-processed and every backend honors the same rules.
+ *
+ * @module textures
+ */
+
+import { join } from 'node:path';
+import { type Document, type Extension, ImageUtils, type Texture, TextureChannel } from '@gltf-transform/core';
+import { EXTTextureAVIF, EXTTextureWebP, KHRTextureBasisu } from '@gltf-transform/extensions';
+import { compressTexture, getTextureChannelMask, listTextureSlots } from '@gltf-transform/functions';
+import sharp from 'sharp';
+
+import { TOKTX_TIMEOUT_MS } from './constants';
+import { type ResolvedPipeline, TEXTURE_SLOT_CLASSES, type TextureMode, type TextureSlotClass } from './pipeline';
+import type { TextureImageStats, TextureReport } from './report';
+import { formatBytes, throwIfCancelled, withTempDir } from './utils';
+
+/** Texture options as resolved by `resolvePipeline()`. */
+type ResolvedTextureOptions = ResolvedPipeline['textures'];
+
+/** KTX2 output modes. */
+type Ktx2Mode = Extract<TextureMode, `ktx2-${string}`>;
+
+/** Material slots gltfpack treats as color data (sRGB). */
+const COLOR_SLOTS: readonly string[] = [
+	'baseColorTexture',
+	'emissiveTexture',
+	'sheenColorTexture',
+	'specularColorTexture',
+	'diffuseTexture',
+	'specularGlossinessTexture',
+];
+
+/** Image MIME types sharp can decode. */
+export const SHARP_MIME_TYPES: readonly string[] = ['image/png', 'image/jpeg', 'image/webp', 'image/avif'];
+
+/**
+ * Classify a texture by the material slots it is used in.
+ *
+ * Color slots win over normal slots, normal slots over everything else.
+ *
+ * @param texture - Texture to classify.
+ * @returns The gltfpack-compatible texture class.
+ */
+export function classifyTexture(texture: Texture): TextureSlotClass {
+	const slots: string[] = listTextureSlots(texture);
+	if (slots.some((slot) => COLOR_SLOTS.includes(slot))) return 'color';
+	if (slots.some((slot) => /normal/i.test(slot))) return 'normal';
+	return 'attrib';
+}
+
+/**
+ * Output mode for a texture class: its {@link TextureOptions.slots} rule, or the default mode.
+ *
+ * @param options    - Resolved texture options.
+ * @param slotClass  - Texture class.
+ */
+export function resolveTextureMode(options: ResolvedTextureOptions, slotClass: TextureSlotClass): TextureMode {
+	return options.slots[slotClass] ?? options.mode;
+}
+
+/** Returns whether any texture class resolves to a KTX2 mode. */
+export function usesKtx2(options: ResolvedTextureOptions): boolean {
+	return TEXTURE_SLOT_CLASSES.some((slotClass) => isKtx2(resolveTextureMode(options, slotClass)));
+}
+
+/**
+ * gltfpack flags that encode the KTX2 texture classes, e.g. `-tc color -tu normal`.
+ *
+ * Classes resolving to other modes get no flag, so gltfpack copies those images
+ * as the texture phase left them. Empty when the texture phase is disabled.
+ *
+ * @param options - Resolved texture options.
+ */
+export function gltfpackTextureFlags(options: ResolvedTextureOptions): string[] {
+	if (!options.enabled) return [];
+	const etc1s: TextureSlotClass[] = [];
+	const uastc: TextureSlotClass[] = [];
+	for (const slotClass of TEXTURE_SLOT_CLASSES) {
+		const mode: TextureMode = resolveTextureMode(options, slotClass);
+		if (mode === 'ktx2-etc1s') etc1s.push(slotClass);
+		else if (mode === 'ktx2-uastc') uastc.push(slotClass);
+	}
+
+	const flags: string[] = [];
+	if (etc1s.length > 0) flags.push('-tc', etc1s.join(','));
+	if (uastc.length > 0) flags.push('-tu', uastc.join(','));
+	// gltfpack quality is 1-10
+	if (flags.length > 0 && options.quality !== undefined) {
+		flags.push('-tq', String(Math.max(1, Math.round(options.quality / 10))));
+	}
+	return flags;
+}
+
+/** Size limit and quality applied to one texture. */
+export interface TextureLimits {
+	maxSize: number;
+	quality?: number;
+}
+
+/**
+ * Size limit and quality for a texture used in the given material slots.
+ *
+ * Per-slot overrides ({@link TextureOptions.slotMaxSize},
+ * {@link TextureOptions.slotQuality}) win over the phase defaults; with several
+ * matching slots the largest limit and highest quality apply, so no use of a
+ * shared texture is degraded below what it asked for.
+ *
+ * @param options - Resolved texture options.
+ * @param slots   - Slot names as returned by `listTextureSlots()`, e.g. `baseColorTexture`.
+ */
+export function resolveTextureLimits(options: ResolvedTextureOptions, slots: string[]): TextureLimits {
+	const sizes: number[] = [];
+	const qualities: number[] = [];
+	for (const slot of slots) {
+		const key: string = slot.replace(/Texture$/, '');
+		const size: number | undefined = options.slotMaxSize[key] ?? options.slotMaxSize[slot];
+		const quality: number | undefined = options.slotQuality[key] ?? options.slotQuality[slot];
+		if (size !== undefined) sizes.push(size);
+		if (quality !== undefined) qualities.push(quality);
+	}
+	return {
+		maxSize: sizes.length > 0 ? Math.max(...sizes) : options.maxSize,
+		quality: qualities.length > 0 ? Math.max(...qualities) : options.quality,
+	};
+}
+
+/**
+ * Encode every texture in the document according to its resolved mode and limits.
+ *
+ * @param document  - Document whose textures are re-encoded in place.
+ * @param options   - Resolved texture options.
+ * @param deferKtx2 - Leave KTX2 textures as resized PNG/JPEG for gltfpack to encode.
+ * @param log       - Progress logger.
+ * @param signal    - Optional cancellation signal, checked before each texture.
+ * @returns One {@link TextureReport} per texture.
+ * @throws {Error} If a `toktx` invocation fails.
+ * @throws {CompressionCancelledError} If `signal` is aborted.
+ */
+export async function encodeTextures(
+	document: Document,
+	options: ResolvedTextureOptions,
+	deferKtx2: boolean,
+	log: (msg: string) => void,
+	signal?: AbortSignal,
+): Promise<TextureReport[]> {
+	const textures: Texture[] = document.getRoot().listTextures();
+	const before: TextureImageStats[] = textures.map(imageStats);
+	await Promise.all(
+		textures.map(async (texture) => {
+			const mode: TextureMode = resolveTextureMode(options, classifyTexture(texture));
+			if (mode === 'keep' || !SHARP_MIME_TYPES.includes(texture.getMimeType())) return;
+			throwIfCancelled(signal);
+			const { maxSize, quality } = resolveTextureLimits(options, listTextureSlots(texture));
+			if (isKtx2(mode)) {
+				// gltfpack's BasisU encoder only reads PNG and JPEG
+				if (deferKtx2) await resizeTexture(texture, maxSize, /^image\/(png|jpeg)$/.test(texture.getMimeType()));
+				return;
+			}
+			if (mode === 'jpeg' && getTextureChannelMask(texture) & TextureChannel.A) {
+				log(`  Keeping ${label(texture)} as ${texture.getMimeType()}: JPEG has no alpha channel`);
+				return;
+			}
+			await compressTexture(texture, {
+				encoder: sharp,
+				targetFormat: mode,
+				resize: [maxSize, maxSize],
+				quality,
+			});
+		}),
+	);
+
+	throwIfCancelled(signal);
+	if (!deferKtx2) await encodeKtx2Textures(document, options, log, signal);
+	attachTextureExtensions(document);
+
+	return textures.map((texture, i) => {
+		const slots: string[] = listTextureSlots(texture);
+		const slotClass: TextureSlotClass = classifyTexture(texture);
+		const mode: TextureMode = resolveTextureMode(options, slotClass);
+		const after: TextureImageStats = imageStats(texture);
+		if (after.width !== null && after.height !== null) {
+			log(`  ${label(texture)}: ${mode} ${after.width}x${after.height} ${formatBytes(after.bytes)}`);
+		}
+		return {
+			name: label(texture),
+			slots,
+			class: slotClass,
+			mode,
+			...resolveTextureLimits(options, slots),
+			before: before[i] ?? after,
+			after,
+		};
+	});
+}
+
+/**
+ * Encode the textures whose class resolves to a KTX2 mode with `toktx`.
+ *
+ * Used by {@link encodeTextures} and as the fallback when gltfpack was meant
+ * to encode KTX2 textures but failed. Aborting `signal` kills a running `toktx`.
+ *
+ * @throws {Error} If a `toktx` invocation fails.
+ * @throws {CompressionCancelledError} If `signal` is aborted.
+ */
+export async function encodeKtx2Textures(
+	document: Document,
+	options: ResolvedTextureOptions,
+	log: (msg: string) => void,
+	signal?: AbortSignal,
+): Promise<void> {
+	// Sequential: toktx is multi-threaded on its own
+	for (const texture of document.getRoot().listTextures()) {
+		const slotClass: TextureSlotClass = classifyTexture(texture);
+		const mode: TextureMode = resolveTextureMode(options, slotClass);
+		if (!isKtx2(mode) || !SHARP_MIME_TYPES.includes(texture.getMimeType())) continue;
+		const before: number = texture.getImage()?.byteLength ?? 0;
+		throwIfCancelled(signal);
+		await encodeWithToktx(texture, mode, slotClass, resolveTextureLimits(options, listTextureSlots(texture)), signal);
+		log(`  ${label(texture)}: ${mode} ${formatBytes(before)} -> ${formatBytes(texture.getImage()?.byteLength ?? 0)}`);
+	}
+	attachTextureExtensions(document);
+}
+
+/** Type guard for KTX2 modes. */
+function isKtx2(mode: TextureMode): mode is Ktx2Mode {
+	return mode === 'ktx2-etc1s' || mode === 'ktx2-uastc';
+}
+
+/** Human-readable texture label for log lines. */
+function label(texture: Texture): string {
+	return texture.getURI() || texture.getName() || 'texture';
+}
+
+/** Format, dimensions, and byte size of a texture's current image. */
+export function imageStats(texture: Texture): TextureImageStats {
+	const image: Uint8Array | null = texture.getImage();
+	const mimeType: string = texture.getMimeType();
+	let size: [number, number] | null = null;
+	try {
+		size = image ? ImageUtils.getSize(image, mimeType) : null;
+	} catch {
+		// Unknown or truncated header — dimensions stay unknown
+	}
+	return { mimeType, width: size?.[0] ?? null, height: size?.[1] ?? null, bytes: image?.byteLength ?? 0 };
+}
+
+/** Downscale a texture to `maxSize`, keeping its format (or converting to PNG when `keepFormat` is false). */
+async function resizeTexture(texture: Texture, maxSize: number, keepFormat: boolean): Promise<void> {
+	await compressTexture(texture, {
+		encoder: sharp,
+		targetFormat: keepFormat ? undefined : 'png',
+		resize: [maxSize, maxSize],
+	});
+}
+
+/**
+ * Encode one texture to KTX2 via the `toktx` CLI.
+ *
+ * The image is resized and converted to PNG with sharp first. Non-color
+ * textures are tagged linear so no sRGB transfer is applied; ETC1S normal maps
+ * use `--normal_mode` for better quality. Aborting `signal` kills `toktx`.
+ */
+async function encodeWithToktx(
+	texture: Texture,
+	mode: Ktx2Mode,
+	slotClass: TextureSlotClass,
+	limits: TextureLimits,
+	signal?: AbortSignal,
+): Promise<void> {
+	const image: Uint8Array | null = texture.getImage();
+	if (!image) return;
+
+	const png: Uint8Array = await sharp(image)
+		.resize(limits.maxSize, limits.maxSize, { fit: 'inside', withoutEnlargement: true })
+		.png()
+		.toBuffer();
+
+	await withTempDir(async (dir) => {
+		const inputPath = join(dir, 'input.png');
+		const outputPath = join(dir, 'output.ktx2');
+		await Bun.write(inputPath, png);
+
+		const { quality } = limits;
+		const args: string[] = ['toktx', '--t2', '--genmipmap'];
+		if (mode === 'ktx2-etc1s') {
+			// qlevel is 1-255; toktx defaults to 128
+			const qlevel: number = quality === undefined ? 128 : Math.max(1, Math.round((quality / 100) * 255));
+			args.push('--encode', 'etc1s', '--clevel', '1', '--qlevel', String(qlevel));
+			if (slotClass === 'normal') args.push('--normal_mode');
+		} else {
+			// uastc_quality is 0-4; 2 balances encode time and quality
+			const level: number = quality === undefined ? 2 : Math.round((quality / 100) * 4);
+			args.push('--encode', 'uastc', '--uastc_quality', String(level), '--zcmp', '18');
+		}
+		if (slotClass !== 'color') args.push('--assign_oetf', 'linear', '--assign_primaries', 'none');
+		args.push(outputPath, inputPath);
+
+		const proc = Bun.spawn(args, {
+			stdout: 'ignore',
+			stderr: 'pipe',
+		});
+
+		const timeoutId = setTimeout(() => proc.kill(), TOKTX_TIMEOUT_MS);
+		const onAbort = (): void => proc.kill();
+		signal?.addEventListener('abort', onAbort, { once: true });
+		const exitCode = await proc.exited;
+		clearTimeout(timeoutId);
+		signal?.removeEventListener('abort', onAbort);
+		throwIfCancelled(signal);
+
+		if (exitCode !== 0) {
+			const stderr = await new Response(proc.stderr).text();
+			throw new Error(`toktx exited with code ${exitCode}: ${stderr}`);
+		}
+
+		const uri: string = texture.getURI();
+		texture
+			.setImage(new Uint8Array(await Bun.file(outputPath).arrayBuffer()))
+			.setMimeType('image/ktx2')
+			.setURI(uri ? uri.replace(/\.[^./]+$/, '.ktx2') : uri);
+	});
+}
+
+/** Mark WebP/AVIF/KTX2 texture extensions as required when used, and drop them otherwise. */
+function attachTextureExtensions(document: Document): void {
+	const textures: Texture[] = document.getRoot().listTextures();
+	const extensions: [Extension, string][] = [
+		[document.createExtension(EXTTextureWebP), 'image/webp'],
+		[document.createExtension(EXTTextureAVIF), 'image/avif'],
+		[document.createExtension(KHRTextureBasisu), 'image/ktx2'],
+	];
+	for (const [extension, mimeType] of extensions) {
+		if (textures.some((texture) => texture.getMimeType() === mimeType)) extension.setRequired(true);
+		else extension.dispose();
+	}
+}
@@ -0,0 +1,416 @@
+import { expect, test } from 'bun:test';
+import { type AnimationSampler, Document, type GLTF, type Node, type Primitive } from '@gltf-transform/core';
+import { unweld } from '@gltf-transform/functions';
+import { MeshoptEncoder, MeshoptSimplifier } from 'meshoptimizer';
+import { frames, gridDocument, skinnedDocument, type TranslationClip, translationDocument } from '../test/fixtures';
+import {
+	type DecimateOptions,
+	type DecimationReport,
+	decimateBloatedMeshes,
+	type JoinSkinnedReport,
+	joinSkinned,
+	type MergeByDistanceOptions,
+	type MergeByDistanceReport,
+	mergeByDistance,
+	type NormalizeWeightsReport,
+	type ResampleReport,
+	reorderSkinned,
+	resampleAnimations,
+} from './transforms';
+import { CompressionCancelledError } from './utils';
+
+/** A document with one translation sampler over `times`, with `value(t)` on the X axis. */
+function track(
+	times: number[],
+	value: (t: number) => number,
+	interpolation?: GLTF.AnimationSamplerInterpolation,
+): { doc: Document; sampler: AnimationSampler } {
+	const clip: TranslationClip = { name: 'move', times, value: (t) => [value(t), 0, 0], interpolation };
+	const { doc, samplers } = translationDocument([clip]);
+	const [sampler] = samplers;
+	if (!sampler) throw new Error('No sampler');
+	return { doc, sampler };
+}
+
+/** Run {@link resampleAnimations} and return its report and the sampler's keyframe times. */
+async function resample(
+	doc: Document,
+	sampler: AnimationSampler,
+	fps?: number,
+): Promise<{ report: ResampleReport; times: number[] }> {
+	let report: ResampleReport | undefined;
+	await doc.transform(
+		resampleAnimations(fps === undefined ? {} : { fps }, (r) => {
+			report = r;
+		}),
+	);
+	if (!report) throw new Error('No report');
+	return { report, times: Array.from(sampler.getInput()?.getArray() ?? []) };
+}
+
+test('a 60 fps track is resampled to at most the target rate', async () => {
+	const { doc, sampler } = track(frames(121, 2), (t) => Math.sin(t * 7));
+	const { report, times } = await resample(doc, sampler, 15);
+	expect(report.keyframesBefore).toBe(121);
+	expect(report.keyframesAfter).toBe(times.length);
+	expect(times.length).toBeLessThanOrEqual(31);
+	expect(times[0]).toBe(0);
+	expect(times.at(-1)).toBeCloseTo(2);
+});
+
+test('the default rate is 30 fps', async () => {
+	const { doc, sampler } = track(frames(121, 2), (t) => Math.sin(t * 7));
+	const { times } = await resample(doc, sampler);
+	expect(times.length).toBeGreaterThan(31);
+	expect(times.length).toBeLessThanOrEqual(61);
+});
+
+test('keyframes that linear interpolation reproduces are removed', async () => {
+	const { doc, sampler } = track(frames(61, 1), (t) => t * 3);
+	const { report, times } = await resample(doc, sampler);
+	expect(report.samplers).toBe(1);
+	expect(times).toEqual([0, 1]);
+});
+
+test('sparse tracks are not upsampled', async () => {
+	const { doc, sampler } = track(frames(6, 1), (t) => Math.sin(t * 9));
+	const { report } = await resample(doc, sampler, 30);
+	expect(report.keyframesAfter).toBe(6);
+	expect(report.samplers).toBe(0);
+});
+
+test('fps 0 keeps the source keyframe times', async () => {
+	const source: number[] = frames(121, 2);
+	const { doc, sampler } = track(source, (t) => Math.sin(t * 7));
+	const { times } = await resample(doc, sampler, 0);
+	expect(times.every((t) => source.some((s) => Math.abs(s - t) < 1e-6))).toBe(true);
+	expect(times.length).toBeGreaterThan(61);
+});
+
+test('repeated STEP keyframes are removed', async () => {
+	const { doc, sampler } = track([0, 0.5, 1, 1.5, 2], (t) => (t < 1 ? 0 : 1), 'STEP');
+	const { times } = await resample(doc, sampler);
+	expect(times).toEqual([0, 1, 2]);
+});
+
+/** Run {@link joinSkinned} and return the number of primitives joined. */
+async function join(doc: Document): Promise<number> {
+	let report: JoinSkinnedReport | undefined;
+	await doc.transform(
+		joinSkinned((r) => {
+			report = r;
+		}),
+	);
+	if (!report) throw new Error('No report');
+	return report.joined;
+}
+
+/** X coordinates of a node's mesh vertices, in order. */
+function positionsX(node: Node | undefined): number[] {
+	const position = node?.getMesh()?.listPrimitives()[0]?.getAttribute('POSITION')?.getArray();
+	return Array.from(position ?? []).filter((_, i) => i % 3 === 0);
+}
+
+test('skinned primitives sharing a skin and material are joined into the first mesh', async () => {
+	const { doc, skin, parts } = skinnedDocument(['skin', 'skin', 'cloth']);
+	expect(await join(doc)).toBe(1);
+
+	const [first, second, third] = parts;
+	expect(first?.getMesh()?.listPrimitives()).toHaveLength(1);
+	// Vertices keep their positions: the skin deforms them, not the node
+	expect(positionsX(first).sort()).toEqual([0, 0, 1, 1, 1, 2]);
+	expect(second?.getMesh()).toBeNull();
+	expect(second?.getSkin()).toBeNull();
+	expect(third?.getMesh()?.listPrimitives()).toHaveLength(1);
+	expect(third?.getSkin()).toBe(skin);
+	expect(doc.getRoot().listMeshes()).toHaveLength(2);
+});
+
+test('primitives with morph targets or on shared meshes are not joined', async () => {
+	const morphed = skinnedDocument(['skin', 'skin']);
+	const target = morphed.doc.createPrimitiveTarget();
+	morphed.parts[1]?.getMesh()?.listPrimitives()[0]?.addTarget(target);
+	expect(await join(morphed.doc)).toBe(0);
+
+	const shared = skinnedDocument(['skin', 'skin']);
+	const mesh = shared.parts[1]?.getMesh() ?? null;
+	shared.doc.getRoot().listScenes()[0]?.addChild(shared.doc.createNode('copy').setMesh(mesh));
+	expect(await join(shared.doc)).toBe(0);
+});
+
+test('reorderSkinned renormalizes weights that no longer sum to one', async () => {
+	await MeshoptEncoder.ready;
+	const { doc, parts } = skinnedDocument(['skin']);
+	const weights = parts[0]?.getMesh()?.listPrimitives()[0]?.getAttribute('WEIGHTS_0');
+	weights?.setArray(new Float32Array([0.5, 0.25, 0, 0, 0.5, 0.5, 0, 0, 0.25, 0.25, 0, 0]));
+
+	let report: NormalizeWeightsReport | undefined;
+	await doc.transform(
+		reorderSkinned(MeshoptEncoder, (r) => {
+			report = r;
+		}),
+	);
+	expect(report).toEqual({ normalized: 2 });
+	const sums: number[] = [0, 1, 2].map((vertex) =>
+		Array.from(weights?.getArray()?.subarray(vertex * 4, vertex * 4 + 4) ?? []).reduce((a, b) => a + b, 0),
+	);
+	expect(sums.map((sum) => sum.toFixed(6))).toEqual(['1.000000', '1.000000', '1.000000']);
+});
+
+/** One vertex of {@link soupDocument}: a position and optional attributes. */
+interface SoupVertex {
+	position: [number, number, number];
+	normal?: [number, number, number];
+	uv?: [number, number];
+	joints?: [number, number, number, number];
+}
+
+/** A document with one indexed primitive drawing `vertices` as unshared triangles. */
+function soupDocument(vertices: SoupVertex[]): { doc: Document; prim: Primitive } {
+	const doc = new Document();
+	const buffer = doc.createBuffer();
+	const accessor = (type: GLTF.AccessorType, values: number[]) =>
+		doc.createAccessor().setType(type).setArray(new Float32Array(values)).setBuffer(buffer);
+	const prim = doc
+		.createPrimitive()
+		.setAttribute(
+			'POSITION',
+			accessor(
+				'VEC3',
+				vertices.flatMap((vertex) => vertex.position),
+			),
+		)
+		.setIndices(
+			doc
+				.createAccessor()
+				.setType('SCALAR')
+				.setArray(new Uint32Array(vertices.map((_, i) => i)))
+				.setBuffer(buffer),
+		);
+	if (vertices.every((vertex) => vertex.normal)) {
+		prim.setAttribute(
+			'NORMAL',
+			accessor(
+				'VEC3',
+				vertices.flatMap((vertex) => vertex.normal ?? []),
+			),
+		);
+	}
+	if (vertices.every((vertex) => vertex.uv)) {
+		prim.setAttribute(
+			'TEXCOORD_0',
+			accessor(
+				'VEC2',
+				vertices.flatMap((vertex) => vertex.uv ?? []),
+			),
+		);
+	}
+	if (vertices.every((vertex) => vertex.joints)) {
+		prim.setAttribute(
+			'JOINTS_0',
+			doc
+				.createAccessor()
+				.setType('VEC4')
+				.setArray(new Uint16Array(vertices.flatMap((vertex) => vertex.joints ?? [])))
+				.setBuffer(buffer),
+		);
+		prim.setAttribute(
+			'WEIGHTS_0',
+			accessor(
+				'VEC4',
+				vertices.flatMap(() => [1, 0, 0, 0]),
+			),
+		);
+	}
+	doc.createScene().addChild(doc.createNode('soup').setMesh(doc.createMesh('soup').addPrimitive(prim)));
+	return { doc, prim };
+}
+
+/** Run {@link mergeByDistance} and return its report. */
+async function merge(
+	doc: Document,
+	tolerance?: number,
+	options?: MergeByDistanceOptions,
+	signal?: AbortSignal,
+): Promise<MergeByDistanceReport> {
+	let report: MergeByDistanceReport | undefined;
+	await doc.transform(
+		mergeByDistance(
+			tolerance,
+			(r) => {
+				report = r;
+			},
+			signal,
+			options,
+		),
+	);
+	if (!report) throw new Error('No report');
+	return report;
+}
+
+/** Two triangles meeting along the edge x = 1, whose shared corners are given by `left` and `right`. */
+function seam(left: Omit<SoupVertex, 'position'>, right: Omit<SoupVertex, 'position'>, gap: number = 0): SoupVertex[] {
+	return [
+		{ ...left, position: [0, 0, 0] },
+		{ ...left, position: [1, 0, 0] },
+		{ ...left, position: [1, 1, 0] },
+		{ ...right, position: [1 + gap, 0, 0] },
+		{ ...right, position: [2, 0, 0] },
+		{ ...right, position: [1 + gap, 1, 0] },
+	];
+}
+
+test('vertices within the merge distance are merged and the indices remapped', async () => {
+	const { doc, prim } = soupDocument(seam({}, {}, 0.00005));
+	expect(await merge(doc)).toEqual({ removed: 2, seamsPreserved: 0, seamsMerged: 0 });
+	expect(prim.getAttribute('POSITION')?.getCount()).toBe(4);
+	expect(Array.from(prim.getIndices()?.getArray() ?? [])).toEqual([0, 1, 2, 1, 3, 2]);
+
+	const apart = soupDocument(seam({}, {}, 0.001));
+	expect((await merge(apart.doc)).removed).toBe(0);
+	expect((await merge(apart.doc, 0.01)).removed).toBe(2);
+});
+
+test('vertices on both sides of a grid cell boundary are merged', async () => {
+	const { doc } = soupDocument([
+		{ position: [0.99999e-4, 0, 0] },
+		{ position: [1, 0, 0] },
+		{ position: [0, 1, 0] },
+		{ position: [1.00001e-4, 0, 0] },
+		{ position: [2, 0, 0] },
+		{ position: [0, 2, 0] },
+	]);
+	expect((await merge(doc)).removed).toBe(1);
+});
+
+test('by default seams collapse and are counted', async () => {
+	const { doc, prim } = soupDocument(seam({ uv: [0, 0] }, { uv: [0.5, 0] }));
+	expect(await merge(doc)).toEqual({ removed: 2, seamsPreserved: 0, seamsMerged: 2 });
+	// The kept vertex's UV wins
+	expect(Array.from(prim.getAttribute('TEXCOORD_0')?.getArray() ?? [])).toEqual([0, 0, 0, 0, 0, 0, 0.5, 0]);
+});
+
+test('attribute tolerances keep hard edges and UV seams', async () => {
+	const hard = soupDocument(seam({ normal: [0, 0, 1] }, { normal: [1, 0, 0] }));
+	expect(await merge(hard.doc, undefined, { normalAngle: 30 })).toEqual({
+		removed: 0,
+		seamsPreserved: 2,
+		seamsMerged: 0,
+	});
+	const soft = soupDocument(seam({ normal: [0, 0, 1] }, { normal: [0, Math.sin(0.1), Math.cos(0.1)] }));
+	expect(await merge(soft.doc, undefined, { normalAngle: 30 })).toEqual({
+		removed: 2,
+		seamsPreserved: 0,
+		seamsMerged: 2,
+	});
+
+	const uvSeam = soupDocument(seam({ uv: [0, 0] }, { uv: [0.5, 0] }));
+	expect((await merge(uvSeam.doc, undefined, { uvTolerance: 0.01 })).seamsPreserved).toBe(2);
+	const uvClose = soupDocument(seam({ uv: [0, 0] }, { uv: [0.005, 0] }));
+	expect((await merge(uvClose.doc, undefined, { uvTolerance: 0.01 })).removed).toBe(2);
+});
+
+test('matchSkin keeps vertices bound to different joints apart', async () => {
+	const vertices: SoupVertex[] = seam({ joints: [0, 0, 0, 0] }, { joints: [1, 0, 0, 0] });
+	expect((await merge(soupDocument(vertices).doc)).removed).toBe(2);
+	expect(await merge(soupDocument(vertices).doc, undefined, { matchSkin: true })).toEqual({
+		removed: 0,
+		seamsPreserved: 2,
+		seamsMerged: 0,
+	});
+});
+
+test('primitives with morph targets or without indices are left alone', async () => {
+	const morphed = soupDocument(seam({}, {}));
+	morphed.prim.addTarget(morphed.doc.createPrimitiveTarget());
+	expect((await merge(morphed.doc)).removed).toBe(0);
+
+	const unindexed = soupDocument(seam({}, {}));
+	unindexed.prim.setIndices(null);
+	expect((await merge(unindexed.doc)).removed).toBe(0);
+});
+
+test('an aborted signal stops mergeByDistance', async () => {
+	const abort = new AbortController();
+	abort.abort();
+	await expect(merge(soupDocument(seam({}, {})).doc, undefined, {}, abort.signal)).rejects.toThrow(
+		CompressionCancelledError,
+	);
+});
+
+/** Run {@link decimateBloatedMeshes} with a 2000-vertex threshold and return its report. */
+async function decimate(doc: Document, options?: DecimateOptions, signal?: AbortSignal): Promise<DecimationReport> {
+	let report: DecimationReport | undefined;
+	await doc.transform(
+		decimateBloatedMeshes(
+			2000,
+			0.5,
+			MeshoptSimplifier,
+			(r) => {
+				report = r;
+			},
+			signal,
+			options,
+		),
+	);
+	if (!report) throw new Error('No report');
+	return report;
+}
+
+/** A flat 50×50 grid with a UV seam down the middle: triangles left and right of x = 0.5 use different UV islands. */
+async function seamedGrid(): Promise<Document> {
+	const doc: Document = gridDocument(50, { flat: true });
+	await doc.transform(unweld());
+	const prim = doc.getRoot().listMeshes()[0]?.listPrimitives()[0];
+	const positions = prim?.getAttribute('POSITION')?.getArray() ?? new Float32Array();
+	const uv = new Float32Array((positions.length / 3) * 2);
+	for (let triangle = 0; triangle < positions.length / 9; triangle++) {
+		const centroidX: number = [0, 3, 6].reduce((sum, k) => sum + (positions[triangle * 9 + k] ?? 0), 0) / 3;
+		uv.fill(centroidX < 0.5 ? 0 : 1, triangle * 6, triangle * 6 + 6);
+	}
+	const buffer = doc.getRoot().listBuffers()[0] ?? null;
+	prim?.setAttribute('TEXCOORD_0', doc.createAccessor().setType('VEC2').setArray(uv).setBuffer(buffer));
+	return doc;
+}
+
+test('primitives over the threshold are decimated towards a ratio of their size', async () => {
+	const report = await decimate(gridDocument(50, { flat: true }));
+	expect(report.ratio).toBeCloseTo(0.4);
+	expect(report.excluded).toEqual([]);
+	const [grid] = report.meshes;
+	expect(grid).toMatchObject({ mesh: 'grid', verts: 2500, targetVerts: 1000, locked: 0 });
+	expect(grid?.resultVerts).toBeLessThan(1250);
+	expect(grid?.error).toBeLessThanOrEqual(0.01);
+});
+
+test('primitives under the threshold are left alone', async () => {
+	expect(await decimate(gridDocument(40))).toEqual({ meshes: [], ratio: null, excluded: [] });
+});
+
+test('the error budget stops decimation early', async () => {
+	const [grid] = (await decimate(gridDocument(50), { maxError: 0.0001 })).meshes;
+	expect(grid?.resultVerts).toBeGreaterThan(grid?.targetVerts ?? 0);
+	expect(grid?.error).toBeLessThanOrEqual(0.0001);
+});
+
+test('include and exclude patterns filter meshes by mesh or node name', async () => {
+	expect((await decimate(gridDocument(50, { flat: true }), { exclude: ['gr*'] })).excluded).toEqual(['grid']);
+	expect((await decimate(gridDocument(50, { flat: true }), { include: ['rock'] })).excluded).toEqual(['grid']);
+	expect((await decimate(gridDocument(50, { flat: true }), { include: ['g?id'] })).meshes).toHaveLength(1);
+});
+
+test('protectSeams locks vertices split along UV seams', async () => {
+	const [free] = (await decimate(await seamedGrid())).meshes;
+	const [protectedGrid] = (await decimate(await seamedGrid(), { protectSeams: true })).meshes;
+	expect(free?.locked).toBe(0);
+	// Both copies of the 50 vertices on the seam
+	expect(protectedGrid?.locked).toBe(100);
+	expect(protectedGrid?.resultVerts).toBeGreaterThanOrEqual(100);
+	expect(protectedGrid?.resultVerts).toBeLessThan(protectedGrid?.verts ?? 0);
+});
+
+test('an aborted signal stops decimateBloatedMeshes', async () => {
+	const abort = new AbortController();
+	abort.abort();
+	await expect(decimate(gridDocument(50), {}, abort.signal)).rejects.toThrow(CompressionCancelledError);
+});
@@ -6,28 +6,48 @@
  * with operations specifically tuned for avatar and game-asset workflows:
  *
  * - **Geometry**: spatial vertex dedup, degenerate face removal, bloat detection
- * - **Animation**: global-consensus static track removal
+ * - **Skinning**: skin-safe primitive joining and vertex reordering
+ * - **Animation**: fixed-rate resampling with per-path keyframe reduction, global-consensus static track removal
  * - **Validation**: bone weight normalization, unused UV cleanup
  * - **Diagnostics**: mesh complexity and animation statistics
  *
  * @module transforms
  */
 
-import type {
-	Accessor,
-	Animation,
-	AnimationChannel,
-	AnimationSampler,
-	Document,
-	GLTF,
-	Mesh,
-	Node,
-	TextureInfo,
-	Transform,
-	TypedArray,
+import {
+	type Accessor,
+	type Animation,
+	type AnimationChannel,
+	type AnimationSampler,
+	type Document,
+	type GLTF,
+	type Mesh,
+	type Node,
+	type Primitive,
+	PropertyType,
+	type Skin,
+	type TextureInfo,
+	type Transform,
+	type TypedArray,
 } from '@gltf-transform/core';
 import * as transform from '@gltf-transform/functions';
-import type { MeshoptSimplifier as MeshoptSimplifierType } from 'meshoptimizer';
+import type { MeshoptEncoder as MeshoptEncoderType, MeshoptSimplifier as MeshoptSimplifierType } from 'meshoptimizer';
+import {
+	ANIMATION_FPS,
+	RESAMPLE_ROTATION_TOLERANCE,
+	RESAMPLE_SCALE_TOLERANCE,
+	RESAMPLE_TRANSLATION_TOLERANCE,
+	RESAMPLE_WEIGHTS_TOLERANCE,
+} from './constants';
+import {
+	interpolateKeyframe,
+	type Keyframes,
+	keyframeRow,
+	readKeyframes,
+	sampleKeyframes,
+	writeKeyframes,
+} from './keyframes';
+import { checkCancelled } from './utils';
 
 /** Index into a `TypedArray`, asserting the value is defined.
  *
@@ -39,57 +59,143 @@ function at(arr: TypedArray | number[], i: number): number {
 	return v;
 }
 
+/** Result reported by {@link mergeByDistance}. */
+export interface MergeByDistanceReport {
+	/** Number of duplicate vertices collapsed across all primitives. */
+	removed: number;
+	/**
+	 * Vertices kept although a vertex lies within the merge distance, because
+	 * their normals, UVs, colors, or skinning differ beyond the tolerances.
+	 */
+	seamsPreserved: number;
+	/** Merged vertices whose normals, UVs, or colors differed (within the tolerances) from the kept vertex. */
+	seamsMerged: number;
+}
+
+/** Options for {@link mergeByDistance}. Attributes without a tolerance are ignored. */
+export interface MergeByDistanceOptions {
+	/**
+	 * Only merge vertices whose `JOINTS_n` and `WEIGHTS_n` values are also
+	 * identical, so merged vertices keep deforming together (skinned models).
+	 * @default false
+	 */
+	matchSkin?: boolean;
+	/** Largest angle between two `NORMAL`s, in degrees, for their vertices to merge (hard edges are kept). */
+	normalAngle?: number;
+	/** Largest distance between two `TEXCOORD_n` values for their vertices to merge (UV seams are kept). */
+	uvTolerance?: number;
+	/** Largest per-channel difference between two `COLOR_n` values (in `0..1`) for their vertices to merge. */
+	colorTolerance?: number;
+}
+
+/** Vertex attribute compared by {@link mergeByDistance}, decoded to floats. */
+interface MergeAttribute {
+	array: TypedArray;
+	size: number;
+	/** Whether two elements are close enough to merge. */
+	matches: (a: number, b: number) => boolean;
+}
+
 /**
  * Merge vertices by position within a distance tolerance (like Blender's "Merge by Distance").
  *
- * Unlike glTF-Transform's `weld()`, this only compares **positions**, ignoring
- * normals and UVs. Vertices whose quantized positions match are collapsed into a
- * single vertex, and all attributes (normals, UVs, colors, etc.) are compacted
- * accordingly. The index buffer is remapped to reference the deduplicated vertices.
+ * Unlike glTF-Transform's `weld()`, vertices need not be identical: every
+ * vertex is merged into the nearest earlier vertex within `tolerance` (a true
+ * distance search over a grid of `tolerance`-sized cells, so pairs straddling a
+ * cell boundary are found too). By default only positions are compared, which
+ * collapses UV seams and hard edges; set `options.normalAngle`,
+ * `options.uvTolerance`, and `options.colorTolerance` to keep vertices whose
+ * attributes differ. The kept vertex's attributes win, all attributes are
+ * compacted accordingly, and the index buffer is remapped.
  *
- * Best suited for static (non-skinned) meshes — merging skinned vertices can
- * break weight assignments.
+ * Merging skinned vertices by position alone can break weight assignments
+ * (e.g. two seams of a mouth bound to different jaw joints); set
+ * `options.matchSkin` to merge only vertices that are skinned identically.
+ * Primitives with morph targets are skipped, as their targets are not compacted.
  *
  * @param tolerance - Maximum distance between two positions to consider them identical.
- *                    Internally converted to a spatial-hash precision of `1 / tolerance`.
- * @returns A glTF-Transform `Transform` function.
+ * @param onReport  - Optional callback receiving the merge statistics.
+ * @param signal    - Optional cancellation signal, checked before each primitive.
+ * @param options   - Skin matching and attribute tolerances.
+ * @returns A glTF-Transform `Transform` function (async).
+ * @throws {CompressionCancelledError} If `signal` is aborted.
  */
-export function mergeByDistance(tolerance = 0.0001): Transform {
-	return (doc: Document): void => {
-		const precision: number = 1 / tolerance;
+export function mergeByDistance(
+	tolerance = 0.0001,
+	onReport?: (report: MergeByDistanceReport) => void,
+	signal?: AbortSignal,
+	options: MergeByDistanceOptions = {},
+): Transform {
+	return async (doc: Document): Promise<void> => {
+		const maxDistanceSq: number = tolerance * tolerance;
 		let totalRemoved: number = 0;
+		let seamsPreserved: number = 0;
+		let seamsMerged: number = 0;
 
 		for (const mesh of doc.getRoot().listMeshes()) {
 			for (const prim of mesh.listPrimitives()) {
+				await checkCancelled(signal);
 				const posAccessor: Accessor | null = prim.getAttribute('POSITION');
 				const indicesAccessor: Accessor | null = prim.getIndices();
-				if (!posAccessor || !indicesAccessor) continue;
+				if (!posAccessor || !indicesAccessor || prim.listTargets().length > 0) continue;
 
 				const positions: TypedArray | null = posAccessor.getArray();
 				const indices: TypedArray | null = indicesAccessor.getArray();
 				if (!positions || !indices) continue;
 
+				const { compared, required } = mergeAttributes(prim, options);
+
 				const vertCount: number = positions.length / 3;
-				const vertexMap = new Map<string, number>();
+				const cells = new Map<number, number[]>();
 				const remap = new Uint32Array(vertCount);
 				const newToOld: number[] = [];
 
-				// Build spatial hash - map position to canonical vertex index
 				for (let i: number = 0; i < vertCount; i++) {
-					const x: number = Math.round(at(positions, i * 3) * precision);
-					const y: number = Math.round(at(positions, i * 3 + 1) * precision);
-					const z: number = Math.round(at(positions, i * 3 + 2) * precision);
-					const key = `${x},${y},${z}`;
-
-					const existing: number | undefined = vertexMap.get(key);
-					if (existing !== undefined) {
-						remap[i] = existing;
-					} else {
-						const newIdx: number = newToOld.length;
-						vertexMap.set(key, newIdx);
-						newToOld.push(i);
-						remap[i] = newIdx;
+					const x: number = at(positions, i * 3);
+					const y: number = at(positions, i * 3 + 1);
+					const z: number = at(positions, i * 3 + 2);
+					const cx: number = Math.floor(x / tolerance);
+					const cy: number = Math.floor(y / tolerance);
+					const cz: number = Math.floor(z / tolerance);
+
+					// Nearest kept vertex within tolerance whose attributes match, in this or a neighboring cell
+					let target: number = -1;
+					let targetDistanceSq: number = Infinity;
+					let nearby: boolean = false;
+					for (let dx: number = -1; dx <= 1; dx++) {
+						for (let dy: number = -1; dy <= 1; dy++) {
+							for (let dz: number = -1; dz <= 1; dz++) {
+								for (const candidate of cells.get(cellHash(cx + dx, cy + dy, cz + dz)) ?? []) {
+									const old: number = at(newToOld, candidate);
+									const distanceSq: number =
+										(at(positions, old * 3) - x) ** 2 +
+										(at(positions, old * 3 + 1) - y) ** 2 +
+										(at(positions, old * 3 + 2) - z) ** 2;
+									if (distanceSq > maxDistanceSq || distanceSq >= targetDistanceSq) continue;
+									nearby = true;
+									if (required.every((attr) => attr.matches(old, i))) {
+										target = candidate;
+										targetDistanceSq = distanceSq;
+									}
+								}
+							}
+						}
+					}
+
+					if (target >= 0) {
+						remap[i] = target;
+						const old: number = at(newToOld, target);
+						if (!compared.every((attr) => sameElements(attr.array, attr.size, old, i))) seamsMerged++;
+						continue;
 					}
+					if (nearby) seamsPreserved++;
+					const newIdx: number = newToOld.length;
+					newToOld.push(i);
+					remap[i] = newIdx;
+					const hash: number = cellHash(cx, cy, cz);
+					const cell: number[] | undefined = cells.get(hash);
+					if (cell) cell.push(newIdx);
+					else cells.set(hash, [newIdx]);
 				}
 
 				const removed: number = vertCount - newToOld.length;
@@ -127,72 +233,325 @@ export function mergeByDistance(tolerance = 0.0001): Transform {
 			}
 		}
 
-		if (totalRemoved > 0) {
-			console.log(`  mergeByDistance: removed ${totalRemoved} duplicate vertices`);
+		if (totalRemoved > 0 || seamsPreserved > 0) {
+			console.log(
+				`  mergeByDistance: removed ${totalRemoved} duplicate vertices (${seamsPreserved} seam vertices preserved, ${seamsMerged} merged)`,
+			);
 		}
+		onReport?.({ removed: totalRemoved, seamsPreserved, seamsMerged });
 	};
 }
 
+/** Hash of a grid cell; collisions only add candidates, which are then rejected by distance. */
+function cellHash(x: number, y: number, z: number): number {
+	return Math.imul(x, 73856093) ^ Math.imul(y, 19349663) ^ Math.imul(z, 83492791);
+}
+
+/**
+ * Attributes of a primitive that {@link mergeByDistance} looks at: `compared`
+ * are the normals, UVs, and colors (seams are counted on them), `required`
+ * those that must match for two vertices to merge.
+ */
+function mergeAttributes(
+	prim: Primitive,
+	options: MergeByDistanceOptions,
+): { compared: MergeAttribute[]; required: MergeAttribute[] } {
+	const compared: MergeAttribute[] = [];
+	const required: MergeAttribute[] = [];
+	const minCos: number = Math.cos(((options.normalAngle ?? 180) * Math.PI) / 180) - 1e-6;
+
+	for (const semantic of prim.listSemantics()) {
+		const accessor: Accessor | null = prim.getAttribute(semantic);
+		if (!accessor) continue;
+		if (semantic.startsWith('JOINTS_') || semantic.startsWith('WEIGHTS_')) {
+			if (!options.matchSkin) continue;
+			const { array, size } = floatElements(accessor);
+			required.push({ array, size, matches: (a, b) => sameElements(array, size, a, b) });
+			continue;
+		}
+
+		let tolerance: number | undefined;
+		if (semantic === 'NORMAL') tolerance = options.normalAngle;
+		else if (semantic.startsWith('TEXCOORD_')) tolerance = options.uvTolerance;
+		else if (semantic.startsWith('COLOR_')) tolerance = options.colorTolerance;
+		else continue;
+
+		const { array, size } = floatElements(accessor);
+		const limit: number = tolerance ?? 0;
+		let matches: (a: number, b: number) => boolean;
+		if (semantic === 'NORMAL') {
+			matches = (a, b) => {
+				let dot: number = 0;
+				let lengthA: number = 0;
+				let lengthB: number = 0;
+				for (let j: number = 0; j < size; j++) {
+					const va: number = at(array, a * size + j);
+					const vb: number = at(array, b * size + j);
+					dot += va * vb;
+					lengthA += va * va;
+					lengthB += vb * vb;
+				}
+				return dot >= minCos * Math.sqrt(lengthA * lengthB);
+			};
+		} else if (semantic.startsWith('TEXCOORD_')) {
+			matches = (a, b) => {
+				let distanceSq: number = 0;
+				for (let j: number = 0; j < size; j++) distanceSq += (at(array, a * size + j) - at(array, b * size + j)) ** 2;
+				return distanceSq <= limit * limit;
+			};
+		} else {
+			matches = (a, b) => {
+				for (let j: number = 0; j < size; j++) {
+					if (Math.abs(at(array, a * size + j) - at(array, b * size + j)) > limit) return false;
+				}
+				return true;
+			};
+		}
+
+		const attr: MergeAttribute = { array, size, matches };
+		compared.push(attr);
+		if (tolerance !== undefined) required.push(attr);
+	}
+	return { compared, required };
+}
+
+/** An accessor's elements as floats, denormalizing normalized integers. */
+function floatElements(accessor: Accessor): { array: Float32Array<ArrayBuffer>; size: number } {
+	const size: number = accessor.getElementSize();
+	const array = new Float32Array(accessor.getCount() * size);
+	const element: number[] = [];
+	for (let i: number = 0; i < accessor.getCount(); i++) {
+		accessor.getElement(i, element);
+		array.set(element, i * size);
+	}
+	return { array, size };
+}
+
+/** Whether elements `a` and `b` of a flat attribute array are identical. */
+function sameElements(array: TypedArray, size: number, a: number, b: number): boolean {
+	for (let j: number = 0; j < size; j++) {
+		if (array[a * size + j] !== array[b * size + j]) return false;
+	}
+	return true;
+}
+
+/** A single over-threshold primitive decimated by {@link decimateBloatedMeshes}. */
+export interface DecimatedMesh {
+	/** Mesh name (or `"unnamed"`). */
+	mesh: string;
+	/** Vertex count before decimation. */
+	verts: number;
+	/** Vertex count the decimation aimed for. */
+	targetVerts: number;
+	/** Vertex count after decimation (above `targetVerts` when the error budget stopped it). */
+	resultVerts: number;
+	/** Index ratio this primitive was simplified towards. */
+	ratio: number;
+	/** Simplification error reached, relative to the primitive's bounding-box diagonal. */
+	error: number;
+	/** Seam vertices locked in place (see {@link DecimateOptions.protectSeams}). */
+	locked: number;
+}
+
+/** Result reported by {@link decimateBloatedMeshes}. */
+export interface DecimationReport {
+	/** Primitives that exceeded the threshold and were decimated. Empty if nothing was decimated. */
+	meshes: DecimatedMesh[];
+	/** Smallest ratio applied to a primitive, or `null` if skipped. */
+	ratio: number | null;
+	/** Over-threshold meshes left alone by {@link DecimateOptions.include}/{@link DecimateOptions.exclude}. */
+	excluded: string[];
+}
+
+/** Options for {@link decimateBloatedMeshes}. */
+export interface DecimateOptions {
+	/** Largest simplification error, relative to each primitive's bounding-box diagonal. @default 0.01 */
+	maxError?: number;
+	/** Keep vertices on open mesh borders in place. @default false */
+	lockBorder?: boolean;
+	/**
+	 * Keep seam vertices in place: vertices split at the same position because
+	 * their UVs or normals differ, so UV seams and hard edges do not tear.
+	 * @default false
+	 */
+	protectSeams?: boolean;
+	/**
+	 * Only decimate meshes whose name, or the name of a node using them,
+	 * matches one of these patterns (`*` and `?` wildcards). Empty: every mesh.
+	 */
+	include?: string[];
+	/** Never decimate meshes whose name, or the name of a node using them, matches one of these patterns. */
+	exclude?: string[];
+}
+
 /**
  * Auto-decimate meshes that exceed a vertex-count threshold.
  *
- * Scans every mesh primitive and identifies those with more vertices than
- * `threshold`. If any are found, applies meshoptimizer simplification with an
- * adaptive ratio derived from the worst offender's vertex count.
+ * Each TRIANGLES primitive with more vertices than `threshold` is simplified
+ * on its own with meshoptimizer, towards a ratio derived from its own vertex
+ * count (`targetRatio * threshold / verts`, clamped to `[0.1, 0.8]`); smaller
+ * primitives are left untouched. Simplification stops early once the error
+ * reaches `options.maxError` of the primitive's bounding-box diagonal, so
+ * large and small meshes get the same relative budget.
  *
  * @param threshold   - Vertex count above which a mesh is considered "bloated".
  * @param targetRatio - Desired vertex reduction factor (0.5 = target 50% of threshold).
  * @param simplifier  - The meshoptimizer `MeshoptSimplifier` WASM module instance.
+ * @param onReport    - Optional callback receiving the decimated primitives and their ratios.
+ * @param signal      - Optional cancellation signal, checked before each primitive.
+ * @param options     - Error budget, border and seam protection, and mesh name filters.
  * @returns A glTF-Transform `Transform` function (async).
+ * @throws {CompressionCancelledError} If `signal` is aborted.
  */
 export function decimateBloatedMeshes(
 	threshold = 2000,
 	targetRatio = 0.5,
 	simplifier: typeof MeshoptSimplifierType,
+	onReport?: (report: DecimationReport) => void,
+	signal?: AbortSignal,
+	options: DecimateOptions = {},
 ): Transform {
 	return async (doc: Document): Promise<void> => {
-		const dominated: Array<{
-			mesh: string;
-			verts: number;
-			targetVerts: number;
-		}> = [];
+		const { maxError = 0.01, lockBorder = false, protectSeams = false } = options;
+		const include: RegExp[] = (options.include ?? []).map(namePattern);
+		const exclude: RegExp[] = (options.exclude ?? []).map(namePattern);
+		const decimated: DecimatedMesh[] = [];
+		const excluded: string[] = [];
 
 		for (const mesh of doc.getRoot().listMeshes()) {
-			for (const prim of mesh.listPrimitives()) {
-				const posAccessor: Accessor | null = prim.getAttribute('POSITION');
-				if (!posAccessor) continue;
-
-				const vertCount: number = posAccessor.getCount();
-				if (vertCount > threshold) {
-					const targetVerts: number = Math.floor(threshold * targetRatio);
-					dominated.push({
-						mesh: mesh.getName() || 'unnamed',
-						verts: vertCount,
-						targetVerts,
-					});
-				}
+			const name: string = mesh.getName() || 'unnamed';
+			const prims: Primitive[] = mesh
+				.listPrimitives()
+				.filter((prim) => prim.getMode() === 4 && (prim.getAttribute('POSITION')?.getCount() ?? 0) > threshold);
+			if (prims.length === 0) continue;
+
+			const names: string[] = [
+				mesh.getName(),
+				...mesh
+					.listParents()
+					.filter((parent): parent is Node => parent.propertyType === PropertyType.NODE)
+					.map((node) => node.getName()),
+			];
+			const matches = (patterns: RegExp[]): boolean => patterns.some((re) => names.some((n) => re.test(n)));
+			if ((include.length > 0 && !matches(include)) || matches(exclude)) {
+				excluded.push(name);
+				continue;
 			}
-		}
 
-		if (dominated.length > 0) {
-			console.log(`  decimateBloated: ${dominated.length} mesh(es) exceed ${threshold} verts`);
-			for (const { mesh, verts, targetVerts } of dominated) {
-				console.log(`    ${mesh}: ${verts} -> ~${targetVerts} verts`);
+			await simplifier.ready;
+			for (const prim of prims) {
+				await checkCancelled(signal);
+				if (!prim.getIndices()) transform.weldPrimitive(prim);
+				const verts: number = prim.getAttribute('POSITION')?.getCount() ?? 0;
+				const ratio: number = Math.max(0.1, Math.min(targetRatio * (threshold / verts), 0.8));
+				const result = simplifyPrimitive(prim, ratio, maxError, lockBorder, protectSeams, simplifier);
+				decimated.push({ mesh: name, verts, targetVerts: Math.floor(verts * ratio), ratio, ...result });
 			}
+		}
 
-			// Use glTF-Transform's simplify with aggressive ratio for bloated meshes
-			const ratio: number = targetRatio * (threshold / Math.max(...dominated.map((d): number => d.verts)));
-			await doc.transform(
-				transform.simplify({
-					simplifier,
-					ratio: Math.max(0.1, Math.min(ratio, 0.8)),
-					error: 0.01,
-				}),
-			);
+		if (decimated.length > 0) {
+			console.log(`  decimateBloated: ${decimated.length} primitive(s) exceed ${threshold} verts`);
+			for (const { mesh, verts, resultVerts, ratio } of decimated) {
+				console.log(`    ${mesh}: ${verts} -> ${resultVerts} verts (ratio ${ratio.toFixed(2)})`);
+			}
+		}
+		if (excluded.length > 0) {
+			console.log(`  decimateBloated: left ${excluded.length} filtered mesh(es) alone`);
 		}
+		onReport?.({
+			meshes: decimated,
+			ratio: decimated.length > 0 ? Math.min(...decimated.map((d): number => d.ratio)) : null,
+			excluded,
+		});
 	};
 }
 
+/**
+ * Simplify one indexed TRIANGLES primitive in place (see {@link decimateBloatedMeshes}).
+ *
+ * @returns The resulting vertex count, the relative error reached, and the number of locked seam vertices.
+ */
+function simplifyPrimitive(
+	prim: Primitive,
+	ratio: number,
+	maxError: number,
+	lockBorder: boolean,
+	protectSeams: boolean,
+	simplifier: typeof MeshoptSimplifierType,
+): { resultVerts: number; error: number; locked: number } {
+	const position: Accessor | null = prim.getAttribute('POSITION');
+	const srcIndices: Accessor | null = prim.getIndices();
+	if (!position || !srcIndices) return { resultVerts: position?.getCount() ?? 0, error: 0, locked: 0 };
+	const { array: positions } = floatElements(position);
+	const indices = new Uint32Array(srcIndices.getArray() ?? []);
+	const vertCount: number = positions.length / 3;
+
+	const min: number[] = [Infinity, Infinity, Infinity];
+	const max: number[] = [-Infinity, -Infinity, -Infinity];
+	for (let i: number = 0; i < positions.length; i++) {
+		min[i % 3] = Math.min(at(min, i % 3), at(positions, i));
+		max[i % 3] = Math.max(at(max, i % 3), at(positions, i));
+	}
+	const diagonal: number = Math.hypot(at(max, 0) - at(min, 0), at(max, 1) - at(min, 1), at(max, 2) - at(min, 2));
+
+	// Seam vertices share their position with another vertex (split for a different UV or normal)
+	let lock: Uint8Array | null = null;
+	let locked: number = 0;
+	if (protectSeams) {
+		lock = new Uint8Array(vertCount);
+		const first = new Map<string, number>();
+		for (let i: number = 0; i < vertCount; i++) {
+			const key: string = positions.subarray(i * 3, i * 3 + 3).join(',');
+			const other: number | undefined = first.get(key);
+			if (other === undefined) {
+				first.set(key, i);
+				continue;
+			}
+			locked += lock[other] ? 1 : 2;
+			lock[other] = 1;
+			lock[i] = 1;
+		}
+	}
+
+	const targetCount: number = Math.floor((ratio * indices.length) / 3) * 3;
+	const flags: ('LockBorder' | 'ErrorAbsolute')[] = lockBorder ? ['ErrorAbsolute', 'LockBorder'] : ['ErrorAbsolute'];
+	const [dstIndices, error] = simplifier.simplifyWithAttributes(
+		indices,
+		positions,
+		3,
+		new Float32Array(0),
+		0,
+		[],
+		lock,
+		targetCount,
+		maxError * diagonal,
+		flags,
+	);
+
+	prim.setIndices(srcIndices.clone().setArray(new Uint32Array(dstIndices)));
+	if (srcIndices.listParents().length === 1) srcIndices.dispose();
+	transform.compactPrimitive(prim);
+	const resultVerts: number = prim.getAttribute('POSITION')?.getCount() ?? 0;
+	const dstAccessor: Accessor | null = prim.getIndices();
+	if (dstAccessor && resultVerts <= 65534) dstAccessor.setArray(new Uint16Array(dstAccessor.getArray() ?? []));
+	return { resultVerts, error: diagonal > 0 ? error / diagonal : 0, locked };
+}
+
+/** Anchored regular expression for a name pattern with `*` and `?` wildcards. */
+function namePattern(pattern: string): RegExp {
+	const escaped: string = pattern
+		.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+		.replace(/\*/g, '.*')
+		.replace(/\?/g, '.');
+	return new RegExp(`^${escaped}$`);
+}
+
+/** Result reported by {@link removeUnusedUVs}. */
+export interface UnusedUVsReport {
+	/** Number of `TEXCOORD_N` attributes stripped across all primitives. */
+	removed: number;
+}
+
 /**
  * Remove unused texture coordinates (UV sets not referenced by any material).
  *
@@ -201,9 +560,10 @@ export function decimateBloatedMeshes(
  * attribute whose index is not in the referenced set. Falls back to keeping
  * `TEXCOORD_0` if textures exist but no explicit UV channel is referenced.
  *
+ * @param onReport - Optional callback receiving the number of UV sets removed.
  * @returns A glTF-Transform `Transform` function.
  */
-export function removeUnusedUVs(): Transform {
+export function removeUnusedUVs(onReport?: (report: UnusedUVsReport) => void): Transform {
 	return (doc: Document): void => {
 		let removed: number = 0;
 
@@ -246,57 +606,246 @@ export function removeUnusedUVs(): Transform {
 		if (removed > 0) {
 			console.log(`  removeUnusedUVs: removed ${removed} unused UV set(s)`);
 		}
+		onReport?.({ removed });
 	};
 }
 
+/** Result reported by {@link normalizeWeights}. */
+export interface NormalizeWeightsReport {
+	/** Number of vertices whose weights were rescaled to sum to 1.0. */
+	normalized: number;
+}
+
 /**
  * Normalize bone weights so each vertex's `WEIGHTS_0` components sum to exactly 1.0.
  *
  * Iterates every vertex in every mesh primitive that has a `WEIGHTS_0` attribute.
  * If the weight sum deviates from 1.0 by more than `1e-6`, all components are
  * divided by their sum. This fixes `ACCESSOR_WEIGHTS_NON_NORMALIZED` glTF
- * validation errors that commonly appear after mesh transforms.
+ * validation errors that commonly appear after mesh transforms. Normalized
+ * integer weights (`UNSIGNED_BYTE`/`UNSIGNED_SHORT`) are rescaled to sum to
+ * the type's maximum exactly, the rounding remainder going to the largest weight.
  *
+ * @param onReport - Optional callback receiving the number of vertices fixed.
  * @returns A glTF-Transform `Transform` function.
  */
-export function normalizeWeights(): Transform {
+export function normalizeWeights(onReport?: (report: NormalizeWeightsReport) => void): Transform {
 	return (doc: Document): void => {
 		let normalized: number = 0;
 
 		for (const mesh of doc.getRoot().listMeshes()) {
 			for (const prim of mesh.listPrimitives()) {
-				const weights0: Accessor | null = prim.getAttribute('WEIGHTS_0');
-				if (!weights0) continue;
+				normalized += normalizePrimitiveWeights(prim);
+			}
+		}
 
-				const arr: TypedArray | null = weights0.getArray();
-				if (!arr) continue;
+		if (normalized > 0) {
+			console.log(`  normalizeWeights: fixed ${normalized} vertices`);
+		}
+		onReport?.({ normalized });
+	};
+}
 
-				const elementSize: number = weights0.getElementSize(); // Usually 4
-				const count: number = arr.length / elementSize;
+/** Normalize one primitive's `WEIGHTS_0` (see {@link normalizeWeights}), returning the vertices fixed. */
+function normalizePrimitiveWeights(prim: Primitive): number {
+	const weights0: Accessor | null = prim.getAttribute('WEIGHTS_0');
+	if (!weights0) return 0;
+
+	const arr: TypedArray | null = weights0.getArray();
+	if (!arr) return 0;
+
+	const elementSize: number = weights0.getElementSize(); // Usually 4
+	const count: number = arr.length / elementSize;
+	// Normalized integers sum to the type's maximum (255 or 65535); floats to 1.0
+	const integer: boolean = arr instanceof Uint8Array || arr instanceof Uint16Array;
+	const total: number = arr instanceof Uint8Array ? 255 : arr instanceof Uint16Array ? 65535 : 1;
+	let normalized: number = 0;
+
+	for (let i: number = 0; i < count; i++) {
+		let sum: number = 0;
+		for (let j: number = 0; j < elementSize; j++) {
+			sum += at(arr, i * elementSize + j);
+		}
+		if (sum <= 0 || Math.abs(sum - total) <= (integer ? 0 : 1e-6)) continue;
+
+		let scaled: number = 0;
+		let largest: number = i * elementSize;
+		for (let j: number = 0; j < elementSize; j++) {
+			const k: number = i * elementSize + j;
+			const value: number = (at(arr, k) / sum) * total;
+			arr[k] = integer ? Math.round(value) : value;
+			scaled += at(arr, k);
+			if (at(arr, k) > at(arr, largest)) largest = k;
+		}
+		if (integer) arr[largest] = at(arr, largest) + total - scaled;
+		normalized++;
+	}
 
-				for (let i: number = 0; i < count; i++) {
-					let sum: number = 0;
-					for (let j: number = 0; j < elementSize; j++) {
-						sum += at(arr, i * elementSize + j);
-					}
-					if (sum > 0 && Math.abs(sum - 1.0) > 1e-6) {
-						for (let j: number = 0; j < elementSize; j++) {
-							arr[i * elementSize + j] = at(arr, i * elementSize + j) / sum;
-						}
-						normalized++;
-					}
+	if (normalized > 0) weights0.setArray(arr);
+	return normalized;
+}
+
+/** Result reported by {@link joinSkinned}. */
+export interface JoinSkinnedReport {
+	/** Number of primitives merged into another one (draw calls saved). */
+	joined: number;
+}
+
+/**
+ * Join primitives of skinned meshes that share a skin and a material.
+ *
+ * glTF-Transform's `join()` skips skinned nodes. A skinned mesh is deformed by
+ * its skin's joints alone — the transform of the node holding it is ignored —
+ * so primitives from different nodes bound to the same skin can be merged
+ * without moving vertices, and their `JOINTS_n` indices stay valid. Per skin,
+ * primitives with the same material, mode, and attribute layout are joined
+ * into the mesh of the first node using the skin; nodes left without
+ * primitives lose their mesh and skin. The node hierarchy is not changed.
+ *
+ * Primitives with morph targets, meshes used by several nodes, and nodes with
+ * `EXT_mesh_gpu_instancing` are left alone.
+ *
+ * @param onReport - Optional callback receiving the number of primitives joined.
+ * @returns A glTF-Transform `Transform` function (async).
+ */
+export function joinSkinned(onReport?: (report: JoinSkinnedReport) => void): Transform {
+	return async (doc: Document): Promise<void> => {
+		const root = doc.getRoot();
+		const materials = root.listMaterials();
+		let joined: number = 0;
+
+		const nodesBySkin = new Map<Skin, Node[]>();
+		for (const node of root.listNodes()) {
+			const skin: Skin | null = node.getSkin();
+			const mesh: Mesh | null = node.getMesh();
+			if (!skin || !mesh || node.getExtension('EXT_mesh_gpu_instancing')) continue;
+			if (mesh.listParents().filter((parent) => parent.propertyType === PropertyType.NODE).length > 1) continue;
+			nodesBySkin.set(skin, [...(nodesBySkin.get(skin) ?? []), node]);
+		}
+
+		for (const nodes of nodesBySkin.values()) {
+			const groups = new Map<string, { prim: Primitive; mesh: Mesh }[]>();
+			for (const node of nodes) {
+				const mesh: Mesh | null = node.getMesh();
+				if (!mesh) continue;
+				for (const prim of mesh.listPrimitives()) {
+					if (prim.listTargets().length > 0) continue;
+					const material = prim.getMaterial();
+					const key: string = `${material ? materials.indexOf(material) : -1}|${primitiveLayoutKey(prim)}`;
+					groups.set(key, [...(groups.get(key) ?? []), { prim, mesh }]);
 				}
+			}
 
-				weights0.setArray(arr);
+			const dstMesh: Mesh | null | undefined = nodes[0]?.getMesh();
+			if (!dstMesh) continue;
+			for (const group of groups.values()) {
+				if (group.length < 2) continue;
+				const prims: Primitive[] = group.map(({ prim, mesh }) => {
+					mesh.removePrimitive(prim);
+					// Still used by another mesh: join a copy with its own accessors
+					const own: Primitive = prim.listParents().some((parent) => parent !== root) ? deepClone(prim) : prim;
+					transform.compactPrimitive(own);
+					return own;
+				});
+				dstMesh.addPrimitive(transform.joinPrimitives(prims));
+				joined += prims.length - 1;
+			}
+
+			for (const node of nodes) {
+				if (node.getMesh()?.listPrimitives().length === 0) {
+					node.setMesh(null);
+					node.setSkin(null);
+				}
 			}
 		}
 
+		if (joined > 0) {
+			await doc.transform(
+				transform.prune({
+					propertyTypes: [PropertyType.MESH, PropertyType.PRIMITIVE, PropertyType.ACCESSOR],
+					keepAttributes: true,
+					keepIndices: true,
+					keepLeaves: true,
+				}),
+			);
+			console.log(`  joinSkinned: joined ${joined} skinned primitive(s)`);
+		}
+		onReport?.({ joined });
+	};
+}
+
+/** Mode, indices, and attribute layout of a primitive; primitives with equal keys can be joined. */
+function primitiveLayoutKey(prim: Primitive): string {
+	const attributes: string[] = prim
+		.listSemantics()
+		.sort()
+		.flatMap((semantic) => {
+			const attr: Accessor | null = prim.getAttribute(semantic);
+			return attr ? [`${semantic}:${attr.getType()}:${attr.getComponentType()}:${attr.getNormalized()}`] : [];
+		});
+	return `${prim.getMode()}|${prim.getIndices() !== null}|${attributes.join('+')}`;
+}
+
+/** Copy a primitive along with its attribute and index accessors. */
+function deepClone(prim: Primitive): Primitive {
+	const copy: Primitive = prim.clone();
+	for (const semantic of copy.listSemantics()) {
+		const attribute: Accessor | null = copy.getAttribute(semantic);
+		if (attribute) copy.setAttribute(semantic, attribute.clone());
+	}
+	const indices: Accessor | null = copy.getIndices();
+	if (indices) copy.setIndices(indices.clone());
+	return copy;
+}
+
+/**
+ * Reorder vertices for GPU cache locality (glTF-Transform's `reorder()`), then
+ * renormalize the skin weights of the reordered primitives.
+ *
+ * Reordering skinned primitives can leave `WEIGHTS_0` sums off 1.0, which
+ * fails validation and deforms visibly; the weights are rescaled as in
+ * {@link normalizeWeights} afterwards, so skinned models can take the same
+ * reorder as static ones.
+ *
+ * @param encoder  - The meshoptimizer `MeshoptEncoder` WASM module instance.
+ * @param onReport - Optional callback receiving the number of vertices renormalized.
+ * @returns A glTF-Transform `Transform` function (async).
+ */
+export function reorderSkinned(
+	encoder: typeof MeshoptEncoderType,
+	onReport?: (report: NormalizeWeightsReport) => void,
+): Transform {
+	return async (doc: Document): Promise<void> => {
+		await doc.transform(transform.reorder({ encoder }));
+		let normalized: number = 0;
+		for (const mesh of doc.getRoot().listMeshes()) {
+			for (const prim of mesh.listPrimitives()) {
+				normalized += normalizePrimitiveWeights(prim);
+			}
+		}
 		if (normalized > 0) {
-			console.log(`  normalizeWeights: fixed ${normalized} vertices`);
+			console.log(`  reorderSkinned: renormalized ${normalized} vertices`);
 		}
+		onReport?.({ normalized });
 	};
 }
 
+/** Result reported by {@link analyzeMeshComplexity}. */
+export interface MeshComplexityReport {
+	/** Number of meshes in the document. */
+	meshes: number;
+	/** Total vertex count across all mesh primitives. */
+	vertices: number;
+	/** Number of skins. */
+	skins: number;
+	/** Number of animation clips. */
+	animations: number;
+	/** Meshes exceeding the per-mesh warning threshold (all of them, not just the first 5 logged). */
+	bloated: Array<{ name: string; verts: number }>;
+	/** Whether the total vertex count exceeds the scene-wide warning threshold. */
+	overTotalThreshold: boolean;
+}
+
 /**
  * Diagnostic transform that logs scene complexity statistics to the console.
  *
@@ -308,9 +857,14 @@ export function normalizeWeights(): Transform {
  *
  * @param warnThreshold      - Per-mesh vertex count that triggers a "bloated" warning.
  * @param totalWarnThreshold - Total scene vertex count that triggers a high-complexity warning.
+ * @param onReport           - Optional callback receiving the collected statistics.
  * @returns A glTF-Transform `Transform` function.
  */
-export function analyzeMeshComplexity(warnThreshold = 2000, totalWarnThreshold = 15000): Transform {
+export function analyzeMeshComplexity(
+	warnThreshold = 2000,
+	totalWarnThreshold = 15000,
+	onReport?: (report: MeshComplexityReport) => void,
+): Transform {
 	return (doc: Document): void => {
 		let totalVerts: number = 0;
 		const bloated: Array<{ name: string; verts: number }> = [];
@@ -351,27 +905,52 @@ export function analyzeMeshComplexity(warnThreshold = 2000, totalWarnThreshold =
 				`  Warning: High total vertex count (${totalVerts.toLocaleString()} > ${totalWarnThreshold.toLocaleString()})`,
 			);
 		}
+
+		onReport?.({
+			meshes: meshCount,
+			vertices: totalVerts,
+			skins,
+			animations,
+			bloated,
+			overTotalThreshold: totalVerts > totalWarnThreshold,
+		});
 	};
 }
 
+/** Result reported by {@link removeDegenerateFaces}. */
+export interface DegenerateFacesReport {
+	/** Number of zero-area or index-collapsed triangles dropped. */
+	removed: number;
+}
+
 /**
  * Remove degenerate (zero-area) triangles from all TRIANGULAR mesh primitives.
  *
  * A triangle is considered degenerate if any two of its vertex indices are
  * identical, or if its cross-product area falls below `minArea`. The index
- * buffer is rewritten in-place with only the surviving triangles.
+ * buffer is rewritten in-place with only the surviving triangles. Skinned
+ * primitives (with `JOINTS_0`) only lose index-collapsed triangles: a triangle
+ * that is flat in the bind pose may open up once its vertices deform apart.
  *
  * @param minArea - Minimum triangle area (in world units squared) to keep.
  *                  Triangles smaller than this are discarded.
- * @returns A glTF-Transform `Transform` function.
+ * @param onReport - Optional callback receiving the number of triangles removed.
+ * @param signal   - Optional cancellation signal, checked before each primitive.
+ * @returns A glTF-Transform `Transform` function (async).
+ * @throws {CompressionCancelledError} If `signal` is aborted.
  */
-export function removeDegenerateFaces(minArea = 1e-10): Transform {
-	return (doc: Document): void => {
+export function removeDegenerateFaces(
+	minArea = 1e-10,
+	onReport?: (report: DegenerateFacesReport) => void,
+	signal?: AbortSignal,
+): Transform {
+	return async (doc: Document): Promise<void> => {
 		let totalRemoved: number = 0;
 
 		for (const mesh of doc.getRoot().listMeshes()) {
 			for (const prim of mesh.listPrimitives()) {
 				if (prim.getMode() !== 4) continue; // Only TRIANGLES
+				await checkCancelled(signal);
 
 				const posAccessor: Accessor | null = prim.getAttribute('POSITION');
 				const indicesAccessor: Accessor | null = prim.getIndices();
@@ -381,6 +960,7 @@ export function removeDegenerateFaces(minArea = 1e-10): Transform {
 				const indices: TypedArray | null = indicesAccessor.getArray();
 				if (!positions || !indices) continue;
 
+				const skinned: boolean = prim.getAttribute('JOINTS_0') !== null;
 				const validIndices: number[] = [];
 
 				for (let i: number = 0; i < indices.length; i += 3) {
@@ -393,6 +973,10 @@ export function removeDegenerateFaces(minArea = 1e-10): Transform {
 						totalRemoved++;
 						continue;
 					}
+					if (skinned) {
+						validIndices.push(i0, i1, i2);
+						continue;
+					}
 
 					// Get vertices
 					const v0x = at(positions, i0 * 3),
@@ -434,9 +1018,228 @@ export function removeDegenerateFaces(minArea = 1e-10): Transform {
 		if (totalRemoved > 0) {
 			console.log(`  removeDegenerateFaces: removed ${totalRemoved} degenerate triangles`);
 		}
+		onReport?.({ removed: totalRemoved });
 	};
 }
 
+/** Result reported by {@link resampleAnimations}. */
+export interface ResampleReport {
+	/** Samplers whose keyframes changed. */
+	samplers: number;
+	/** Keyframes across `LINEAR` and `STEP` samplers before the pass. */
+	keyframesBefore: number;
+	/** Keyframes across `LINEAR` and `STEP` samplers after the pass. */
+	keyframesAfter: number;
+}
+
+/** Options for {@link resampleAnimations}. */
+export interface ResampleOptions {
+	/** Resample samplers with more keyframes than this rate gives to this many per second first; `0` keeps the source keyframe times. @default ANIMATION_FPS */
+	fps?: number;
+	/** Largest translation error of a removed keyframe, in scene units. @default RESAMPLE_TRANSLATION_TOLERANCE */
+	translation?: number;
+	/** Largest rotation error of a removed keyframe, in degrees. @default RESAMPLE_ROTATION_TOLERANCE */
+	rotation?: number;
+	/** Largest per-component scale error of a removed keyframe. @default RESAMPLE_SCALE_TOLERANCE */
+	scale?: number;
+	/** Largest morph target weight error of a removed keyframe. @default RESAMPLE_WEIGHTS_TOLERANCE */
+	weights?: number;
+}
+
+/** Rough glTF JSON bytes of one more accessor, weighed against keyframe data when samplers could share times. */
+const ACCESSOR_JSON_BYTES = 100;
+
+/** Keyframes a removed run may span before one is kept regardless, bounding the pass to linear time. */
+const MAX_REMOVED_RUN = 256;
+
+/**
+ * Resample animation keyframes down to a fixed rate, then remove the keyframes
+ * that interpolation between their neighbors reproduces within a per-path error bound.
+ *
+ * Unlike glTF-Transform's `resample()`, which compares each keyframe with a
+ * single tolerance, every removed keyframe is checked against the segment that
+ * replaces it, so errors do not accumulate along a run; rotations are bounded
+ * by the angle between quaternions (interpolated with slerp, as viewers do).
+ * `STEP` keyframes are removed when they repeat the previous value.
+ * Samplers that share keyframe times keep the union of their keyframes when
+ * that stores fewer bytes than separate time tracks would.
+ * `CUBICSPLINE` samplers are left untouched. The first and last keyframes are
+ * always kept, so clip durations do not change.
+ *
+ * @param options  - Frame rate and per-path error bounds.
+ * @param onReport - Optional callback receiving sampler and keyframe counts.
+ * @param signal   - Optional cancellation signal, checked before each animation.
+ * @returns A glTF-Transform `Transform` function (async).
+ * @throws {CompressionCancelledError} If `signal` is aborted.
+ */
+export function resampleAnimations(
+	options: ResampleOptions = {},
+	onReport?: (report: ResampleReport) => void,
+	signal?: AbortSignal,
+): Transform {
+	const {
+		fps = ANIMATION_FPS,
+		translation = RESAMPLE_TRANSLATION_TOLERANCE,
+		rotation = RESAMPLE_ROTATION_TOLERANCE,
+		scale = RESAMPLE_SCALE_TOLERANCE,
+		weights = RESAMPLE_WEIGHTS_TOLERANCE,
+	} = options;
+	// Compare 1 - |dot| against the bound instead of taking acos per keyframe
+	const rotationBound: number = 1 - Math.cos((Math.min(rotation, 180) * Math.PI) / 360);
+
+	return async (doc: Document): Promise<void> => {
+		const report: ResampleReport = { samplers: 0, keyframesBefore: 0, keyframesAfter: 0 };
+
+		for (const animation of doc.getRoot().listAnimations()) {
+			await checkCancelled(signal);
+			const paths = new Map<AnimationSampler, string>();
+			for (const channel of animation.listChannels()) {
+				const sampler: AnimationSampler | null = channel.getSampler();
+				if (sampler && !paths.has(sampler)) paths.set(sampler, channel.getTargetPath() ?? '');
+			}
+
+			// Samplers sharing keyframe times are reduced together, see below
+			const groups = new Map<
+				Accessor,
+				{ sampler: AnimationSampler; keys: Keyframes; resampled: boolean; kept: number[] }[]
+			>();
+			for (const [sampler, path] of paths) {
+				const interpolation = sampler.getInterpolation();
+				const input: Accessor | null = sampler.getInput();
+				if (interpolation === 'CUBICSPLINE' || !input) continue;
+				const source: Keyframes | null = readKeyframes(sampler);
+				if (!source) continue;
+				report.keyframesBefore += source.times.length;
+
+				const isRotation: boolean = path === 'rotation';
+				const step: boolean = interpolation === 'STEP';
+				const keys: Keyframes = fps > 0 ? resampleKeyframes(source, fps, step, isRotation) : source;
+				const error = (a: number[], b: number[]): number => {
+					if (isRotation) return 1 - Math.abs(a.reduce((sum, value, j) => sum + value * (b[j] ?? 0), 0));
+					if (path === 'translation') return Math.hypot(...a.map((value, j) => value - (b[j] ?? 0)));
+					return Math.max(...a.map((value, j) => Math.abs(value - (b[j] ?? 0))));
+				};
+				const bound: number = isRotation
+					? rotationBound
+					: path === 'translation'
+						? translation
+						: path === 'scale'
+							? scale
+							: weights;
+				const kept: number[] = reduceKeyframes(keys, step, isRotation, (a, b) => error(a, b) <= bound);
+				const group = groups.get(input) ?? [];
+				group.push({ sampler, keys, resampled: keys !== source, kept });
+				groups.set(input, group);
+			}
+
+			for (const group of groups.values()) {
+				// Separate time tracks cost a float per keyframe each; keeping the union of
+				// the group's keyframes lets it keep sharing one when that is smaller
+				const union: number[] = [...new Set(group.flatMap((entry) => entry.kept))].sort((a, b) => a - b);
+				const separateBytes: number =
+					(group.length - 1) * ACCESSOR_JSON_BYTES +
+					group.reduce((sum, entry) => sum + entry.kept.length * 4 * (1 + entry.keys.stride), 0);
+				const sharedBytes: number = union.length * 4 * (1 + group.reduce((sum, entry) => sum + entry.keys.stride, 0));
+				for (const { sampler, keys, resampled, kept: own } of group) {
+					const kept: number[] = group.length > 1 && sharedBytes <= separateBytes ? union : own;
+					report.keyframesAfter += kept.length;
+					if (!resampled && kept.length === keys.times.length) continue;
+					const values: number[] = [];
+					for (const i of kept) values.push(...keyframeRow(keys, i));
+					writeKeyframes(
+						sampler,
+						kept.map((i) => keys.times[i] ?? 0),
+						values,
+					);
+					report.samplers++;
+				}
+			}
+		}
+
+		if (report.samplers > 0) {
+			// Samplers that shared keyframe times before the pass may share them again
+			await doc.transform(
+				transform.prune({ propertyTypes: [PropertyType.ACCESSOR] }),
+				transform.dedup({ propertyTypes: [PropertyType.ACCESSOR] }),
+			);
+		}
+
+		console.log(
+			`  resampleAnimations: ${report.keyframesBefore} -> ${report.keyframesAfter} keyframes` +
+				(fps > 0 ? ` (${fps} fps)` : ''),
+		);
+		onReport?.(report);
+	};
+}
+
+/**
+ * Sample keyframes at `fps` from the first to the last keyframe; the last
+ * keyframe is kept at its own time when it falls between two frames.
+ *
+ * @returns `keys` itself when the grid would not have fewer keyframes.
+ */
+function resampleKeyframes(keys: Keyframes, fps: number, step: boolean, rotation: boolean): Keyframes {
+	const { times, stride } = keys;
+	const first: number = times[0] ?? 0;
+	const last: number = times[times.length - 1] ?? 0;
+	const frames: number = Math.ceil((last - first) * fps - 1e-6);
+	if (frames + 1 >= times.length) return keys;
+	const grid: number[] = Array.from({ length: frames }, (_, i) => first + i / fps);
+	grid.push(last);
+
+	const values = new Float32Array(grid.length * stride);
+	for (const [i, time] of grid.entries()) values.set(sampleKeyframes(keys, time, step, rotation), i * stride);
+	return { times: new Float32Array(grid), values, stride };
+}
+
+/**
+ * Indices of the keyframes to keep: a keyframe is removed when every keyframe
+ * since the last kept one is reproduced (per `close`) by interpolating from
+ * that one to the next keyframe — or, for `STEP`, when it repeats the last kept value.
+ */
+function reduceKeyframes(
+	keys: Keyframes,
+	step: boolean,
+	rotation: boolean,
+	close: (a: number[], b: number[]) => boolean,
+): number[] {
+	const { times } = keys;
+	const count: number = times.length;
+	if (count <= 2) return Array.from({ length: count }, (_, i) => i);
+
+	const kept: number[] = [0];
+	let anchor: number = 0;
+	for (let i: number = 1; i < count - 1; i++) {
+		let removable: boolean = i - anchor < MAX_REMOVED_RUN;
+		if (removable && step) {
+			removable = close(keyframeRow(keys, anchor), keyframeRow(keys, i));
+		} else if (removable) {
+			const from: number[] = keyframeRow(keys, anchor);
+			const to: number[] = keyframeRow(keys, i + 1);
+			const t0: number = times[anchor] ?? 0;
+			const span: number = (times[i + 1] ?? 0) - t0;
+			for (let j: number = anchor + 1; j <= i && removable; j++) {
+				const alpha: number = span > 0 ? ((times[j] ?? 0) - t0) / span : 0;
+				removable = close(interpolateKeyframe(from, to, alpha, rotation), keyframeRow(keys, j));
+			}
+		}
+		if (!removable) {
+			kept.push(i);
+			anchor = i;
+		}
+	}
+	kept.push(count - 1);
+	return kept;
+}
+
+/** Result reported by {@link removeStaticTracksWithBake}. */
+export interface StaticTracksReport {
+	/** Channels removed because every animation agreed on the rest-pose value. */
+	removed: number;
+	/** Channels that were static but kept for lack of cross-animation consensus. */
+	keptNoConsensus: number;
+}
+
 /**
  * Remove static animation tracks using a 3-pass global-consensus algorithm.
  *
@@ -455,15 +1258,25 @@ export function removeDegenerateFaces(minArea = 1e-10): Transform {
  * counted and reported but **not** removed.
  *
  * @param tolerance - Maximum per-component difference to consider two values equal.
- * @returns A glTF-Transform `Transform` function.
+ * @param onReport  - Optional callback receiving removed/kept track counts.
+ * @param signal    - Optional cancellation signal, checked before each animation is analyzed.
+ * @returns A glTF-Transform `Transform` function (async).
+ * @throws {CompressionCancelledError} If `signal` is aborted.
  */
-export function removeStaticTracksWithBake(tolerance = 1e-6): Transform {
-	return (doc: Document): void => {
+export function removeStaticTracksWithBake(
+	tolerance = 1e-6,
+	onReport?: (report: StaticTracksReport) => void,
+	signal?: AbortSignal,
+): Transform {
+	return async (doc: Document): Promise<void> => {
 		let removedTracks: number = 0;
 		let skippedNoConsensus: number = 0;
 
 		const animations: Animation[] = doc.getRoot().listAnimations();
-		if (animations.length === 0) return;
+		if (animations.length === 0) {
+			onReport?.({ removed: 0, keptNoConsensus: 0 });
+			return;
+		}
 
 		// Pass 1: Analyze every channel across all animations
 		// For each node+path, collect: is each channel static? what's its value?
@@ -487,6 +1300,7 @@ export function removeStaticTracksWithBake(tolerance = 1e-6): Transform {
 		const totalChannelCount = new Map<string, number>();
 
 		for (const animation of animations) {
+			await checkCancelled(signal);
 			for (const channel of animation.listChannels()) {
 				const sampler: AnimationSampler | null = channel.getSampler();
 				const targetNode: Node | null = channel.getTargetNode();
@@ -636,21 +1450,36 @@ export function removeStaticTracksWithBake(tolerance = 1e-6): Transform {
 			}
 			console.log(`  removeStaticTracks: ${parts.join(', ')}`);
 		}
+		onReport?.({ removed: removedTracks, keptNoConsensus: skippedNoConsensus });
 	};
 }
 
+/** Result reported by {@link analyzeAnimations}. */
+export interface AnimationStatsReport {
+	/** Number of animation clips. */
+	clips: number;
+	/** Total channel count across all clips. */
+	channels: number;
+	/** Total keyframe count (sampler input lengths) across all channels. */
+	keyframes: number;
+}
+
 /**
  * Diagnostic transform that logs animation statistics to the console.
  *
  * Reports total animation clip count, channel count, and keyframe count.
  * This transform is read-only — it does not modify the document.
  *
+ * @param onReport - Optional callback receiving the collected statistics.
  * @returns A glTF-Transform `Transform` function.
  */
-export function analyzeAnimations(): Transform {
+export function analyzeAnimations(onReport?: (report: AnimationStatsReport) => void): Transform {
 	return (doc: Document): void => {
 		const animations: Animation[] = doc.getRoot().listAnimations();
-		if (animations.length === 0) return;
+		if (animations.length === 0) {
+			onReport?.({ clips: 0, channels: 0, keyframes: 0 });
+			return;
+		}
 
 		let totalKeyframes: number = 0;
 		let totalChannels: number = 0;
@@ -669,5 +1498,6 @@ export function analyzeAnimations(): Transform {
 		console.log(
 			`  Animations: ${animations.length} clips, ${totalChannels} channels, ${totalKeyframes.toLocaleString()} keyframes`,
 		);
+		onReport?.({ clips: animations.length, channels: totalChannels, keyframes: totalKeyframes });
 	};
 }
@@ -0,0 +1,44 @@
+import { expect, test } from 'bun:test';
+import { CompressionCancelledError, checkCancelled, detectInputFormat, parseByteSize, throwIfCancelled } from './utils';
+
+const encoder = new TextEncoder();
+
+test('detectInputFormat tells GLB, glTF JSON, and ZIP apart', () => {
+	expect(detectInputFormat(encoder.encode('glTF\x02\x00\x00\x00'))).toBe('glb');
+	expect(detectInputFormat(encoder.encode('PK\x03\x04'))).toBe('zip');
+	expect(detectInputFormat(encoder.encode('{"asset":{}}'))).toBe('gltf');
+});
+
+test('detectInputFormat skips a BOM and leading whitespace before glTF JSON', () => {
+	expect(detectInputFormat(encoder.encode('\ufeff \r\n\t{}'))).toBe('gltf');
+	expect(detectInputFormat(encoder.encode('{'))).toBe('gltf');
+});
+
+test('detectInputFormat rejects anything else', () => {
+	expect(detectInputFormat(new Uint8Array())).toBeNull();
+	expect(detectInputFormat(encoder.encode('PK\x05\x06'))).toBeNull();
+	expect(detectInputFormat(encoder.encode('[{}]'))).toBeNull();
+});
+
+test('parseByteSize reads binary units case-insensitively', () => {
+	expect(parseByteSize('1048576')).toBe(1048576);
+	expect(parseByteSize('512 KB')).toBe(512 * 1024);
+	expect(parseByteSize('1.5mib')).toBe(1.5 * 1024 ** 2);
+	expect(parseByteSize('3MB')).toBe(3 * 1024 ** 2);
+	expect(parseByteSize('0.5b')).toBeUndefined();
+	expect(parseByteSize('-1MB')).toBeUndefined();
+	expect(parseByteSize('3 parsecs')).toBeUndefined();
+	expect(parseByteSize(null)).toBeUndefined();
+});
+
+test('throwIfCancelled and checkCancelled throw once the signal is aborted', async () => {
+	const abort = new AbortController();
+	expect(() => throwIfCancelled(undefined)).not.toThrow();
+	expect(() => throwIfCancelled(abort.signal)).not.toThrow();
+	await checkCancelled(abort.signal);
+
+	abort.abort();
+	expect(() => throwIfCancelled(abort.signal)).toThrow(CompressionCancelledError);
+	await expect(checkCancelled(abort.signal)).rejects.toThrow('Compression cancelled');
+	await checkCancelled(undefined);
+});
@@ -8,6 +8,7 @@ import { mkdtemp, rm } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
 import { GLB_MAGIC } from './constants';
+import { ZIP_MAGIC } from './zip';
 
 /**
  * Format a byte count into a human-readable string (B, KB, or MB).
@@ -59,6 +60,71 @@ export function validateGlbMagic(input: Uint8Array): void {
 	}
 }
 
+/** Container formats accepted as compression input. */
+export type InputFormat = 'glb' | 'gltf' | 'zip';
+
+/**
+ * Detect the container format of an input buffer from its leading bytes.
+ *
+ * - `glb`  — GLB binary container (`glTF` magic)
+ * - `gltf` — JSON glTF document (first non-whitespace byte is `{`, UTF-8 BOM allowed)
+ * - `zip`  — ZIP archive (`PK\x03\x04` local file header)
+ *
+ * @param input - Raw file bytes to inspect.
+ * @returns The detected format, or `null` if unrecognized.
+ */
+export function detectInputFormat(input: Uint8Array): InputFormat | null {
+	if (input.length >= 4) {
+		const magic: number = new DataView(input.buffer, input.byteOffset, 4).getUint32(0, true);
+		if (magic === GLB_MAGIC) return 'glb';
+		if (magic === ZIP_MAGIC) return 'zip';
+	}
+	let i: number = input[0] === 0xef && input[1] === 0xbb && input[2] === 0xbf ? 3 : 0;
+	while (i < input.length && (input[i] === 0x20 || input[i] === 0x09 || input[i] === 0x0a || input[i] === 0x0d)) i++;
+	return input[i] === 0x7b ? 'gltf' : null;
+}
+
+/**
+ * Thrown by the compression pipeline when its `AbortSignal` is aborted.
+ *
+ * Distinct from other failures so callers can tell a cancelled run (client
+ * disconnect, Ctrl-C, job cancelled) from a broken input. Survives the trip
+ * back from a worker thread of a compressor pool.
+ */
+export class CompressionCancelledError extends Error {
+	override readonly name = 'CompressionCancelledError';
+
+	constructor(message = 'Compression cancelled') {
+		super(message);
+	}
+}
+
+/**
+ * Throw a {@link CompressionCancelledError} if `signal` has been aborted.
+ *
+ * @param signal - Cancellation signal, or `undefined` for an uncancellable run.
+ * @throws {CompressionCancelledError} If the signal is aborted.
+ */
+export function throwIfCancelled(signal: AbortSignal | undefined): void {
+	if (signal?.aborted) throw new CompressionCancelledError();
+}
+
+/**
+ * Yield to the event loop so a pending abort (request close, Ctrl-C, a pool
+ * cancel message) can be delivered, then {@link throwIfCancelled}.
+ *
+ * Used between phases and inside long-running transforms; synchronous code
+ * never sees an abort that arrives while it runs. A no-op without a signal.
+ *
+ * @param signal - Cancellation signal, or `undefined` for an uncancellable run.
+ * @throws {CompressionCancelledError} If the signal is aborted.
+ */
+export async function checkCancelled(signal: AbortSignal | undefined): Promise<void> {
+	if (!signal) return;
+	await new Promise<void>((resolve) => setImmediate(resolve));
+	throwIfCancelled(signal);
+}
+
 /**
  * Execute a callback with a temporary directory that is automatically cleaned up.
  *
@@ -93,3 +159,36 @@ export function parseSimplifyRatio(raw: string | null): number | undefined {
 	if (Number.isNaN(n) || n <= 0 || n >= 1) return undefined;
 	return n;
 }
+
+/** Multipliers for {@link parseByteSize} units (binary, matching {@link formatBytes}). */
+const BYTE_UNITS: Record<string, number> = {
+	'': 1,
+	b: 1,
+	k: 1024,
+	kb: 1024,
+	kib: 1024,
+	m: 1024 ** 2,
+	mb: 1024 ** 2,
+	mib: 1024 ** 2,
+	g: 1024 ** 3,
+	gb: 1024 ** 3,
+	gib: 1024 ** 3,
+};
+
+/**
+ * Parse a user-supplied size such as `"3MB"`, `"512 KB"`, or `"1048576"` into bytes.
+ *
+ * Units are binary (`1 KB = 1024 B`, like {@link formatBytes}) and case-insensitive.
+ * Returns `undefined` for falsy, malformed, or non-positive values.
+ *
+ * @param raw - String value from query param or CLI flag, or `null`.
+ * @returns Size in bytes (rounded down), or `undefined` if invalid.
+ */
+export function parseByteSize(raw: string | null): number | undefined {
+	if (!raw) return undefined;
+	const match = /^\s*(\d+(?:\.\d+)?)\s*([a-z]*)\s*$/i.exec(raw);
+	const multiplier: number | undefined = BYTE_UNITS[match?.[2]?.toLowerCase() ?? ''];
+	if (!match || multiplier === undefined) return undefined;
+	const bytes: number = Math.floor(Number.parseFloat(match[1] ?? '') * multiplier);
+	return bytes > 0 ? bytes : undefined;
+}
@@ -0,0 +1,108 @@
+import { expect, test } from 'bun:test';
+import { deflateRawSync } from 'node:zlib';
+import { createZip, readZip, ZIP_MAGIC } from './zip';
+
+const encoder = new TextEncoder();
+
+/** Offset of an archive's central directory, read from its end of central directory record. */
+function centralOffset(archive: Uint8Array): number {
+	const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+	return view.getUint32(archive.byteLength - 22 + 16, true);
+}
+
+/** A one-entry archive whose entry is deflated, as most archivers write it. */
+function deflatedZip(name: string, data: Uint8Array): Uint8Array {
+	const stored: Uint8Array = createZip(new Map([[name, data]]));
+	const deflated: Uint8Array = deflateRawSync(data);
+	const central: number = centralOffset(stored);
+	const header: Uint8Array = stored.subarray(0, 30 + name.length);
+	const rest: Uint8Array = stored.subarray(central);
+	const archive = new Uint8Array(header.byteLength + deflated.byteLength + rest.byteLength);
+	archive.set(header, 0);
+	archive.set(deflated, header.byteLength);
+	archive.set(rest, header.byteLength + deflated.byteLength);
+
+	const view = new DataView(archive.buffer);
+	const newCentral: number = header.byteLength + deflated.byteLength;
+	view.setUint16(8, 8, true);
+	view.setUint32(18, deflated.byteLength, true);
+	view.setUint16(newCentral + 10, 8, true);
+	view.setUint32(newCentral + 20, deflated.byteLength, true);
+	view.setUint32(archive.byteLength - 22 + 16, newCentral, true);
+	return archive;
+}
+
+test('createZip output reads back entry for entry', () => {
+	const entries = new Map<string, Uint8Array>([
+		['scene.gltf', encoder.encode('{"asset":{"version":"2.0"}}')],
+		['textures/base color.png', new Uint8Array([1, 2, 3, 4])],
+		['empty.bin', new Uint8Array()],
+	]);
+	const archive: Uint8Array = createZip(entries);
+	expect(new DataView(archive.buffer).getUint32(0, true)).toBe(ZIP_MAGIC);
+	expect(readZip(archive)).toEqual(entries);
+});
+
+test('deflated entries are inflated', () => {
+	const data: Uint8Array = encoder.encode('glTF '.repeat(200));
+	const entries = readZip(deflatedZip('model.bin', data));
+	expect(entries.get('model.bin')).toEqual(data);
+});
+
+test('directory entries are skipped and backslashes become slashes', () => {
+	const archive: Uint8Array = createZip(
+		new Map([
+			['textures/', new Uint8Array()],
+			['textures\\a.png', new Uint8Array([7])],
+		]),
+	);
+	expect([...readZip(archive).keys()]).toEqual(['textures/a.png']);
+});
+
+test('contents over maxBytes are rejected', () => {
+	const archive: Uint8Array = createZip(new Map([['a.bin', new Uint8Array(64)]]));
+	expect(readZip(archive, 64).size).toBe(1);
+	expect(() => readZip(archive, 63)).toThrow('ZIP archive too large');
+});
+
+test('data without an end of central directory is rejected', () => {
+	expect(() => readZip(new Uint8Array(64))).toThrow('Invalid ZIP archive');
+	expect(() => readZip(new Uint8Array(4))).toThrow('Invalid ZIP archive');
+});
+
+/** A new one-entry archive with `patch` applied to its bytes. */
+function patched(patch: (view: DataView, central: number) => void): Uint8Array {
+	const archive: Uint8Array = createZip(new Map([['a.bin', new Uint8Array([1, 2, 3])]]));
+	patch(new DataView(archive.buffer), centralOffset(archive));
+	return archive;
+}
+
+test('a central directory past the end is rejected', () => {
+	const archive: Uint8Array = patched((view) => view.setUint32(view.byteLength - 22 + 16, view.byteLength, true));
+	expect(() => readZip(archive)).toThrow('Invalid ZIP archive: corrupt central directory');
+});
+
+test('a local header offset past the end is rejected', () => {
+	const archive: Uint8Array = patched((view, central) => view.setUint32(central + 42, view.byteLength - 10, true));
+	expect(() => readZip(archive)).toThrow('Invalid ZIP archive: corrupt local header for a.bin');
+});
+
+test('a local header without its signature is rejected', () => {
+	const archive: Uint8Array = patched((view) => view.setUint32(0, 0, true));
+	expect(() => readZip(archive)).toThrow('Invalid ZIP archive: corrupt local header for a.bin');
+});
+
+test('entry data past the end is rejected', () => {
+	const archive: Uint8Array = patched((view, central) => view.setUint32(central + 20, 1 << 20, true));
+	expect(() => readZip(archive)).toThrow('Invalid ZIP archive: truncated data for a.bin');
+});
+
+test('an unsupported compression method is rejected', () => {
+	const archive: Uint8Array = patched((view, central) => view.setUint16(central + 10, 12, true));
+	expect(() => readZip(archive)).toThrow('Unsupported ZIP compression method 12: a.bin');
+});
+
+test('encrypted entries are rejected', () => {
+	const archive: Uint8Array = patched((view, central) => view.setUint16(central + 8, 0x1, true));
+	expect(() => readZip(archive)).toThrow('Encrypted ZIP entries are not supported: a.bin');
+});
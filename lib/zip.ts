@@ -0,0 +1,193 @@
+/**
+ * Minimal ZIP archive reader for bundled glTF uploads, plus a store-only writer
+ * for multi-file outputs (e.g. per-level LOD GLBs).
+ *
+ * Supports the two compression methods produced by virtually every archiver
+ * (`0` stored, `8` deflate). Entries are located via the central directory, so
+ * archives with data descriptors or prepended data are handled correctly.
+ * ZIP64, encryption, and multi-disk archives are rejected.
+ *
+ * @module zip
+ */
+
+import { crc32, inflateRawSync } from 'node:zlib';
+
+/** Local file header signature (`PK\x03\x04`). */
+export const ZIP_MAGIC = 0x04034b50;
+
+/** End of central directory record signature (`PK\x05\x06`). */
+const EOCD_SIGNATURE = 0x06054b50;
+
+/** Central directory file header signature (`PK\x01\x02`). */
+const CENTRAL_SIGNATURE = 0x02014b50;
+
+/** Fixed size of the end of central directory record (without comment). */
+const EOCD_SIZE = 22;
+
+/** Fixed size of a local file header (without name/extra). */
+const LOCAL_HEADER_SIZE = 30;
+
+/** Fixed size of a central directory file header (without name/extra/comment). */
+const CENTRAL_HEADER_SIZE = 46;
+
+/** General purpose flag: entry names are UTF-8. */
+const UTF8_FLAG = 0x0800;
+
+/**
+ * Extract all file entries from a ZIP archive.
+ *
+ * Directory entries are skipped and entry names are normalized to forward
+ * slashes. The total uncompressed size is capped by `maxBytes` to guard
+ * against decompression bombs.
+ *
+ * @param input    - Raw ZIP archive bytes.
+ * @param maxBytes - Maximum combined uncompressed size of all entries.
+ * @returns Map of entry path to file contents.
+ * @throws {Error} If the archive is malformed, uses unsupported features, or exceeds `maxBytes`.
+ */
+export function readZip(input: Uint8Array, maxBytes: number = Number.POSITIVE_INFINITY): Map<string, Uint8Array> {
+	const view = new DataView(input.buffer, input.byteOffset, input.byteLength);
+
+	// The EOCD record sits at the end, followed by an optional comment (max 65535 bytes)
+	let eocd: number = -1;
+	const minOffset: number = Math.max(0, input.byteLength - EOCD_SIZE - 0xffff);
+	for (let i: number = input.byteLength - EOCD_SIZE; i >= minOffset; i--) {
+		if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+			eocd = i;
+			break;
+		}
+	}
+	if (eocd < 0) throw new Error('Invalid ZIP archive: end of central directory not found');
+
+	const entryCount: number = view.getUint16(eocd + 10, true);
+	const centralOffset: number = view.getUint32(eocd + 16, true);
+	if (entryCount === 0xffff || centralOffset === 0xffffffff) {
+		throw new Error('ZIP64 archives are not supported');
+	}
+
+	const decoder = new TextDecoder();
+	const entries = new Map<string, Uint8Array>();
+	let totalBytes: number = 0;
+	let offset: number = centralOffset;
+
+	for (let i: number = 0; i < entryCount; i++) {
+		if (offset + CENTRAL_HEADER_SIZE > input.byteLength || view.getUint32(offset, true) !== CENTRAL_SIGNATURE) {
+			throw new Error('Invalid ZIP archive: corrupt central directory');
+		}
+
+		const flags: number = view.getUint16(offset + 8, true);
+		const method: number = view.getUint16(offset + 10, true);
+		const compressedSize: number = view.getUint32(offset + 20, true);
+		const uncompressedSize: number = view.getUint32(offset + 24, true);
+		const nameLength: number = view.getUint16(offset + 28, true);
+		const extraLength: number = view.getUint16(offset + 30, true);
+		const commentLength: number = view.getUint16(offset + 32, true);
+		const localOffset: number = view.getUint32(offset + 42, true);
+		const nameStart: number = offset + CENTRAL_HEADER_SIZE;
+		const name: string = decoder.decode(input.subarray(nameStart, nameStart + nameLength)).replace(/\\/g, '/');
+		offset = nameStart + nameLength + extraLength + commentLength;
+
+		if (name.endsWith('/')) continue;
+		if (flags & 0x1) throw new Error(`Encrypted ZIP entries are not supported: ${name}`);
+
+		totalBytes += uncompressedSize;
+		if (totalBytes > maxBytes) {
+			throw new Error(`ZIP archive too large: uncompressed contents exceed ${maxBytes} bytes`);
+		}
+
+		if (localOffset + LOCAL_HEADER_SIZE > input.byteLength || view.getUint32(localOffset, true) !== ZIP_MAGIC) {
+			throw new Error(`Invalid ZIP archive: corrupt local header for ${name}`);
+		}
+
+		// Local header name/extra lengths can differ from the central directory copy
+		const localNameLength: number = view.getUint16(localOffset + 26, true);
+		const localExtraLength: number = view.getUint16(localOffset + 28, true);
+		const dataStart: number = localOffset + LOCAL_HEADER_SIZE + localNameLength + localExtraLength;
+		if (dataStart + compressedSize > input.byteLength) {
+			throw new Error(`Invalid ZIP archive: truncated data for ${name}`);
+		}
+		const data: Uint8Array = input.subarray(dataStart, dataStart + compressedSize);
+
+		let contents: Uint8Array;
+		if (method === 0) {
+			contents = data.slice();
+		} else if (method === 8) {
+			contents = new Uint8Array(inflateRawSync(data, { maxOutputLength: Math.max(uncompressedSize, 1) }));
+		} else {
+			throw new Error(`Unsupported ZIP compression method ${method}: ${name}`);
+		}
+
+		if (contents.byteLength !== uncompressedSize) {
+			throw new Error(`Invalid ZIP archive: size mismatch for ${name}`);
+		}
+		entries.set(name, contents);
+	}
+
+	return entries;
+}
+
+/**
+ * Build a ZIP archive with every entry stored uncompressed.
+ *
+ * Storing is enough for already-compressed payloads like GLB outputs and keeps
+ * the writer trivial. Entry order is preserved.
+ *
+ * @param entries - Map of entry path to file contents.
+ * @returns The ZIP archive bytes.
+ * @throws {Error} If the archive would need ZIP64 (more than 65535 entries or 4 GiB).
+ */
+export function createZip(entries: Map<string, Uint8Array>): Uint8Array {
+	const encoder = new TextEncoder();
+	const files = [...entries].map(([name, data]) => ({ name: encoder.encode(name), data, crc: crc32(data) }));
+
+	let localSize: number = 0;
+	let centralSize: number = 0;
+	for (const file of files) {
+		localSize += LOCAL_HEADER_SIZE + file.name.byteLength + file.data.byteLength;
+		centralSize += CENTRAL_HEADER_SIZE + file.name.byteLength;
+	}
+	if (files.length >= 0xffff || localSize + centralSize >= 0xffffffff) {
+		throw new Error('ZIP archive too large: ZIP64 output is not supported');
+	}
+
+	const output = new Uint8Array(localSize + centralSize + EOCD_SIZE);
+	const view = new DataView(output.buffer);
+	let offset: number = 0;
+	let central: number = localSize;
+
+	for (const file of files) {
+		const { name, data, crc } = file;
+
+		view.setUint32(offset, ZIP_MAGIC, true);
+		view.setUint16(offset + 4, 20, true); // version needed
+		view.setUint16(offset + 6, UTF8_FLAG, true);
+		view.setUint32(offset + 14, crc, true);
+		view.setUint32(offset + 18, data.byteLength, true);
+		view.setUint32(offset + 22, data.byteLength, true);
+		view.setUint16(offset + 26, name.byteLength, true);
+		output.set(name, offset + LOCAL_HEADER_SIZE);
+		output.set(data, offset + LOCAL_HEADER_SIZE + name.byteLength);
+
+		view.setUint32(central, CENTRAL_SIGNATURE, true);
+		view.setUint16(central + 4, 20, true); // version made by
+		view.setUint16(central + 6, 20, true); // version needed
+		view.setUint16(central + 8, UTF8_FLAG, true);
+		view.setUint32(central + 16, crc, true);
+		view.setUint32(central + 20, data.byteLength, true);
+		view.setUint32(central + 24, data.byteLength, true);
+		view.setUint16(central + 28, name.byteLength, true);
+		view.setUint32(central + 42, offset, true);
+		output.set(name, central + CENTRAL_HEADER_SIZE);
+
+		offset += LOCAL_HEADER_SIZE + name.byteLength + data.byteLength;
+		central += CENTRAL_HEADER_SIZE + name.byteLength;
+	}
+
+	view.setUint32(central, EOCD_SIGNATURE, true);
+	view.setUint16(central + 8, files.length, true);
+	view.setUint16(central + 10, files.length, true);
+	view.setUint32(central + 12, centralSize, true);
+	view.setUint32(central + 16, localSize, true);
+
+	return output;
+}
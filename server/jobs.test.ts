@@ -0,0 +1,112 @@
+import { expect, test } from 'bun:test';
+import { readdir } from 'node:fs/promises';
+import { join } from 'node:path';
+import { ErrorCode, withTempDir } from '$lib/mod';
+import { jobResult } from '../test/fixtures';
+import { createJobStore, isFinished, type JobError, type JobResult } from './jobs';
+
+const result: JobResult = await jobResult(3);
+
+const failure: JobError = { code: ErrorCode.COMPRESSION_FAILED, message: 'boom', status: 500 };
+
+test('a job goes from queued through running to done with its output', async () => {
+	const store = await createJobStore({ ttlMs: 60_000 });
+	const job = store.create('a', 'model.glb', 100);
+	expect(job).toMatchObject({ status: 'queued', filename: 'model.glb', inputSize: 100, logs: [] });
+	expect(store.get('a')).toBe(job);
+	expect(await store.readResult(job)).toBeUndefined();
+
+	await store.start(job);
+	expect(job.status).toBe('running');
+	expect(job.startedAt).toBeNumber();
+	store.log(job, 'Compressing');
+	expect(job.logs.map((entry) => entry.message)).toEqual(['Compressing']);
+
+	const output = new Uint8Array([1, 2, 3]);
+	await store.complete(job, result, output);
+	expect(job.status).toBe('done');
+	expect(isFinished(job)).toBe(true);
+	expect(job.expiresAt).toBe((job.finishedAt ?? 0) + 60_000);
+	expect(await store.readResult(job)).toEqual(output);
+});
+
+test('a failed job keeps its error and has no output', async () => {
+	const store = await createJobStore({ ttlMs: 60_000 });
+	const job = store.create('a', 'model.glb', 100);
+	await store.fail(job, failure);
+	expect(job).toMatchObject({ status: 'failed', error: failure });
+	expect(await store.readResult(job)).toBeUndefined();
+});
+
+test('a cancelled job ignores a later complete or fail', async () => {
+	const store = await createJobStore({ ttlMs: 60_000 });
+	const job = store.create('a', 'model.glb', 100);
+	await store.start(job);
+	await store.cancel(job);
+	expect(job.status).toBe('cancelled');
+
+	await store.complete(job, result, new Uint8Array(3));
+	await store.fail(job, failure);
+	expect(job.status).toBe('cancelled');
+	expect(job.result).toBeUndefined();
+	expect(job.error).toBeUndefined();
+	expect(await store.readResult(job)).toBeUndefined();
+});
+
+test('cancelling a finished job leaves it as it was', async () => {
+	const store = await createJobStore({ ttlMs: 60_000 });
+	const job = store.create('a', 'model.glb', 100);
+	await store.fail(job, failure);
+	await store.cancel(job);
+	expect(job.status).toBe('failed');
+});
+
+test('expired jobs are hidden and swept', async () => {
+	const store = await createJobStore({ ttlMs: 0 });
+	const finished = store.create('a', 'model.glb', 100);
+	const pending = store.create('b', 'model.glb', 100);
+	await store.complete(finished, result, new Uint8Array(3));
+	expect(store.get('a')).toBeUndefined();
+	expect(store.get('b')).toBe(pending);
+
+	expect(await store.sweep()).toBe(1);
+	expect(await store.sweep()).toBe(0);
+	expect(store.get('b')).toBe(pending);
+});
+
+test('jobs persisted to a directory survive a reload', async () => {
+	await withTempDir(async (dir) => {
+		const store = await createJobStore({ ttlMs: 60_000, dir });
+		const done = store.create('done', 'model.glb', 100);
+		const output = new Uint8Array([4, 5, 6]);
+		await store.start(done);
+		await store.complete(done, result, output);
+		const running = store.create('running', 'model.glb', 100);
+		await store.start(running);
+		expect((await readdir(dir)).sort()).toEqual(['done.bin', 'done.json', 'running.json']);
+
+		const reloaded = await createJobStore({ ttlMs: 60_000, dir });
+		const reloadedDone = reloaded.get('done');
+		expect(reloadedDone).toMatchObject({ status: 'done', result });
+		if (!reloadedDone) throw new Error('Job not reloaded');
+		expect(await reloaded.readResult(reloadedDone)).toEqual(output);
+		// Unfinished jobs cannot resume after a restart
+		expect(reloaded.get('running')).toMatchObject({
+			status: 'failed',
+			error: { code: ErrorCode.COMPRESSION_FAILED, message: 'Server restarted before the job finished' },
+		});
+
+		await reloaded.delete('done');
+		expect(reloaded.get('done')).toBeUndefined();
+		expect(await readdir(dir)).toEqual(['running.json']);
+	});
+});
+
+test('unreadable job metadata is discarded on load', async () => {
+	await withTempDir(async (dir) => {
+		await Bun.write(join(dir, 'broken.json'), '{"id":');
+		const store = await createJobStore({ ttlMs: 60_000, dir });
+		expect(store.get('broken')).toBeUndefined();
+		expect(await readdir(dir)).toEqual([]);
+	});
+});
@@ -0,0 +1,223 @@
+/**
+ * Job store for the asynchronous `/jobs` API.
+ *
+ * Jobs live in memory; with a directory configured, each job's metadata
+ * (`<id>.json`) and output (`<id>.bin`) are written to disk instead, so results
+ * do not occupy memory and survive a restart. Finished jobs expire after a TTL
+ * and are swept periodically.
+ *
+ * @module jobs
+ */
+
+import { mkdir, readdir, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { type CompressReport, ErrorCode, type ErrorCodeType } from '$lib/mod';
+
+/** Lifecycle of a job: `queued` → `running` → `done` | `failed` | `cancelled`. */
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+/** One progress line, as produced by `CompressOptions.onLog`. */
+export interface JobLogEntry {
+	/** Milliseconds since the epoch. */
+	time: number;
+	message: string;
+}
+
+/** Why a job failed, as returned by the synchronous endpoint. */
+export interface JobError {
+	code: ErrorCodeType;
+	message: string;
+	/** HTTP status the synchronous endpoint would have used. */
+	status: number;
+}
+
+/** Metadata of a finished job's output (the bytes are kept by the store). */
+export interface JobResult {
+	filename: string;
+	contentType: string;
+	size: number;
+	method: string;
+	/** Percentage reduction, e.g. `"84.1"`. */
+	ratio: string;
+	report: CompressReport;
+	/** Whether the output came from the server's result cache; unset when caching is off. */
+	cache?: 'hit' | 'miss';
+}
+
+/** A compression job. Timestamps are milliseconds since the epoch. */
+export interface Job {
+	id: string;
+	status: JobStatus;
+	/** Sanitized upload filename. */
+	filename: string;
+	inputSize: number;
+	createdAt: number;
+	startedAt?: number;
+	finishedAt?: number;
+	/** When the job is evicted; set once it finishes. */
+	expiresAt?: number;
+	logs: JobLogEntry[];
+	error?: JobError;
+	result?: JobResult;
+}
+
+/** Options for {@link createJobStore}. */
+export interface JobStoreOptions {
+	/** How long finished jobs are kept, in milliseconds. */
+	ttlMs: number;
+	/** Directory for job metadata and outputs; omit to keep everything in memory. */
+	dir?: string;
+	/** How often expired jobs are swept, in milliseconds. @default 60_000 */
+	sweepIntervalMs?: number;
+}
+
+/** Job registry with TTL eviction. */
+export interface JobStore {
+	/** Register a new `queued` job. */
+	create(id: string, filename: string, inputSize: number): Job;
+	/** Look up a job; expired jobs are treated as missing. */
+	get(id: string): Job | undefined;
+	/** Append a progress line. */
+	log(job: Job, message: string): void;
+	/** Mark a queued job as running. */
+	start(job: Job): Promise<void>;
+	/** Store a job's output and mark it done (ignored once the job is cancelled). */
+	complete(job: Job, result: JobResult, buffer: Uint8Array): Promise<void>;
+	/** Mark a job as failed (ignored once the job is cancelled). */
+	fail(job: Job, error: JobError): Promise<void>;
+	/** Mark an unfinished job as cancelled; its result is discarded when it finishes. */
+	cancel(job: Job): Promise<void>;
+	/** Output bytes of a `done` job. */
+	readResult(job: Job): Promise<Uint8Array | undefined>;
+	/** Remove a job and its output. */
+	delete(id: string): Promise<void>;
+	/** Remove every expired job; returns how many were evicted. */
+	sweep(): Promise<number>;
+}
+
+/** Terminal statuses: the job will not change anymore. */
+const FINISHED: readonly JobStatus[] = ['done', 'failed', 'cancelled'];
+
+/** Whether a job has reached a terminal status. */
+export function isFinished(job: Job): boolean {
+	return FINISHED.includes(job.status);
+}
+
+/**
+ * Create a job store, loading jobs persisted in `options.dir` from a previous run.
+ *
+ * Jobs that were still queued or running when the previous process stopped are
+ * marked failed.
+ */
+export async function createJobStore(options: JobStoreOptions): Promise<JobStore> {
+	const { ttlMs, dir } = options;
+	const jobs = new Map<string, Job>();
+	const results = new Map<string, Uint8Array>();
+
+	const metaPath = (id: string): string => join(dir ?? '', `${id}.json`);
+	const resultPath = (id: string): string => join(dir ?? '', `${id}.bin`);
+	const persist = async (job: Job): Promise<void> => {
+		if (dir) await Bun.write(metaPath(job.id), JSON.stringify(job));
+	};
+	const finish = async (job: Job, status: JobStatus): Promise<void> => {
+		const now: number = Date.now();
+		Object.assign(job, { status, finishedAt: now, expiresAt: now + ttlMs });
+		await persist(job);
+	};
+
+	if (dir) {
+		await mkdir(dir, { recursive: true });
+		for (const name of await readdir(dir)) {
+			if (!name.endsWith('.json')) continue;
+			try {
+				const job: Job = JSON.parse(await Bun.file(join(dir, name)).text());
+				jobs.set(job.id, job);
+				if (!isFinished(job)) {
+					job.error = {
+						code: ErrorCode.COMPRESSION_FAILED,
+						message: 'Server restarted before the job finished',
+						status: 500,
+					};
+					await finish(job, 'failed');
+				}
+			} catch {
+				// Unreadable metadata (e.g. a partial write) is discarded
+				await rm(join(dir, name), { force: true });
+			}
+		}
+	}
+
+	const store: JobStore = {
+		create(id, filename, inputSize) {
+			const job: Job = { id, status: 'queued', filename, inputSize, createdAt: Date.now(), logs: [] };
+			jobs.set(id, job);
+			return job;
+		},
+
+		get(id) {
+			const job: Job | undefined = jobs.get(id);
+			return job && (job.expiresAt === undefined || job.expiresAt > Date.now()) ? job : undefined;
+		},
+
+		log(job, message) {
+			job.logs.push({ time: Date.now(), message });
+		},
+
+		async start(job) {
+			if (job.status !== 'queued') return;
+			Object.assign(job, { status: 'running', startedAt: Date.now() });
+			await persist(job);
+		},
+
+		async complete(job, result, buffer) {
+			if (job.status === 'cancelled') return;
+			if (dir) await Bun.write(resultPath(job.id), buffer);
+			else results.set(job.id, buffer);
+			job.result = result;
+			await finish(job, 'done');
+		},
+
+		async fail(job, error) {
+			if (job.status === 'cancelled') return;
+			job.error = error;
+			await finish(job, 'failed');
+		},
+
+		async cancel(job) {
+			if (isFinished(job)) return;
+			await finish(job, 'cancelled');
+		},
+
+		async readResult(job) {
+			if (job.status !== 'done') return undefined;
+			if (!dir) return results.get(job.id);
+			const file = Bun.file(resultPath(job.id));
+			return (await file.exists()) ? file.bytes() : undefined;
+		},
+
+		async delete(id) {
+			jobs.delete(id);
+			results.delete(id);
+			if (dir) {
+				await rm(metaPath(id), { force: true });
+				await rm(resultPath(id), { force: true });
+			}
+		},
+
+		async sweep() {
+			const now: number = Date.now();
+			const expired: string[] = [...jobs.values()]
+				.filter((job) => job.expiresAt !== undefined && job.expiresAt <= now)
+				.map((job) => job.id);
+			for (const id of expired) await store.delete(id);
+			return expired.length;
+		},
+	};
+
+	const timer = setInterval(() => {
+		store.sweep().catch((err) => console.error('Job sweep failed:', err));
+	}, options.sweepIntervalMs ?? 60_000);
+	timer.unref();
+
+	return store;
+}
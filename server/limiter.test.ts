@@ -0,0 +1,86 @@
+import { expect, test } from 'bun:test';
+import { createLimiter, type LimiterRejection, type Release } from './limiter';
+
+/** Narrow an acquired slot to its release function. */
+function released(slot: Release | LimiterRejection): Release {
+	if (typeof slot !== 'function') throw new Error(`Slot refused: ${slot}`);
+	return slot;
+}
+
+test('requests beyond the concurrency wait in order and get the freed slot', async () => {
+	const limiter = createLimiter({ concurrency: 1, maxQueue: 2 });
+	const first: Release = released(await limiter.acquire());
+	const order: string[] = [];
+	const second = limiter.acquire().then((slot) => {
+		order.push('second');
+		return released(slot);
+	});
+	const third = limiter.acquire().then((slot) => {
+		order.push('third');
+		return released(slot);
+	});
+	expect(limiter.active).toBe(1);
+	expect(limiter.queued).toBe(2);
+	expect(limiter.isFull()).toBe(true);
+	expect(await limiter.acquire()).toBe('full');
+
+	first();
+	first();
+	(await second)();
+	(await third)();
+	expect(order).toEqual(['second', 'third']);
+	expect(limiter.active).toBe(0);
+	expect(limiter.queued).toBe(0);
+});
+
+test('waiters are told their queue position as it changes', async () => {
+	const limiter = createLimiter({ concurrency: 1, maxQueue: 2 });
+	const first: Release = released(await limiter.acquire());
+	const positions: [number, number][] = [];
+	const second = limiter.acquire();
+	const third = limiter.acquire({ onPosition: (position, queued) => positions.push([position, queued]) });
+	first();
+	released(await second)();
+	released(await third);
+	expect(positions).toEqual([
+		[2, 2],
+		[1, 1],
+	]);
+});
+
+test('a wait longer than the queue timeout is refused', async () => {
+	const limiter = createLimiter({ concurrency: 1, maxQueue: 1, queueTimeoutMs: 10 });
+	released(await limiter.acquire());
+	expect(await limiter.acquire()).toBe('timeout');
+	expect(limiter.queued).toBe(0);
+});
+
+test('noTimeout waits past the queue timeout', async () => {
+	const limiter = createLimiter({ concurrency: 1, maxQueue: 1, queueTimeoutMs: 10 });
+	const first: Release = released(await limiter.acquire());
+	const second = limiter.acquire({ noTimeout: true });
+	await Bun.sleep(30);
+	expect(limiter.queued).toBe(1);
+	first();
+	expect(typeof (await second)).toBe('function');
+});
+
+test('an aborted request leaves the queue', async () => {
+	const limiter = createLimiter({ concurrency: 1, maxQueue: 1 });
+	released(await limiter.acquire());
+	const abort = new AbortController();
+	const waiting = limiter.acquire({ signal: abort.signal });
+	abort.abort();
+	expect(await waiting).toBe('aborted');
+	expect(limiter.queued).toBe(0);
+	expect(await limiter.acquire({ signal: abort.signal })).toBe('aborted');
+});
+
+test('retryAfter grows with the queue', async () => {
+	const limiter = createLimiter({ concurrency: 1, maxQueue: 2 });
+	released(await limiter.acquire());
+	// Before any run finished, a pipeline is estimated at 10 seconds
+	expect(limiter.retryAfter()).toBe(10);
+	limiter.acquire();
+	expect(limiter.retryAfter()).toBe(20);
+});
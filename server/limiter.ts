@@ -0,0 +1,153 @@
+/**
+ * Concurrency limiter for the compression endpoints.
+ *
+ * At most `concurrency` pipelines run at once; further requests wait in a
+ * FIFO queue of at most `maxQueue` entries and are told their position as it
+ * changes. A full queue, a wait longer than `queueTimeoutMs`, or an aborted
+ * request (client disconnect) rejects the request instead.
+ *
+ * @module limiter
+ */
+
+/** Why a request did not get a slot. */
+export type LimiterRejection = 'full' | 'timeout' | 'aborted';
+
+/** Frees a slot acquired with {@link Limiter.acquire}. Calling it more than once is a no-op. */
+export type Release = () => void;
+
+/** Options for {@link createLimiter}. */
+export interface LimiterOptions {
+	/** Pipelines allowed to run at once. */
+	concurrency: number;
+	/** Requests allowed to wait for a slot. */
+	maxQueue: number;
+	/** Longest wait for a slot in milliseconds; omit to wait indefinitely. */
+	queueTimeoutMs?: number;
+}
+
+/** Options for one {@link Limiter.acquire} call. */
+export interface AcquireOptions {
+	/** Called with the 1-based queue position whenever it changes while waiting. */
+	onPosition?: (position: number, queued: number) => void;
+	/** Stop waiting when aborted (e.g. `Request.signal` on client disconnect). */
+	signal?: AbortSignal;
+	/** Wait indefinitely, ignoring {@link LimiterOptions.queueTimeoutMs} (background jobs). */
+	noTimeout?: boolean;
+}
+
+/** Counting semaphore with a bounded FIFO queue. */
+export interface Limiter {
+	/** Pipelines currently running. */
+	readonly active: number;
+	/** Requests currently waiting. */
+	readonly queued: number;
+	/** Whether a new request would be rejected with `full`. */
+	isFull(): boolean;
+	/** Wait for a slot; resolves with its {@link Release}, or with the reason it was refused. */
+	acquire(options?: AcquireOptions): Promise<Release | LimiterRejection>;
+	/** Suggested `Retry-After` in seconds, from the recent pipeline duration and queue length. */
+	retryAfter(): number;
+}
+
+/** Queue entry: wakes the waiting request with a release or a rejection. */
+interface Waiter {
+	resolve: (slot: Release | LimiterRejection) => void;
+	onPosition?: (position: number, queued: number) => void;
+}
+
+/** Initial pipeline duration estimate for {@link Limiter.retryAfter}, before any run finished. */
+const INITIAL_DURATION_MS = 10_000;
+
+/** Create a {@link Limiter}. */
+export function createLimiter(options: LimiterOptions): Limiter {
+	const { concurrency, maxQueue, queueTimeoutMs } = options;
+	const queue: Waiter[] = [];
+	let active: number = 0;
+	// Exponential moving average of how long a slot is held
+	let averageMs: number = INITIAL_DURATION_MS;
+
+	const notifyPositions = (): void => {
+		for (const [i, waiter] of queue.entries()) {
+			try {
+				waiter.onPosition?.(i + 1, queue.length);
+			} catch {
+				// A failing listener (e.g. a closed stream) must not break the hand-off
+			}
+		}
+	};
+
+	const grant = (): Release => {
+		active++;
+		const start: number = performance.now();
+		let released: boolean = false;
+		return () => {
+			if (released) return;
+			released = true;
+			averageMs = averageMs * 0.8 + (performance.now() - start) * 0.2;
+			const next: Waiter | undefined = queue.shift();
+			if (next) {
+				// Hand the slot straight to the next waiter
+				active--;
+				next.resolve(grant());
+				notifyPositions();
+			} else {
+				active--;
+			}
+		};
+	};
+
+	const remove = (waiter: Waiter): boolean => {
+		const index: number = queue.indexOf(waiter);
+		if (index < 0) return false;
+		queue.splice(index, 1);
+		notifyPositions();
+		return true;
+	};
+
+	return {
+		get active() {
+			return active;
+		},
+
+		get queued() {
+			return queue.length;
+		},
+
+		isFull() {
+			return active >= concurrency && queue.length >= maxQueue;
+		},
+
+		acquire({ onPosition, signal, noTimeout } = {}) {
+			if (signal?.aborted) return Promise.resolve('aborted');
+			if (active < concurrency) return Promise.resolve(grant());
+			if (queue.length >= maxQueue) return Promise.resolve('full');
+
+			return new Promise((resolve) => {
+				let timer: ReturnType<typeof setTimeout> | undefined;
+				const onAbort = (): void => {
+					if (remove(waiter)) settle('aborted');
+				};
+				const settle = (slot: Release | LimiterRejection): void => {
+					clearTimeout(timer);
+					signal?.removeEventListener('abort', onAbort);
+					resolve(slot);
+				};
+				const waiter: Waiter = { resolve: settle, onPosition };
+				queue.push(waiter);
+				onPosition?.(queue.length, queue.length);
+
+				signal?.addEventListener('abort', onAbort, { once: true });
+				if (queueTimeoutMs !== undefined && !noTimeout) {
+					timer = setTimeout(() => {
+						if (remove(waiter)) settle('timeout');
+					}, queueTimeoutMs);
+				}
+			});
+		},
+
+		retryAfter() {
+			const rounds: number = Math.ceil((queue.length + 1) / concurrency);
+			return Math.max(1, Math.ceil((averageMs * rounds) / 1000));
+		},
+	};
+}
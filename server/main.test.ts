@@ -0,0 +1,239 @@
+import { afterAll, beforeAll, expect, test } from 'bun:test';
+import type { Subprocess } from 'bun';
+import { gridDocument, writeGlb } from '../test/fixtures';
+
+const PORT = 39_171;
+
+let server: Subprocess;
+
+/** Open a `/ws` session that collects its JSON events; `next` resolves on the next one. */
+function openSession(): { ws: WebSocket; events: Record<string, unknown>[]; next: () => Promise<void> } {
+	const ws = new WebSocket(`ws://localhost:${PORT}/ws`);
+	const events: Record<string, unknown>[] = [];
+	let wake: (() => void) | undefined;
+	ws.addEventListener('message', (event) => {
+		if (typeof event.data !== 'string') return;
+		events.push(JSON.parse(event.data));
+		wake?.();
+	});
+	const next = (): Promise<void> =>
+		new Promise((resolve) => {
+			wake = resolve;
+		});
+	return { ws, events, next };
+}
+
+/** Wait until some collected event matches {@link predicate}. */
+async function waitFor(
+	session: ReturnType<typeof openSession>,
+	predicate: (event: Record<string, unknown>) => boolean,
+): Promise<Record<string, unknown>> {
+	for (;;) {
+		const found: Record<string, unknown> | undefined = session.events.find(predicate);
+		if (found) return found;
+		await session.next();
+	}
+}
+
+beforeAll(async () => {
+	server = Bun.spawn(['bun', 'server/main.ts'], {
+		env: {
+			...process.env,
+			PORT: String(PORT),
+			GLB_COMPRESSOR_CONCURRENCY: '1',
+			GLB_COMPRESSOR_QUEUE_DEPTH: '0',
+			GLB_COMPRESSOR_CACHE_SIZE: '0',
+		},
+		stdout: 'ignore',
+		stderr: 'ignore',
+	});
+	for (let attempt = 0; attempt < 100; attempt++) {
+		const ok: boolean = await fetch(`http://localhost:${PORT}/healthz`).then(
+			(res) => res.ok,
+			() => false,
+		);
+		if (ok) return;
+		await Bun.sleep(100);
+	}
+	throw new Error('Server did not start');
+});
+
+afterAll(() => {
+	server.kill();
+});
+
+test('/ws compress on a busy server keeps the running compression', async () => {
+	const session = openSession();
+	await waitFor(session, (event) => event.type === 'ready');
+	// Large enough that compressing it takes a while
+	session.ws.send(await writeGlb(gridDocument(300)));
+	await waitFor(session, (event) => event.type === 'uploaded');
+
+	session.ws.send(JSON.stringify({ type: 'compress' }));
+	session.ws.send(JSON.stringify({ type: 'compress', options: { preset: 'aggressive' } }));
+
+	const busy = await waitFor(session, (event) => event.type === 'error');
+	expect(busy).toMatchObject({ code: 'SERVER_BUSY' });
+	expect(busy.runId).toBeUndefined();
+
+	const first = await waitFor(session, (event) => event.type === 'log');
+	const done = await waitFor(session, (event) => event.type === 'result' || event.type === 'cancelled');
+	expect(done).toMatchObject({ type: 'result', runId: first.runId });
+	session.ws.close();
+}, 60_000);
+
+test('/ws inspects the upload and cancels a running compression', async () => {
+	const session = openSession();
+	await waitFor(session, (event) => event.type === 'ready');
+	session.ws.send(JSON.stringify({ type: 'inspect' }));
+	expect(await waitFor(session, (event) => event.type === 'error')).toMatchObject({ code: 'NO_FILE_PROVIDED' });
+
+	session.ws.send(await writeGlb(gridDocument(300)));
+	await waitFor(session, (event) => event.type === 'uploaded');
+	session.ws.send(JSON.stringify({ type: 'inspect' }));
+	const inspected = await waitFor(session, (event) => event.type === 'inspect');
+	expect(inspected.report).toMatchObject({ format: 'glb', skinned: false });
+
+	session.ws.send(JSON.stringify({ type: 'compress' }));
+	const log = await waitFor(session, (event) => event.type === 'log');
+	session.ws.send(JSON.stringify({ type: 'cancel' }));
+	const cancelled = await waitFor(session, (event) => event.type === 'cancelled' || event.type === 'result');
+	expect(cancelled).toEqual({ type: 'cancelled', runId: log.runId });
+	session.ws.close();
+}, 60_000);
+
+/** A response body that must be a JSON object. */
+async function readJson(res: Response): Promise<Record<string, unknown>> {
+	const body: unknown = await res.json();
+	if (typeof body !== 'object' || body === null) throw new Error('Expected a JSON object');
+	return Object.fromEntries(Object.entries(body));
+}
+
+/** `POST /jobs` with a raw GLB body; returns the response and its JSON. */
+async function createJob(body: Uint8Array): Promise<{ res: Response; job: Record<string, unknown> }> {
+	const res: Response = await fetch(`http://localhost:${PORT}/jobs`, { method: 'POST', body });
+	return { res, job: await readJson(res) };
+}
+
+/** Poll `GET /jobs/:id` until the job has finished. */
+async function finishedJob(id: unknown): Promise<Record<string, unknown>> {
+	for (;;) {
+		const job: Record<string, unknown> = await fetch(`http://localhost:${PORT}/jobs/${id}`).then(readJson);
+		if (job.status !== 'queued' && job.status !== 'running') return job;
+		await Bun.sleep(50);
+	}
+}
+
+test('/jobs compresses in the background and serves the result until deleted', async () => {
+	const input: Uint8Array = await writeGlb(gridDocument(10));
+	const { res, job } = await createJob(input);
+	expect(res.status).toBe(202);
+	expect(res.headers.get('Location')).toBe(`/jobs/${job.id}`);
+	expect(job).toMatchObject({ filename: 'model.glb', inputSize: input.byteLength });
+
+	const done = await finishedJob(job.id);
+	expect(done).toMatchObject({ status: 'done', resultUrl: `/jobs/${job.id}/result` });
+	expect(done.logCount).toBeGreaterThan(0);
+	const tail: Record<string, unknown> = await fetch(
+		`http://localhost:${PORT}/jobs/${job.id}?since=${done.logCount}`,
+	).then(readJson);
+	expect(tail).toMatchObject({ logs: [], logCount: done.logCount });
+
+	const result: Response = await fetch(`http://localhost:${PORT}/jobs/${job.id}/result`);
+	expect(result.status).toBe(200);
+	expect(result.headers.get('X-Original-Size')).toBe(String(input.byteLength));
+	expect(result.headers.get('Content-Disposition')).toBe('attachment; filename="model-compressed.glb"');
+	expect(new TextDecoder().decode((await result.bytes()).subarray(0, 4))).toBe('glTF');
+
+	const deleted: Response = await fetch(`http://localhost:${PORT}/jobs/${job.id}`, { method: 'DELETE' });
+	expect(deleted.status).toBe(200);
+	const gone: Response = await fetch(`http://localhost:${PORT}/jobs/${job.id}`);
+	expect(gone.status).toBe(404);
+	expect(await gone.json()).toMatchObject({ error: { code: 'JOB_NOT_FOUND' } });
+}, 60_000);
+
+test('/jobs reports a failed job and returns its error for the result', async () => {
+	const { job } = await createJob(new TextEncoder().encode('glTF not really'));
+	const failed = await finishedJob(job.id);
+	expect(failed).toMatchObject({ status: 'failed', error: { code: 'COMPRESSION_FAILED', status: 500 } });
+
+	const result: Response = await fetch(`http://localhost:${PORT}/jobs/${job.id}/result`);
+	expect(result.status).toBe(500);
+	expect(await result.json()).toMatchObject({ error: { code: 'COMPRESSION_FAILED' } });
+}, 60_000);
+
+test('/inspect reports a model without compressing it', async () => {
+	const input: Uint8Array = await writeGlb(gridDocument(10));
+	const res: Response = await fetch(`http://localhost:${PORT}/inspect`, { method: 'POST', body: input });
+	expect(res.status).toBe(200);
+	expect(await readJson(res)).toMatchObject({ format: 'glb', size: input.byteLength, meshes: [{ name: 'grid' }] });
+
+	const invalid: Response = await fetch(`http://localhost:${PORT}/inspect`, {
+		method: 'POST',
+		body: new TextEncoder().encode('glTF not really'),
+	});
+	expect(invalid.status).toBe(400);
+	expect(await readJson(invalid)).toMatchObject({ error: { code: 'INVALID_FILE' } });
+}, 60_000);
+
+/** The `data` of each `event` in a server-sent event stream. */
+function sseEvents(text: string): Record<string, string> {
+	const events: Record<string, string> = {};
+	for (const block of text.split('\n\n')) {
+		const event: string | undefined = /^event: (.+)$/m.exec(block)?.[1];
+		const data: string | undefined = /^data: (.+)$/m.exec(block)?.[1];
+		if (event && data) events[event] = data;
+	}
+	return events;
+}
+
+test('/compress-stream results are downloaded from /results/:id', async () => {
+	const input: Uint8Array = await writeGlb(gridDocument(10));
+	const form = new FormData();
+	form.append('file', new File([input], 'grid.glb'));
+	const res: Response = await fetch(`http://localhost:${PORT}/compress-stream`, { method: 'POST', body: form });
+	expect(res.headers.get('Content-Type')).toStartWith('text/event-stream');
+	const { result } = sseEvents(await res.text());
+	if (!result) throw new Error('No result event');
+	const { url, filename, originalSize } = JSON.parse(result);
+	expect({ filename, originalSize }).toEqual({ filename: 'grid-compressed.glb', originalSize: input.byteLength });
+
+	const download: Response = await fetch(`http://localhost:${PORT}${url}`);
+	expect(download.status).toBe(200);
+	expect(download.headers.get('X-Original-Size')).toBe(String(input.byteLength));
+	expect(new TextDecoder().decode((await download.bytes()).subarray(0, 4))).toBe('glTF');
+
+	const missing: Response = await fetch(`http://localhost:${PORT}/results/unknown`);
+	expect(missing.status).toBe(404);
+	expect(await readJson(missing)).toMatchObject({ error: { code: 'RESULT_NOT_FOUND' } });
+}, 60_000);
+
+test('/jobs cancels a running job on DELETE', async () => {
+	const { job } = await createJob(await writeGlb(gridDocument(300)));
+	const cancelled: Response = await fetch(`http://localhost:${PORT}/jobs/${job.id}`, { method: 'DELETE' });
+	expect(await cancelled.json()).toMatchObject({ status: 'cancelled' });
+
+	const result: Response = await fetch(`http://localhost:${PORT}/jobs/${job.id}/result`);
+	expect(result.status).toBe(409);
+	expect(await result.json()).toMatchObject({ error: { code: 'JOB_NOT_READY', message: 'Job was cancelled' } });
+}, 60_000);
+
+test('a saturated server refuses requests with 429 SERVER_BUSY and Retry-After', async () => {
+	const large: Uint8Array = await writeGlb(gridDocument(300));
+	let created = await createJob(large);
+	// The job cancelled by an earlier test may still hold the slot
+	while (created.res.status === 429) {
+		await Bun.sleep(50);
+		created = await createJob(large);
+	}
+	const { id } = created.job;
+
+	const small: Uint8Array = await writeGlb(gridDocument(4));
+	for (const path of ['/compress', '/jobs']) {
+		const res: Response = await fetch(`http://localhost:${PORT}${path}`, { method: 'POST', body: small });
+		expect(res.status).toBe(429);
+		expect(res.headers.get('Retry-After')).toMatch(/^[1-9]\d*$/);
+		expect(await readJson(res)).toMatchObject({ error: { code: 'SERVER_BUSY' } });
+	}
+	await fetch(`http://localhost:${PORT}/jobs/${id}`, { method: 'DELETE' });
+}, 60_000);
@@ -2,16 +2,56 @@
 /**
  * HTTP compression server built on `Bun.serve()`.
  *
- * Exposes two compression endpoints:
+ * Exposes five endpoints for uploaded models:
  *
  * - **`POST /compress`** — synchronous compression returning the compressed GLB binary
  *   with metadata in response headers. Accepts `multipart/form-data` or raw binary body.
  *
  * - **`POST /compress-stream`** — SSE (Server-Sent Events) streaming endpoint that
- *   delivers real-time progress logs and the final compressed GLB as base64.
+ *   delivers real-time progress logs and a short-lived `GET /results/:id` download
+ *   URL for the output (kept `GLB_COMPRESSOR_RESULTS_TTL` seconds).
  *
- * Both endpoints accept `?preset=` and `?simplify=` query params (or form fields).
- * Full CORS support, GLB magic-byte validation, 100 MB file size limit, and
+ * - **`POST /jobs`** — asynchronous compression: returns a job ID immediately;
+ *   poll `GET /jobs/:id` for status and logs, download from `GET /jobs/:id/result`,
+ *   cancel or remove with `DELETE /jobs/:id`. Finished jobs expire after
+ *   `GLB_COMPRESSOR_JOBS_TTL` seconds; set `GLB_COMPRESSOR_JOBS_DIR` to keep
+ *   jobs on disk instead of in memory.
+ *
+ * - **`POST /inspect`** — report the model's meshes, skins, animations, materials,
+ *   textures, extensions, and byte breakdown as JSON, without compressing.
+ *
+ * - **`/ws`** — WebSocket session: the client uploads a model once, then sends
+ *   `compress` (with options), `cancel`, and `inspect` commands and receives
+ *   log events, reports, and binary results (protocol in `server/ws.ts`).
+ *
+ * Pipelines run on a pool of worker threads, so `/healthz` and SSE streams stay
+ * responsive during long compressions and a crashing worker only fails its own
+ * request. At most `GLB_COMPRESSOR_CONCURRENCY` compressions (one per worker) run
+ * at once; up to `GLB_COMPRESSOR_QUEUE_DEPTH` more wait in a queue (synchronous
+ * requests for at most `GLB_COMPRESSOR_QUEUE_TIMEOUT` seconds). Beyond that,
+ * requests are refused with `SERVER_BUSY` — `429` for a full queue, `503` for a
+ * queue timeout — and a `Retry-After` header. A client that disconnects, or a
+ * cancelled job, stops its pipeline, gltfpack included.
+ *
+ * Results are cached in memory by input and options (LRU, up to
+ * `GLB_COMPRESSOR_CACHE_SIZE` of output; `0` disables it): a repeated request
+ * returns the stored output, marked `X-Cache: HIT` (`MISS` otherwise).
+ * `GET /cache` reports hit/miss counters and the cache size.
+ *
+ * The compression endpoints accept `?preset=`, `?simplify=`, `?backend=`, `?lods=`, `?lodOutput=`,
+ * `?verify=`, and `?breakdown=` query params (or form fields), plus per-phase pipeline options as
+ * `?<stage>.<option>=` and `?skip=<stage,...>`. Animation clips are selected with `?keepAnims=`
+ * and `?dropAnims=` (names or `/regex/`), renamed with `?renameAnim=old=new`, trimmed with
+ * `?trimAnims=start:end`, and `?splitAnims=true` returns a ZIP of the model and one GLB per clip. With `verify=true` the report carries
+ * quality metrics comparing the output to the input; with `breakdown=true`, the input's and
+ * output's bytes by mesh, animation clip, image, and JSON. `preset=auto` picks the smallest
+ * built-in preset within `?tolerance=` (e.g. `geometry:0.001,rotation:1`). `?maxSize=3MB`
+ * escalates settings until the output fits and fails with `BUDGET_EXCEEDED` otherwise.
+ * Custom presets are loaded at startup from `GLB_COMPRESSOR_CONFIG` or the nearest
+ * `glb-compressor.config.(ts|json)`; unknown presets are rejected with `INVALID_PRESET`.
+ * Input may be a GLB, a self-contained `.gltf`, a `.gltf` uploaded together with
+ * its `.bin`/texture files (several `file` fields), or a ZIP archive of those.
+ * Full CORS support, input format validation, 100 MB upload limit, and
  * structured JSON error responses with request ID tracking.
  *
  * @example
@@ -26,28 +66,89 @@
  * @module server
  */
 
-import type { CompressPreset } from '$lib/mod';
+import type { BunRequest, Server, ServerWebSocket, WebSocketHandler } from 'bun';
+import type {
+	AnimationSelection,
+	CacheStats,
+	CompressBackend,
+	CompressCache,
+	CompressOptions,
+	CompressorPool,
+	CompressPreset,
+	CompressReport,
+	CompressResult,
+	ErrorCodeType,
+	GltfResources,
+	InputFormat,
+	InspectReport,
+	LodOutput,
+	PipelineOptions,
+	QualityTolerance,
+} from '$lib/mod';
 import {
-	compress,
+	AUTO_PRESET,
+	COMPRESS_BACKENDS,
+	CompressionCancelledError,
+	CompressorPoolError,
+	clipFilenames,
+	createCompressorPool,
+	createMemoryCache,
+	createZip,
 	DEFAULT_PORT,
+	detectInputFormat,
 	ErrorCode,
+	formatBudgetFailure,
 	formatBytes,
+	getPreset,
+	JOB_TTL_MS,
+	LOD_OUTPUTS,
+	listPresets,
+	loadConfig,
 	MAX_FILE_SIZE,
-	PRESETS,
+	parseAnimationSelection,
+	parseByteSize,
+	parseLodList,
+	parsePipelineOptions,
 	parseSimplifyRatio,
+	parseTolerance,
+	resolveLodLevels,
+	resolvePipeline,
+	RESULT_STORE_BYTES,
+	RESULT_TTL_MS,
+	readZip,
+	SERVER_CACHE_BYTES,
+	SERVER_CONCURRENCY,
+	SERVER_QUEUE_DEPTH,
+	SERVER_QUEUE_TIMEOUT_MS,
 	sanitizeFilename,
 	validateGlbMagic,
 } from '$lib/mod';
-
-const VALID_PRESETS = new Set(Object.keys(PRESETS));
+import { createJobStore, isFinished, type Job, type JobError, type JobResult, type JobStore } from './jobs';
+import { createLimiter, type Limiter, type LimiterRejection, type Release } from './limiter';
+import { createResultStore, type ResultStore, type StoredResult } from './results';
+import { commandParams, parseWsCommand, type WsCommand, type WsEvent, type WsSession, type WsUpload } from './ws';
 
 /**
- * Parse and validate a compression preset string.
- * Returns `"default"` for null, empty, or unrecognized values.
+ * Parse and validate a compression preset string against the registered presets
+ * (plus `auto`). Returns `"default"` for null or empty values and `null` for unknown presets.
  */
-function parsePreset(raw: string | null): CompressPreset {
-	if (!raw || !VALID_PRESETS.has(raw)) return 'default';
-	return raw as CompressPreset;
+function parsePreset(raw: string | null): CompressPreset | null {
+	if (!raw) return 'default';
+	return raw === AUTO_PRESET || getPreset(raw) ? raw : null;
+}
+
+/** Whether a query param / form field name carries a pipeline option (`<stage>.<option>` or `skip`). */
+function isPipelineKey(key: string): boolean {
+	return key === 'skip' || key.includes('.');
+}
+
+/** Error for a preset name that is not registered. */
+function invalidPresetError(raw: string): JobError {
+	return {
+		code: ErrorCode.INVALID_PRESET,
+		message: `Unknown preset "${raw}" (available: ${[...listPresets(), AUTO_PRESET].join(', ')})`,
+		status: 400,
+	};
 }
 
 /** Resolved server port from `PORT` env var or {@link DEFAULT_PORT}. */
@@ -65,27 +166,220 @@ interface ApiError {
 /** Standard CORS headers included in every response. */
 const CORS_HEADERS: Record<string, string> = {
 	'Access-Control-Allow-Origin': '*',
-	'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+	'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
 	'Access-Control-Allow-Headers': 'Content-Type, X-Request-ID',
 	'Access-Control-Expose-Headers':
-		'X-Request-ID, X-Original-Size, X-Compressed-Size, X-Compression-Method, X-Compression-Ratio',
+		'Location, Retry-After, X-Request-ID, X-Original-Size, X-Compressed-Size, X-Compression-Method, X-Compression-Preset, X-Compression-Ratio, X-Compression-Report, X-Cache',
 };
 
 /**
  * Parsed and validated compression request data extracted from an incoming HTTP request.
  */
 interface ParsedRequest {
+	/** Main model file: GLB binary or glTF JSON text. */
 	input: Uint8Array;
+	/** Detected format of {@link ParsedRequest.input}. */
+	format: Exclude<InputFormat, 'zip'>;
+	/** External resources for a JSON glTF main file, keyed by relative path (empty for GLB). */
+	resources: GltfResources;
+	/** Total uploaded bytes (main file + resources, or the ZIP archive). */
+	inputSize: number;
 	filename: string;
 	preset: CompressPreset;
+	/** Error limits for `preset=auto`. */
+	tolerance: QualityTolerance | undefined;
 	simplifyRatio: number | undefined;
+	/** Size budget in bytes, or `undefined` for none. */
+	targetBytes: number | undefined;
+	pipeline: PipelineOptions;
+	backend: CompressBackend;
+	/** LOD chain ratios, or `undefined` to skip. */
+	lods: number[] | undefined;
+	lodOutput: LodOutput;
+	/** Animation clips to keep, drop, rename, and trim, or `undefined` for all of them as-is. */
+	animations: AnimationSelection | undefined;
+	/** Return each animation clip as its own GLB, in a ZIP with the model. */
+	splitAnimations: boolean;
+	/** Attach quality metrics (`report.quality`). */
+	verify: boolean;
+	/** Attach input and output byte attribution (`report.breakdown`). */
+	breakdown: boolean;
+}
+
+/** Main model file selected from a multi-file upload or ZIP archive. */
+interface ModelFileSelection {
+	filename: string;
+	input: Uint8Array;
+	resources: GltfResources;
+}
+
+/**
+ * Pick the main model file out of a set of uploaded files (or ZIP entries).
+ *
+ * A single `.gltf` wins over `.glb`; every other file becomes a resource keyed
+ * by its path relative to the main file's directory. Returns an error message
+ * when no model file, or more than one candidate, is present.
+ */
+function selectModelFile(files: Map<string, Uint8Array>): ModelFileSelection | string {
+	const names: string[] = [...files.keys()];
+	const gltfNames: string[] = names.filter((name) => /\.gltf$/i.test(name));
+	const candidates: string[] = gltfNames.length > 0 ? gltfNames : names.filter((name) => /\.glb$/i.test(name));
+	if (candidates.length === 0) return 'No .gltf or .glb file found in upload';
+	if (candidates.length > 1) return `Multiple model files found in upload: ${candidates.join(', ')}`;
+
+	const [mainName] = candidates;
+	const input: Uint8Array | undefined = mainName === undefined ? undefined : files.get(mainName);
+	if (mainName === undefined || !input) return 'No .gltf or .glb file found in upload';
+
+	const baseDir: string = mainName.includes('/') ? mainName.slice(0, mainName.lastIndexOf('/') + 1) : '';
+	const resources: GltfResources = {};
+	for (const [name, data] of files) {
+		if (name === mainName) continue;
+		resources[baseDir && name.startsWith(baseDir) ? name.slice(baseDir.length) : name] = data;
+	}
+	return { filename: mainName, input, resources };
+}
+
+/** Compression options of a {@link ParsedRequest}, as validated by {@link parseRequestOptions}. */
+type RequestOptions = Omit<ParsedRequest, 'input' | 'format' | 'resources' | 'inputSize' | 'filename'>;
+
+/** Uploaded model of a {@link ParsedRequest}, as selected by {@link parseUpload}. */
+type RequestUpload = Pick<ParsedRequest, 'input' | 'format' | 'resources' | 'filename'>;
+
+/**
+ * Validate compression options given as query params and form fields.
+ *
+ * For each option the last non-empty value wins (form fields are appended
+ * after query params, so they take precedence); pipeline options
+ * (`<stage>.<option>`, `skip`) and clip lists (`keepAnims`, `dropAnims`,
+ * `renameAnim`) accumulate in order.
+ *
+ * @returns The options, or the `400` error to report.
+ */
+function parseRequestOptions(params: URLSearchParams): RequestOptions | JobError {
+	const param = (name: string): string | null => params.getAll(name).findLast(Boolean) ?? null;
+	const invalid = (message: string): JobError => ({ code: ErrorCode.INVALID_OPTIONS, message, status: 400 });
+
+	const rawPreset: string | null = param('preset');
+	const preset = parsePreset(rawPreset);
+	const presetConfig = preset ? getPreset(preset === AUTO_PRESET ? 'default' : preset) : undefined;
+	if (!preset || !presetConfig) return invalidPresetError(rawPreset ?? '');
+
+	const rawBackend: string = param('backend') || 'auto';
+	const backend = COMPRESS_BACKENDS.find((name) => name === rawBackend);
+	if (!backend) return invalid(`Unknown backend "${rawBackend}" (available: ${COMPRESS_BACKENDS.join(', ')})`);
+
+	const rawLodOutput: string = param('lodOutput') || 'msft_lod';
+	const lodOutput = LOD_OUTPUTS.find((name) => name === rawLodOutput);
+	if (!lodOutput) return invalid(`Unknown lodOutput "${rawLodOutput}" (available: ${LOD_OUTPUTS.join(', ')})`);
+
+	const rawMaxSize: string | null = param('maxSize');
+	const targetBytes: number | undefined = parseByteSize(rawMaxSize);
+	if (rawMaxSize && targetBytes === undefined)
+		return invalid(`Invalid maxSize "${rawMaxSize}" (e.g. 3MB, 512KB, 1048576)`);
+	if (rawMaxSize && preset === AUTO_PRESET) return invalid('maxSize cannot be combined with preset=auto');
+
+	const lods: number[] | undefined = parseLodList(param('lods'));
+	const rawTolerance: string | null = param('tolerance');
+	const flag = (name: string): boolean => param(name) === 'true' || param(name) === '1';
+	const splitAnimations: boolean = flag('splitAnims');
+	if (splitAnimations && lods && lodOutput === 'files')
+		return invalid('splitAnims cannot be combined with lodOutput=files');
+	let pipeline: PipelineOptions;
+	let tolerance: QualityTolerance | undefined;
+	let animations: AnimationSelection | undefined;
+	try {
+		if (lods) resolveLodLevels(lods);
+		if (rawTolerance) tolerance = parseTolerance(rawTolerance);
+		animations = parseAnimationSelection({
+			keep: params.getAll('keepAnims'),
+			drop: params.getAll('dropAnims'),
+			rename: params.getAll('renameAnim'),
+			trim: param('trimAnims'),
+		});
+		pipeline = parsePipelineOptions([...params].filter(([key]) => isPipelineKey(key)));
+		resolvePipeline(presetConfig, pipeline);
+	} catch (err) {
+		return invalid(err instanceof Error ? err.message : 'Invalid pipeline options');
+	}
+
+	return {
+		preset,
+		tolerance,
+		simplifyRatio: parseSimplifyRatio(param('simplify')),
+		targetBytes,
+		pipeline,
+		backend,
+		lods,
+		lodOutput,
+		animations,
+		splitAnimations,
+		verify: flag('verify'),
+		breakdown: flag('breakdown'),
+	};
+}
+
+/**
+ * Select and validate the model among uploaded files: a lone ZIP is unpacked
+ * first, a `.gltf` takes the other files as resources (see {@link selectModelFile}),
+ * and the main file must be a GLB or glTF JSON.
+ *
+ * @returns The upload, or the `400` error to report.
+ */
+function parseUpload(files: Map<string, Uint8Array>): RequestUpload | JobError {
+	// A lone ZIP upload is unpacked and treated like a multi-file upload
+	const [single] = files.size === 1 ? [...files.values()] : [];
+	if (single && detectInputFormat(single) === 'zip') {
+		files = new Map();
+		try {
+			for (const [name, data] of readZip(single, MAX_FILE_SIZE)) {
+				if (!name.startsWith('__MACOSX/')) files.set(name, data);
+			}
+		} catch (err) {
+			return {
+				code: ErrorCode.INVALID_FILE,
+				message: err instanceof Error ? err.message : 'Invalid ZIP archive',
+				status: 400,
+			};
+		}
+	}
+
+	const [first] = [...files];
+	const selection: ModelFileSelection | string =
+		files.size === 1 && first ? { filename: first[0], input: first[1], resources: {} } : selectModelFile(files);
+	if (typeof selection === 'string') return { code: ErrorCode.INVALID_FILE, message: selection, status: 400 };
+	const { input, resources } = selection;
+
+	// Input format validation (GLB magic bytes or glTF JSON)
+	const format = detectInputFormat(input);
+	if (format !== 'gltf') {
+		try {
+			validateGlbMagic(input);
+		} catch (err) {
+			return {
+				code: ErrorCode.INVALID_GLB,
+				message: err instanceof Error ? err.message : 'Invalid GLB file',
+				status: 400,
+			};
+		}
+	}
+
+	return {
+		input,
+		format: format === 'gltf' ? 'gltf' : 'glb',
+		resources,
+		filename: sanitizeFilename(selection.filename),
+	};
 }
 
 /**
  * Parse and validate a compression request from multipart form data or raw binary body.
  *
- * Extracts the file, validates size and GLB magic bytes, and resolves preset/simplify
- * options from query params and form fields (form fields take precedence).
+ * Extracts the file(s), validates size and input format, and resolves
+ * compression options from query params and form fields (form fields take
+ * precedence). Multipart requests may carry several `file` fields (a `.gltf`
+ * plus its resources); a single ZIP file (multipart or raw) is unpacked the
+ * same way.
  *
  * @param req            - Incoming HTTP request.
  * @param requestId      - UUID tracking this request.
@@ -97,38 +391,33 @@ async function parseCompressRequest(
 	requestId: string,
 	requireMultipart: boolean,
 ): Promise<ParsedRequest | Response> {
-	const url = new URL(req.url);
 	const contentType = req.headers.get('content-type') ?? '';
 
-	let input: Uint8Array;
-	let filename = 'model.glb';
-	let simplifyRatio: number | undefined = parseSimplifyRatio(url.searchParams.get('simplify'));
-	let preset = parsePreset(url.searchParams.get('preset'));
+	const files = new Map<string, Uint8Array>();
+	let inputSize: number = 0;
+	// Query params, then form fields (which win)
+	const params = new URLSearchParams(new URL(req.url).search);
 
 	if (contentType.includes('multipart/form-data')) {
 		const formData = await req.formData();
-		const file = formData.get('file') as File | null;
-		if (!file) {
+		const uploads = formData.getAll('file').filter((entry) => typeof entry !== 'string');
+		if (uploads.length === 0) {
 			return jsonError(ErrorCode.NO_FILE_PROVIDED, 'No file provided in form data', 400, requestId);
 		}
-		if (file.size > MAX_FILE_SIZE) {
+		inputSize = uploads.reduce((sum, file) => sum + file.size, 0);
+		if (inputSize > MAX_FILE_SIZE) {
 			return jsonError(
 				ErrorCode.FILE_TOO_LARGE,
-				`File too large: ${formatBytes(file.size)} exceeds ${formatBytes(MAX_FILE_SIZE)} limit`,
+				`File too large: ${formatBytes(inputSize)} exceeds ${formatBytes(MAX_FILE_SIZE)} limit`,
 				413,
 				requestId,
 			);
 		}
-		input = new Uint8Array(await file.arrayBuffer());
-		filename = file.name;
-		// Form data overrides query params
-		const formSimplify = formData.get('simplify');
-		if (formSimplify) {
-			simplifyRatio = parseSimplifyRatio(String(formSimplify));
+		for (const file of uploads) {
+			files.set(file.name || 'model.glb', new Uint8Array(await file.arrayBuffer()));
 		}
-		const formPreset = formData.get('preset');
-		if (formPreset) {
-			preset = parsePreset(String(formPreset));
+		for (const [key, value] of formData) {
+			if (typeof value === 'string') params.append(key, value);
 		}
 	} else if (requireMultipart) {
 		return jsonError(ErrorCode.INVALID_CONTENT_TYPE, 'Use multipart/form-data for streaming endpoint', 415, requestId);
@@ -142,25 +431,162 @@ async function parseCompressRequest(
 				requestId,
 			);
 		}
-		input = new Uint8Array(await req.arrayBuffer());
-		if (input.byteLength > MAX_FILE_SIZE) {
+		const body = new Uint8Array(await req.arrayBuffer());
+		if (body.byteLength > MAX_FILE_SIZE) {
 			return jsonError(
 				ErrorCode.FILE_TOO_LARGE,
-				`File too large: ${formatBytes(input.byteLength)} exceeds ${formatBytes(MAX_FILE_SIZE)} limit`,
+				`File too large: ${formatBytes(body.byteLength)} exceeds ${formatBytes(MAX_FILE_SIZE)} limit`,
 				413,
 				requestId,
 			);
 		}
+		inputSize = body.byteLength;
+		files.set(detectInputFormat(body) === 'gltf' ? 'model.gltf' : 'model.glb', body);
+	}
+
+	const options: RequestOptions | JobError = parseRequestOptions(params);
+	if ('code' in options) return jsonError(options.code, options.message, options.status, requestId);
+	const upload: RequestUpload | JobError = parseUpload(files);
+	if ('code' in upload) return jsonError(upload.code, upload.message, upload.status, requestId);
+
+	return { ...upload, inputSize, ...options };
+}
+
+/** Compression options carried by a parsed request. */
+function compressOptions(parsed: ParsedRequest): CompressOptions {
+	const { simplifyRatio, targetBytes, preset, tolerance, pipeline, backend, lods, lodOutput } = parsed;
+	const { animations, splitAnimations, verify, breakdown } = parsed;
+	return {
+		simplifyRatio,
+		targetBytes,
+		preset,
+		tolerance,
+		pipeline,
+		backend,
+		lods,
+		lodOutput,
+		animations,
+		splitAnimations,
+		verify,
+		breakdown,
+	};
+}
+
+/** Worker threads running the pipelines, created by {@link main} with one worker per {@link limiter} slot. */
+let pool: CompressorPool;
+
+/** Result cache consulted by every compression, created by {@link main}; `undefined` when disabled. */
+let cache: CompressCache | undefined;
+
+/** Maximum output bytes held by {@link cache}. */
+let cacheMaxBytes: number = 0;
+
+/**
+ * Dispatch a parsed request to `compress` or `compressGltf` on the worker {@link pool}
+ * based on its format. The upload buffer is transferred to the worker.
+ */
+function compressParsed(parsed: ParsedRequest, options: CompressOptions): Promise<CompressResult> {
+	if (parsed.format === 'gltf') {
+		return pool.compressGltf(new TextDecoder().decode(parsed.input), parsed.resources, options);
 	}
+	return pool.compress(parsed.input, options);
+}
 
-	// GLB magic byte validation
+/**
+ * Compress a parsed request into its download: the GLB, or a ZIP of the
+ * per-level files with `lodOutput=files` or of the GLB and its clips with `splitAnims`. Failures are returned, not thrown,
+ * with the error code and HTTP status to report (`CANCELLED` once `signal` aborts).
+ *
+ * Shared by `/compress`, `/compress-stream`, and `/jobs`.
+ */
+async function compressRequest(
+	parsed: ParsedRequest,
+	requestId: string,
+	options: Pick<CompressOptions, 'onLog' | 'signal'> = {},
+): Promise<{ buffer: Uint8Array; result: JobResult } | JobError> {
+	const { inputSize, filename } = parsed;
+
+	let compressed: CompressResult;
 	try {
-		validateGlbMagic(input);
+		compressed = await compressParsed(parsed, { ...compressOptions(parsed), cache, ...options });
 	} catch (err) {
-		return jsonError(ErrorCode.INVALID_GLB, err instanceof Error ? err.message : 'Invalid GLB file', 400, requestId);
+		if (err instanceof CompressionCancelledError) {
+			console.log(`[${requestId}] Compression cancelled`);
+			return { code: ErrorCode.CANCELLED, message: err.message, status: 499 };
+		}
+		console.error(`[${requestId}] Compression failed:`, err);
+		const message: string = err instanceof Error ? err.message : 'Compression failed';
+		return { code: ErrorCode.COMPRESSION_FAILED, message, status: 500 };
+	}
+
+	const { method, report, lods: lodFiles, clips } = compressed;
+	if (report.budget && !report.budget.met) {
+		console.log(`[${requestId}] ${formatBudgetFailure(report.budget)}`);
+		return { code: ErrorCode.BUDGET_EXCEEDED, message: formatBudgetFailure(report.budget), status: 422 };
+	}
+
+	// Per-level LOD files are bundled into one ZIP archive
+	let buffer: Uint8Array = compressed.buffer;
+	let outputName: string = filename.replace(/\.(glb|gltf)$/i, '-compressed.glb');
+	if (lodFiles) {
+		const entries = new Map<string, Uint8Array>(
+			lodFiles.map((lod) => [filename.replace(/\.(glb|gltf)$/i, `.lod${lod.level}.glb`), lod.buffer]),
+		);
+		buffer = createZip(entries);
+		outputName = filename.replace(/\.(glb|gltf)$/i, '-lods.zip');
 	}
+	// Split clips likewise, next to the model: <name>-compressed.glb, <name>.<clip>.glb
+	if (clips) {
+		const base: string = filename.replace(/\.(glb|gltf)$/i, '');
+		const clipNames: string[] = clipFilenames(
+			base,
+			clips.map((clip) => clip.name),
+		);
+		const entries = new Map<string, Uint8Array>([
+			[outputName, compressed.buffer],
+			...clips.map((clip, i): [string, Uint8Array] => [clipNames[i] ?? `${base}.clip${i}.glb`, clip.buffer]),
+		]);
+		buffer = createZip(entries);
+		outputName = `${base}-clips.zip`;
+	}
+
+	const ratio: string = ((1 - buffer.byteLength / inputSize) * 100).toFixed(1);
+	const cached: string = compressed.cache === 'hit' ? ', cached' : '';
+	console.log(
+		`[${requestId}] ${formatBytes(inputSize)} -> ${formatBytes(buffer.byteLength)} (${ratio}% reduction, ${method}${cached})`,
+	);
+	return {
+		buffer,
+		result: {
+			filename: outputName,
+			contentType: lodFiles || clips ? 'application/zip' : 'model/gltf-binary',
+			size: buffer.byteLength,
+			method,
+			ratio,
+			report,
+			cache: compressed.cache,
+		},
+	};
+}
 
-	return { input, filename: sanitizeFilename(filename), preset, simplifyRatio };
+/** Binary download response with the `X-Compression-*` metadata headers (and `X-Cache` when caching is on). */
+function downloadResponse(buffer: Uint8Array, result: JobResult, inputSize: number, requestId: string): Response {
+	return new Response(buffer, {
+		headers: {
+			...CORS_HEADERS,
+			...(result.cache ? { 'X-Cache': result.cache.toUpperCase() } : {}),
+			'Content-Type': result.contentType,
+			'Content-Disposition': `attachment; filename="${result.filename}"`,
+			'Content-Length': String(buffer.byteLength),
+			'X-Request-ID': requestId,
+			'X-Original-Size': String(inputSize),
+			'X-Compressed-Size': String(buffer.byteLength),
+			'X-Compression-Method': result.method,
+			'X-Compression-Preset': result.report.preset,
+			'X-Compression-Ratio': result.ratio,
+			'X-Compression-Report': Buffer.from(JSON.stringify(result.report)).toString('base64'),
+		},
+	});
 }
 
 /**
@@ -170,96 +596,173 @@ async function parseCompressRequest(
  * @param message   - Human-readable error description.
  * @param status    - HTTP status code (e.g. 400, 413, 415, 500).
  * @param requestId - UUID tracking this request.
+ * @param headers   - Extra response headers (e.g. `Retry-After`).
  */
-function jsonError(code: string, message: string, status: number, requestId: string): Response {
+function jsonError(
+	code: string,
+	message: string,
+	status: number,
+	requestId: string,
+	headers: Record<string, string> = {},
+): Response {
 	const body: ApiError = {
 		error: { code, message },
 		requestId,
 	};
 	return Response.json(body, {
 		status,
-		headers: { ...CORS_HEADERS, 'X-Request-ID': requestId },
+		headers: { ...CORS_HEADERS, ...headers, 'X-Request-ID': requestId },
+	});
+}
+
+/** Concurrency limiter shared by all compression endpoints, created by {@link main}. */
+let limiter: Limiter;
+
+/** Human-readable reason for a request refused by {@link limiter}. */
+function busyMessage(rejection: LimiterRejection): string {
+	switch (rejection) {
+		case 'full':
+			return `Server busy: ${limiter.active} running, ${limiter.queued} queued`;
+		case 'timeout':
+			return 'Server busy: timed out waiting for a compression slot';
+		case 'aborted':
+			return 'Request aborted while waiting for a compression slot';
+	}
+}
+
+/** Progress line for a request waiting in the {@link limiter} queue. */
+function queuePositionMessage(position: number, queued: number): string {
+	return `Queued: position ${position} of ${queued} (${limiter.active} running)`;
+}
+
+/**
+ * `SERVER_BUSY` response for a request refused by {@link limiter}: `429` when
+ * the queue is full, `503` when the wait timed out or was aborted, with a
+ * `Retry-After` estimate in seconds.
+ */
+function busyError(rejection: LimiterRejection, requestId: string): Response {
+	const message: string = busyMessage(rejection);
+	console.log(`[${requestId}] ${message}`);
+	return jsonError(ErrorCode.SERVER_BUSY, message, rejection === 'full' ? 429 : 503, requestId, {
+		'Retry-After': String(limiter.retryAfter()),
 	});
 }
 
 /**
  * Handle `POST /compress` — synchronous GLB compression.
  *
- * Accepts `multipart/form-data` (field: `file`) or raw `application/octet-stream`.
- * Compression options can be passed as query params (`?preset=&simplify=`) or
- * form fields. Returns the compressed GLB binary with metadata headers:
+ * Accepts `multipart/form-data` (field: `file`, repeatable for `.gltf` + resources)
+ * or a raw `application/octet-stream` body (GLB, glTF JSON, or ZIP).
+ * Compression options can be passed as query params (`?preset=&simplify=`,
+ * `?<stage>.<option>=`, `?skip=`) or form fields. Returns the compressed GLB binary with metadata headers:
  *
  * - `X-Original-Size` / `X-Compressed-Size` — byte counts
- * - `X-Compression-Method` — `"gltfpack"` or `"meshopt"`
+ * - `X-Compression-Method` — `"gltfpack"`, `"meshopt"`, `"draco"`, or `"none"`
+ * - `X-Compression-Preset` — preset used (the winning one for `preset=auto`)
  * - `X-Compression-Ratio` — percentage reduction (e.g. `"84.1"`)
+ * - `X-Compression-Report` — base64-encoded JSON {@link CompressReport}
+ * - `X-Cache` — `HIT` when the output came from the result cache, `MISS` otherwise (absent when it is off)
  * - `Content-Disposition` — suggested download filename
+ *
+ * With `lodOutput=files` the body is a ZIP of `<name>.lod0.glb … lodN.glb`
+ * instead, with `splitAnims=true` a ZIP of `<name>-compressed.glb` and one
+ * `<name>.<clip>.glb` per clip, and the size headers describe the archive. A `maxSize` budget that
+ * cannot be met returns `422 BUDGET_EXCEEDED`; a saturated server `429`/`503 SERVER_BUSY`.
  */
 async function handleCompress(req: globalThis.Request): Promise<Response> {
 	const requestId = crypto.randomUUID();
+	// Refuse before reading the upload when the queue is already full
+	if (limiter.isFull()) return busyError('full', requestId);
 
 	const parsed = await parseCompressRequest(req, requestId, false);
 	if (parsed instanceof Response) return parsed;
-	const { input, filename, preset, simplifyRatio } = parsed;
+	const { inputSize, filename, preset } = parsed;
 
-	console.log(`[${requestId}] Received ${filename}: ${formatBytes(input.byteLength)} (preset: ${preset})`);
+	console.log(`[${requestId}] Received ${filename}: ${formatBytes(inputSize)} (preset: ${preset})`);
 
-	let buffer: Uint8Array;
-	let method: string;
+	const slot: Release | LimiterRejection = await limiter.acquire({ signal: req.signal });
+	if (typeof slot !== 'function') return busyError(slot, requestId);
+	let outcome: Awaited<ReturnType<typeof compressRequest>>;
 	try {
-		({ buffer, method } = await compress(input, { simplifyRatio, preset }));
-	} catch (err) {
-		console.error(`[${requestId}] Compression failed:`, err);
-		return jsonError(
-			ErrorCode.COMPRESSION_FAILED,
-			err instanceof Error ? err.message : 'Compression failed',
-			500,
-			requestId,
-		);
+		// Stops the pipeline when the client disconnects
+		outcome = await compressRequest(parsed, requestId, { signal: req.signal });
+	} finally {
+		slot();
 	}
+	if (!('buffer' in outcome)) return jsonError(outcome.code, outcome.message, outcome.status, requestId);
+	return downloadResponse(outcome.buffer, outcome.result, inputSize, requestId);
+}
 
-	const ratio: string = ((1 - buffer.byteLength / input.byteLength) * 100).toFixed(1);
-	console.log(
-		`[${requestId}] ${formatBytes(input.byteLength)} -> ${formatBytes(
-			buffer.byteLength,
-		)} (${ratio}% reduction, ${method})`,
-	);
+/**
+ * Handle `POST /inspect` — report a model's contents without compressing it.
+ *
+ * Accepts the same uploads as `/compress` (compression params are ignored) and
+ * responds with the JSON {@link InspectReport}. Parsing runs on the worker
+ * {@link pool} and shares its queue, so a saturated server answers
+ * `429`/`503 SERVER_BUSY`; an unreadable model answers `400 INVALID_FILE`.
+ */
+async function handleInspect(req: globalThis.Request): Promise<Response> {
+	const requestId = crypto.randomUUID();
+	if (limiter.isFull()) return busyError('full', requestId);
 
-	return new Response(buffer, {
-		headers: {
-			...CORS_HEADERS,
-			'Content-Type': 'model/gltf-binary',
-			'Content-Disposition': `attachment; filename="${filename.replace(/\.(glb|gltf)$/i, '-compressed.glb')}"`,
-			'Content-Length': String(buffer.byteLength),
-			'X-Request-ID': requestId,
-			'X-Original-Size': String(input.byteLength),
-			'X-Compressed-Size': String(buffer.byteLength),
-			'X-Compression-Method': method,
-			'X-Compression-Ratio': ratio,
-		},
-	});
+	const parsed = await parseCompressRequest(req, requestId, false);
+	if (parsed instanceof Response) return parsed;
+	const { input, resources, inputSize, filename } = parsed;
+
+	console.log(`[${requestId}] Inspecting ${filename}: ${formatBytes(inputSize)}`);
+
+	const slot: Release | LimiterRejection = await limiter.acquire({ signal: req.signal });
+	if (typeof slot !== 'function') return busyError(slot, requestId);
+	try {
+		const report: InspectReport = await pool.inspect(input, resources, req.signal);
+		return Response.json(report, { headers: { ...CORS_HEADERS, 'X-Request-ID': requestId } });
+	} catch (err) {
+		if (err instanceof CompressionCancelledError) {
+			return jsonError(ErrorCode.CANCELLED, err.message, 499, requestId);
+		}
+		// The pool failing is the server's fault; anything else is an unreadable model
+		if (err instanceof CompressorPoolError) {
+			console.error(`[${requestId}] Inspection failed:`, err);
+			return jsonError(ErrorCode.COMPRESSION_FAILED, err.message, 500, requestId);
+		}
+		const message: string = err instanceof Error ? err.message : 'Inspection failed';
+		return jsonError(ErrorCode.INVALID_FILE, message, 400, requestId);
+	} finally {
+		slot();
+	}
 }
 
 /**
  * Handle `POST /compress-stream` — SSE streaming GLB compression.
  *
- * Only accepts `multipart/form-data`. Returns a `text/event-stream` response
+ * Only accepts `multipart/form-data` (same file rules as `/compress`). Returns a `text/event-stream` response
  * with three event types:
  *
- * - `log`    — `{ message: string }` — real-time progress messages
- * - `result` — `{ requestId, filename, data (base64), originalSize, compressedSize, ratio, method }`
- * - `error`  — `{ message, requestId, code }` — if compression fails
+ * - `log`    — `{ message: string }` — real-time progress messages, including the
+ *   queue position (`Queued: position 2 of 3 (2 running)`) while waiting for a slot
+ * - `result` — `{ requestId, url, expiresAt, filename, contentType, originalSize, compressedSize, ratio,
+ *   method, report, cache }`: download the output (the GLB, or a ZIP of the levels with `lodOutput=files` or the clips with `splitAnims`) from
+ *   `url` (`/results/:id`) before `expiresAt` (milliseconds since the epoch)
+ * - `error`  — `{ message, requestId, code }` — if compression fails (`BUDGET_EXCEEDED` for a missed
+ *   `maxSize`, `SERVER_BUSY` with `retryAfter` seconds when the queue wait times out)
  *
- * The stream closes after the `result` or `error` event.
+ * The stream closes after the `result` or `error` event. A full queue is refused
+ * before the stream starts with `429 SERVER_BUSY`, like `/compress`. Closing the
+ * stream stops the pipeline.
  */
 async function handleCompressStream(req: globalThis.Request): Promise<Response> {
 	const requestId = crypto.randomUUID();
+	if (limiter.isFull()) return busyError('full', requestId);
 
 	const parsed = await parseCompressRequest(req, requestId, true);
 	if (parsed instanceof Response) return parsed;
-	const { input, filename, preset, simplifyRatio } = parsed;
+	const { inputSize, filename, preset } = parsed;
 
 	// filename is already sanitized by parseCompressRequest
 	const encoder = new TextEncoder();
+	// Aborted when the client disconnects, whether the request or the stream notices first
+	const abort = new AbortController();
+	req.signal.addEventListener('abort', () => abort.abort(), { once: true });
 	const stream = new ReadableStream({
 		async start(controller) {
 			const send = (event: string, data: unknown) => {
@@ -267,45 +770,65 @@ async function handleCompressStream(req: globalThis.Request): Promise<Response>
 			};
 
 			send('log', {
-				message: `[${requestId}] Received ${filename}: ${formatBytes(input.byteLength)} (preset: ${preset})`,
+				message: `[${requestId}] Received ${filename}: ${formatBytes(inputSize)} (preset: ${preset})`,
 			});
 
-			try {
-				const { buffer, method } = await compress(input, {
-					simplifyRatio,
-					preset,
-					onLog: (msg) => send('log', { message: msg }),
-				});
-
-				const ratio = ((1 - buffer.byteLength / input.byteLength) * 100).toFixed(1);
-				send('log', {
-					message: `Done: ${formatBytes(input.byteLength)} -> ${formatBytes(buffer.byteLength)} (${ratio}% reduction)`,
-				});
-
-				// Send result as base64.
-				// NOTE: For very large files this creates a string ~33% larger than
-				// the binary in memory. The SSE design inherently requires this; for
-				// files approaching MAX_FILE_SIZE, prefer the /compress endpoint.
-				const base64 = Buffer.from(buffer).toString('base64');
-				send('result', {
-					requestId,
-					filename: filename.replace(/\.(glb|gltf)$/i, '-compressed.glb'),
-					data: base64,
-					originalSize: input.byteLength,
-					compressedSize: buffer.byteLength,
-					ratio,
-					method,
-				});
-			} catch (err) {
+			const slot: Release | LimiterRejection = await limiter.acquire({
+				signal: abort.signal,
+				onPosition: (position, queued) => send('log', { message: queuePositionMessage(position, queued) }),
+			});
+			// The client went away while queued
+			if (slot === 'aborted') return;
+			if (typeof slot !== 'function') {
 				send('error', {
-					message: String(err),
+					message: busyMessage(slot),
 					requestId,
-					code: ErrorCode.COMPRESSION_FAILED,
+					code: ErrorCode.SERVER_BUSY,
+					retryAfter: limiter.retryAfter(),
+				});
+				controller.close();
+				return;
+			}
+
+			try {
+				const outcome = await compressRequest(parsed, requestId, {
+					signal: abort.signal,
+					onLog: (msg) => send('log', { message: msg }),
 				});
+				// Nobody is left to read the stream
+				if (!('buffer' in outcome) && outcome.code === ErrorCode.CANCELLED) return;
+				if (!('buffer' in outcome)) {
+					send('error', { message: outcome.message, requestId, code: outcome.code });
+				} else {
+					const { buffer, result } = outcome;
+					send('log', {
+						message: `Done: ${formatBytes(inputSize)} -> ${formatBytes(buffer.byteLength)} (${result.ratio}% reduction)`,
+					});
+					// The output is downloaded separately: no base64 copy in the event stream
+					const stored: StoredResult = resultStore.put(requestId, result, buffer, inputSize);
+					send('result', {
+						requestId,
+						url: `/results/${requestId}`,
+						expiresAt: stored.expiresAt,
+						filename: result.filename,
+						contentType: result.contentType,
+						originalSize: inputSize,
+						compressedSize: result.size,
+						ratio: result.ratio,
+						method: result.method,
+						report: result.report,
+						cache: result.cache,
+					});
+				}
+			} finally {
+				slot();
 			}
 
 			controller.close();
 		},
+		cancel() {
+			abort.abort();
+		},
 	});
 
 	return new Response(stream, {
@@ -319,6 +842,364 @@ async function handleCompressStream(req: globalThis.Request): Promise<Response>
 	});
 }
 
+/** Job store backing `/jobs`, created by {@link main}. */
+let jobStore: JobStore;
+
+/** JSON view of a job for `GET /jobs/:id`: log lines from index `since`, plus the download URL once done. */
+function jobView(job: Job, since: number = 0): Job & { logCount: number; resultUrl?: string } {
+	return {
+		...job,
+		logs: job.logs.slice(since),
+		logCount: job.logs.length,
+		...(job.status === 'done' ? { resultUrl: `/jobs/${job.id}/result` } : {}),
+	};
+}
+
+/** Abort controllers of unfinished jobs, keyed by job ID; aborted on cancel. */
+const jobAborts = new Map<string, AbortController>();
+
+/**
+ * Compress a job's request in the background, recording logs and the outcome in {@link jobStore}.
+ *
+ * Jobs wait in the {@link limiter} queue without a timeout, logging their position.
+ * Cancelling the job removes it from the queue or stops its pipeline.
+ */
+async function runJob(job: Job, parsed: ParsedRequest): Promise<void> {
+	const log = (message: string): void => jobStore.log(job, message);
+	log(`[${job.id}] Received ${parsed.filename}: ${formatBytes(parsed.inputSize)} (preset: ${parsed.preset})`);
+
+	const abort = new AbortController();
+	jobAborts.set(job.id, abort);
+	try {
+		const slot: Release | LimiterRejection = await limiter.acquire({
+			signal: abort.signal,
+			noTimeout: true,
+			onPosition: (position, queued) => log(queuePositionMessage(position, queued)),
+		});
+		// Cancelled while queued
+		if (slot === 'aborted') return;
+		if (typeof slot !== 'function') {
+			await jobStore.fail(job, { code: ErrorCode.SERVER_BUSY, message: busyMessage(slot), status: 429 });
+			return;
+		}
+
+		try {
+			await jobStore.start(job);
+			if (job.status !== 'running') return;
+
+			const outcome = await compressRequest(parsed, job.id, { onLog: log, signal: abort.signal });
+			if ('buffer' in outcome) {
+				log(
+					`Done: ${formatBytes(parsed.inputSize)} -> ${formatBytes(outcome.buffer.byteLength)} (${outcome.result.ratio}% reduction)`,
+				);
+				await jobStore.complete(job, outcome.result, outcome.buffer);
+			} else if (outcome.code !== ErrorCode.CANCELLED) {
+				log(`Failed: ${outcome.message}`);
+				await jobStore.fail(job, outcome);
+			}
+		} finally {
+			slot();
+		}
+	} finally {
+		jobAborts.delete(job.id);
+	}
+}
+
+/**
+ * Handle `POST /jobs` — start an asynchronous compression job.
+ *
+ * Accepts the same body, query params, and form fields as `/compress` and
+ * validates them up front (same `400`/`413`/`415` errors). Responds `202` with
+ * the job (see {@link jobView}) and a `Location: /jobs/:id` header. Queued jobs
+ * count towards the queue depth: a full queue returns `429 SERVER_BUSY`.
+ */
+async function handleCreateJob(req: globalThis.Request): Promise<Response> {
+	const requestId = crypto.randomUUID();
+	if (limiter.isFull()) return busyError('full', requestId);
+
+	const parsed = await parseCompressRequest(req, requestId, false);
+	if (parsed instanceof Response) return parsed;
+	// The queue may have filled up while the upload was read
+	if (limiter.isFull()) return busyError('full', requestId);
+
+	const job: Job = jobStore.create(requestId, parsed.filename, parsed.inputSize);
+	console.log(`[${requestId}] Job created for ${parsed.filename}: ${formatBytes(parsed.inputSize)}`);
+	runJob(job, parsed).catch((err) => console.error(`[${requestId}] Job failed:`, err));
+
+	return Response.json(jobView(job), {
+		status: 202,
+		headers: { ...CORS_HEADERS, Location: `/jobs/${job.id}`, 'X-Request-ID': requestId },
+	});
+}
+
+/** Look up the job named in the route, or build the `404 JOB_NOT_FOUND` response. */
+function findJob(req: BunRequest<'/jobs/:id'> | BunRequest<'/jobs/:id/result'>): Job | Response {
+	const { id } = req.params;
+	return jobStore.get(id) ?? jsonError(ErrorCode.JOB_NOT_FOUND, `Unknown or expired job "${id}"`, 404, id);
+}
+
+/**
+ * Handle `GET /jobs/:id` — job status and progress.
+ *
+ * Returns the job with `status` (`queued`, `running`, `done`, `failed`,
+ * `cancelled`), timestamps, `logs` (`{ time, message }`, the `onLog` lines),
+ * and `result` (size, method, ratio, report) or `error` once finished.
+ * `?since=<n>` skips the first `n` log lines; `logCount` is the total.
+ */
+function handleGetJob(req: BunRequest<'/jobs/:id'>): Response {
+	const job = findJob(req);
+	if (job instanceof Response) return job;
+	const since: number = Number.parseInt(new URL(req.url).searchParams.get('since') ?? '0', 10) || 0;
+	return Response.json(jobView(job, Math.max(0, since)), { headers: { ...CORS_HEADERS, 'X-Request-ID': job.id } });
+}
+
+/**
+ * Handle `GET /jobs/:id/result` — download a finished job's output.
+ *
+ * Responds like `/compress` (same body and headers) once the job is `done`;
+ * a failed job returns its original error, an unfinished or cancelled one
+ * `409 JOB_NOT_READY`.
+ */
+async function handleJobResult(req: BunRequest<'/jobs/:id/result'>): Promise<Response> {
+	const job = findJob(req);
+	if (job instanceof Response) return job;
+	if (job.error) return jsonError(job.error.code, job.error.message, job.error.status, job.id);
+
+	const buffer: Uint8Array | undefined = await jobStore.readResult(job);
+	if (!job.result || !buffer) {
+		const message: string = job.status === 'cancelled' ? 'Job was cancelled' : `Job is ${job.status}`;
+		return jsonError(ErrorCode.JOB_NOT_READY, message, 409, job.id);
+	}
+	return downloadResponse(buffer, job.result, job.inputSize, job.id);
+}
+
+/**
+ * Handle `DELETE /jobs/:id` — cancel an unfinished job, or remove a finished one
+ * and its result.
+ *
+ * A cancelled job stays visible (status `cancelled`) until it expires. A queued
+ * job leaves the queue; a running pipeline is stopped (gltfpack included).
+ */
+async function handleDeleteJob(req: BunRequest<'/jobs/:id'>): Promise<Response> {
+	const job = findJob(req);
+	if (job instanceof Response) return job;
+	if (isFinished(job)) {
+		await jobStore.delete(job.id);
+	} else {
+		await jobStore.cancel(job);
+		jobAborts.get(job.id)?.abort();
+		console.log(`[${job.id}] Job cancelled`);
+	}
+	return Response.json(jobView(job), { headers: { ...CORS_HEADERS, 'X-Request-ID': job.id } });
+}
+
+/** Outputs of `/compress-stream`, downloadable from `/results/:id`; created by {@link main}. */
+let resultStore: ResultStore;
+
+/**
+ * Handle `GET /results/:id` — download a `/compress-stream` output.
+ *
+ * Responds like `/compress` (same body and headers) until the result expires,
+ * then `404 RESULT_NOT_FOUND`. The ID is the stream's request ID.
+ */
+function handleResult(req: BunRequest<'/results/:id'>): Response {
+	const { id } = req.params;
+	const stored: StoredResult | undefined = resultStore.get(id);
+	if (!stored) return jsonError(ErrorCode.RESULT_NOT_FOUND, `Unknown or expired result "${id}"`, 404, id);
+	return downloadResponse(stored.buffer, stored.result, stored.inputSize, id);
+}
+
+/**
+ * Handle `/ws` — upgrade to a WebSocket compression session (protocol in `server/ws.ts`).
+ *
+ * The client uploads a model once, then sends `compress` (with `/compress`
+ * options), `cancel`, and `inspect` commands and receives `log`, `result`
+ * (followed by the output as a binary message), `cancelled`, `inspect`, and
+ * `error` events. Requests that are not WebSocket upgrades get `426`.
+ */
+function handleWebSocket(req: globalThis.Request, server: Server<WsSession>): Response | undefined {
+	const id: string = crypto.randomUUID();
+	const session: WsSession = { id, closed: new AbortController() };
+	if (server.upgrade(req, { data: session, headers: { 'X-Request-ID': id } })) return undefined;
+	return jsonError(ErrorCode.INVALID_CONTENT_TYPE, 'Expected a WebSocket upgrade request', 426, id);
+}
+
+/** Send a JSON event to a WebSocket session (dropped once it has closed). */
+function sendEvent(ws: ServerWebSocket<WsSession>, event: WsEvent): void {
+	ws.send(JSON.stringify(event));
+}
+
+/** Error event for a WebSocket session that has not uploaded a model yet. */
+function noUploadEvent(): WsEvent {
+	return { type: 'error', code: ErrorCode.NO_FILE_PROVIDED, message: 'Upload a model (binary message) first' };
+}
+
+/** Copy of an upload for one pool task: inputs are transferred to the worker, the upload is kept for the next command. */
+function copyUpload(upload: WsUpload): WsUpload {
+	const resources: GltfResources = {};
+	for (const [name, data] of Object.entries(upload.resources)) resources[name] = data.slice();
+	return { ...upload, input: upload.input.slice(), resources };
+}
+
+/** Validate a binary message as the session's model (same rules as a raw `/compress` body). */
+function handleWsUpload(ws: ServerWebSocket<WsSession>, data: Uint8Array): void {
+	const upload = parseUpload(new Map([[detectInputFormat(data) === 'gltf' ? 'model.gltf' : 'model.glb', data]]));
+	if ('code' in upload) {
+		sendEvent(ws, { type: 'error', code: upload.code, message: upload.message });
+		return;
+	}
+	ws.data.upload = { ...upload, inputSize: data.byteLength };
+	console.log(`[${ws.data.id}] Received ${upload.filename}: ${formatBytes(data.byteLength)}`);
+	sendEvent(ws, { type: 'uploaded', filename: upload.filename, format: upload.format, size: data.byteLength });
+}
+
+/**
+ * Run a `compress` command on the session's upload. A running compression is
+ * cancelled once the new one has its place in the queue (a refused command
+ * leaves it running); queueing, `SERVER_BUSY`, and cancellation work as for
+ * `/compress-stream`.
+ */
+async function runWsCompress(
+	ws: ServerWebSocket<WsSession>,
+	command: Extract<WsCommand, { type: 'compress' }>,
+): Promise<void> {
+	const session: WsSession = ws.data;
+	if (!session.upload) return sendEvent(ws, noUploadEvent());
+	const options: RequestOptions | JobError = parseRequestOptions(commandParams(command.options));
+	if ('code' in options) return sendEvent(ws, { type: 'error', code: options.code, message: options.message });
+
+	if (limiter.isFull()) {
+		const message: string = busyMessage('full');
+		return sendEvent(ws, { type: 'error', code: ErrorCode.SERVER_BUSY, message, retryAfter: limiter.retryAfter() });
+	}
+
+	const runId: string = crypto.randomUUID();
+	const abort = new AbortController();
+	const previous: WsSession['run'] = session.run;
+	session.run = { id: runId, abort };
+	const parsed: ParsedRequest = { ...copyUpload(session.upload), ...options };
+	const log = (message: string): void => sendEvent(ws, { type: 'log', runId, message });
+	log(`[${runId}] Compressing ${parsed.filename}: ${formatBytes(parsed.inputSize)} (preset: ${parsed.preset})`);
+
+	try {
+		// Queue up before cancelling the previous run, so its slot is handed to this one
+		const acquired: Promise<Release | LimiterRejection> = limiter.acquire({
+			signal: abort.signal,
+			onPosition: (position, queued) => log(queuePositionMessage(position, queued)),
+		});
+		previous?.abort.abort();
+		const slot: Release | LimiterRejection = await acquired;
+		if (slot === 'aborted') return sendEvent(ws, { type: 'cancelled', runId });
+		if (typeof slot !== 'function') {
+			const message: string = busyMessage(slot);
+			return sendEvent(ws, {
+				type: 'error',
+				code: ErrorCode.SERVER_BUSY,
+				message,
+				runId,
+				retryAfter: limiter.retryAfter(),
+			});
+		}
+
+		let outcome: Awaited<ReturnType<typeof compressRequest>>;
+		try {
+			outcome = await compressRequest(parsed, runId, { signal: abort.signal, onLog: log });
+		} finally {
+			slot();
+		}
+		if (!('buffer' in outcome)) {
+			if (outcome.code === ErrorCode.CANCELLED) return sendEvent(ws, { type: 'cancelled', runId });
+			return sendEvent(ws, { type: 'error', code: outcome.code, message: outcome.message, runId });
+		}
+
+		const { buffer, result } = outcome;
+		log(`Done: ${formatBytes(parsed.inputSize)} -> ${formatBytes(buffer.byteLength)} (${result.ratio}% reduction)`);
+		sendEvent(ws, {
+			type: 'result',
+			runId,
+			filename: result.filename,
+			contentType: result.contentType,
+			originalSize: parsed.inputSize,
+			compressedSize: result.size,
+			ratio: result.ratio,
+			method: result.method,
+			report: result.report,
+			cache: result.cache,
+		});
+		ws.send(buffer);
+	} finally {
+		if (session.run?.id === runId) session.run = undefined;
+	}
+}
+
+/** Run an `inspect` command on the session's upload, on the worker {@link pool}. */
+async function runWsInspect(ws: ServerWebSocket<WsSession>): Promise<void> {
+	const session: WsSession = ws.data;
+	if (!session.upload) return sendEvent(ws, noUploadEvent());
+	const { input, resources } = copyUpload(session.upload);
+
+	const slot: Release | LimiterRejection = await limiter.acquire({ signal: session.closed.signal });
+	if (slot === 'aborted') return;
+	if (typeof slot !== 'function') {
+		const message: string = busyMessage(slot);
+		return sendEvent(ws, { type: 'error', code: ErrorCode.SERVER_BUSY, message, retryAfter: limiter.retryAfter() });
+	}
+	try {
+		const report: InspectReport = await pool.inspect(input, resources, session.closed.signal);
+		sendEvent(ws, { type: 'inspect', report });
+	} catch (err) {
+		if (err instanceof CompressionCancelledError) return;
+		const message: string = err instanceof Error ? err.message : 'Inspection failed';
+		const code: ErrorCodeType =
+			err instanceof CompressorPoolError ? ErrorCode.COMPRESSION_FAILED : ErrorCode.INVALID_FILE;
+		sendEvent(ws, { type: 'error', code, message });
+	} finally {
+		slot();
+	}
+}
+
+/** WebSocket handlers for `/ws` sessions (see {@link handleWebSocket}). */
+const websocket: WebSocketHandler<WsSession> = {
+	// Uploads share the HTTP endpoints' size limit; larger messages close the connection (1009)
+	maxPayloadLength: MAX_FILE_SIZE,
+
+	open(ws) {
+		console.log(`[${ws.data.id}] WebSocket session opened`);
+		sendEvent(ws, { type: 'ready', sessionId: ws.data.id });
+	},
+
+	message(ws, message) {
+		if (typeof message !== 'string') {
+			handleWsUpload(ws, new Uint8Array(message));
+			return;
+		}
+		const command: WsCommand | string = parseWsCommand(message);
+		if (typeof command === 'string') {
+			sendEvent(ws, { type: 'error', code: ErrorCode.INVALID_MESSAGE, message: command });
+		} else if (command.type === 'cancel') {
+			ws.data.run?.abort.abort();
+		} else {
+			const running: Promise<void> = command.type === 'compress' ? runWsCompress(ws, command) : runWsInspect(ws);
+			running.catch((err) => console.error(`[${ws.data.id}] WebSocket command failed:`, err));
+		}
+	},
+
+	close(ws) {
+		ws.data.closed.abort();
+		ws.data.run?.abort.abort();
+		console.log(`[${ws.data.id}] WebSocket session closed`);
+	},
+};
+
+/**
+ * Handle `GET /cache` — result cache counters: `{ enabled, maxBytes, hits, misses, entries, bytes }`.
+ * Hits and misses count lookups since the server started.
+ */
+function handleCacheStats(): Response {
+	const stats: CacheStats = cache?.stats() ?? { hits: 0, misses: 0, entries: 0, bytes: 0 };
+	return Response.json({ enabled: cache !== undefined, maxBytes: cacheMaxBytes, ...stats }, { headers: CORS_HEADERS });
+}
+
 /** Handle CORS preflight `OPTIONS` requests with a `204 No Content` response. */
 function handleOptions(): Response {
 	return new Response(null, {
@@ -327,7 +1208,51 @@ function handleOptions(): Response {
 	});
 }
 
-if (import.meta.main) {
+/**
+ * Server entry point — registers custom presets from the config file, then starts listening.
+ *
+ * The config path comes from `GLB_COMPRESSOR_CONFIG`, falling back to the
+ * nearest `glb-compressor.config.(ts|json)` above the working directory.
+ */
+async function main(): Promise<void> {
+	const configPath = await loadConfig(process.env.GLB_COMPRESSOR_CONFIG || undefined);
+	if (configPath) {
+		console.log(`Loaded config ${configPath} (presets: ${listPresets().join(', ')})`);
+	}
+
+	const jobsDir: string | undefined = process.env.GLB_COMPRESSOR_JOBS_DIR || undefined;
+	const jobsTtl: number = Number.parseInt(process.env.GLB_COMPRESSOR_JOBS_TTL ?? '', 10);
+	jobStore = await createJobStore({ ttlMs: jobsTtl > 0 ? jobsTtl * 1000 : JOB_TTL_MS, dir: jobsDir });
+	if (jobsDir) console.log(`Jobs stored in ${jobsDir}`);
+	const resultsTtl: number = Number.parseInt(process.env.GLB_COMPRESSOR_RESULTS_TTL ?? '', 10);
+	const resultsSize: number | undefined = parseByteSize(process.env.GLB_COMPRESSOR_RESULTS_SIZE?.trim() || null);
+	resultStore = createResultStore({
+		ttlMs: resultsTtl > 0 ? resultsTtl * 1000 : RESULT_TTL_MS,
+		maxBytes: resultsSize ?? RESULT_STORE_BYTES,
+	});
+
+	const concurrency: number = Number.parseInt(process.env.GLB_COMPRESSOR_CONCURRENCY ?? '', 10);
+	const queueDepth: number = Number.parseInt(process.env.GLB_COMPRESSOR_QUEUE_DEPTH ?? '', 10);
+	// Seconds; 0 lets synchronous requests wait indefinitely
+	const queueTimeout: number = Number.parseInt(process.env.GLB_COMPRESSOR_QUEUE_TIMEOUT ?? '', 10);
+	const workers: number = concurrency > 0 ? concurrency : SERVER_CONCURRENCY;
+	const maxQueue: number = queueDepth >= 0 ? queueDepth : SERVER_QUEUE_DEPTH;
+	limiter = createLimiter({
+		concurrency: workers,
+		maxQueue,
+		queueTimeoutMs: queueTimeout === 0 ? undefined : queueTimeout > 0 ? queueTimeout * 1000 : SERVER_QUEUE_TIMEOUT_MS,
+	});
+	pool = createCompressorPool({ size: workers });
+	console.log(`Running up to ${workers} compressions at once on worker threads (queue depth ${maxQueue})`);
+
+	// Bytes with an optional unit (e.g. 512MB); 0 disables the cache
+	const rawCacheSize: string | undefined = process.env.GLB_COMPRESSOR_CACHE_SIZE?.trim();
+	cacheMaxBytes = rawCacheSize === '0' ? 0 : (parseByteSize(rawCacheSize || null) ?? SERVER_CACHE_BYTES);
+	if (cacheMaxBytes > 0) {
+		cache = createMemoryCache({ maxBytes: cacheMaxBytes });
+		console.log(`Caching up to ${formatBytes(cacheMaxBytes)} of results in memory`);
+	}
+
 	const server = Bun.serve({
 		port: PORT,
 
@@ -341,8 +1266,36 @@ if (import.meta.main) {
 				POST: handleCompressStream,
 				OPTIONS: handleOptions,
 			},
+			'/inspect': {
+				POST: handleInspect,
+				OPTIONS: handleOptions,
+			},
+			'/jobs': {
+				POST: handleCreateJob,
+				OPTIONS: handleOptions,
+			},
+			'/jobs/:id': {
+				GET: handleGetJob,
+				DELETE: handleDeleteJob,
+				OPTIONS: handleOptions,
+			},
+			'/jobs/:id/result': {
+				GET: handleJobResult,
+				OPTIONS: handleOptions,
+			},
+			'/results/:id': {
+				GET: handleResult,
+				OPTIONS: handleOptions,
+			},
+			'/cache': {
+				GET: handleCacheStats,
+				OPTIONS: handleOptions,
+			},
+			'/ws': handleWebSocket,
 		},
 
+		websocket,
+
 		fetch: () => new Response('Not found', { status: 404, headers: CORS_HEADERS }),
 
 		error(error) {
@@ -353,3 +1306,10 @@ if (import.meta.main) {
 
 	console.log(`Compression server running at ${server.url}`);
 }
+
+if (import.meta.main) {
+	main().catch((err) => {
+		console.error('Fatal error:', err);
+		process.exit(1);
+	});
+}
@@ -0,0 +1,51 @@
+import { expect, test } from 'bun:test';
+import { jobResult } from '../test/fixtures';
+import type { JobResult } from './jobs';
+import { createResultStore } from './results';
+
+const result: JobResult = await jobResult(4);
+
+test('a stored result can be downloaded until it expires', () => {
+	const store = createResultStore({ ttlMs: 60_000, maxBytes: 1024 });
+	const buffer = new Uint8Array([1, 2, 3, 4]);
+	const stored = store.put('a', result, buffer, 8);
+	expect(stored).toMatchObject({ id: 'a', buffer, inputSize: 8 });
+	expect(stored.expiresAt).toBeGreaterThan(Date.now());
+	expect(store.get('a')).toBe(stored);
+	expect(store.get('b')).toBeUndefined();
+});
+
+test('expired results are hidden and swept', () => {
+	const store = createResultStore({ ttlMs: 0, maxBytes: 1024 });
+	store.put('a', result, new Uint8Array(4), 8);
+	expect(store.get('a')).toBeUndefined();
+	expect(store.sweep()).toBe(1);
+	expect(store.sweep()).toBe(0);
+});
+
+test('the oldest results are evicted beyond maxBytes', () => {
+	const store = createResultStore({ ttlMs: 60_000, maxBytes: 8 });
+	store.put('a', result, new Uint8Array(4), 8);
+	store.put('b', result, new Uint8Array(4), 8);
+	store.put('c', result, new Uint8Array(4), 8);
+	expect(store.get('a')).toBeUndefined();
+	expect(store.get('b')).toBeDefined();
+	expect(store.get('c')).toBeDefined();
+
+	// The newest result is kept even when it alone is over the limit
+	store.put('d', result, new Uint8Array(16), 8);
+	expect(['b', 'c', 'd'].map((id) => store.get(id) !== undefined)).toEqual([false, false, true]);
+});
+
+test('putting an ID again replaces its result', () => {
+	const store = createResultStore({ ttlMs: 60_000, maxBytes: 8 });
+	store.put('a', result, new Uint8Array(8), 8);
+	store.put('a', result, new Uint8Array(4), 8);
+	store.put('b', result, new Uint8Array(4), 8);
+	expect(store.get('a')?.buffer.byteLength).toBe(4);
+	expect(store.get('b')).toBeDefined();
+});
+
+test('the store size must be positive', () => {
+	expect(() => createResultStore({ ttlMs: 60_000, maxBytes: 0 })).toThrow('Invalid result store size: 0');
+});
@@ -0,0 +1,94 @@
+/**
+ * Short-lived result store for `/compress-stream` downloads.
+ *
+ * The SSE `result` event carries a `/results/:id` URL instead of the output
+ * itself; the bytes are kept in memory here until they expire, and expired
+ * entries are swept periodically. Beyond `maxBytes` the oldest results are
+ * evicted early.
+ *
+ * @module results
+ */
+
+import type { JobResult } from './jobs';
+
+/** A compressed output waiting to be downloaded. */
+export interface StoredResult {
+	id: string;
+	/** Metadata, as for a finished job. */
+	result: JobResult;
+	buffer: Uint8Array;
+	inputSize: number;
+	/** When the result is evicted, in milliseconds since the epoch. */
+	expiresAt: number;
+}
+
+/** Options for {@link createResultStore}. */
+export interface ResultStoreOptions {
+	/** How long a result can be downloaded, in milliseconds. */
+	ttlMs: number;
+	/** Total output bytes kept; the oldest results are evicted beyond it (the newest is always kept). */
+	maxBytes: number;
+	/** How often expired results are swept, in milliseconds. @default 30_000 */
+	sweepIntervalMs?: number;
+}
+
+/** In-memory result registry with TTL and size eviction. */
+export interface ResultStore {
+	/** Keep an output for download until the TTL runs out or newer results need the space. */
+	put(id: string, result: JobResult, buffer: Uint8Array, inputSize: number): StoredResult;
+	/** Look up a result; expired results are treated as missing. */
+	get(id: string): StoredResult | undefined;
+	/** Remove every expired result; returns how many were evicted. */
+	sweep(): number;
+}
+
+/** Create a {@link ResultStore}. */
+export function createResultStore(options: ResultStoreOptions): ResultStore {
+	const { ttlMs, maxBytes } = options;
+	if (!(maxBytes > 0)) throw new Error(`Invalid result store size: ${maxBytes} (must be positive)`);
+
+	// Map iteration order is insertion order: the oldest result comes first
+	const results = new Map<string, StoredResult>();
+	let bytes: number = 0;
+
+	const remove = (stored: StoredResult): void => {
+		results.delete(stored.id);
+		bytes -= stored.buffer.byteLength;
+	};
+
+	const store: ResultStore = {
+		put(id, result, buffer, inputSize) {
+			const previous: StoredResult | undefined = results.get(id);
+			if (previous) remove(previous);
+			const stored: StoredResult = { id, result, buffer, inputSize, expiresAt: Date.now() + ttlMs };
+			results.set(id, stored);
+			bytes += buffer.byteLength;
+			for (const oldest of results.values()) {
+				if (bytes <= maxBytes || oldest === stored) break;
+				remove(oldest);
+			}
+			return stored;
+		},
+
+		get(id) {
+			const stored: StoredResult | undefined = results.get(id);
+			return stored && stored.expiresAt > Date.now() ? stored : undefined;
+		},
+
+		sweep() {
+			const now: number = Date.now();
+			let evicted: number = 0;
+			for (const stored of results.values()) {
+				if (stored.expiresAt > now) continue;
+				remove(stored);
+				evicted++;
+			}
+			return evicted;
+		},
+	};
+
+	const timer = setInterval(() => store.sweep(), options.sweepIntervalMs ?? 30_000);
+	timer.unref();
+
+	return store;
+}
@@ -0,0 +1,27 @@
+import { expect, test } from 'bun:test';
+import { commandParams, parseWsCommand } from './ws';
+
+test('parseWsCommand reads compress, cancel, and inspect commands', () => {
+	expect(parseWsCommand('{"type":"cancel"}')).toEqual({ type: 'cancel' });
+	expect(parseWsCommand('{"type":"inspect","extra":1}')).toEqual({ type: 'inspect' });
+	expect(parseWsCommand('{"type":"compress"}')).toEqual({ type: 'compress' });
+	expect(parseWsCommand('{"type":"compress","options":{"preset":"max","lods":[1,0.5],"verify":true}}')).toEqual({
+		type: 'compress',
+		options: { preset: 'max', lods: [1, 0.5], verify: true },
+	});
+});
+
+test('parseWsCommand describes invalid commands', () => {
+	expect(parseWsCommand('compress')).toBe('Commands must be JSON');
+	expect(parseWsCommand('[]')).toBe('Commands must be objects with a "type"');
+	expect(parseWsCommand('{"type":"upload"}')).toBe('Unknown command "upload" (available: compress, cancel, inspect)');
+	expect(parseWsCommand('{"type":"compress","options":[]}')).toBe('"options" must be an object');
+	expect(parseWsCommand('{"type":"compress","options":{"lods":[{}]}}')).toBe('Invalid value for option "lods"');
+});
+
+test('commandParams turns options into query params', () => {
+	expect(commandParams({ preset: 'max', lods: [1, 0.5], verify: true }).toString()).toBe(
+		'preset=max&lods=1%2C0.5&verify=true',
+	);
+	expect(commandParams().toString()).toBe('');
+});
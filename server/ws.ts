@@ -0,0 +1,120 @@
+/**
+ * Message protocol of the `/ws` WebSocket endpoint.
+ *
+ * A session uploads its model once, as a binary message (GLB, glTF JSON, or a
+ * ZIP of a `.gltf` and its resources), then drives it with JSON commands:
+ *
+ * - `{ "type": "compress", "options": { "preset": "aggressive", "textures.mode": "ktx2-uastc" } }`
+ *   — compress the upload; options are the `/compress` query params (arrays
+ *   such as `lods: [1, 0.5]` are joined with commas). A new `compress`
+ *   supersedes one still running, so a client can tweak a setting and re-run.
+ * - `{ "type": "cancel" }` — stop the running compression (ignored when idle).
+ * - `{ "type": "inspect" }` — report the upload's contents without compressing.
+ *
+ * The server answers with the JSON {@link WsEvent}s below; a `result` event is
+ * followed by one binary message with the output. Uploading again replaces
+ * the session's model.
+ *
+ * @module ws
+ */
+
+import type { CompressReport, ErrorCodeType, GltfResources, InspectReport } from '$lib/mod';
+
+/** Compression option values accepted in a `compress` command. */
+export type WsOptionValue = string | number | boolean | (string | number)[];
+
+/** JSON command sent by the client. */
+export type WsCommand =
+	| { type: 'compress'; options?: Record<string, WsOptionValue> }
+	| { type: 'cancel' }
+	| { type: 'inspect' };
+
+/** JSON event sent by the server. `runId` identifies one `compress` command. */
+export type WsEvent =
+	| { type: 'ready'; sessionId: string }
+	| { type: 'uploaded'; filename: string; format: 'glb' | 'gltf'; size: number }
+	| { type: 'log'; runId: string; message: string }
+	| {
+			type: 'result';
+			runId: string;
+			filename: string;
+			contentType: string;
+			originalSize: number;
+			compressedSize: number;
+			ratio: string;
+			method: string;
+			report: CompressReport;
+			cache?: 'hit' | 'miss';
+	  }
+	| { type: 'cancelled'; runId: string }
+	| { type: 'inspect'; report: InspectReport }
+	| { type: 'error'; code: ErrorCodeType; message: string; runId?: string; retryAfter?: number };
+
+/** The session's uploaded model, kept for every later command. */
+export interface WsUpload {
+	input: Uint8Array;
+	format: 'glb' | 'gltf';
+	resources: GltfResources;
+	filename: string;
+	/** Uploaded bytes (the ZIP archive for a ZIP upload). */
+	inputSize: number;
+}
+
+/** Per-connection state (`ServerWebSocket.data`). */
+export interface WsSession {
+	id: string;
+	upload?: WsUpload;
+	/** The running `compress` command, aborted by `cancel`, a new `compress`, or disconnect. */
+	run?: { id: string; abort: AbortController };
+	/** Aborted when the connection closes. */
+	closed: AbortController;
+}
+
+/**
+ * Parse a JSON command message.
+ *
+ * @returns The command, or a message describing why it is invalid.
+ */
+export function parseWsCommand(text: string): WsCommand | string {
+	let command: unknown;
+	try {
+		command = JSON.parse(text);
+	} catch {
+		return 'Commands must be JSON';
+	}
+	if (typeof command !== 'object' || command === null || !('type' in command)) {
+		return 'Commands must be objects with a "type"';
+	}
+
+	switch (command.type) {
+		case 'cancel':
+		case 'inspect':
+			return { type: command.type };
+		case 'compress': {
+			const options: unknown = 'options' in command ? command.options : undefined;
+			if (options === undefined) return { type: 'compress' };
+			if (typeof options !== 'object' || options === null || Array.isArray(options)) {
+				return '"options" must be an object';
+			}
+			const values: Record<string, WsOptionValue> = {};
+			for (const [key, value] of Object.entries(options)) {
+				if (!isOptionValue(value)) return `Invalid value for option "${key}"`;
+				values[key] = value;
+			}
+			return { type: 'compress', options: values };
+		}
+		default:
+			return `Unknown command "${String(command.type)}" (available: compress, cancel, inspect)`;
+	}
+}
+
+/** Whether `value` can be passed as a query param value. */
+function isOptionValue(value: unknown): value is WsOptionValue {
+	if (Array.isArray(value)) return value.every((item) => typeof item === 'string' || typeof item === 'number');
+	return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
+
+/** Query params equivalent to a `compress` command's options. */
+export function commandParams(options: Record<string, WsOptionValue> = {}): URLSearchParams {
+	return new URLSearchParams(Object.entries(options).map(([key, value]): [string, string] => [key, String(value)]));
+}
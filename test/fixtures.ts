@@ -0,0 +1,233 @@
+/**
+ * Documents and results built in code for the `*.test.ts` files next to each module.
+ *
+ * @module fixtures
+ */
+
+import {
+	type AnimationSampler,
+	Document,
+	type GLTF,
+	type Material,
+	type Node,
+	NodeIO,
+	type Skin,
+	type Texture,
+	type TypedArray,
+} from '@gltf-transform/core';
+import sharp from 'sharp';
+import { compress } from '../lib/compress';
+import type { JobResult } from '../server/jobs';
+
+/** One translation clip of {@link translationDocument}. */
+export interface TranslationClip {
+	name: string;
+	/** Keyframe times in seconds. */
+	times: number[];
+	/** Translation at a keyframe time. */
+	value: (t: number) => [number, number, number];
+	/** @default 'LINEAR' */
+	interpolation?: GLTF.AnimationSamplerInterpolation;
+}
+
+/** `count` evenly spaced times over `duration` seconds, both ends included. */
+export function frames(count: number, duration: number): number[] {
+	return Array.from({ length: count }, (_, i) => (count > 1 ? (i * duration) / (count - 1) : 0));
+}
+
+/**
+ * A document with one node, `mover`, and one clip per entry animating its
+ * translation. With `triangle`, the node carries a one-triangle mesh.
+ *
+ * @returns The document, the node, and one sampler per clip.
+ */
+export function translationDocument(
+	clips: TranslationClip[],
+	options: { triangle?: boolean } = {},
+): { doc: Document; node: Node; samplers: AnimationSampler[] } {
+	const doc = new Document();
+	const buffer = doc.createBuffer();
+	const node = doc.createNode('mover');
+	doc.createScene().addChild(node);
+	if (options.triangle) {
+		const position = doc
+			.createAccessor()
+			.setType('VEC3')
+			.setArray(new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]))
+			.setBuffer(buffer);
+		node.setMesh(doc.createMesh('triangle').addPrimitive(doc.createPrimitive().setAttribute('POSITION', position)));
+	}
+
+	const samplers: AnimationSampler[] = clips.map(({ name, times, value, interpolation = 'LINEAR' }) => {
+		const sampler = doc
+			.createAnimationSampler()
+			.setInterpolation(interpolation)
+			.setInput(doc.createAccessor().setType('SCALAR').setArray(new Float32Array(times)).setBuffer(buffer))
+			.setOutput(
+				doc
+					.createAccessor()
+					.setType('VEC3')
+					.setArray(new Float32Array(times.flatMap(value)))
+					.setBuffer(buffer),
+			);
+		const channel = doc.createAnimationChannel().setTargetNode(node).setTargetPath('translation').setSampler(sampler);
+		doc.createAnimation(name).addSampler(sampler).addChannel(channel);
+		return sampler;
+	});
+	return { doc, node, samplers };
+}
+
+/**
+ * A document with one `size`×`size` vertex grid mesh, `grid`, on a node of the
+ * same name. Heights are `sin(column × row)`, noisy enough that simplifying it
+ * loses detail; a `flat` grid simplifies without error.
+ */
+export function gridDocument(size: number, options: { flat?: boolean } = {}): Document {
+	const doc = new Document();
+	const buffer = doc.createBuffer();
+	const positions = new Float32Array(size * size * 3);
+	for (let y = 0; y < size; y++) {
+		for (let x = 0; x < size; x++) {
+			positions.set([x / size, options.flat ? 0 : Math.sin(x * y), y / size], (y * size + x) * 3);
+		}
+	}
+	const indices = new Uint32Array((size - 1) * (size - 1) * 6);
+	let i = 0;
+	for (let y = 0; y < size - 1; y++) {
+		for (let x = 0; x < size - 1; x++) {
+			const a: number = y * size + x;
+			indices.set([a, a + 1, a + size, a + 1, a + size + 1, a + size], i);
+			i += 6;
+		}
+	}
+	const primitive = doc
+		.createPrimitive()
+		.setAttribute('POSITION', doc.createAccessor().setType('VEC3').setArray(positions).setBuffer(buffer))
+		.setIndices(doc.createAccessor().setType('SCALAR').setArray(indices).setBuffer(buffer));
+	const mesh = doc.createMesh('grid').addPrimitive(primitive);
+	doc.createScene().addChild(doc.createNode('grid').setMesh(mesh));
+	return doc;
+}
+
+/** A `size`×`size` PNG of one color, with an alpha channel when `alpha` is below 1. */
+export async function solidPng(size: number, alpha: number = 1): Promise<Uint8Array> {
+	const channels = alpha < 1 ? 4 : 3;
+	const background = { r: 200, g: 120, b: 40, alpha };
+	return sharp({ create: { width: size, height: size, channels, background } })
+		.png()
+		.toBuffer();
+}
+
+/**
+ * A document with one triangle whose material uses a `size`×`size` PNG in
+ * each of its `baseColor`, `normal`, and `occlusion` slots. Textures are
+ * named after their slot. With `alpha` below 1 the base color has an alpha
+ * channel and the material blends.
+ */
+export async function texturedDocument(
+	size: number,
+	options: { alpha?: number } = {},
+): Promise<{ doc: Document; textures: Record<'baseColor' | 'normal' | 'occlusion', Texture> }> {
+	const doc = new Document();
+	const buffer = doc.createBuffer();
+	const texture = async (name: string, alpha?: number): Promise<Texture> =>
+		doc
+			.createTexture(name)
+			.setMimeType('image/png')
+			.setImage(await solidPng(size, alpha));
+	const textures = {
+		baseColor: await texture('baseColor', options.alpha),
+		normal: await texture('normal'),
+		occlusion: await texture('occlusion'),
+	};
+	const material = doc
+		.createMaterial('textured')
+		.setBaseColorTexture(textures.baseColor)
+		.setNormalTexture(textures.normal)
+		.setOcclusionTexture(textures.occlusion)
+		.setAlphaMode(options.alpha !== undefined && options.alpha < 1 ? 'BLEND' : 'OPAQUE');
+
+	const position = doc
+		.createAccessor()
+		.setType('VEC3')
+		.setArray(new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]))
+		.setBuffer(buffer);
+	const uv = doc
+		.createAccessor()
+		.setType('VEC2')
+		.setArray(new Float32Array([0, 0, 1, 0, 0, 1]))
+		.setBuffer(buffer);
+	const primitive = doc
+		.createPrimitive()
+		.setAttribute('POSITION', position)
+		.setAttribute('TEXCOORD_0', uv)
+		.setMaterial(material);
+	doc.createScene().addChild(doc.createNode('triangle').setMesh(doc.createMesh('triangle').addPrimitive(primitive)));
+	return { doc, textures };
+}
+
+/**
+ * A document with a two-joint skin, `hip` → `knee`, bound to one node per
+ * entry of `materials`. Node `part<i>` holds a one-triangle mesh, shifted `i`
+ * along X, with the material of that name; vertices are weighted half to each
+ * joint.
+ *
+ * @returns The document, the skin, and the skinned nodes.
+ */
+export function skinnedDocument(materials: string[] = ['skin']): { doc: Document; skin: Skin; parts: Node[] } {
+	const doc = new Document();
+	const buffer = doc.createBuffer();
+	const scene = doc.createScene();
+	const knee = doc.createNode('knee').setTranslation([0, 1, 0]);
+	const hip = doc.createNode('hip').addChild(knee);
+	scene.addChild(hip);
+	const inverseBind = doc
+		.createAccessor()
+		.setType('MAT4')
+		.setArray(
+			new Float32Array([
+				1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, -1, 0, 1,
+			]),
+		)
+		.setBuffer(buffer);
+	const skin = doc.createSkin('rig').addJoint(hip).addJoint(knee).setSkeleton(hip).setInverseBindMatrices(inverseBind);
+
+	const byName = new Map<string, Material>();
+	const parts: Node[] = materials.map((name, i) => {
+		const material: Material = byName.get(name) ?? doc.createMaterial(name);
+		byName.set(name, material);
+		const attribute = (type: GLTF.AccessorType, array: TypedArray) =>
+			doc.createAccessor().setType(type).setArray(array).setBuffer(buffer);
+		const primitive = doc
+			.createPrimitive()
+			.setAttribute('POSITION', attribute('VEC3', new Float32Array([i, 0, 0, i + 1, 0, 0, i, 1, 0])))
+			.setAttribute('JOINTS_0', attribute('VEC4', new Uint16Array([0, 1, 0, 0, 0, 1, 0, 0, 0, 1, 0, 0])))
+			.setAttribute('WEIGHTS_0', attribute('VEC4', new Float32Array([0.5, 0.5, 0, 0, 0.5, 0.5, 0, 0, 0.5, 0.5, 0, 0])))
+			.setMaterial(material);
+		const node = doc
+			.createNode(`part${i}`)
+			.setMesh(doc.createMesh(`part${i}`).addPrimitive(primitive))
+			.setSkin(skin);
+		scene.addChild(node);
+		return node;
+	});
+	return { doc, skin, parts };
+}
+
+/** Write a document as GLB bytes. */
+export function writeGlb(doc: Document): Promise<Uint8Array> {
+	return new NodeIO().writeBinary(doc);
+}
+
+/** Server result metadata for a `size`-byte output, with the report of a small real compression. */
+export async function jobResult(size: number): Promise<JobResult> {
+	const { report } = await compress(await writeGlb(gridDocument(4)), { backend: 'meshopt', quiet: true });
+	return {
+		filename: 'model.glb',
+		contentType: 'model/gltf-binary',
+		size,
+		method: 'meshopt',
+		ratio: '50.0',
+		report,
+	};
+}